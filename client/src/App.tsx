@@ -12,6 +12,7 @@ import ConversationView from "@/pages/ConversationView";
 import Supporters from "@/pages/Supporters";
 import AuthPage from "@/pages/Auth";
 import Demo from "@/pages/Demo";
+import VerifyEmail from "@/pages/VerifyEmail";
 import NotFound from "@/pages/not-found";
 
 function ProtectedRoute({ component: Component }: { component: React.ComponentType }) {
@@ -38,6 +39,7 @@ function Router() {
       <Route path="/" component={Home} />
       <Route path="/auth" component={AuthPage} />
       <Route path="/demo" component={Demo} />
+      <Route path="/verify-email" component={VerifyEmail} />
       <Route path="/dashboard">{() => <ProtectedRoute component={Dashboard} />}</Route>
       <Route path="/supporters">{() => <ProtectedRoute component={Supporters} />}</Route>
       <Route path="/conversation/:id">
@@ -0,0 +1,84 @@
+import type { Audience } from "@shared/schema";
+import { useCircles } from "@/hooks/use-circles";
+import { useSupporters } from "@/hooks/use-supporters";
+import { Checkbox } from "@/components/ui/checkbox";
+
+interface AudiencePickerProps {
+  // undefined shares with every accepted supporter
+  value: Audience | undefined;
+  onChange: (value: Audience | undefined) => void;
+  // Picks from a shared journey's circles and supporters instead of the user's own
+  journeyId?: string;
+}
+
+function toggle<T>(list: T[], item: T, checked: boolean) {
+  return checked ? [...list, item] : list.filter((i) => i !== item);
+}
+
+export function AudiencePicker({ value, onChange, journeyId }: AudiencePickerProps) {
+  const { data: circles = [] } = useCircles(journeyId);
+  const { data: supportersData } = useSupporters(journeyId);
+  const supporters = (supportersData?.mySupporters || []).filter((s) => s.status === "accepted");
+
+  return (
+    <div className="space-y-3">
+      <label className="flex items-center gap-3 text-sm">
+        <Checkbox
+          checked={!value}
+          onCheckedChange={(checked) =>
+            onChange(checked ? undefined : { circleIds: [], supporterIds: [] })
+          }
+          data-testid="checkbox-audience-everyone"
+        />
+        {journeyId ? "All supporters of this journey" : "All my supporters"}
+      </label>
+
+      {value && (
+        <div className="grid grid-cols-2 gap-4 pl-7">
+          <div className="space-y-2">
+            <p className="text-xs font-bold uppercase tracking-wider text-muted-foreground">
+              Circles
+            </p>
+            {circles.length > 0 ? (
+              circles.map((circle) => (
+                <label key={circle.id} className="flex items-center gap-3 text-sm">
+                  <Checkbox
+                    checked={value.circleIds.includes(circle.id)}
+                    onCheckedChange={(checked) =>
+                      onChange({
+                        ...value,
+                        circleIds: toggle(value.circleIds, circle.id, checked === true),
+                      })
+                    }
+                  />
+                  {circle.name}
+                </label>
+              ))
+            ) : (
+              <p className="text-sm text-muted-foreground">No circles yet</p>
+            )}
+          </div>
+          <div className="space-y-2">
+            <p className="text-xs font-bold uppercase tracking-wider text-muted-foreground">
+              People
+            </p>
+            {supporters.map((s) => (
+              <label key={s.id} className="flex items-center gap-3 text-sm">
+                <Checkbox
+                  checked={value.supporterIds.includes(s.supporterId)}
+                  onCheckedChange={(checked) =>
+                    onChange({
+                      ...value,
+                      supporterIds: toggle(value.supporterIds, s.supporterId, checked === true),
+                    })
+                  }
+                />
+                {s.supporterName || s.supporterEmail}
+              </label>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,69 @@
+import { useBlockUser } from "@/hooks/use-blocks";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { buttonVariants } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import type { ReactNode } from "react";
+
+interface BlockUserDialogProps {
+  userId: string;
+  name: string;
+  children: ReactNode;
+}
+
+export function BlockUserDialog({ userId, name, children }: BlockUserDialogProps) {
+  const { toast } = useToast();
+  const blockMutation = useBlockUser();
+
+  async function onConfirm() {
+    try {
+      await blockMutation.mutateAsync(userId);
+      toast({
+        title: "Blocked",
+        description: `${name} can no longer invite you, be invited by you or reply to you.`,
+      });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Failed to block this person.";
+      toast({
+        title: "Error",
+        description: errorMessage,
+        variant: "destructive",
+      });
+    }
+  }
+
+  return (
+    <AlertDialog>
+      <AlertDialogTrigger asChild>{children}</AlertDialogTrigger>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Block {name}?</AlertDialogTitle>
+          <AlertDialogDescription>
+            Any connection between your circles ends, and neither of you can invite the other.{" "}
+            {name} can&apos;t reply to your updates or messages, and their messages are hidden from
+            you. They are not told.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel>Cancel</AlertDialogCancel>
+          <AlertDialogAction
+            onClick={onConfirm}
+            disabled={blockMutation.isPending}
+            className={buttonVariants({ variant: "destructive" })}
+          >
+            Block
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
@@ -0,0 +1,188 @@
+import type { BulkInviteResult } from "@shared/schema";
+import { useBulkInvite } from "@/hooks/use-supporters";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { FileUp, Loader2, Users } from "lucide-react";
+import { useRef, useState } from "react";
+import { useToast } from "@/hooks/use-toast";
+
+const STATUS_LABELS: Record<BulkInviteResult["status"], string> = {
+  invited: "Will be invited",
+  already_connected: "Already invited or connected",
+  self: "That's you",
+  blocked: "Blocked",
+  invalid: "No valid email",
+};
+
+export function BulkInviteDialog({ journeyId }: { journeyId?: string } = {}) {
+  const [open, setOpen] = useState(false);
+  const [content, setContent] = useState("");
+  const [message, setMessage] = useState("");
+  // Results of the preview request; set once the member has reviewed the list
+  const [preview, setPreview] = useState<BulkInviteResult[]>();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+  const bulkInvite = useBulkInvite();
+
+  const toInvite = preview?.filter((r) => r.status === "invited").length ?? 0;
+
+  function onOpenChange(next: boolean) {
+    if (!next) {
+      setContent("");
+      setMessage("");
+      setPreview(undefined);
+    }
+    setOpen(next);
+  }
+
+  async function handleFileSelect(e: React.ChangeEvent<HTMLInputElement>) {
+    const file = e.target.files?.[0];
+    if (file) setContent(await file.text());
+    if (fileInputRef.current) fileInputRef.current.value = "";
+  }
+
+  async function submit(isPreview: boolean) {
+    try {
+      const { results } = await bulkInvite.mutateAsync({
+        content,
+        message: message.trim() || undefined,
+        preview: isPreview,
+        journeyId,
+      });
+      if (isPreview) {
+        setPreview(results);
+        return;
+      }
+      const invited = results.filter((r) => r.status === "invited").length;
+      toast({
+        title: "Invitations Sent",
+        description: `Invited ${invited} ${invited === 1 ? "person" : "people"} to your circle.`,
+      });
+      onOpenChange(false);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Failed to invite supporters.";
+      toast({
+        title: "Error",
+        description: errorMessage,
+        variant: "destructive",
+      });
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="gap-2">
+          <Users className="w-4 h-4" />
+          Invite Many
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[560px]">
+        <DialogHeader>
+          <DialogTitle>Invite Several Supporters</DialogTitle>
+          <DialogDescription>
+            Paste email addresses, or upload a CSV or vCard file exported from your contacts.
+            You&apos;ll see who will be invited before anything is sent.
+          </DialogDescription>
+        </DialogHeader>
+
+        {preview ? (
+          <div className="space-y-4">
+            <ul className="max-h-72 overflow-y-auto divide-y rounded-md border">
+              {preview.map((row, index) => (
+                <li key={index} className="flex items-center justify-between gap-3 p-2 text-sm">
+                  <span className="truncate">{row.label}</span>
+                  <Badge
+                    variant={row.status === "invited" ? "default" : "outline"}
+                    className="shrink-0"
+                  >
+                    {STATUS_LABELS[row.status]}
+                  </Badge>
+                </li>
+              ))}
+            </ul>
+            <div className="flex justify-end gap-3">
+              <Button type="button" variant="ghost" onClick={() => setPreview(undefined)}>
+                Back
+              </Button>
+              <Button
+                type="button"
+                onClick={() => submit(false)}
+                disabled={toInvite === 0 || bulkInvite.isPending}
+              >
+                {bulkInvite.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Send {toInvite} {toInvite === 1 ? "Invitation" : "Invitations"}
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label htmlFor="bulk-invite-content">Email Addresses</Label>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  className="gap-2"
+                  onClick={() => fileInputRef.current?.click()}
+                >
+                  <FileUp className="w-4 h-4" />
+                  Upload CSV or vCard
+                </Button>
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  accept=".csv,.vcf,.txt,text/csv,text/vcard,text/plain"
+                  className="hidden"
+                  onChange={handleFileSelect}
+                />
+              </div>
+              <Textarea
+                id="bulk-invite-content"
+                value={content}
+                onChange={(e) => setContent(e.target.value)}
+                placeholder={"ann@example.com\nbob@example.com, cara@example.com"}
+                className="min-h-[150px] resize-none font-mono text-xs"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="bulk-invite-message">Personal Note (optional)</Label>
+              <Textarea
+                id="bulk-invite-message"
+                value={message}
+                onChange={(e) => setMessage(e.target.value)}
+                maxLength={500}
+                placeholder="Let them know why you'd like them in your circle"
+                className="resize-none"
+              />
+            </div>
+            <div className="flex justify-end gap-3">
+              <Button type="button" variant="ghost" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button
+                type="button"
+                onClick={() => submit(true)}
+                disabled={!content.trim() || bulkInvite.isPending}
+              >
+                {bulkInvite.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Preview
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
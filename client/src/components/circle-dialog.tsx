@@ -0,0 +1,211 @@
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { insertCircleSchema, type Circle } from "@shared/schema";
+import { useCreateCircle, useDeleteCircle, useUpdateCircle } from "@/hooks/use-circles";
+import { useSupporters } from "@/hooks/use-supporters";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { Button, buttonVariants } from "@/components/ui/button";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { useState, type ReactNode } from "react";
+import { useToast } from "@/hooks/use-toast";
+
+const schema = insertCircleSchema.extend({
+  name: z.string().trim().min(1, "Name is required").max(50, "Keep the name under 50 characters"),
+});
+
+interface CircleDialogProps {
+  // Edits this circle when given, otherwise creates a new one
+  circle?: Circle;
+  // The shared journey whose supporters the circle groups; the user's own when not given
+  journeyId?: string;
+  children: ReactNode;
+}
+
+export function CircleDialog({ circle, journeyId, children }: CircleDialogProps) {
+  const [open, setOpen] = useState(false);
+  const { toast } = useToast();
+  const { data: supportersData } = useSupporters(journeyId);
+  const createMutation = useCreateCircle();
+  const updateMutation = useUpdateCircle();
+  const isPending = createMutation.isPending || updateMutation.isPending;
+
+  const supporters = (supportersData?.mySupporters || []).filter((s) => s.status === "accepted");
+
+  const form = useForm<z.infer<typeof schema>>({
+    resolver: zodResolver(schema),
+    defaultValues: { name: circle?.name ?? "", supporterIds: circle?.supporterIds ?? [] },
+  });
+
+  function onOpenChange(next: boolean) {
+    if (next) form.reset({ name: circle?.name ?? "", supporterIds: circle?.supporterIds ?? [] });
+    setOpen(next);
+  }
+
+  async function onSubmit(data: z.infer<typeof schema>) {
+    try {
+      if (circle) {
+        await updateMutation.mutateAsync({ id: circle.id, ...data });
+      } else {
+        await createMutation.mutateAsync({ ...data, journeyId });
+      }
+      toast({
+        title: circle ? "Circle Updated" : "Circle Created",
+        description: `${data.name} has ${data.supporterIds.length} supporter(s).`,
+      });
+      setOpen(false);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Failed to save circle.";
+      toast({
+        title: "Error",
+        description: errorMessage,
+        variant: "destructive",
+      });
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogTrigger asChild>{children}</DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{circle ? "Edit Circle" : "New Circle"}</DialogTitle>
+          <DialogDescription>
+            Group supporters so you can choose who sees each update.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Name</FormLabel>
+                  <FormControl>
+                    <Input placeholder="E.g., Family" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="supporterIds"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Supporters</FormLabel>
+                  {supporters.length > 0 ? (
+                    <div className="space-y-2 max-h-60 overflow-y-auto">
+                      {supporters.map((s) => (
+                        <label key={s.id} className="flex items-center gap-3 text-sm">
+                          <Checkbox
+                            checked={field.value.includes(s.supporterId)}
+                            onCheckedChange={(checked) =>
+                              field.onChange(
+                                checked
+                                  ? [...field.value, s.supporterId]
+                                  : field.value.filter((id) => id !== s.supporterId)
+                              )
+                            }
+                          />
+                          {s.supporterName || s.supporterEmail}
+                        </label>
+                      ))}
+                    </div>
+                  ) : (
+                    <p className="text-sm text-muted-foreground">
+                      Supporters appear here once they accept your invitation.
+                    </p>
+                  )}
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="flex justify-end gap-3">
+              <Button type="button" variant="ghost" onClick={() => setOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isPending}>
+                {isPending ? "Saving..." : "Save Circle"}
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export function DeleteCircleDialog({ circle, children }: { circle: Circle; children: ReactNode }) {
+  const { toast } = useToast();
+  const deleteMutation = useDeleteCircle();
+
+  async function onConfirm() {
+    try {
+      await deleteMutation.mutateAsync(circle.id);
+      toast({ title: "Circle Deleted", description: `${circle.name} was deleted.` });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Failed to delete circle.";
+      toast({
+        title: "Error",
+        description: errorMessage,
+        variant: "destructive",
+      });
+    }
+  }
+
+  return (
+    <AlertDialog>
+      <AlertDialogTrigger asChild>{children}</AlertDialogTrigger>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Delete {circle.name}?</AlertDialogTitle>
+          <AlertDialogDescription>
+            Updates shared only with this circle will no longer be visible to its supporters.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel>Cancel</AlertDialogCancel>
+          <AlertDialogAction
+            onClick={onConfirm}
+            disabled={deleteMutation.isPending}
+            className={buttonVariants({ variant: "destructive" })}
+          >
+            Delete
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
@@ -2,6 +2,8 @@ import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { useCreateConversation } from "@/hooks/use-conversations";
+import { versionToETag } from "@shared/routes";
+import { audienceSchema } from "@shared/schema";
 import {
   Dialog,
   DialogContent,
@@ -21,6 +23,7 @@ import {
 } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
+import { AudiencePicker } from "@/components/audience-picker";
 import { Plus, Bold, Italic, Link, ImagePlus, X, Loader2 } from "lucide-react";
 import { useState, useRef } from "react";
 import { useToast } from "@/hooks/use-toast";
@@ -29,9 +32,22 @@ import { queryClient } from "@/lib/queryClient";
 const schema = z.object({
   title: z.string().min(1, "Title is required"),
   initialMessage: z.string().min(1, "Message is required"),
+  audience: audienceSchema
+    .optional()
+    .refine(
+      (audience) => !audience || audience.circleIds.length + audience.supporterIds.length > 0,
+      "Choose at least one circle or person"
+    ),
 });
 
-export function CreateUpdateDialog() {
+interface CreateUpdateDialogProps {
+  // Posts on this member's behalf when given; only their caregivers may do so
+  member?: { id: string; name: string };
+  // Posts to a journey the user shares with other co-members
+  journey?: { id: string; title: string };
+}
+
+export function CreateUpdateDialog({ member, journey }: CreateUpdateDialogProps = {}) {
   const [open, setOpen] = useState(false);
   const [pendingImages, setPendingImages] = useState<File[]>([]);
   const [isUploading, setIsUploading] = useState(false);
@@ -45,6 +61,7 @@ export function CreateUpdateDialog() {
     defaultValues: {
       title: "",
       initialMessage: "",
+      audience: undefined,
     },
   });
 
@@ -99,7 +116,8 @@ export function CreateUpdateDialog() {
   async function onSubmit(data: z.infer<typeof schema>) {
     try {
       setIsUploading(true);
-      const result = await createMutation.mutateAsync(data);
+      const memberId = member?.id ?? journey?.id;
+      const result = await createMutation.mutateAsync(memberId ? { ...data, memberId } : data);
 
       if (pendingImages.length > 0 && result?.id) {
         const formData = new FormData();
@@ -118,7 +136,10 @@ export function CreateUpdateDialog() {
 
           await fetch(`/api/conversations/${result.id}/messages`, {
             method: "POST",
-            headers: { "Content-Type": "application/json" },
+            headers: {
+              "Content-Type": "application/json",
+              "If-Match": versionToETag(result.version),
+            },
             body: JSON.stringify({
               content: updatedMessage,
               images,
@@ -133,7 +154,11 @@ export function CreateUpdateDialog() {
 
       toast({
         title: "Update Published",
-        description: "Your supporters will be notified.",
+        description: member
+          ? `${member.name}'s supporters will be notified.`
+          : journey
+            ? `Supporters of ${journey.title} will be notified.`
+            : "Your supporters will be notified.",
       });
       setOpen(false);
       form.reset();
@@ -152,15 +177,34 @@ export function CreateUpdateDialog() {
   return (
     <Dialog open={open} onOpenChange={setOpen}>
       <DialogTrigger asChild>
-        <Button className="gap-2 shadow-lg hover:shadow-xl transition-all">
-          <Plus className="w-4 h-4" />
-          Post Update
-        </Button>
+        {member || journey ? (
+          <Button size="sm" variant="outline" className="gap-2">
+            <Plus className="w-4 h-4" />
+            Post Update
+          </Button>
+        ) : (
+          <Button className="gap-2 shadow-lg hover:shadow-xl transition-all">
+            <Plus className="w-4 h-4" />
+            Post Update
+          </Button>
+        )}
       </DialogTrigger>
       <DialogContent className="sm:max-w-[525px]">
         <DialogHeader>
-          <DialogTitle>Share an Update</DialogTitle>
-          <DialogDescription>Let your supporters know how you&apos;re doing.</DialogDescription>
+          <DialogTitle>
+            {member
+              ? `Share an Update for ${member.name}`
+              : journey
+                ? `Share an Update on ${journey.title}`
+                : "Share an Update"}
+          </DialogTitle>
+          <DialogDescription>
+            {member
+              ? `Posted as you, to all of ${member.name}'s supporters.`
+              : journey
+                ? `Posted as you, to the supporters of ${journey.title}.`
+                : "Let your supporters know how you're doing."}
+          </DialogDescription>
         </DialogHeader>
 
         <Form {...form}>
@@ -278,6 +322,24 @@ export function CreateUpdateDialog() {
               )}
             />
 
+            {!member && (
+              <FormField
+                control={form.control}
+                name="audience"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Share with</FormLabel>
+                    <AudiencePicker
+                      value={field.value}
+                      onChange={field.onChange}
+                      journeyId={journey?.id}
+                    />
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+
             <div className="flex justify-end gap-3">
               <Button type="button" variant="ghost" onClick={() => setOpen(false)}>
                 Cancel
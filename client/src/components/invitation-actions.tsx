@@ -0,0 +1,120 @@
+import {
+  useCancelInvitation,
+  useResendInvitation,
+  useUpdateSupporterStatus,
+} from "@/hooks/use-supporters";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { Check, RotateCw, X } from "lucide-react";
+
+interface InvitationActionsProps {
+  supporterId: number;
+  name: string;
+}
+
+// Resend or cancel an invitation the logged-in member sent
+export function InvitationActions({ supporterId, name }: InvitationActionsProps) {
+  const { toast } = useToast();
+  const resendMutation = useResendInvitation();
+  const cancelMutation = useCancelInvitation();
+  const isPending = resendMutation.isPending || cancelMutation.isPending;
+
+  async function run(action: () => Promise<unknown>, title: string, description: string) {
+    try {
+      await action();
+      toast({ title, description });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Something went wrong.";
+      toast({
+        title: "Error",
+        description: errorMessage,
+        variant: "destructive",
+      });
+    }
+  }
+
+  return (
+    <div className="flex items-center gap-1">
+      <Button
+        variant="ghost"
+        size="sm"
+        className="gap-1"
+        disabled={isPending}
+        onClick={() =>
+          run(
+            () => resendMutation.mutateAsync(supporterId),
+            "Invitation Resent",
+            `We reminded ${name} about your invitation.`
+          )
+        }
+      >
+        <RotateCw className="w-4 h-4" />
+        Resend
+      </Button>
+      <Button
+        variant="ghost"
+        size="icon"
+        className="text-destructive hover:bg-destructive/10"
+        aria-label="Cancel invitation"
+        disabled={isPending}
+        onClick={() =>
+          run(
+            () => cancelMutation.mutateAsync(supporterId),
+            "Invitation Cancelled",
+            `${name} can no longer accept your invitation.`
+          )
+        }
+      >
+        <X className="w-4 h-4" />
+      </Button>
+    </div>
+  );
+}
+
+// Accept or decline an invitation to someone else's circle
+export function InvitationResponse({ supporterId, name }: InvitationActionsProps) {
+  const { toast } = useToast();
+  const updateStatus = useUpdateSupporterStatus();
+
+  async function respond(status: "accepted" | "rejected") {
+    try {
+      await updateStatus.mutateAsync({ id: supporterId, status });
+      toast({
+        title: status === "accepted" ? "Invitation Accepted" : "Invitation Declined",
+        description:
+          status === "accepted"
+            ? `You'll now see ${name}'s updates.`
+            : `You won't see ${name}'s updates.`,
+      });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Failed to respond.";
+      toast({
+        title: "Error",
+        description: errorMessage,
+        variant: "destructive",
+      });
+    }
+  }
+
+  return (
+    <div className="flex items-center gap-1">
+      <Button
+        size="sm"
+        className="gap-1"
+        disabled={updateStatus.isPending}
+        onClick={() => respond("accepted")}
+      >
+        <Check className="w-4 h-4" />
+        Accept
+      </Button>
+      <Button
+        variant="ghost"
+        size="sm"
+        disabled={updateStatus.isPending}
+        onClick={() => respond("rejected")}
+      >
+        Decline
+      </Button>
+    </div>
+  );
+}
@@ -1,7 +1,7 @@
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
-import { useInviteSupporter } from "@/hooks/use-supporters";
+import { useInviteSupporter, useInvitations } from "@/hooks/use-supporters";
 import {
   Dialog,
   DialogContent,
@@ -20,32 +20,49 @@ import {
   FormMessage,
 } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
-import { UserPlus } from "lucide-react";
+import { Textarea } from "@/components/ui/textarea";
+import { Mail, UserPlus } from "lucide-react";
+import { format } from "date-fns";
 import { useState } from "react";
 import { useToast } from "@/hooks/use-toast";
 
 const schema = z.object({
   email: z.string().email("Please enter a valid email"),
+  message: z.string().trim().max(500, "Keep the note under 500 characters").optional(),
 });
 
-export function InviteSupporterDialog() {
+// Invites to a shared journey's circle when journeyId is given, otherwise to the user's own
+export function InviteSupporterDialog({ journeyId }: { journeyId?: string } = {}) {
   const [open, setOpen] = useState(false);
   const { toast } = useToast();
   const inviteMutation = useInviteSupporter();
+  const { data: invitations } = useInvitations(journeyId);
 
   const form = useForm<z.infer<typeof schema>>({
     resolver: zodResolver(schema),
-    defaultValues: { email: "" },
+    defaultValues: { email: "", message: "" },
   });
 
   async function onSubmit(data: z.infer<typeof schema>) {
     try {
-      await inviteMutation.mutateAsync(data);
-      toast({
-        title: "Invitation Sent",
-        description: `Invited ${data.email} to support you.`,
+      const result = await inviteMutation.mutateAsync({
+        email: data.email,
+        message: data.message || undefined,
+        journeyId,
       });
-      setOpen(false);
+      if ("supporterId" in result) {
+        toast({
+          title: "Invitation Sent",
+          description: `Invited ${data.email} to support you.`,
+        });
+        setOpen(false);
+      } else {
+        // Keep the dialog open so the new entry shows up under outstanding invitations
+        toast({
+          title: "Invitation Emailed",
+          description: `${data.email} doesn't have an account yet, so we emailed them a link to join your circle.`,
+        });
+      }
       form.reset();
     } catch (error) {
       // TYPE11 FIX: Use proper error type checking
@@ -70,7 +87,8 @@ export function InviteSupporterDialog() {
         <DialogHeader>
           <DialogTitle>Invite a Supporter</DialogTitle>
           <DialogDescription>
-            Enter the email address of someone you&apos;d like to invite to your circle.
+            Enter the email address of someone you&apos;d like to invite to your circle. If they
+            don&apos;t have an account yet, we&apos;ll email them a link to sign up.
           </DialogDescription>
         </DialogHeader>
 
@@ -90,6 +108,24 @@ export function InviteSupporterDialog() {
               )}
             />
 
+            <FormField
+              control={form.control}
+              name="message"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Personal Note (optional)</FormLabel>
+                  <FormControl>
+                    <Textarea
+                      placeholder="Let them know why you'd like them in your circle"
+                      className="resize-none"
+                      {...field}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
             <div className="flex justify-end gap-3">
               <Button type="button" variant="ghost" onClick={() => setOpen(false)}>
                 Cancel
@@ -100,6 +136,28 @@ export function InviteSupporterDialog() {
             </div>
           </form>
         </Form>
+
+        {invitations && invitations.length > 0 && (
+          <div className="space-y-2 border-t pt-4">
+            <h4 className="text-sm font-medium">Waiting to join</h4>
+            <ul className="space-y-1">
+              {invitations.map((invitation) => (
+                <li
+                  key={invitation.id}
+                  className="flex items-center justify-between gap-2 text-sm text-muted-foreground"
+                >
+                  <span className="flex items-center gap-2 truncate">
+                    <Mail className="w-4 h-4 shrink-0" />
+                    {invitation.email}
+                  </span>
+                  <span className="shrink-0 text-xs">
+                    expires {format(new Date(invitation.expiresAt), "MMM d")}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
       </DialogContent>
     </Dialog>
   );
@@ -0,0 +1,282 @@
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import type { Journey } from "@shared/schema";
+import {
+  useAddJourneyMember,
+  useCreateJourney,
+  useRemoveJourneyMember,
+  useRenameJourney,
+} from "@/hooks/use-journeys";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { Button, buttonVariants } from "@/components/ui/button";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { useState, type ReactNode } from "react";
+import { useToast } from "@/hooks/use-toast";
+
+const titleSchema = z.object({
+  title: z
+    .string()
+    .trim()
+    .min(1, "Title is required")
+    .max(100, "Keep the title under 100 characters"),
+});
+
+const memberSchema = z.object({
+  email: z.string().email("Please enter a valid email"),
+});
+
+interface JourneyDialogProps {
+  // Renames this journey when given, otherwise starts a new one
+  journey?: Journey;
+  children: ReactNode;
+}
+
+export function JourneyDialog({ journey, children }: JourneyDialogProps) {
+  const [open, setOpen] = useState(false);
+  const { toast } = useToast();
+  const createMutation = useCreateJourney();
+  const renameMutation = useRenameJourney();
+  const isPending = createMutation.isPending || renameMutation.isPending;
+
+  const form = useForm<z.infer<typeof titleSchema>>({
+    resolver: zodResolver(titleSchema),
+    defaultValues: { title: journey?.title ?? "" },
+  });
+
+  function onOpenChange(next: boolean) {
+    if (next) form.reset({ title: journey?.title ?? "" });
+    setOpen(next);
+  }
+
+  async function onSubmit(data: z.infer<typeof titleSchema>) {
+    try {
+      if (journey) {
+        await renameMutation.mutateAsync({ id: journey.id, ...data });
+      } else {
+        await createMutation.mutateAsync(data);
+      }
+      toast({
+        title: journey ? "Journey Renamed" : "Journey Started",
+        description: journey
+          ? `It is now called ${data.title}.`
+          : `Add co-members to ${data.title} so they can post too.`,
+      });
+      setOpen(false);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Failed to save journey.";
+      toast({
+        title: "Error",
+        description: errorMessage,
+        variant: "destructive",
+      });
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogTrigger asChild>{children}</DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{journey ? "Rename Journey" : "New Shared Journey"}</DialogTitle>
+          <DialogDescription>
+            A journey you share with family, like two parents posting about their child. Every
+            co-member can post updates and manage its supporters.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+            <FormField
+              control={form.control}
+              name="title"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Title</FormLabel>
+                  <FormControl>
+                    <Input placeholder="E.g., Sam's recovery" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="flex justify-end gap-3">
+              <Button type="button" variant="ghost" onClick={() => setOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isPending}>
+                {isPending ? "Saving..." : "Save Journey"}
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+interface AddCoMemberDialogProps {
+  journey: Journey;
+  children: ReactNode;
+}
+
+export function AddCoMemberDialog({ journey, children }: AddCoMemberDialogProps) {
+  const [open, setOpen] = useState(false);
+  const { toast } = useToast();
+  const addMutation = useAddJourneyMember();
+
+  const form = useForm<z.infer<typeof memberSchema>>({
+    resolver: zodResolver(memberSchema),
+    defaultValues: { email: "" },
+  });
+
+  async function onSubmit(data: z.infer<typeof memberSchema>) {
+    try {
+      await addMutation.mutateAsync({ id: journey.id, ...data });
+      toast({
+        title: "Co-member Added",
+        description: `${data.email} can now post to ${journey.title}.`,
+      });
+      form.reset();
+      setOpen(false);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Failed to add co-member.";
+      toast({
+        title: "Error",
+        description: errorMessage,
+        variant: "destructive",
+      });
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>{children}</DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Add a Co-member</DialogTitle>
+          <DialogDescription>
+            They need a verified account. Co-members can post updates, upload images and manage the
+            supporters of {journey.title}.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+            <FormField
+              control={form.control}
+              name="email"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Email Address</FormLabel>
+                  <FormControl>
+                    <Input placeholder="partner@example.com" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="flex justify-end gap-3">
+              <Button type="button" variant="ghost" onClick={() => setOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={addMutation.isPending}>
+                {addMutation.isPending ? "Adding..." : "Add Co-member"}
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+interface RemoveCoMemberDialogProps {
+  journey: Journey;
+  userId: string;
+  name: string;
+  // The logged-in user leaving rather than removing someone else
+  isSelf: boolean;
+  children: ReactNode;
+}
+
+export function RemoveCoMemberDialog({
+  journey,
+  userId,
+  name,
+  isSelf,
+  children,
+}: RemoveCoMemberDialogProps) {
+  const { toast } = useToast();
+  const removeMutation = useRemoveJourneyMember();
+
+  async function onConfirm() {
+    try {
+      const { message } = await removeMutation.mutateAsync({ id: journey.id, userId });
+      toast({ title: isSelf ? "Left Journey" : "Co-member Removed", description: message });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Failed to remove co-member.";
+      toast({
+        title: "Error",
+        description: errorMessage,
+        variant: "destructive",
+      });
+    }
+  }
+
+  return (
+    <AlertDialog>
+      <AlertDialogTrigger asChild>{children}</AlertDialogTrigger>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>
+            {isSelf ? `Leave ${journey.title}?` : `Remove ${name} from ${journey.title}?`}
+          </AlertDialogTitle>
+          <AlertDialogDescription>
+            {isSelf
+              ? "You will no longer be able to post to it or manage its supporters."
+              : `${name} will no longer be able to post to it or manage its supporters.`}
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel>Cancel</AlertDialogCancel>
+          <AlertDialogAction
+            onClick={onConfirm}
+            disabled={removeMutation.isPending}
+            className={buttonVariants({ variant: "destructive" })}
+          >
+            {isSelf ? "Leave" : "Remove"}
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
@@ -0,0 +1,94 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { render, screen, waitFor } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import { MessageThread } from "./message-thread";
+import type { Message } from "@shared/schema";
+
+const { addMessage } = vi.hoisted(() => ({ addMessage: vi.fn() }));
+
+vi.mock("@/hooks/use-auth", () => ({
+  useAuth: () => ({
+    user: { id: "member-1", blockedUserIds: [] },
+    isLoading: false,
+  }),
+}));
+
+vi.mock("@/hooks/use-conversations", () => ({
+  useAddMessage: () => ({ mutateAsync: addMessage, isPending: false }),
+  useEditMessage: () => ({ mutateAsync: vi.fn(), isPending: false }),
+  useDeleteMessage: () => ({ mutateAsync: vi.fn(), isPending: false }),
+  useReaction: () => ({ mutateAsync: vi.fn(), isPending: false }),
+}));
+
+vi.mock("@/hooks/use-blocks", () => ({
+  useReport: () => ({ mutateAsync: vi.fn(), isPending: false }),
+  useBlockUser: () => ({ mutateAsync: vi.fn(), isPending: false }),
+}));
+
+const message = (id: string, replies: Message[] = []): Message => ({
+  id,
+  authorId: "supporter-1",
+  authorName: "Sam",
+  content: `Message ${id}`,
+  timestamp: "2026-01-01T12:00:00.000Z",
+  replies,
+});
+
+// Each reply nested under the one before it, one level deeper than replies start collapsed
+const thread = message("root", [
+  message("reply-1", [message("reply-2", [message("reply-3", [message("reply-4")])])]),
+]);
+
+describe("MessageThread", () => {
+  beforeEach(() => {
+    addMessage.mockReset();
+  });
+
+  it("should collapse deeply nested replies and expand them on request", async () => {
+    const user = userEvent.setup();
+    render(<MessageThread conversationId={1} message={thread} canReply isMember />);
+
+    expect(screen.getByTestId("message-reply-3")).toBeInTheDocument();
+    expect(screen.queryByTestId("message-reply-4")).not.toBeInTheDocument();
+
+    const showNested = screen.getByTestId("button-toggle-replies-reply-3");
+    expect(showNested).toHaveAttribute("aria-expanded", "false");
+    expect(showNested).toHaveTextContent("Show 1 reply");
+    await user.click(showNested);
+    expect(screen.getByTestId("message-reply-4")).toBeInTheDocument();
+    expect(showNested).toHaveAttribute("aria-expanded", "true");
+
+    const hideAll = screen.getByTestId("button-toggle-replies-root");
+    expect(hideAll).toHaveTextContent("Hide 4 replies");
+    await user.click(hideAll);
+    expect(screen.queryByTestId("message-reply-1")).not.toBeInTheDocument();
+    expect(screen.getByTestId("button-toggle-replies-root")).toHaveTextContent("Show 4 replies");
+  });
+
+  it("should send an inline reply to the message it was opened under", async () => {
+    const user = userEvent.setup();
+    addMessage.mockResolvedValue(undefined);
+    render(<MessageThread conversationId={1} message={thread} canReply isMember />);
+
+    await user.click(screen.getByTestId("button-reply-reply-2"));
+    const input = screen.getByTestId("input-reply-reply-2");
+    expect(screen.getByTestId("button-send-reply-reply-2")).toBeDisabled();
+    await user.type(input, "Thinking of you");
+    await user.click(screen.getByTestId("button-send-reply-reply-2"));
+
+    expect(addMessage).toHaveBeenCalledWith({
+      content: "Thinking of you",
+      parentMessageId: "reply-2",
+    });
+    await waitFor(() => {
+      expect(screen.queryByTestId("input-reply-reply-2")).not.toBeInTheDocument();
+    });
+  });
+
+  it("should not offer replies to viewers", () => {
+    render(<MessageThread conversationId={1} message={thread} canReply={false} isMember={false} />);
+
+    expect(screen.getByTestId("message-root")).toBeInTheDocument();
+    expect(screen.queryByTestId("button-reply-root")).not.toBeInTheDocument();
+  });
+});
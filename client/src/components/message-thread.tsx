@@ -0,0 +1,521 @@
+import { useAuth } from "@/hooks/use-auth";
+import { useAddMessage, useDeleteMessage, useEditMessage } from "@/hooks/use-conversations";
+import { ReportDialog } from "@/components/report-dialog";
+import { BlockUserDialog } from "@/components/block-user-dialog";
+import { ReactionBar } from "@/components/reaction-bar";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Button, buttonVariants } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { format } from "date-fns";
+import {
+  Loader2,
+  UserCircle,
+  Flag,
+  Ban,
+  Reply,
+  ChevronDown,
+  ChevronRight,
+  Send,
+  Pencil,
+  Trash2,
+} from "lucide-react";
+import { Fragment, useState, type ReactNode } from "react";
+import { cn } from "@/lib/utils";
+import { motion } from "framer-motion";
+import ReactMarkdown from "react-markdown";
+import { useToast } from "@/hooks/use-toast";
+import type { Message } from "@shared/schema";
+
+// Replies nested deeper than this are no longer indented, and start collapsed
+const MAX_THREAD_DEPTH = 3;
+
+/** How many replies sit under a message, counting nested ones */
+export function countReplies(message: Message): number {
+  return (message.replies || []).reduce((total, reply) => total + 1 + countReplies(reply), 0);
+}
+
+function byTimestamp(a: Message, b: Message) {
+  return new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime();
+}
+
+/** Whether someone else posted the message after lastVisit; nothing counts on a first visit */
+export function isNewSince(message: Message, lastVisit: string | undefined, userId?: string) {
+  return (
+    !!lastVisit &&
+    !message.deleted &&
+    message.authorId !== userId &&
+    new Date(message.timestamp) > new Date(lastVisit)
+  );
+}
+
+export function NewSinceDivider() {
+  return (
+    <div
+      className="flex items-center gap-3 text-xs font-medium text-accent"
+      data-testid="divider-new-since-last-visit"
+    >
+      <span className="h-px flex-1 bg-accent/30" />
+      New since your last visit
+      <span className="h-px flex-1 bg-accent/30" />
+    </div>
+  );
+}
+
+interface MessageEditFormProps {
+  conversationId: number;
+  message: Message;
+  onDone: () => void;
+}
+
+/** Inline form replacing a message's content; the server keeps the old content as history */
+export function MessageEditForm({ conversationId, message, onDone }: MessageEditFormProps) {
+  const [content, setContent] = useState(message.content);
+  const editMutation = useEditMessage(conversationId);
+  const { toast } = useToast();
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    try {
+      await editMutation.mutateAsync({ messageId: message.id, content });
+      onDone();
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Failed to edit message.";
+      toast({
+        title: "Error",
+        description: errorMessage,
+        variant: "destructive",
+      });
+    }
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-2 not-prose">
+      <Textarea
+        autoFocus
+        value={content}
+        onChange={(e) => setContent(e.target.value)}
+        className="min-h-[80px] resize-none bg-stone-50 border-stone-200 focus:bg-white transition-colors"
+        data-testid={`input-edit-${message.id}`}
+      />
+      <div className="flex justify-end gap-2">
+        <Button type="button" variant="ghost" size="sm" onClick={onDone}>
+          Cancel
+        </Button>
+        <Button
+          type="submit"
+          size="sm"
+          disabled={content === message.content || editMutation.isPending}
+          data-testid={`button-save-edit-${message.id}`}
+        >
+          {editMutation.isPending && <Loader2 className="w-4 h-4 animate-spin mr-2" />}
+          Save
+        </Button>
+      </div>
+    </form>
+  );
+}
+
+/** "edited" marker that opens the earlier versions of a message */
+export function EditedMarker({ message }: { message: Message }) {
+  if (!message.editedAt) return null;
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button
+          type="button"
+          className="text-xs text-stone-400 hover:underline"
+          title={`Edited ${format(new Date(message.editedAt), "MMM d, h:mm a")}`}
+          data-testid={`button-edit-history-${message.id}`}
+        >
+          (edited)
+        </button>
+      </PopoverTrigger>
+      <PopoverContent className="w-80 max-h-80 overflow-y-auto">
+        <p className="text-sm font-medium text-stone-900 mb-3">Earlier versions</p>
+        <ol className="space-y-3 text-sm text-stone-600">
+          {(message.editHistory || []).map((edit, idx) => (
+            <li key={idx} className="border-l-2 border-stone-100 pl-3">
+              <span className="block text-xs text-stone-400">
+                Until {format(new Date(edit.editedAt), "MMM d, h:mm a")}
+              </span>
+              <span className="whitespace-pre-wrap">{edit.content}</span>
+            </li>
+          ))}
+        </ol>
+      </PopoverContent>
+    </Popover>
+  );
+}
+
+interface DeleteMessageDialogProps {
+  conversationId: number;
+  message: Message;
+  children: ReactNode;
+}
+
+function DeleteMessageDialog({ conversationId, message, children }: DeleteMessageDialogProps) {
+  const deleteMutation = useDeleteMessage(conversationId);
+  const { toast } = useToast();
+  const hasReplies = countReplies(message) > 0;
+
+  async function onConfirm() {
+    try {
+      await deleteMutation.mutateAsync(message.id);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Failed to delete message.";
+      toast({
+        title: "Error",
+        description: errorMessage,
+        variant: "destructive",
+      });
+    }
+  }
+
+  return (
+    <AlertDialog>
+      <AlertDialogTrigger asChild>{children}</AlertDialogTrigger>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Delete this message?</AlertDialogTitle>
+          <AlertDialogDescription>
+            {hasReplies
+              ? "Its replies stay, under a note that the message was deleted."
+              : "It will be removed for everyone."}
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel>Cancel</AlertDialogCancel>
+          <AlertDialogAction
+            onClick={onConfirm}
+            disabled={deleteMutation.isPending}
+            className={buttonVariants({ variant: "destructive" })}
+          >
+            Delete
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
+
+interface ReplyComposerProps {
+  conversationId: number;
+  parent: Message;
+  onDone: () => void;
+}
+
+function ReplyComposer({ conversationId, parent, onDone }: ReplyComposerProps) {
+  const [content, setContent] = useState("");
+  const addMessageMutation = useAddMessage(conversationId);
+  const { toast } = useToast();
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    if (!content.trim()) return;
+
+    try {
+      await addMessageMutation.mutateAsync({ content, parentMessageId: parent.id });
+      setContent("");
+      onDone();
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Failed to send reply.";
+      toast({
+        title: "Error",
+        description: errorMessage,
+        variant: "destructive",
+      });
+    }
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="mt-4 space-y-2">
+      <Textarea
+        autoFocus
+        value={content}
+        onChange={(e) => setContent(e.target.value)}
+        placeholder={`Reply to ${parent.authorName || "this message"}...`}
+        className="min-h-[80px] resize-none bg-stone-50 border-stone-200 focus:bg-white transition-colors"
+        data-testid={`input-reply-${parent.id}`}
+      />
+      <div className="flex justify-end gap-2">
+        <Button type="button" variant="ghost" size="sm" onClick={onDone}>
+          Cancel
+        </Button>
+        <Button
+          type="submit"
+          size="sm"
+          disabled={!content.trim() || addMessageMutation.isPending}
+          data-testid={`button-send-reply-${parent.id}`}
+        >
+          {addMessageMutation.isPending ? (
+            <Loader2 className="w-4 h-4 animate-spin mr-2" />
+          ) : (
+            <Send className="w-4 h-4 mr-2" />
+          )}
+          Reply
+        </Button>
+      </div>
+    </form>
+  );
+}
+
+interface MessageThreadProps {
+  conversationId: number;
+  message: Message;
+  // False for viewers, who may read but not reply
+  canReply: boolean;
+  // The member (or a co-member) may delete anyone's message
+  isMember: boolean;
+  // When the user last opened the update; replies posted since get a divider
+  lastVisit?: string;
+  depth?: number;
+}
+
+/** A message with its replies beneath it, each of which is a thread in turn */
+export function MessageThread({
+  conversationId,
+  message,
+  canReply,
+  isMember,
+  lastVisit,
+  depth = 0,
+}: MessageThreadProps) {
+  const { user } = useAuth();
+  const [isReplying, setIsReplying] = useState(false);
+  const [isEditing, setIsEditing] = useState(false);
+  const [isExpanded, setIsExpanded] = useState(depth < MAX_THREAD_DEPTH);
+  // Set when the user chose to see a message from someone they blocked
+  const [isShown, setIsShown] = useState(false);
+
+  const replies = [...(message.replies || [])].sort(byTimestamp);
+  const replyCount = countReplies(message);
+  const isHidden = user?.blockedUserIds.includes(message.authorId) && !isShown;
+  const isAuthor = message.authorId === user?.id;
+  // Replies under a new message are new too, so only the first of them in an older one is marked
+  const repliesLastVisit = isNewSince(message, lastVisit, user?.id) ? undefined : lastVisit;
+  const firstNewReply = replies.findIndex((reply) => isNewSince(reply, repliesLastVisit, user?.id));
+
+  const repliesToggle = replyCount > 0 && (
+    <Button
+      variant="ghost"
+      size="sm"
+      className="text-stone-500 gap-1.5"
+      onClick={() => setIsExpanded((expanded) => !expanded)}
+      aria-expanded={isExpanded}
+      data-testid={`button-toggle-replies-${message.id}`}
+    >
+      {isExpanded ? (
+        <ChevronDown className="w-3.5 h-3.5" />
+      ) : (
+        <ChevronRight className="w-3.5 h-3.5" />
+      )}
+      {isExpanded ? "Hide" : "Show"} {replyCount} {replyCount === 1 ? "reply" : "replies"}
+    </Button>
+  );
+
+  // A deleted message only remains while replies hang off it
+  const card = message.deleted ? (
+    <div
+      className="flex items-center justify-between gap-4 px-6 py-3 rounded-xl border border-dashed border-stone-200 text-sm text-stone-400"
+      data-testid={`message-deleted-${message.id}`}
+    >
+      <span className="italic">This message was deleted</span>
+      {repliesToggle}
+    </div>
+  ) : isHidden ? (
+    <div
+      className="flex items-center justify-between gap-4 px-6 py-3 rounded-xl border border-dashed border-stone-200 text-sm text-stone-400"
+      data-testid={`message-hidden-${message.id}`}
+    >
+      <span>Hidden — you blocked {message.authorName || "this person"}</span>
+      <Button variant="ghost" size="sm" onClick={() => setIsShown(true)}>
+        Show
+      </Button>
+    </div>
+  ) : (
+    <div
+      className={cn(
+        "flex gap-4 p-6 rounded-xl border bg-white",
+        isAuthor ? "border-stone-200" : "border-stone-100"
+      )}
+      data-testid={`message-${message.id}`}
+    >
+      <div className="shrink-0">
+        <div className="h-10 w-10 rounded-full bg-stone-100 flex items-center justify-center text-stone-500">
+          <UserCircle className="w-6 h-6" />
+        </div>
+      </div>
+      <div className="flex-1 min-w-0">
+        <div className="flex justify-between items-baseline mb-2 gap-2 flex-wrap">
+          <span className="font-bold text-stone-900">{message.authorName || "Supporter"}</span>
+          <div className="flex items-center gap-1">
+            <span className="text-xs text-stone-400">
+              {format(new Date(message.timestamp), "MMM d, h:mm a")}
+            </span>
+            <EditedMarker message={message} />
+            {isAuthor && (
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7 text-stone-400"
+                onClick={() => setIsEditing(true)}
+                aria-label="Edit message"
+                title="Edit message"
+              >
+                <Pencil className="w-3.5 h-3.5" />
+              </Button>
+            )}
+            {(isAuthor || isMember) && (
+              <DeleteMessageDialog conversationId={conversationId} message={message}>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7 text-stone-400"
+                  aria-label="Delete message"
+                  title="Delete message"
+                >
+                  <Trash2 className="w-3.5 h-3.5" />
+                </Button>
+              </DeleteMessageDialog>
+            )}
+            {!isAuthor && (
+              <>
+                <ReportDialog
+                  name={message.authorName || "this person"}
+                  target={{ conversationId, messageId: message.id }}
+                >
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7 text-stone-400"
+                    aria-label="Report message"
+                    title="Report message"
+                  >
+                    <Flag className="w-3.5 h-3.5" />
+                  </Button>
+                </ReportDialog>
+                {!user?.blockedUserIds.includes(message.authorId) && (
+                  <BlockUserDialog
+                    userId={message.authorId}
+                    name={message.authorName || "this person"}
+                  >
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7 text-stone-400"
+                      aria-label="Block this person"
+                      title="Block this person"
+                    >
+                      <Ban className="w-3.5 h-3.5" />
+                    </Button>
+                  </BlockUserDialog>
+                )}
+              </>
+            )}
+          </div>
+        </div>
+        {isEditing ? (
+          <MessageEditForm
+            conversationId={conversationId}
+            message={message}
+            onDone={() => setIsEditing(false)}
+          />
+        ) : (
+          <div className="prose prose-stone prose-sm max-w-none text-stone-600">
+            <ReactMarkdown>{message.content}</ReactMarkdown>
+          </div>
+        )}
+        {message.images && message.images.length > 0 && (
+          <div className="flex flex-wrap gap-3 mt-4">
+            {message.images.map((img: string, idx: number) => (
+              <img
+                key={idx}
+                src={img}
+                alt={`Reply image ${idx + 1}`}
+                className="rounded-lg max-h-48 object-cover border border-stone-200"
+              />
+            ))}
+          </div>
+        )}
+        <div className="mt-3">
+          <ReactionBar conversationId={conversationId} message={message} />
+        </div>
+        <div className="flex items-center gap-1 mt-2 -ml-3">
+          {canReply && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="text-stone-500 gap-1.5"
+              onClick={() => setIsReplying((replying) => !replying)}
+              data-testid={`button-reply-${message.id}`}
+            >
+              <Reply className="w-3.5 h-3.5" />
+              Reply
+            </Button>
+          )}
+          {repliesToggle}
+        </div>
+        {isReplying && (
+          <ReplyComposer
+            conversationId={conversationId}
+            parent={message}
+            onDone={() => {
+              setIsReplying(false);
+              setIsExpanded(true);
+            }}
+          />
+        )}
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="space-y-4">
+      {depth === 0 ? (
+        <motion.div
+          initial={{ opacity: 0, y: 10 }}
+          whileInView={{ opacity: 1, y: 0 }}
+          viewport={{ once: true }}
+        >
+          {card}
+        </motion.div>
+      ) : (
+        card
+      )}
+      {isExpanded && replies.length > 0 && (
+        <div
+          className={cn(
+            "space-y-4",
+            depth < MAX_THREAD_DEPTH && "ml-4 md:ml-8 pl-4 border-l-2 border-stone-100"
+          )}
+        >
+          {replies.map((reply, idx) => (
+            <Fragment key={reply.id}>
+              {idx === firstNewReply && <NewSinceDivider />}
+              <MessageThread
+                conversationId={conversationId}
+                message={reply}
+                canReply={canReply}
+                isMember={isMember}
+                lastVisit={repliesLastVisit}
+                depth={depth + 1}
+              />
+            </Fragment>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,6 +1,7 @@
 import { Link, useLocation } from "wouter";
 import { useAuth } from "@/hooks/use-auth";
 import { Button } from "@/components/ui/button";
+import { VerifyEmailBanner } from "@/components/verify-email-banner";
 import { Sparkles, Menu, X } from "lucide-react";
 import { useState } from "react";
 import { AnimatePresence, motion } from "framer-motion";
@@ -107,6 +108,8 @@ export function Navbar() {
           </motion.div>
         )}
       </AnimatePresence>
+
+      <VerifyEmailBanner />
     </nav>
   );
 }
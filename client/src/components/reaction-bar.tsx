@@ -0,0 +1,122 @@
+import { useAuth } from "@/hooks/use-auth";
+import { useReaction } from "@/hooks/use-conversations";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import { SmilePlus } from "lucide-react";
+import { useState } from "react";
+import { cn } from "@/lib/utils";
+import { useToast } from "@/hooks/use-toast";
+import type { Message, ReactionKind } from "@shared/schema";
+
+export const REACTIONS: { kind: ReactionKind; emoji: string; label: string }[] = [
+  { kind: "heart", emoji: "❤️", label: "Love" },
+  { kind: "hug", emoji: "🤗", label: "Hug" },
+  { kind: "prayer", emoji: "🙏", label: "Praying for you" },
+  { kind: "strength", emoji: "💪", label: "Stay strong" },
+  { kind: "celebrate", emoji: "🎉", label: "Celebrate" },
+];
+
+/** How many reactions a thread has collected, counting nested replies */
+export function countReactions(messages: Message[]): number {
+  return messages.reduce(
+    (total, message) =>
+      total + (message.reactions?.length ?? 0) + countReactions(message.replies || []),
+    0
+  );
+}
+
+interface ReactionBarProps {
+  conversationId: number;
+  message: Message;
+}
+
+/** Counts of each reaction on a message, with who left them; clicking one toggles mine */
+export function ReactionBar({ conversationId, message }: ReactionBarProps) {
+  const { user } = useAuth();
+  const [isPicking, setIsPicking] = useState(false);
+  const reactionMutation = useReaction(conversationId);
+  const { toast } = useToast();
+  const reactions = message.reactions || [];
+
+  async function toggle(kind: ReactionKind) {
+    const reacted = !reactions.some((r) => r.kind === kind && r.userId === user?.id);
+    setIsPicking(false);
+    try {
+      await reactionMutation.mutateAsync({ messageId: message.id, kind, reacted });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Failed to save reaction.";
+      toast({
+        title: "Error",
+        description: errorMessage,
+        variant: "destructive",
+      });
+    }
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-1.5 not-prose">
+      {REACTIONS.map(({ kind, emoji, label }) => {
+        const given = reactions.filter((r) => r.kind === kind);
+        if (given.length === 0) return null;
+        const isMine = given.some((r) => r.userId === user?.id);
+        const names = given.map((r) => (r.userId === user?.id ? "you" : r.userName));
+        return (
+          <Tooltip key={kind}>
+            <TooltipTrigger asChild>
+              <button
+                type="button"
+                onClick={() => toggle(kind)}
+                disabled={reactionMutation.isPending}
+                aria-pressed={isMine}
+                aria-label={`${label}: ${given.length}`}
+                className={cn(
+                  "flex items-center gap-1 rounded-full border px-2 py-0.5 text-sm transition-colors",
+                  isMine
+                    ? "border-primary/40 bg-primary/10 text-primary"
+                    : "border-stone-200 bg-white text-stone-600 hover:bg-stone-50"
+                )}
+                data-testid={`reaction-${kind}-${message.id}`}
+              >
+                <span>{emoji}</span>
+                <span className="text-xs font-medium">{given.length}</span>
+              </button>
+            </TooltipTrigger>
+            <TooltipContent>
+              {label} from {names.join(", ")}
+            </TooltipContent>
+          </Tooltip>
+        );
+      })}
+      <Popover open={isPicking} onOpenChange={setIsPicking}>
+        <PopoverTrigger asChild>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-7 w-7 text-stone-400"
+            aria-label="Add a reaction"
+            title="Add a reaction"
+            data-testid={`button-react-${message.id}`}
+          >
+            <SmilePlus className="w-4 h-4" />
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-auto p-1 flex gap-1" align="start">
+          {REACTIONS.map(({ kind, emoji, label }) => (
+            <Button
+              key={kind}
+              variant="ghost"
+              size="icon"
+              className="text-lg"
+              onClick={() => toggle(kind)}
+              aria-label={label}
+              title={label}
+            >
+              {emoji}
+            </Button>
+          ))}
+        </PopoverContent>
+      </Popover>
+    </div>
+  );
+}
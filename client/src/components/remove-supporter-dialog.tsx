@@ -0,0 +1,78 @@
+import { useRemoveSupporter } from "@/hooks/use-supporters";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { buttonVariants } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import type { ReactNode } from "react";
+
+interface RemoveSupporterDialogProps {
+  supporterId: number;
+  name: string;
+  // "revoke" when the member removes a supporter, "leave" when a supporter leaves a circle
+  mode: "revoke" | "leave";
+  children: ReactNode;
+}
+
+export function RemoveSupporterDialog({
+  supporterId,
+  name,
+  mode,
+  children,
+}: RemoveSupporterDialogProps) {
+  const { toast } = useToast();
+  const removeMutation = useRemoveSupporter();
+
+  async function onConfirm() {
+    try {
+      const result = await removeMutation.mutateAsync(supporterId);
+      toast({
+        title: mode === "revoke" ? "Supporter Removed" : "Left Circle",
+        description: result.message,
+      });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Failed to remove supporter.";
+      toast({
+        title: "Error",
+        description: errorMessage,
+        variant: "destructive",
+      });
+    }
+  }
+
+  return (
+    <AlertDialog>
+      <AlertDialogTrigger asChild>{children}</AlertDialogTrigger>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>
+            {mode === "revoke" ? `Remove ${name}?` : `Leave ${name}'s circle?`}
+          </AlertDialogTitle>
+          <AlertDialogDescription>
+            {mode === "revoke"
+              ? `${name} will immediately lose access to your updates. You can invite them again later.`
+              : `You will immediately lose access to ${name}'s updates until they invite you again.`}
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel>Cancel</AlertDialogCancel>
+          <AlertDialogAction
+            onClick={onConfirm}
+            disabled={removeMutation.isPending}
+            className={buttonVariants({ variant: "destructive" })}
+          >
+            {mode === "revoke" ? "Remove" : "Leave"}
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
@@ -0,0 +1,89 @@
+import { useReport } from "@/hooks/use-blocks";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { Loader2 } from "lucide-react";
+import { useState, type ReactNode } from "react";
+import { useToast } from "@/hooks/use-toast";
+
+interface ReportDialogProps {
+  name: string;
+  // A message is reported together with its conversation; otherwise the person is
+  target: { conversationId: number; messageId: string } | { userId: string };
+  children: ReactNode;
+}
+
+export function ReportDialog({ name, target, children }: ReportDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [reason, setReason] = useState("");
+  const { toast } = useToast();
+  const reportMutation = useReport();
+  const isMessage = "messageId" in target;
+
+  function onOpenChange(next: boolean) {
+    if (!next) setReason("");
+    setOpen(next);
+  }
+
+  async function onSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    try {
+      await reportMutation.mutateAsync({ ...target, reason });
+      toast({
+        title: "Report Sent",
+        description: "Thank you. Someone from SupportSpark will review it.",
+      });
+      onOpenChange(false);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Failed to send report.";
+      toast({
+        title: "Error",
+        description: errorMessage,
+        variant: "destructive",
+      });
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogTrigger asChild>{children}</DialogTrigger>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle>{isMessage ? `Report ${name}'s message` : `Report ${name}`}</DialogTitle>
+          <DialogDescription>
+            Reports are private. {name} is not told who reported them.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={onSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="report-reason">What&apos;s wrong?</Label>
+            <Textarea
+              id="report-reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              maxLength={1000}
+              className="resize-none"
+            />
+          </div>
+          <div className="flex justify-end gap-3">
+            <Button type="button" variant="ghost" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={!reason.trim() || reportMutation.isPending}>
+              {reportMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Send Report
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
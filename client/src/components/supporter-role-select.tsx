@@ -0,0 +1,66 @@
+import type { SupporterRole } from "@shared/schema";
+import { useUpdateSupporterRole } from "@/hooks/use-supporters";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+
+export const ROLE_LABELS: Record<SupporterRole, string> = {
+  viewer: "Viewer",
+  commenter: "Commenter",
+  caregiver: "Caregiver",
+};
+
+const ROLE_DESCRIPTIONS: Record<SupporterRole, string> = {
+  viewer: "Can read updates",
+  commenter: "Can read and reply",
+  caregiver: "Can also post updates for you",
+};
+
+interface SupporterRoleSelectProps {
+  supporterId: number;
+  name: string;
+  role: SupporterRole;
+}
+
+export function SupporterRoleSelect({ supporterId, name, role }: SupporterRoleSelectProps) {
+  const { toast } = useToast();
+  const updateRole = useUpdateSupporterRole();
+
+  async function onChange(next: string) {
+    try {
+      await updateRole.mutateAsync({ id: supporterId, role: next as SupporterRole });
+      toast({
+        title: "Role Updated",
+        description: `${name} is now a ${ROLE_LABELS[next as SupporterRole].toLowerCase()}.`,
+      });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Failed to update role.";
+      toast({
+        title: "Error",
+        description: errorMessage,
+        variant: "destructive",
+      });
+    }
+  }
+
+  return (
+    <Select value={role} onValueChange={onChange} disabled={updateRole.isPending}>
+      <SelectTrigger className="w-36" aria-label={`Role for ${name}`}>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {(Object.keys(ROLE_LABELS) as SupporterRole[]).map((r) => (
+          <SelectItem key={r} value={r}>
+            <span>{ROLE_LABELS[r]}</span>
+            <span className="block text-xs text-muted-foreground">{ROLE_DESCRIPTIONS[r]}</span>
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -0,0 +1,239 @@
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import type { Conversation } from "@shared/schema";
+import {
+  ConversationChangedError,
+  useDeleteConversation,
+  useUpdateConversation,
+} from "@/hooks/use-conversations";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { Button, buttonVariants } from "@/components/ui/button";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Archive, ArchiveRestore, Pencil, Trash2 } from "lucide-react";
+import { useState } from "react";
+import { useLocation } from "wouter";
+import { useToast } from "@/hooks/use-toast";
+
+const titleSchema = z.object({
+  title: z.string().trim().min(1, "Title is required"),
+});
+
+function RenameUpdateDialog({ conversation }: { conversation: Conversation }) {
+  const [open, setOpen] = useState(false);
+  const { toast } = useToast();
+  const updateMutation = useUpdateConversation(conversation.id);
+
+  const form = useForm<z.infer<typeof titleSchema>>({
+    resolver: zodResolver(titleSchema),
+    defaultValues: { title: conversation.title },
+  });
+
+  function onOpenChange(next: boolean) {
+    if (next) form.reset({ title: conversation.title });
+    setOpen(next);
+  }
+
+  async function onSubmit(data: z.infer<typeof titleSchema>) {
+    try {
+      await updateMutation.mutateAsync(data);
+      setOpen(false);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Failed to rename update.";
+      toast({
+        title: "Error",
+        description: errorMessage,
+        variant: "destructive",
+      });
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="sm" className="gap-1.5 text-stone-500">
+          <Pencil className="w-3.5 h-3.5" />
+          Rename
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Rename Update</DialogTitle>
+          <DialogDescription>Supporters will see the new title straight away.</DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+            <FormField
+              control={form.control}
+              name="title"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Title</FormLabel>
+                  <FormControl>
+                    <Input {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="flex justify-end gap-3">
+              <Button type="button" variant="ghost" onClick={() => setOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={updateMutation.isPending}>
+                {updateMutation.isPending ? "Saving..." : "Save Title"}
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function DeleteUpdateDialog({ conversation }: { conversation: Conversation }) {
+  const [open, setOpen] = useState(false);
+  // Set when the update changed under the dialog, so the member confirms against the new version
+  const [changed, setChanged] = useState(false);
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+  const deleteMutation = useDeleteConversation(conversation.id);
+
+  function onOpenChange(next: boolean) {
+    if (next) setChanged(false);
+    setOpen(next);
+  }
+
+  async function onConfirm(e: React.MouseEvent) {
+    // Stay open until the delete is through, to ask again if the update changed meanwhile
+    e.preventDefault();
+    try {
+      const { message } = await deleteMutation.mutateAsync();
+      setOpen(false);
+      toast({ title: "Update Deleted", description: message });
+      setLocation("/dashboard");
+    } catch (error) {
+      if (error instanceof ConversationChangedError) {
+        setChanged(true);
+        return;
+      }
+      setOpen(false);
+      const errorMessage = error instanceof Error ? error.message : "Failed to delete update.";
+      toast({
+        title: "Error",
+        description: errorMessage,
+        variant: "destructive",
+      });
+    }
+  }
+
+  return (
+    <AlertDialog open={open} onOpenChange={onOpenChange}>
+      <AlertDialogTrigger asChild>
+        <Button variant="ghost" size="sm" className="gap-1.5 text-stone-500">
+          <Trash2 className="w-3.5 h-3.5" />
+          Delete
+        </Button>
+      </AlertDialogTrigger>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Delete &quot;{conversation.title}&quot;?</AlertDialogTitle>
+          <AlertDialogDescription>
+            The update, every reply to it and its photos are removed for good. Archive it instead if
+            you only want it off the dashboard.
+          </AlertDialogDescription>
+          {changed && (
+            <p className="text-sm font-medium text-destructive" data-testid="text-update-changed">
+              Someone added to or changed this update since you opened it. Check the latest version
+              and confirm again if you still want to delete it.
+            </p>
+          )}
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel>Cancel</AlertDialogCancel>
+          <AlertDialogAction
+            onClick={onConfirm}
+            disabled={deleteMutation.isPending}
+            className={buttonVariants({ variant: "destructive" })}
+          >
+            Delete Update
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
+
+/** Rename, archive and delete buttons shown to the member on their own update */
+export function UpdateActions({ conversation }: { conversation: Conversation }) {
+  const { toast } = useToast();
+  const updateMutation = useUpdateConversation(conversation.id);
+
+  async function toggleArchived() {
+    try {
+      const updated = await updateMutation.mutateAsync({ archived: !conversation.archived });
+      toast({
+        title: updated.archived ? "Update Archived" : "Update Restored",
+        description: updated.archived
+          ? "It no longer shows on the dashboard, but links to it still work."
+          : "It is back on the dashboard.",
+      });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Failed to save update.";
+      toast({
+        title: "Error",
+        description: errorMessage,
+        variant: "destructive",
+      });
+    }
+  }
+
+  return (
+    <div className="flex items-center gap-1" data-testid="update-actions">
+      <RenameUpdateDialog conversation={conversation} />
+      <Button
+        variant="ghost"
+        size="sm"
+        className="gap-1.5 text-stone-500"
+        onClick={toggleArchived}
+        disabled={updateMutation.isPending}
+      >
+        {conversation.archived ? (
+          <ArchiveRestore className="w-3.5 h-3.5" />
+        ) : (
+          <Archive className="w-3.5 h-3.5" />
+        )}
+        {conversation.archived ? "Unarchive" : "Archive"}
+      </Button>
+      <DeleteUpdateDialog conversation={conversation} />
+    </div>
+  );
+}
@@ -0,0 +1,33 @@
+import { useAuth } from "@/hooks/use-auth";
+import { Button } from "@/components/ui/button";
+import { MailWarning } from "lucide-react";
+
+/**
+ * Reminder shown to logged-in users whose email address is not verified yet
+ * Members can only invite verified accounts, so until then nobody can add them as a supporter
+ */
+export function VerifyEmailBanner() {
+  const { user, resendVerificationMutation } = useAuth();
+
+  if (!user || user.emailVerified) return null;
+
+  return (
+    <div className="border-b bg-amber-50 text-amber-900">
+      <div className="container mx-auto px-4 py-2 flex flex-col sm:flex-row sm:items-center justify-between gap-2 text-sm">
+        <span className="flex items-center gap-2">
+          <MailWarning className="w-4 h-4 shrink-0" />
+          Please confirm your email address ({user.email}) so members can invite you to their
+          circle.
+        </span>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => resendVerificationMutation.mutate()}
+          disabled={resendVerificationMutation.isPending}
+        >
+          {resendVerificationMutation.isPending ? "Sending..." : "Resend link"}
+        </Button>
+      </div>
+    </div>
+  );
+}
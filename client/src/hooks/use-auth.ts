@@ -31,7 +31,10 @@ export function useAuth() {
   });
 
   const loginMutation = useMutation({
-    mutationFn: async (credentials: Pick<InsertUser, "email" | "password">) => {
+    // inviteToken accepts the invitation link the user arrived with
+    mutationFn: async (
+      credentials: Pick<InsertUser, "email" | "password"> & { inviteToken?: string }
+    ) => {
       const res = await apiRequest("POST", "/api/login", credentials);
       return await res.json();
     },
@@ -52,7 +55,7 @@ export function useAuth() {
   });
 
   const registerMutation = useMutation({
-    mutationFn: async (credentials: InsertUser) => {
+    mutationFn: async (credentials: InsertUser & { inviteToken?: string }) => {
       const res = await apiRequest("POST", "/api/register", credentials);
       return await res.json();
     },
@@ -92,6 +95,70 @@ export function useAuth() {
     },
   });
 
+  const forgotPasswordMutation = useMutation({
+    mutationFn: async (input: Pick<InsertUser, "email">) => {
+      const res = await apiRequest("POST", "/api/password/forgot", input);
+      return (await res.json()) as { message: string };
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Could not send reset link",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const resetPasswordMutation = useMutation({
+    mutationFn: async (input: { token: string; password: string }) => {
+      const res = await apiRequest("POST", "/api/password/reset", input);
+      return (await res.json()) as { message: string };
+    },
+    onSuccess: () => {
+      toast({
+        title: "Password reset",
+        description: "Log in with your new password.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Password reset failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const verifyEmailMutation = useMutation({
+    mutationFn: async (input: { token: string }) => {
+      const res = await apiRequest("POST", "/api/email/verify", input);
+      return (await res.json()) as { message: string };
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/user"] });
+    },
+  });
+
+  const resendVerificationMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/email/verify/resend");
+      return (await res.json()) as { message: string };
+    },
+    onSuccess: (data) => {
+      toast({
+        title: "Verification email sent",
+        description: data.message,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Could not send verification email",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
   return {
     user,
     isLoading,
@@ -99,5 +166,9 @@ export function useAuth() {
     loginMutation,
     registerMutation,
     logoutMutation,
+    forgotPasswordMutation,
+    resetPasswordMutation,
+    verifyEmailMutation,
+    resendVerificationMutation,
   };
 }
@@ -0,0 +1,75 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { api, buildUrl } from "@shared/routes";
+import { z } from "zod";
+
+async function errorMessage(res: Response, fallback: string) {
+  const body = await res.json().catch(() => undefined);
+  return body?.message || fallback;
+}
+
+// Blocking changes the user's block list and may end supporter relationships
+function invalidateAfterBlock(queryClient: ReturnType<typeof useQueryClient>) {
+  queryClient.invalidateQueries({ queryKey: [api.blocks.list.path] });
+  queryClient.invalidateQueries({ queryKey: ["/api/auth/user"] });
+  queryClient.invalidateQueries({ queryKey: [api.supporters.list.path] });
+  queryClient.invalidateQueries({ queryKey: [api.conversations.list.path] });
+}
+
+// People the logged-in user has blocked
+export function useBlocks() {
+  return useQuery({
+    queryKey: [api.blocks.list.path],
+    queryFn: async () => {
+      const res = await fetch(api.blocks.list.path, { credentials: "include" });
+      if (!res.ok) throw new Error("Failed to fetch blocked people");
+      return api.blocks.list.responses[200].parse(await res.json());
+    },
+  });
+}
+
+export function useBlockUser() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (userId: string) => {
+      const res = await fetch(api.blocks.create.path, {
+        method: api.blocks.create.method,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ userId }),
+        credentials: "include",
+      });
+      if (!res.ok) throw new Error(await errorMessage(res, "Failed to block this person"));
+      return api.blocks.create.responses[201].parse(await res.json());
+    },
+    onSuccess: () => invalidateAfterBlock(queryClient),
+  });
+}
+
+export function useUnblockUser() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (userId: string) => {
+      const res = await fetch(buildUrl(api.blocks.delete.path, { userId }), {
+        method: api.blocks.delete.method,
+        credentials: "include",
+      });
+      if (!res.ok) throw new Error(await errorMessage(res, "Failed to unblock this person"));
+      return api.blocks.delete.responses[200].parse(await res.json());
+    },
+    onSuccess: () => invalidateAfterBlock(queryClient),
+  });
+}
+
+export function useReport() {
+  return useMutation({
+    mutationFn: async (data: z.infer<typeof api.reports.create.input>) => {
+      const res = await fetch(api.reports.create.path, {
+        method: api.reports.create.method,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(data),
+        credentials: "include",
+      });
+      if (!res.ok) throw new Error(await errorMessage(res, "Failed to send report"));
+      return api.reports.create.responses[201].parse(await res.json());
+    },
+  });
+}
@@ -0,0 +1,81 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { api, buildUrl } from "@shared/routes";
+import { z } from "zod";
+import { withJourney } from "@/hooks/use-journeys";
+
+async function errorMessage(res: Response, fallback: string) {
+  const body = await res.json().catch(() => undefined);
+  return body?.message || fallback;
+}
+
+// The logged-in member's circles, or with journeyId those of a journey they share
+export function useCircles(journeyId?: string) {
+  return useQuery({
+    queryKey: [api.circles.list.path, journeyId],
+    queryFn: async () => {
+      const res = await fetch(withJourney(api.circles.list.path, journeyId), {
+        credentials: "include",
+      });
+      if (!res.ok) throw new Error("Failed to fetch circles");
+      return api.circles.list.responses[200].parse(await res.json());
+    },
+  });
+}
+
+export function useCreateCircle() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (data: z.infer<typeof api.circles.create.input>) => {
+      const res = await fetch(api.circles.create.path, {
+        method: api.circles.create.method,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(data),
+        credentials: "include",
+      });
+      if (!res.ok) throw new Error(await errorMessage(res, "Failed to create circle"));
+      return api.circles.create.responses[201].parse(await res.json());
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [api.circles.list.path] });
+    },
+  });
+}
+
+export function useUpdateCircle() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({
+      id,
+      ...data
+    }: { id: number } & z.infer<typeof api.circles.update.input>) => {
+      const res = await fetch(buildUrl(api.circles.update.path, { id }), {
+        method: api.circles.update.method,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(data),
+        credentials: "include",
+      });
+      if (!res.ok) throw new Error(await errorMessage(res, "Failed to update circle"));
+      return api.circles.update.responses[200].parse(await res.json());
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [api.circles.list.path] });
+    },
+  });
+}
+
+export function useDeleteCircle() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (id: number) => {
+      const res = await fetch(buildUrl(api.circles.delete.path, { id }), {
+        method: api.circles.delete.method,
+        credentials: "include",
+      });
+      if (!res.ok) throw new Error("Failed to delete circle");
+      return api.circles.delete.responses[200].parse(await res.json());
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [api.circles.list.path] });
+    },
+  });
+}
@@ -0,0 +1,159 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { renderHook, waitFor } from "@testing-library/react";
+import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
+import type { ReactNode } from "react";
+import { api, versionToETag } from "@shared/routes";
+import type { Conversation } from "@shared/schema";
+import {
+  ConversationChangedError,
+  useAddMessage,
+  useDeleteConversation,
+  useDeleteMessage,
+  useEditMessage,
+  useUpdateConversation,
+} from "./use-conversations";
+
+const fetchMock = vi.fn();
+
+const conversation = (version: number): Conversation => ({
+  id: 1,
+  memberId: "member-1",
+  title: "Surgery went well",
+  data: {
+    messages: [
+      {
+        id: "msg-1",
+        authorId: "member-1",
+        authorName: "Morgan",
+        content: `Version ${version}`,
+        timestamp: "2026-01-01T12:00:00.000Z",
+      },
+    ],
+  },
+  createdAt: "2026-01-01T12:00:00.000Z",
+  version,
+});
+
+const respond = (status: number, body: unknown) => ({
+  ok: status < 400,
+  status,
+  json: async () => body,
+});
+
+const conflict = () => respond(412, { message: "This update was changed by someone else" });
+
+// Renders the hook against a cache that already holds version 1 of the conversation
+function renderWrite<T>(hook: () => T) {
+  const queryClient = new QueryClient({
+    defaultOptions: { queries: { retry: false }, mutations: { retry: false } },
+  });
+  queryClient.setQueryData([api.conversations.get.path, 1], conversation(1));
+  const wrapper = ({ children }: { children: ReactNode }) => (
+    <QueryClientProvider client={queryClient}>{children}</QueryClientProvider>
+  );
+  return { queryClient, ...renderHook(hook, { wrapper }) };
+}
+
+const ifMatch = (call: number) => fetchMock.mock.calls[call][1].headers["If-Match"];
+
+describe("Conversation writes", () => {
+  beforeEach(() => {
+    fetchMock.mockReset();
+    vi.stubGlobal("fetch", fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("should send a new message again against the refreshed conversation after a 412", async () => {
+    fetchMock
+      .mockResolvedValueOnce(conflict())
+      .mockResolvedValueOnce(respond(200, conversation(2)))
+      .mockResolvedValueOnce(respond(200, conversation(3)));
+    const { result } = renderWrite(() => useAddMessage(1));
+
+    result.current.mutate({ content: "Thinking of you" });
+
+    await waitFor(() => expect(result.current.isSuccess).toBe(true));
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+    expect(ifMatch(0)).toBe(versionToETag(1));
+    expect(ifMatch(2)).toBe(versionToETag(2));
+    expect(result.current.data?.version).toBe(3);
+  });
+
+  it("should give up on a new message that keeps conflicting", async () => {
+    fetchMock.mockImplementation(async (_url: string, init?: { method?: string }) =>
+      init?.method === "POST" ? conflict() : respond(200, conversation(2))
+    );
+    const { result } = renderWrite(() => useAddMessage(1));
+
+    result.current.mutate({ content: "Thinking of you" });
+
+    await waitFor(() => expect(result.current.isError).toBe(true));
+    expect(result.current.error?.message).toMatch(/keeps changing/);
+    expect(fetchMock.mock.calls.filter(([, init]) => init?.method === "POST")).toHaveLength(4);
+  });
+
+  it("should not resend an edit after a 412, but refresh the conversation", async () => {
+    fetchMock
+      .mockResolvedValueOnce(conflict())
+      .mockResolvedValueOnce(respond(200, conversation(2)));
+    const { result, queryClient } = renderWrite(() => useEditMessage(1));
+
+    result.current.mutate({ messageId: "msg-1", content: "Edited" });
+
+    await waitFor(() => expect(result.current.isError).toBe(true));
+    expect(result.current.error).toBeInstanceOf(ConversationChangedError);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(fetchMock.mock.calls[1][0]).toBe("/api/conversations/1");
+    expect(queryClient.getQueryData<Conversation>([api.conversations.get.path, 1])?.version).toBe(
+      2
+    );
+  });
+
+  it("should not resend a message deletion after a 412, but refresh the conversation", async () => {
+    fetchMock
+      .mockResolvedValueOnce(conflict())
+      .mockResolvedValueOnce(respond(200, conversation(2)));
+    const { result, queryClient } = renderWrite(() => useDeleteMessage(1));
+
+    result.current.mutate("msg-1");
+
+    await waitFor(() => expect(result.current.isError).toBe(true));
+    expect(result.current.error).toBeInstanceOf(ConversationChangedError);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(queryClient.getQueryData<Conversation>([api.conversations.get.path, 1])?.version).toBe(
+      2
+    );
+  });
+
+  it("should not resend a rename after a 412, but refresh the conversation", async () => {
+    fetchMock
+      .mockResolvedValueOnce(conflict())
+      .mockResolvedValueOnce(respond(200, conversation(2)));
+    const { result, queryClient } = renderWrite(() => useUpdateConversation(1));
+
+    result.current.mutate({ title: "Home again" });
+
+    await waitFor(() => expect(result.current.isError).toBe(true));
+    expect(result.current.error).toBeInstanceOf(ConversationChangedError);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(queryClient.getQueryData<Conversation>([api.conversations.get.path, 1])?.version).toBe(
+      2
+    );
+  });
+
+  it("should not delete an update that changed since it was loaded", async () => {
+    fetchMock
+      .mockResolvedValueOnce(conflict())
+      .mockResolvedValueOnce(respond(200, conversation(2)));
+    const { result } = renderWrite(() => useDeleteConversation(1));
+
+    result.current.mutate();
+
+    await waitFor(() => expect(result.current.isError).toBe(true));
+    expect(result.current.error).toBeInstanceOf(ConversationChangedError);
+    expect(fetchMock.mock.calls.filter(([, init]) => init?.method === "DELETE")).toHaveLength(1);
+  });
+});
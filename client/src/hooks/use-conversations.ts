@@ -1,13 +1,28 @@
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
-import { api, buildUrl } from "@shared/routes";
+import { api, buildUrl, versionToETag, type ConversationWithReadState } from "@shared/routes";
 import { z } from "zod";
+import type { Conversation, ReactionKind } from "@shared/schema";
 
-// Fetch all conversations (for dashboard/timeline)
-export function useConversations() {
+// How many times a write is replayed against a refreshed conversation after a 412
+const MAX_CONFLICT_RETRIES = 3;
+
+async function fetchConversation(id: number) {
+  const url = buildUrl(api.conversations.get.path, { id });
+  const res = await fetch(url, { credentials: "include" });
+  if (res.status === 404) return null;
+  if (!res.ok) throw new Error("Failed to fetch conversation");
+  return api.conversations.get.responses[200].parse(await res.json());
+}
+
+// Fetch all conversations (for dashboard/timeline), archived ones only when asked for
+export function useConversations({ includeArchived = false } = {}) {
   return useQuery({
-    queryKey: [api.conversations.list.path],
+    queryKey: [api.conversations.list.path, { includeArchived }],
     queryFn: async () => {
-      const res = await fetch(api.conversations.list.path, { credentials: "include" });
+      const url = includeArchived
+        ? `${api.conversations.list.path}?includeArchived=true`
+        : api.conversations.list.path;
+      const res = await fetch(url, { credentials: "include" });
       if (!res.ok) throw new Error("Failed to fetch conversations");
       return api.conversations.list.responses[200].parse(await res.json());
     },
@@ -18,13 +33,7 @@ export function useConversations() {
 export function useConversation(id: number) {
   return useQuery({
     queryKey: [api.conversations.get.path, id],
-    queryFn: async () => {
-      const url = buildUrl(api.conversations.get.path, { id });
-      const res = await fetch(url, { credentials: "include" });
-      if (res.status === 404) return null;
-      if (!res.ok) throw new Error("Failed to fetch conversation");
-      return api.conversations.get.responses[200].parse(await res.json());
-    },
+    queryFn: () => fetchConversation(id),
     enabled: !!id,
   });
 }
@@ -49,23 +58,211 @@ export function useCreateConversation() {
   });
 }
 
-// Add message/reply to conversation
+/**
+ * Thrown when a write lost a race with someone else's (412). The conversation has already been
+ * refetched, so the user can look at what changed and apply their change again
+ */
+export class ConversationChangedError extends Error {
+  constructor() {
+    super("Someone else changed this update just now. Check the latest version and try again.");
+    this.name = "ConversationChangedError";
+  }
+}
+
+/**
+ * Send a write to a conversation with the cached version as If-Match. If someone else wrote
+ * first (412) the conversation is refetched; writes that only add something are then sent again
+ * against the new version, while the rest fail with a ConversationChangedError
+ */
+function useConversationWrite(conversationId: number) {
+  const queryClient = useQueryClient();
+  const queryKey = [api.conversations.get.path, conversationId];
+
+  // Resolves with the response body, unparsed
+  async function request(
+    url: string,
+    init: { method: string; body?: unknown; retryOnConflict?: boolean },
+    fallback: string
+  ): Promise<unknown> {
+    let conversation =
+      queryClient.getQueryData<Awaited<ReturnType<typeof fetchConversation>>>(queryKey) ??
+      (await fetchConversation(conversationId));
+
+    for (let attempt = 0; ; attempt++) {
+      const res = await fetch(url, {
+        method: init.method,
+        headers: {
+          "Content-Type": "application/json",
+          "If-Match": versionToETag(conversation?.version),
+        },
+        body: init.body === undefined ? undefined : JSON.stringify(init.body),
+        credentials: "include",
+      });
+      if (res.status === 412) {
+        if (init.retryOnConflict && attempt >= MAX_CONFLICT_RETRIES) {
+          throw new Error("This update keeps changing. Please try again in a moment.");
+        }
+        conversation = await queryClient.fetchQuery({
+          queryKey,
+          queryFn: () => fetchConversation(conversationId),
+          staleTime: 0,
+        });
+        if (!init.retryOnConflict) throw new ConversationChangedError();
+        continue;
+      }
+      if (!res.ok) {
+        // e.g. 403 when the person being replied to has blocked the user
+        const body = await res.json().catch(() => undefined);
+        throw new Error(body?.message || fallback);
+      }
+      return res.json();
+    }
+  }
+
+  // For writes that answer with the updated conversation, which has no read state
+  async function send(
+    url: string,
+    init: { method: string; body?: unknown; retryOnConflict?: boolean },
+    fallback: string
+  ) {
+    return api.conversations.update.responses[200].parse(await request(url, init, fallback));
+  }
+
+  function onSuccess(conversation: Conversation) {
+    // Keep the cached read state until the refetch brings a fresh one
+    queryClient.setQueryData<ConversationWithReadState | null>(
+      queryKey,
+      (cached) => cached && { ...cached, ...conversation }
+    );
+    queryClient.invalidateQueries({ queryKey });
+    queryClient.invalidateQueries({ queryKey: [api.conversations.list.path] });
+  }
+
+  return { request, send, onSuccess };
+}
+
+// Add message/reply to conversation. Adding cannot clobber anyone else's write, so a 412 is
+// retried against the refreshed conversation
 export function useAddMessage(conversationId: number) {
+  const { send, onSuccess } = useConversationWrite(conversationId);
+  return useMutation({
+    mutationFn: (data: z.infer<typeof api.conversations.addMessage.input>) =>
+      send(
+        buildUrl(api.conversations.addMessage.path, { id: conversationId }),
+        { method: api.conversations.addMessage.method, body: data, retryOnConflict: true },
+        "Failed to add message"
+      ),
+    onSuccess,
+  });
+}
+
+// Replace the content of one of my messages
+export function useEditMessage(conversationId: number) {
+  const { send, onSuccess } = useConversationWrite(conversationId);
+  return useMutation({
+    mutationFn: ({
+      messageId,
+      ...data
+    }: { messageId: string } & z.infer<typeof api.conversations.editMessage.input>) =>
+      send(
+        buildUrl(api.conversations.editMessage.path, { id: conversationId, messageId }),
+        { method: api.conversations.editMessage.method, body: data },
+        "Failed to edit message"
+      ),
+    onSuccess,
+  });
+}
+
+// Delete one of my messages, or as the member anyone's
+export function useDeleteMessage(conversationId: number) {
+  const { send, onSuccess } = useConversationWrite(conversationId);
+  return useMutation({
+    mutationFn: (messageId: string) =>
+      send(
+        buildUrl(api.conversations.deleteMessage.path, { id: conversationId, messageId }),
+        { method: api.conversations.deleteMessage.method },
+        "Failed to delete message"
+      ),
+    onSuccess,
+  });
+}
+
+// Rename or (un)archive an update I posted
+export function useUpdateConversation(conversationId: number) {
+  const { send, onSuccess } = useConversationWrite(conversationId);
+  return useMutation({
+    mutationFn: (data: z.infer<typeof api.conversations.update.input>) =>
+      send(
+        buildUrl(api.conversations.update.path, { id: conversationId }),
+        { method: api.conversations.update.method, body: data },
+        "Failed to save update"
+      ),
+    onSuccess,
+  });
+}
+
+// Delete an update I posted, with everything in it
+export function useDeleteConversation(conversationId: number) {
   const queryClient = useQueryClient();
+  const { request } = useConversationWrite(conversationId);
   return useMutation({
-    mutationFn: async (data: z.infer<typeof api.conversations.addMessage.input>) => {
-      const url = buildUrl(api.conversations.addMessage.path, { id: conversationId });
-      const res = await fetch(url, {
-        method: api.conversations.addMessage.method,
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify(data),
+    mutationFn: async () =>
+      api.conversations.delete.responses[200].parse(
+        await request(
+          buildUrl(api.conversations.delete.path, { id: conversationId }),
+          { method: api.conversations.delete.method },
+          "Failed to delete update"
+        )
+      ),
+    onSuccess: () => {
+      queryClient.removeQueries({ queryKey: [api.conversations.get.path, conversationId] });
+      queryClient.invalidateQueries({ queryKey: [api.conversations.list.path] });
+    },
+  });
+}
+
+// Add or take back my reaction on a message; repeats are harmless, so no If-Match is sent
+export function useReaction(conversationId: number) {
+  const { onSuccess } = useConversationWrite(conversationId);
+  return useMutation({
+    mutationFn: async ({
+      messageId,
+      kind,
+      reacted,
+    }: {
+      messageId: string;
+      kind: ReactionKind;
+      reacted: boolean;
+    }) => {
+      const route = reacted ? api.conversations.addReaction : api.conversations.removeReaction;
+      const res = await fetch(buildUrl(route.path, { id: conversationId, messageId, kind }), {
+        method: route.method,
+        credentials: "include",
+      });
+      if (!res.ok) {
+        const body = await res.json().catch(() => undefined);
+        throw new Error(body?.message || "Failed to save reaction");
+      }
+      return route.responses[200].parse(await res.json());
+    },
+    onSuccess,
+  });
+}
+
+// Record that I have read an update. The marker being replaced is passed in only so it stays
+// available as the mutation's variables, letting the page show what was new when it opened
+export function useMarkRead(conversationId: number) {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (_previous: { lastReadAt?: string }) => {
+      const res = await fetch(buildUrl(api.conversations.markRead.path, { id: conversationId }), {
+        method: api.conversations.markRead.method,
         credentials: "include",
       });
-      if (!res.ok) throw new Error("Failed to add message");
-      return api.conversations.addMessage.responses[200].parse(await res.json());
+      if (!res.ok) throw new Error("Failed to mark update read");
+      return api.conversations.markRead.responses[200].parse(await res.json());
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: [api.conversations.get.path, conversationId] });
       queryClient.invalidateQueries({ queryKey: [api.conversations.list.path] });
     },
   });
@@ -0,0 +1,109 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { api, buildUrl } from "@shared/routes";
+import { z } from "zod";
+
+async function errorMessage(res: Response, fallback: string) {
+  const body = await res.json().catch(() => undefined);
+  return body?.message || fallback;
+}
+
+// Supporter and circle lists take ?journeyId= to read a shared journey's instead of the user's own
+export function withJourney(path: string, journeyId: string | undefined) {
+  return journeyId ? `${path}?journeyId=${encodeURIComponent(journeyId)}` : path;
+}
+
+// Journeys the logged-in user shares with other co-members
+export function useJourneys() {
+  return useQuery({
+    queryKey: [api.journeys.list.path],
+    queryFn: async () => {
+      const res = await fetch(api.journeys.list.path, { credentials: "include" });
+      if (!res.ok) throw new Error("Failed to fetch journeys");
+      return api.journeys.list.responses[200].parse(await res.json());
+    },
+  });
+}
+
+export function useCreateJourney() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (data: z.infer<typeof api.journeys.create.input>) => {
+      const res = await fetch(api.journeys.create.path, {
+        method: api.journeys.create.method,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(data),
+        credentials: "include",
+      });
+      if (!res.ok) throw new Error(await errorMessage(res, "Failed to create journey"));
+      return api.journeys.create.responses[201].parse(await res.json());
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [api.journeys.list.path] });
+    },
+  });
+}
+
+export function useRenameJourney() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({
+      id,
+      ...data
+    }: { id: string } & z.infer<typeof api.journeys.update.input>) => {
+      const res = await fetch(buildUrl(api.journeys.update.path, { id }), {
+        method: api.journeys.update.method,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(data),
+        credentials: "include",
+      });
+      if (!res.ok) throw new Error(await errorMessage(res, "Failed to rename journey"));
+      return api.journeys.update.responses[200].parse(await res.json());
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [api.journeys.list.path] });
+      queryClient.invalidateQueries({ queryKey: [api.conversations.list.path] });
+    },
+  });
+}
+
+export function useAddJourneyMember() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({
+      id,
+      ...data
+    }: { id: string } & z.infer<typeof api.journeys.addMember.input>) => {
+      const res = await fetch(buildUrl(api.journeys.addMember.path, { id }), {
+        method: api.journeys.addMember.method,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(data),
+        credentials: "include",
+      });
+      if (!res.ok) throw new Error(await errorMessage(res, "Failed to add co-member"));
+      return api.journeys.addMember.responses[200].parse(await res.json());
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [api.journeys.list.path] });
+      queryClient.invalidateQueries({ queryKey: [api.supporters.list.path] });
+    },
+  });
+}
+
+// Remove a co-member, or leave the journey when userId is the logged-in user's own
+export function useRemoveJourneyMember() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ id, userId }: { id: string; userId: string }) => {
+      const res = await fetch(buildUrl(api.journeys.removeMember.path, { id, userId }), {
+        method: api.journeys.removeMember.method,
+        credentials: "include",
+      });
+      if (!res.ok) throw new Error(await errorMessage(res, "Failed to remove co-member"));
+      return api.journeys.removeMember.responses[200].parse(await res.json());
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [api.journeys.list.path] });
+      queryClient.invalidateQueries({ queryKey: [api.conversations.list.path] });
+    },
+  });
+}
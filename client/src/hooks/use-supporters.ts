@@ -1,12 +1,16 @@
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { api, buildUrl } from "@shared/routes";
 import { z } from "zod";
+import { withJourney } from "@/hooks/use-journeys";
 
-export function useSupporters() {
+// The logged-in user's supporters, or with journeyId those of a journey they share
+export function useSupporters(journeyId?: string) {
   return useQuery({
-    queryKey: [api.supporters.list.path],
+    queryKey: [api.supporters.list.path, journeyId],
     queryFn: async () => {
-      const res = await fetch(api.supporters.list.path, { credentials: "include" });
+      const res = await fetch(withJourney(api.supporters.list.path, journeyId), {
+        credentials: "include",
+      });
       if (!res.ok) throw new Error("Failed to fetch supporters");
       return api.supporters.list.responses[200].parse(await res.json());
     },
@@ -25,13 +29,91 @@ export function useInviteSupporter() {
       });
 
       if (!res.ok) {
-        if (res.status === 404) throw new Error("User with that email not found");
-        throw new Error("Failed to invite supporter");
+        if (res.status === 404) throw new Error("Verified user with that email not found");
+        const body = await res.json().catch(() => undefined);
+        throw new Error(body?.message || "Failed to invite supporter");
+      }
+      // 202: no verified account uses the email, so a signup link was emailed instead
+      if (res.status === 202) {
+        return api.supporters.invite.responses[202].parse(await res.json());
       }
       return api.supporters.invite.responses[201].parse(await res.json());
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: [api.supporters.list.path] });
+      queryClient.invalidateQueries({ queryKey: [api.supporters.invitations.path] });
+    },
+  });
+}
+
+// Invite a pasted list or CSV/vCard file; with preview, only reports what would happen per row
+export function useBulkInvite() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (data: z.infer<typeof api.supporters.bulkInvite.input>) => {
+      const res = await fetch(api.supporters.bulkInvite.path, {
+        method: api.supporters.bulkInvite.method,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(data),
+        credentials: "include",
+      });
+      if (!res.ok) {
+        const body = await res.json().catch(() => undefined);
+        throw new Error(body?.message || "Failed to invite supporters");
+      }
+      return api.supporters.bulkInvite.responses[200].parse(await res.json());
+    },
+    onSuccess: (_data, variables) => {
+      if (variables.preview) return;
+      queryClient.invalidateQueries({ queryKey: [api.supporters.list.path] });
+      queryClient.invalidateQueries({ queryKey: [api.supporters.invitations.path] });
+    },
+  });
+}
+
+export function useInvitations(journeyId?: string) {
+  return useQuery({
+    queryKey: [api.supporters.invitations.path, journeyId],
+    queryFn: async () => {
+      const res = await fetch(withJourney(api.supporters.invitations.path, journeyId), {
+        credentials: "include",
+      });
+      if (!res.ok) throw new Error("Failed to fetch invitations");
+      return api.supporters.invitations.responses[200].parse(await res.json());
+    },
+  });
+}
+
+// Who sent an invitation link; the query fails when the link is invalid or expired
+export function useInvitationPreview(token: string | undefined) {
+  return useQuery({
+    queryKey: [api.invitations.get.path, token],
+    queryFn: async () => {
+      const res = await fetch(buildUrl(api.invitations.get.path, { token: token! }));
+      if (!res.ok) throw new Error("This invitation is invalid or has expired");
+      return api.invitations.get.responses[200].parse(await res.json());
+    },
+    enabled: !!token,
+    retry: false,
+  });
+}
+
+export function useAcceptInvitation() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (data: z.infer<typeof api.invitations.accept.input>) => {
+      const res = await fetch(api.invitations.accept.path, {
+        method: api.invitations.accept.method,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(data),
+        credentials: "include",
+      });
+      if (!res.ok) throw new Error("This invitation is invalid or has expired");
+      return api.invitations.accept.responses[200].parse(await res.json());
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [api.supporters.list.path] });
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/user"] });
     },
   });
 }
@@ -58,3 +140,84 @@ export function useUpdateSupporterStatus() {
     },
   });
 }
+
+// Give one of my pending or expired invitations a fresh expiry and remind the invitee
+export function useResendInvitation() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (id: number) => {
+      const url = buildUrl(api.supporters.resend.path, { id });
+      const res = await fetch(url, {
+        method: api.supporters.resend.method,
+        credentials: "include",
+      });
+      if (!res.ok) throw new Error("Failed to resend invitation");
+      return api.supporters.resend.responses[200].parse(await res.json());
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [api.supporters.list.path] });
+    },
+  });
+}
+
+export function useCancelInvitation() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (id: number) => {
+      const url = buildUrl(api.supporters.cancel.path, { id });
+      const res = await fetch(url, {
+        method: api.supporters.cancel.method,
+        credentials: "include",
+      });
+      if (!res.ok) throw new Error("Failed to cancel invitation");
+      return api.supporters.cancel.responses[200].parse(await res.json());
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [api.supporters.list.path] });
+    },
+  });
+}
+
+// Change what one of my supporters may do: view, comment, or post on my behalf
+export function useUpdateSupporterRole() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({
+      id,
+      role,
+    }: { id: number } & z.infer<typeof api.supporters.updateRole.input>) => {
+      const url = buildUrl(api.supporters.updateRole.path, { id });
+      const res = await fetch(url, {
+        method: api.supporters.updateRole.method,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ role }),
+        credentials: "include",
+      });
+      if (!res.ok) throw new Error("Failed to update role");
+      return api.supporters.updateRole.responses[200].parse(await res.json());
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [api.supporters.list.path] });
+    },
+  });
+}
+
+// Revoke one of my supporters, or leave a circle I'm part of
+export function useRemoveSupporter() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (id: number) => {
+      const url = buildUrl(api.supporters.remove.path, { id });
+      const res = await fetch(url, {
+        method: api.supporters.remove.method,
+        credentials: "include",
+      });
+      if (!res.ok) throw new Error("Failed to remove supporter");
+      return api.supporters.remove.responses[200].parse(await res.json());
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [api.supporters.list.path] });
+      queryClient.invalidateQueries({ queryKey: [api.conversations.list.path] });
+    },
+  });
+}
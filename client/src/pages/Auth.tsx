@@ -1,6 +1,10 @@
+import { useEffect, useState } from "react";
 import { useAuth } from "@/hooks/use-auth";
+import { useAcceptInvitation, useInvitationPreview } from "@/hooks/use-supporters";
+import { useToast } from "@/hooks/use-toast";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
 import { insertUserSchema, type InsertUser } from "@shared/schema";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -14,44 +18,141 @@ import {
 } from "@/components/ui/form";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { Redirect } from "wouter";
+import { Redirect, useLocation, useSearch } from "wouter";
+
+const resetPasswordSchema = z
+  .object({
+    password: insertUserSchema.shape.password,
+    confirmPassword: z.string(),
+  })
+  .refine((data) => data.password === data.confirmPassword, {
+    message: "Passwords do not match",
+    path: ["confirmPassword"],
+  });
 
 export default function AuthPage() {
-  const { user, loginMutation, registerMutation } = useAuth();
+  const { user, loginMutation, registerMutation, forgotPasswordMutation, resetPasswordMutation } =
+    useAuth();
+  const [, setLocation] = useLocation();
+  const search = new URLSearchParams(useSearch());
+  const resetToken = search.get("reset");
+  // Invitation links land here as /auth?invite=<token>; logging in or registering accepts it
+  const inviteToken = search.get("invite") ?? undefined;
+  const invitation = useInvitationPreview(inviteToken);
+  const [forgotPassword, setForgotPassword] = useState(false);
 
   if (user) {
-    return <Redirect to="/dashboard" />;
+    return inviteToken ? <AcceptInvitation token={inviteToken} /> : <Redirect to="/dashboard" />;
+  }
+
+  // Reset links from the email land here as /auth?reset=<token>
+  if (resetToken) {
+    return (
+      <AuthCard>
+        <ResetPasswordForm
+          onSubmit={(data) =>
+            resetPasswordMutation.mutate(
+              { token: resetToken, password: data.password },
+              { onSuccess: () => setLocation("/auth") }
+            )
+          }
+          isPending={resetPasswordMutation.isPending}
+        />
+      </AuthCard>
+    );
+  }
+
+  if (forgotPassword) {
+    return (
+      <AuthCard>
+        <ForgotPasswordForm
+          onSubmit={(data) => forgotPasswordMutation.mutate(data)}
+          isPending={forgotPasswordMutation.isPending}
+          sentMessage={forgotPasswordMutation.data?.message}
+          onBack={() => {
+            forgotPasswordMutation.reset();
+            setForgotPassword(false);
+          }}
+        />
+      </AuthCard>
+    );
   }
 
+  return (
+    <AuthCard>
+      {invitation.data && (
+        <p className="mb-4 rounded-md bg-primary/10 p-3 text-sm text-center">
+          {invitation.data.memberName} invited you to join their support circle. Create an account
+          or log in to accept.
+          {invitation.data.message && (
+            <span className="mt-2 block italic">&ldquo;{invitation.data.message}&rdquo;</span>
+          )}
+        </p>
+      )}
+      {invitation.isError && (
+        <p className="mb-4 rounded-md bg-destructive/10 p-3 text-sm text-center text-destructive">
+          {invitation.error.message}. Ask for a new one, or log in as usual.
+        </p>
+      )}
+      <Tabs defaultValue={inviteToken ? "register" : "login"}>
+        <TabsList className="grid w-full grid-cols-2 mb-4">
+          <TabsTrigger value="login">Login</TabsTrigger>
+          <TabsTrigger value="register">Register</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="login">
+          <LoginForm
+            onSubmit={(data) => loginMutation.mutate({ ...data, inviteToken })}
+            isPending={loginMutation.isPending}
+            onForgotPassword={() => setForgotPassword(true)}
+          />
+        </TabsContent>
+
+        <TabsContent value="register">
+          <RegisterForm
+            onSubmit={(data) => registerMutation.mutate({ ...data, inviteToken })}
+            isPending={registerMutation.isPending}
+          />
+        </TabsContent>
+      </Tabs>
+    </AuthCard>
+  );
+}
+
+// Already logged in when opening an invitation link: accept it, then show the circles page
+function AcceptInvitation({ token }: { token: string }) {
+  const { mutate, isSuccess, isError } = useAcceptInvitation();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    mutate(
+      { token },
+      {
+        onError: (error) =>
+          toast({ title: "Invitation", description: error.message, variant: "destructive" }),
+      }
+    );
+  }, [token, mutate, toast]);
+
+  if (isSuccess || isError) return <Redirect to="/supporters" />;
+  return (
+    <AuthCard>
+      <p className="text-sm text-center text-muted-foreground">Accepting invitation...</p>
+    </AuthCard>
+  );
+}
+
+function AuthCard({ children }: { children: React.ReactNode }) {
   return (
     <div className="min-h-screen flex items-center justify-center bg-stone-50 p-4">
       <Card className="w-full max-w-md">
         <CardHeader className="text-center">
           <CardTitle className="text-2xl font-serif text-primary">SupportSpark</CardTitle>
-          <CardDescription>A safe space for sharing life&apos;s challenges together.</CardDescription>
+          <CardDescription>
+            A safe space for sharing life&apos;s challenges together.
+          </CardDescription>
         </CardHeader>
-        <CardContent>
-          <Tabs defaultValue="login">
-            <TabsList className="grid w-full grid-cols-2 mb-4">
-              <TabsTrigger value="login">Login</TabsTrigger>
-              <TabsTrigger value="register">Register</TabsTrigger>
-            </TabsList>
-
-            <TabsContent value="login">
-              <LoginForm
-                onSubmit={(data) => loginMutation.mutate(data)}
-                isPending={loginMutation.isPending}
-              />
-            </TabsContent>
-
-            <TabsContent value="register">
-              <RegisterForm
-                onSubmit={(data) => registerMutation.mutate(data)}
-                isPending={registerMutation.isPending}
-              />
-            </TabsContent>
-          </Tabs>
-        </CardContent>
+        <CardContent>{children}</CardContent>
       </Card>
     </div>
   );
@@ -60,9 +161,11 @@ export default function AuthPage() {
 function LoginForm({
   onSubmit,
   isPending,
+  onForgotPassword,
 }: {
   onSubmit: (data: { email: string; password: string }) => void;
   isPending: boolean;
+  onForgotPassword: () => void;
 }) {
   const form = useForm({
     defaultValues: {
@@ -103,6 +206,121 @@ function LoginForm({
         <Button type="submit" className="w-full" disabled={isPending}>
           {isPending ? "Logging in..." : "Login"}
         </Button>
+        <Button type="button" variant="link" className="w-full" onClick={onForgotPassword}>
+          Forgot password?
+        </Button>
+      </form>
+    </Form>
+  );
+}
+
+function ForgotPasswordForm({
+  onSubmit,
+  isPending,
+  sentMessage,
+  onBack,
+}: {
+  onSubmit: (data: { email: string }) => void;
+  isPending: boolean;
+  sentMessage?: string;
+  onBack: () => void;
+}) {
+  const form = useForm({
+    resolver: zodResolver(insertUserSchema.pick({ email: true })),
+    defaultValues: {
+      email: "",
+    },
+  });
+
+  if (sentMessage) {
+    return (
+      <div className="space-y-4 text-center">
+        <p className="text-sm text-muted-foreground">{sentMessage}</p>
+        <Button type="button" variant="outline" className="w-full" onClick={onBack}>
+          Back to login
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          Enter the email you signed up with and we&apos;ll send you a link to reset your password.
+        </p>
+        <FormField
+          control={form.control}
+          name="email"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Email</FormLabel>
+              <FormControl>
+                <Input type="email" placeholder="you@example.com" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <Button type="submit" className="w-full" disabled={isPending}>
+          {isPending ? "Sending..." : "Send reset link"}
+        </Button>
+        <Button type="button" variant="link" className="w-full" onClick={onBack}>
+          Back to login
+        </Button>
+      </form>
+    </Form>
+  );
+}
+
+function ResetPasswordForm({
+  onSubmit,
+  isPending,
+}: {
+  onSubmit: (data: { password: string }) => void;
+  isPending: boolean;
+}) {
+  const form = useForm({
+    resolver: zodResolver(resetPasswordSchema),
+    defaultValues: {
+      password: "",
+      confirmPassword: "",
+    },
+  });
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+        <p className="text-sm text-muted-foreground">Choose a new password for your account.</p>
+        <FormField
+          control={form.control}
+          name="password"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>New Password</FormLabel>
+              <FormControl>
+                <Input type="password" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="confirmPassword"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Confirm Password</FormLabel>
+              <FormControl>
+                <Input type="password" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <Button type="submit" className="w-full" disabled={isPending}>
+          {isPending ? "Saving..." : "Reset password"}
+        </Button>
       </form>
     </Form>
   );
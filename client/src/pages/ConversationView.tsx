@@ -1,6 +1,18 @@
 import { Navbar } from "@/components/navbar";
 import { useAuth } from "@/hooks/use-auth";
-import { useConversation, useAddMessage } from "@/hooks/use-conversations";
+import { useConversation, useAddMessage, useMarkRead } from "@/hooks/use-conversations";
+import { useSupporters } from "@/hooks/use-supporters";
+import { useJourneys } from "@/hooks/use-journeys";
+import {
+  EditedMarker,
+  MessageEditForm,
+  MessageThread,
+  NewSinceDivider,
+  isNewSince,
+  countReplies,
+} from "@/components/message-thread";
+import { UpdateActions } from "@/components/update-actions";
+import { ReactionBar } from "@/components/reaction-bar";
 import { useRoute } from "wouter";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
@@ -10,17 +22,15 @@ import {
   Send,
   MessageSquare,
   ArrowLeft,
-  UserCircle,
   Bold,
   Italic,
   Link as LinkIcon,
   Image,
   X,
+  Pencil,
 } from "lucide-react";
-import { useState, useRef } from "react";
+import { Fragment, useEffect, useState, useRef } from "react";
 import { Link } from "wouter";
-import { cn } from "@/lib/utils";
-import { motion } from "framer-motion";
 import ReactMarkdown from "react-markdown";
 import { useToast } from "@/hooks/use-toast";
 import type { Message } from "@shared/schema";
@@ -40,11 +50,31 @@ export default function ConversationView() {
   const [replyContent, setReplyContent] = useState("");
   const [uploadedImages, setUploadedImages] = useState<string[]>([]);
   const [isUploading, setIsUploading] = useState(false);
+  const [isEditingUpdate, setIsEditingUpdate] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
   const { toast } = useToast();
+  const { data: supportersData } = useSupporters();
+  const { data: journeys = [] } = useJourneys();
+
+  // The member, or a co-member of the shared journey the update was posted to
+  const isMember =
+    user?.id === conversation?.memberId || journeys.some((j) => j.id === conversation?.memberId);
+  // My role in the circle of the member this update belongs to
+  const role = supportersData?.supporting.find(
+    (s) => s.memberId === conversation?.memberId && s.status === "accepted"
+  )?.role;
+  const canUploadImages = isMember || role === "caregiver";
+  const canReply = isMember || role !== "viewer";
 
-  const isMember = user?.id === conversation?.memberId;
+  // Mark the update read once fresh data has arrived. The marker it replaces is kept as the
+  // mutation's variables, so what was new on arrival keeps its divider after later refetches
+  const { mutate: markRead, variables: markReadVariables, isIdle } = useMarkRead(id);
+  const lastVisit = markReadVariables?.lastReadAt;
+  const isFresh = conversationQuery.isFetchedAfterMount;
+  useEffect(() => {
+    if (isFresh && conversation && isIdle) markRead({ lastReadAt: conversation.lastReadAt });
+  }, [isFresh, conversation, isIdle, markRead]);
 
   if (isLoading) {
     return (
@@ -69,6 +99,13 @@ export default function ConversationView() {
   const sortedMessages = [...messages].sort(
     (a: Message, b: Message) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
   );
+  // Replies to the update itself, and later top-level messages, each start a thread
+  const threads = [...(sortedMessages[0]?.replies || []), ...sortedMessages.slice(1)].sort(
+    (a: Message, b: Message) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
+  );
+  const update = sortedMessages[0];
+  const supportCount = threads.reduce((total, msg) => total + 1 + countReplies(msg), 0);
+  const firstNewThread = threads.findIndex((msg) => isNewSince(msg, lastVisit, user?.id));
 
   function insertMarkdown(prefix: string, suffix: string = prefix) {
     const textarea = textareaRef.current;
@@ -140,12 +177,21 @@ export default function ConversationView() {
     e.preventDefault();
     if (!replyContent.trim() && uploadedImages.length === 0) return;
 
-    await addMessageMutation.mutateAsync({
-      content: replyContent,
-      images: uploadedImages.length > 0 ? uploadedImages : undefined,
-    });
-    setReplyContent("");
-    setUploadedImages([]);
+    try {
+      await addMessageMutation.mutateAsync({
+        content: replyContent,
+        images: uploadedImages.length > 0 ? uploadedImages : undefined,
+      });
+      setReplyContent("");
+      setUploadedImages([]);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Failed to send message.";
+      toast({
+        title: "Error",
+        description: errorMessage,
+        variant: "destructive",
+      });
+    }
   }
 
   return (
@@ -183,17 +229,58 @@ export default function ConversationView() {
                   <span>
                     {format(new Date(conversation.createdAt), "MMMM d, yyyy 'at' h:mm a")}
                   </span>
+                  {update && <EditedMarker message={update} />}
+                  {isMember && conversation.seenBy !== undefined && (
+                    <>
+                      <span>•</span>
+                      <span data-testid="text-seen-by">
+                        Seen by {conversation.seenBy}{" "}
+                        {conversation.seenBy === 1 ? "supporter" : "supporters"}
+                      </span>
+                    </>
+                  )}
+                  {conversation.archived && (
+                    <>
+                      <span>•</span>
+                      <span data-testid="text-archived">Archived</span>
+                    </>
+                  )}
+                  {update?.authorId === user?.id && !isEditingUpdate && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-7 gap-1.5 text-stone-500"
+                      onClick={() => setIsEditingUpdate(true)}
+                      data-testid="button-edit-update"
+                    >
+                      <Pencil className="w-3.5 h-3.5" />
+                      Edit
+                    </Button>
+                  )}
                 </div>
+                {isMember && (
+                  <div className="mt-2 -ml-3">
+                    <UpdateActions conversation={conversation} />
+                  </div>
+                )}
               </div>
             </div>
 
             <div className="prose prose-stone prose-lg max-w-none text-stone-700 leading-relaxed font-sans">
-              {sortedMessages[0] && (
+              {update && (
                 <>
-                  <ReactMarkdown>{sortedMessages[0].content}</ReactMarkdown>
-                  {sortedMessages[0].images && sortedMessages[0].images.length > 0 && (
+                  {isEditingUpdate ? (
+                    <MessageEditForm
+                      conversationId={conversation.id}
+                      message={update}
+                      onDone={() => setIsEditingUpdate(false)}
+                    />
+                  ) : (
+                    <ReactMarkdown>{update.content}</ReactMarkdown>
+                  )}
+                  {update.images && update.images.length > 0 && (
                     <div className="flex flex-wrap gap-4 mt-6 not-prose">
-                      {sortedMessages[0].images.map((img: string, idx: number) => (
+                      {update.images.map((img: string, idx: number) => (
                         <img
                           key={idx}
                           src={img}
@@ -207,6 +294,11 @@ export default function ConversationView() {
                 </>
               )}
             </div>
+            {update && (
+              <div className="mt-6">
+                <ReactionBar conversationId={conversation.id} message={update} />
+              </div>
+            )}
           </div>
         </article>
 
@@ -214,184 +306,154 @@ export default function ConversationView() {
           <h3 className="text-xl font-bold mb-8 flex items-center gap-2 text-stone-800">
             <MessageSquare className="w-5 h-5 text-accent" />
             Words of Support{" "}
-            <span className="text-stone-400 font-normal text-base">
-              ({sortedMessages.length - 1})
-            </span>
+            <span className="text-stone-400 font-normal text-base">({supportCount})</span>
           </h3>
 
           <div className="space-y-8 mb-12">
-            {sortedMessages.slice(1).map((msg) => (
-              <motion.div
-                key={msg.id}
-                initial={{ opacity: 0, y: 10 }}
-                whileInView={{ opacity: 1, y: 0 }}
-                viewport={{ once: true }}
-                className={cn(
-                  "flex gap-4 p-6 rounded-xl border",
-                  msg.authorId === user?.id
-                    ? "bg-white border-stone-200"
-                    : "bg-white border-stone-100"
-                )}
-                data-testid={`message-${msg.id}`}
-              >
-                <div className="shrink-0">
-                  <div className="h-10 w-10 rounded-full bg-stone-100 flex items-center justify-center text-stone-500">
-                    <UserCircle className="w-6 h-6" />
-                  </div>
-                </div>
-                <div className="flex-1 min-w-0">
-                  <div className="flex justify-between items-baseline mb-2 gap-2 flex-wrap">
-                    <span className="font-bold text-stone-900">
-                      {msg.authorName || "Supporter"}
-                    </span>
-                    <span className="text-xs text-stone-400">
-                      {format(new Date(msg.timestamp), "MMM d, h:mm a")}
-                    </span>
-                  </div>
-                  <div className="prose prose-stone prose-sm max-w-none text-stone-600">
-                    <ReactMarkdown>{msg.content}</ReactMarkdown>
-                  </div>
-                  {msg.images && msg.images.length > 0 && (
-                    <div className="flex flex-wrap gap-3 mt-4">
-                      {msg.images.map((img: string, idx: number) => (
-                        <img
-                          key={idx}
-                          src={img}
-                          alt={`Reply image ${idx + 1}`}
-                          className="rounded-lg max-h-48 object-cover border border-stone-200"
-                        />
-                      ))}
-                    </div>
-                  )}
-                </div>
-              </motion.div>
+            {threads.map((msg, idx) => (
+              <Fragment key={msg.id}>
+                {idx === firstNewThread && <NewSinceDivider />}
+                <MessageThread
+                  conversationId={conversation.id}
+                  message={msg}
+                  canReply={canReply}
+                  isMember={isMember}
+                  lastVisit={lastVisit}
+                />
+              </Fragment>
             ))}
 
-            {sortedMessages.length === 1 && (
+            {threads.length === 0 && (
               <div className="text-center py-12 text-stone-400 italic">
                 No replies yet. Be the first to send support.
               </div>
             )}
           </div>
 
-          <div className="bg-white rounded-xl border shadow-lg p-6 sticky bottom-6 md:static">
-            <h4 className="font-bold text-stone-800 mb-4">Leave a message</h4>
-            <form onSubmit={handleReply}>
-              <div className="flex items-center gap-1 mb-2 border-b border-stone-100 pb-2">
-                <Button
-                  type="button"
-                  variant="ghost"
-                  size="icon"
-                  onClick={() => insertMarkdown("**")}
-                  title="Bold"
-                  data-testid="button-bold"
-                >
-                  <Bold className="w-4 h-4" />
-                </Button>
-                <Button
-                  type="button"
-                  variant="ghost"
-                  size="icon"
-                  onClick={() => insertMarkdown("*")}
-                  title="Italic"
-                  data-testid="button-italic"
-                >
-                  <Italic className="w-4 h-4" />
-                </Button>
-                <Button
-                  type="button"
-                  variant="ghost"
-                  size="icon"
-                  onClick={() => insertMarkdown("[", "](url)")}
-                  title="Add Link"
-                  data-testid="button-link"
-                >
-                  <LinkIcon className="w-4 h-4" />
-                </Button>
-                {isMember && (
-                  <>
-                    <div className="w-px h-5 bg-stone-200 mx-1" />
-                    <Button
-                      type="button"
-                      variant="ghost"
-                      size="icon"
-                      onClick={() => fileInputRef.current?.click()}
-                      disabled={isUploading}
-                      title="Add Image"
-                      data-testid="button-add-image"
-                    >
-                      {isUploading ? (
-                        <Loader2 className="w-4 h-4 animate-spin" />
-                      ) : (
-                        <Image className="w-4 h-4" />
-                      )}
-                    </Button>
-                    <input
-                      ref={fileInputRef}
-                      type="file"
-                      accept="image/jpeg,image/png,image/gif,image/webp"
-                      multiple
-                      className="hidden"
-                      onChange={handleImageUpload}
-                      data-testid="input-image-upload"
-                    />
-                  </>
-                )}
-              </div>
-
-              {uploadedImages.length > 0 && (
-                <div className="flex flex-wrap gap-2 mb-3">
-                  {uploadedImages.map((img, idx) => (
-                    <div key={idx} className="relative group">
-                      <img
-                        src={img}
-                        alt={`Upload ${idx + 1}`}
-                        className="w-16 h-16 object-cover rounded-md border border-stone-200"
-                      />
-                      <button
+          {!canReply ? (
+            <div className="text-center py-6 text-sm text-stone-400 italic">
+              {conversation.memberName || "The member"} has shared this update with you to read.
+            </div>
+          ) : (
+            <div className="bg-white rounded-xl border shadow-lg p-6 sticky bottom-6 md:static">
+              <h4 className="font-bold text-stone-800 mb-4">Leave a message</h4>
+              <form onSubmit={handleReply}>
+                <div className="flex items-center gap-1 mb-2 border-b border-stone-100 pb-2">
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => insertMarkdown("**")}
+                    title="Bold"
+                    data-testid="button-bold"
+                  >
+                    <Bold className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => insertMarkdown("*")}
+                    title="Italic"
+                    data-testid="button-italic"
+                  >
+                    <Italic className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => insertMarkdown("[", "](url)")}
+                    title="Add Link"
+                    data-testid="button-link"
+                  >
+                    <LinkIcon className="w-4 h-4" />
+                  </Button>
+                  {canUploadImages && (
+                    <>
+                      <div className="w-px h-5 bg-stone-200 mx-1" />
+                      <Button
                         type="button"
-                        onClick={() => removeImage(idx)}
-                        className="absolute -top-2 -right-2 bg-destructive text-destructive-foreground rounded-full p-0.5 opacity-0 group-hover:opacity-100 transition-opacity"
-                        data-testid={`button-remove-image-${idx}`}
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => fileInputRef.current?.click()}
+                        disabled={isUploading}
+                        title="Add Image"
+                        data-testid="button-add-image"
                       >
-                        <X className="w-3 h-3" />
-                      </button>
-                    </div>
-                  ))}
+                        {isUploading ? (
+                          <Loader2 className="w-4 h-4 animate-spin" />
+                        ) : (
+                          <Image className="w-4 h-4" />
+                        )}
+                      </Button>
+                      <input
+                        ref={fileInputRef}
+                        type="file"
+                        accept="image/jpeg,image/png,image/gif,image/webp"
+                        multiple
+                        className="hidden"
+                        onChange={handleImageUpload}
+                        data-testid="input-image-upload"
+                      />
+                    </>
+                  )}
                 </div>
-              )}
 
-              <Textarea
-                ref={textareaRef}
-                value={replyContent}
-                onChange={(e) => setReplyContent(e.target.value)}
-                placeholder="Write a supportive message... (Markdown supported: **bold**, *italic*, [link](url))"
-                className="mb-4 min-h-[100px] resize-none bg-stone-50 border-stone-200 focus:bg-white transition-colors"
-                data-testid="input-reply-content"
-              />
-              <div className="flex justify-between items-center gap-4 flex-wrap">
-                <p className="text-xs text-stone-400">
-                  Your message will be visible to the community.
-                </p>
-                <Button
-                  type="submit"
-                  disabled={
-                    (!replyContent.trim() && uploadedImages.length === 0) ||
-                    addMessageMutation.isPending
-                  }
-                  className="bg-primary"
-                  data-testid="button-send-message"
-                >
-                  {addMessageMutation.isPending ? (
-                    <Loader2 className="w-4 h-4 animate-spin mr-2" />
-                  ) : (
-                    <Send className="w-4 h-4 mr-2" />
-                  )}
-                  Send Message
-                </Button>
-              </div>
-            </form>
-          </div>
+                {uploadedImages.length > 0 && (
+                  <div className="flex flex-wrap gap-2 mb-3">
+                    {uploadedImages.map((img, idx) => (
+                      <div key={idx} className="relative group">
+                        <img
+                          src={img}
+                          alt={`Upload ${idx + 1}`}
+                          className="w-16 h-16 object-cover rounded-md border border-stone-200"
+                        />
+                        <button
+                          type="button"
+                          onClick={() => removeImage(idx)}
+                          className="absolute -top-2 -right-2 bg-destructive text-destructive-foreground rounded-full p-0.5 opacity-0 group-hover:opacity-100 transition-opacity"
+                          data-testid={`button-remove-image-${idx}`}
+                        >
+                          <X className="w-3 h-3" />
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                <Textarea
+                  ref={textareaRef}
+                  value={replyContent}
+                  onChange={(e) => setReplyContent(e.target.value)}
+                  placeholder="Write a supportive message... (Markdown supported: **bold**, *italic*, [link](url))"
+                  className="mb-4 min-h-[100px] resize-none bg-stone-50 border-stone-200 focus:bg-white transition-colors"
+                  data-testid="input-reply-content"
+                />
+                <div className="flex justify-between items-center gap-4 flex-wrap">
+                  <p className="text-xs text-stone-400">
+                    Your message will be visible to the community.
+                  </p>
+                  <Button
+                    type="submit"
+                    disabled={
+                      (!replyContent.trim() && uploadedImages.length === 0) ||
+                      addMessageMutation.isPending
+                    }
+                    className="bg-primary"
+                    data-testid="button-send-message"
+                  >
+                    {addMessageMutation.isPending ? (
+                      <Loader2 className="w-4 h-4 animate-spin mr-2" />
+                    ) : (
+                      <Send className="w-4 h-4 mr-2" />
+                    )}
+                    Send Message
+                  </Button>
+                </div>
+              </form>
+            </div>
+          )}
         </section>
       </main>
     </div>
@@ -1,22 +1,33 @@
 import { Navbar } from "@/components/navbar";
 import { useAuth } from "@/hooks/use-auth";
 import { useConversations } from "@/hooks/use-conversations";
+import { useJourneys } from "@/hooks/use-journeys";
 import { CreateUpdateDialog } from "@/components/create-update-dialog";
+import { countReactions } from "@/components/reaction-bar";
 import { Link } from "wouter";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
-import type { Conversation } from "@shared/schema";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import type { ConversationWithReadState } from "@shared/routes";
 import { format } from "date-fns";
-import { MessageCircle, Calendar, ArrowRight, Activity, Users } from "lucide-react";
+import { MessageCircle, Calendar, ArrowRight, Activity, Users, Heart, Eye } from "lucide-react";
 import { motion } from "framer-motion";
 import ReactMarkdown from "react-markdown";
+import { useState } from "react";
 
 export default function Dashboard() {
   const { user } = useAuth();
-  const { data: conversations, isLoading } = useConversations();
+  const [showArchived, setShowArchived] = useState(false);
+  const { data: conversations, isLoading } = useConversations({ includeArchived: showArchived });
+  const { data: journeys = [] } = useJourneys();
 
-  // Simple split: If I created it, it's my update. Else it's someone I follow.
-  const myUpdates = conversations?.filter((c) => c.memberId === user?.id) || [];
-  const followingUpdates = conversations?.filter((c) => c.memberId !== user?.id) || [];
+  // Simple split: If I (or a journey I share) created it, it's my update. Else it's someone I follow.
+  const journeyTitles = new Map(journeys.map((j) => [j.id, j.title]));
+  const isMine = (c: ConversationWithReadState) =>
+    c.memberId === user?.id || journeyTitles.has(c.memberId);
+  const myUpdates = conversations?.filter(isMine) || [];
+  const followingUpdates = conversations?.filter((c) => !isMine(c)) || [];
 
   return (
     <div className="min-h-screen bg-stone-50">
@@ -38,9 +49,22 @@ export default function Dashboard() {
           {/* Main Feed */}
           <div className="lg:col-span-2 space-y-8">
             <section>
-              <h2 className="text-xl font-bold mb-6 flex items-center gap-2">
-                <Activity className="w-5 h-5 text-accent" /> My Journey
-              </h2>
+              <div className="flex items-center justify-between gap-4 mb-6">
+                <h2 className="text-xl font-bold flex items-center gap-2">
+                  <Activity className="w-5 h-5 text-accent" /> My Journey
+                </h2>
+                <div className="flex items-center gap-2">
+                  <Switch
+                    id="show-archived"
+                    checked={showArchived}
+                    onCheckedChange={setShowArchived}
+                    data-testid="switch-show-archived"
+                  />
+                  <Label htmlFor="show-archived" className="text-sm text-muted-foreground">
+                    Show archived
+                  </Label>
+                </div>
+              </div>
 
               {isLoading ? (
                 <div className="space-y-4">
@@ -51,7 +75,12 @@ export default function Dashboard() {
               ) : myUpdates.length > 0 ? (
                 <div className="space-y-4">
                   {myUpdates.map((update) => (
-                    <UpdateCard key={update.id} conversation={update} isMine />
+                    <UpdateCard
+                      key={update.id}
+                      conversation={update}
+                      isMine
+                      journeyTitle={journeyTitles.get(update.memberId)}
+                    />
                   ))}
                 </div>
               ) : (
@@ -115,9 +144,17 @@ export default function Dashboard() {
   );
 }
 
-function UpdateCard({ conversation, isMine }: { conversation: Conversation; isMine?: boolean }) {
+interface UpdateCardProps {
+  conversation: ConversationWithReadState;
+  isMine?: boolean;
+  // Set for updates posted to a journey I share with other co-members
+  journeyTitle?: string;
+}
+
+function UpdateCard({ conversation, isMine, journeyTitle }: UpdateCardProps) {
   const latestMessage = conversation.data.messages[0]; // Assuming newest first or just taking first
   const date = new Date(conversation.createdAt);
+  const reactionCount = countReactions(conversation.data.messages);
 
   return (
     <motion.div initial={{ opacity: 0, y: 10 }} animate={{ opacity: 1, y: 0 }}>
@@ -127,10 +164,27 @@ function UpdateCard({ conversation, isMine }: { conversation: Conversation; isMi
             <div className="flex justify-between items-start">
               <div>
                 <span className="text-xs font-bold text-primary tracking-wide uppercase mb-1 block">
-                  {isMine ? "My Update" : `From ${conversation.memberName || "Member"}`}
+                  {journeyTitle
+                    ? journeyTitle
+                    : isMine
+                      ? "My Update"
+                      : `From ${conversation.memberName || "Member"}`}
                 </span>
                 <CardTitle className="group-hover:text-primary transition-colors text-xl">
                   {conversation.title}
+                  {conversation.archived && (
+                    <Badge variant="outline" className="ml-2 align-middle font-normal">
+                      Archived
+                    </Badge>
+                  )}
+                  {!!conversation.unreadCount && (
+                    <Badge
+                      className="ml-2 align-middle"
+                      data-testid={`badge-unread-${conversation.id}`}
+                    >
+                      {conversation.unreadCount} new
+                    </Badge>
+                  )}
                 </CardTitle>
               </div>
               <div className="text-xs text-muted-foreground bg-stone-100 px-2 py-1 rounded-full flex items-center gap-1">
@@ -160,6 +214,25 @@ function UpdateCard({ conversation, isMine }: { conversation: Conversation; isMi
                 <MessageCircle className="w-3 h-3" />
                 {conversation.data.messages.length} messages
               </span>
+              {reactionCount > 0 && (
+                <span
+                  className="flex items-center gap-1"
+                  data-testid={`reactions-${conversation.id}`}
+                >
+                  <Heart className="w-3 h-3" />
+                  {reactionCount} {reactionCount === 1 ? "reaction" : "reactions"}
+                </span>
+              )}
+              {/* Only sent to the member */}
+              {conversation.seenBy !== undefined && (
+                <span
+                  className="flex items-center gap-1"
+                  data-testid={`seen-by-${conversation.id}`}
+                >
+                  <Eye className="w-3 h-3" />
+                  Seen by {conversation.seenBy}
+                </span>
+              )}
               <span className="text-primary group-hover:underline">Read full update →</span>
             </div>
           </CardContent>
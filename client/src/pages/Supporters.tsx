@@ -1,21 +1,80 @@
 import { Navbar } from "@/components/navbar";
 import { useSupporters } from "@/hooks/use-supporters";
 import { InviteSupporterDialog } from "@/components/invite-supporter-dialog";
+import { BulkInviteDialog } from "@/components/bulk-invite-dialog";
+import { RemoveSupporterDialog } from "@/components/remove-supporter-dialog";
+import { ROLE_LABELS, SupporterRoleSelect } from "@/components/supporter-role-select";
+import { CreateUpdateDialog } from "@/components/create-update-dialog";
+import { InvitationActions, InvitationResponse } from "@/components/invitation-actions";
+import { CircleDialog, DeleteCircleDialog } from "@/components/circle-dialog";
+import { BlockUserDialog } from "@/components/block-user-dialog";
+import {
+  AddCoMemberDialog,
+  JourneyDialog,
+  RemoveCoMemberDialog,
+} from "@/components/journey-dialog";
+import { useCircles } from "@/hooks/use-circles";
+import { useBlocks, useUnblockUser } from "@/hooks/use-blocks";
+import { useJourneys } from "@/hooks/use-journeys";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { X, User, Loader2, Clock } from "lucide-react";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { X, User, Loader2, Clock, Users, Pencil, Trash2, Plus, Ban, UserPlus } from "lucide-react";
 import { Badge } from "@/components/ui/badge";
+import { format } from "date-fns";
+import { useState } from "react";
+
+// Select value for managing the user's own supporters rather than a shared journey's
+const OWN_SUPPORTERS = "own";
 
 export default function Supporters() {
-  const { data: supportersData, isLoading } = useSupporters();
+  const { user } = useAuth();
+  const { data: journeys = [] } = useJourneys();
+  const [selectedJourneyId, setSelectedJourneyId] = useState<string>();
+  // Falls back to the user's own supporters once they leave the selected journey
+  const journeyId = journeys.some((j) => j.id === selectedJourneyId)
+    ? selectedJourneyId
+    : undefined;
+  const { data: supportersData, isLoading } = useSupporters(journeyId);
+  const { data: circles = [] } = useCircles(journeyId);
+  const { data: blocked = [] } = useBlocks();
+  const unblockMutation = useUnblockUser();
+  const { toast } = useToast();
 
   // API now returns {mySupporters, supporting}
   const mySupporters = supportersData?.mySupporters || [];
   const iSupport = supportersData?.supporting || [];
 
-  const pendingInvites = mySupporters.filter((s) => s.status === "pending");
+  const pendingInvites = mySupporters.filter(
+    (s) => s.status === "pending" || s.status === "expired"
+  );
   const activeSupporters = mySupporters.filter((s) => s.status === "accepted");
+  const supporterNames = new Map(
+    activeSupporters.map((s) => [s.supporterId, s.supporterName || s.supporterEmail])
+  );
+
+  async function unblock(userId: string, name: string) {
+    try {
+      await unblockMutation.mutateAsync(userId);
+      toast({ title: "Unblocked", description: `You can invite ${name} again.` });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Failed to unblock.";
+      toast({
+        title: "Error",
+        description: errorMessage,
+        variant: "destructive",
+      });
+    }
+  }
 
   if (isLoading) {
     return (
@@ -32,7 +91,30 @@ export default function Supporters() {
       <main className="container mx-auto px-4 py-8 max-w-4xl">
         <div className="flex justify-between items-center mb-8">
           <h1 className="text-3xl font-serif font-bold text-primary">Community Circle</h1>
-          <InviteSupporterDialog />
+          <div className="flex items-center gap-2">
+            {journeys.length > 0 && (
+              <Select
+                value={journeyId ?? OWN_SUPPORTERS}
+                onValueChange={(value) =>
+                  setSelectedJourneyId(value === OWN_SUPPORTERS ? undefined : value)
+                }
+              >
+                <SelectTrigger className="w-48" aria-label="Whose supporters to manage">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={OWN_SUPPORTERS}>My own supporters</SelectItem>
+                  {journeys.map((journey) => (
+                    <SelectItem key={journey.id} value={journey.id}>
+                      {journey.title}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+            <BulkInviteDialog journeyId={journeyId} />
+            <InviteSupporterDialog journeyId={journeyId} />
+          </div>
         </div>
 
         <Tabs defaultValue="my-circle" className="w-full">
@@ -49,6 +131,18 @@ export default function Supporters() {
             >
               People I Support
             </TabsTrigger>
+            <TabsTrigger
+              value="circles"
+              className="px-6 py-3 rounded-t-lg data-[state=active]:bg-white data-[state=active]:border-b-2 data-[state=active]:border-primary data-[state=active]:shadow-none bg-transparent border-b-2 border-transparent"
+            >
+              Circles
+            </TabsTrigger>
+            <TabsTrigger
+              value="journeys"
+              className="px-6 py-3 rounded-t-lg data-[state=active]:bg-white data-[state=active]:border-b-2 data-[state=active]:border-primary data-[state=active]:shadow-none bg-transparent border-b-2 border-transparent"
+            >
+              Shared Journeys
+            </TabsTrigger>
           </TabsList>
 
           <TabsContent value="my-circle" className="space-y-8">
@@ -69,15 +163,30 @@ export default function Supporters() {
                             <p className="font-medium text-stone-900">
                               {s.supporterEmail || "Unknown User"}
                             </p>
-                            <p className="text-xs text-stone-500">Invitation sent</p>
+                            <p className="text-xs text-stone-500">
+                              {s.expiresAt
+                                ? `${s.status === "expired" ? "Expired" : "Expires"} ${format(new Date(s.expiresAt), "MMM d")}`
+                                : "Invitation sent"}
+                            </p>
+                            {s.message && (
+                              <p className="text-xs text-stone-500 italic mt-1">
+                                &ldquo;{s.message}&rdquo;
+                              </p>
+                            )}
                           </div>
                         </div>
-                        <Badge
-                          variant="outline"
-                          className="bg-white text-orange-600 border-orange-200"
-                        >
-                          Pending
-                        </Badge>
+                        <div className="flex items-center gap-2">
+                          <Badge
+                            variant="outline"
+                            className="bg-white text-orange-600 border-orange-200"
+                          >
+                            {s.status === "expired" ? "Expired" : "Pending"}
+                          </Badge>
+                          <InvitationActions
+                            supporterId={s.id}
+                            name={s.supporterName || s.supporterEmail || "They"}
+                          />
+                        </div>
                       </CardContent>
                     </Card>
                   ))}
@@ -107,13 +216,40 @@ export default function Supporters() {
                             </p>
                           </div>
                         </div>
-                        <Button
-                          variant="ghost"
-                          size="icon"
-                          className="text-destructive hover:bg-destructive/10"
-                        >
-                          <X className="w-4 h-4" />
-                        </Button>
+                        <div className="flex items-center gap-2">
+                          <SupporterRoleSelect
+                            supporterId={s.id}
+                            name={s.supporterName || s.supporterEmail || "This supporter"}
+                            role={s.role}
+                          />
+                          <BlockUserDialog
+                            userId={s.supporterId}
+                            name={s.supporterName || s.supporterEmail || "this supporter"}
+                          >
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="text-muted-foreground"
+                              aria-label="Block supporter"
+                            >
+                              <Ban className="w-4 h-4" />
+                            </Button>
+                          </BlockUserDialog>
+                          <RemoveSupporterDialog
+                            supporterId={s.id}
+                            name={s.supporterName || s.supporterEmail || "this supporter"}
+                            mode="revoke"
+                          >
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="text-destructive hover:bg-destructive/10"
+                              aria-label="Remove supporter"
+                            >
+                              <X className="w-4 h-4" />
+                            </Button>
+                          </RemoveSupporterDialog>
+                        </div>
                       </CardContent>
                     </Card>
                   ))
@@ -124,6 +260,31 @@ export default function Supporters() {
                 )}
               </div>
             </section>
+
+            {blocked.length > 0 && (
+              <section>
+                <h3 className="text-sm font-bold uppercase tracking-wider text-muted-foreground mb-4">
+                  Blocked
+                </h3>
+                <div className="grid gap-4">
+                  {blocked.map((b) => (
+                    <Card key={b.userId}>
+                      <CardContent className="p-4 flex items-center justify-between">
+                        <p className="font-medium text-stone-900">{b.name}</p>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => unblock(b.userId, b.name)}
+                          disabled={unblockMutation.isPending}
+                        >
+                          Unblock
+                        </Button>
+                      </CardContent>
+                    </Card>
+                  ))}
+                </div>
+              </section>
+            )}
           </TabsContent>
 
           <TabsContent value="following">
@@ -138,12 +299,59 @@ export default function Supporters() {
                         </div>
                         <div>
                           <p className="font-medium text-stone-900">{s.memberName}</p>
-                          <p className="text-xs text-stone-500">Supporting</p>
+                          <p className="text-xs text-stone-500">
+                            {s.status === "pending" && s.expiresAt
+                              ? `Invited you · expires ${format(new Date(s.expiresAt), "MMM d")}`
+                              : s.status === "expired"
+                                ? "Invitation expired"
+                                : "Supporting"}
+                          </p>
+                          {s.status === "pending" && s.message && (
+                            <p className="text-xs text-stone-500 italic mt-1">
+                              &ldquo;{s.message}&rdquo;
+                            </p>
+                          )}
                         </div>
                       </div>
-                      <Badge variant="secondary" className="bg-secondary/50">
-                        Following
-                      </Badge>
+                      <div className="flex items-center gap-2">
+                        {s.status === "pending" && (
+                          <InvitationResponse
+                            supporterId={s.id}
+                            name={s.memberName || "this member"}
+                          />
+                        )}
+                        {s.status === "accepted" && s.role === "caregiver" && (
+                          <CreateUpdateDialog
+                            member={{ id: s.memberId, name: s.memberName || "this member" }}
+                          />
+                        )}
+                        {s.status === "accepted" && (
+                          <Badge variant="secondary" className="bg-secondary/50">
+                            {ROLE_LABELS[s.role]}
+                          </Badge>
+                        )}
+                        {s.status !== "pending" && (
+                          <RemoveSupporterDialog
+                            supporterId={s.id}
+                            name={s.memberName || "this member"}
+                            mode="leave"
+                          >
+                            <Button variant="ghost" size="sm" className="text-muted-foreground">
+                              Leave
+                            </Button>
+                          </RemoveSupporterDialog>
+                        )}
+                        <BlockUserDialog userId={s.memberId} name={s.memberName || "this member"}>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="text-muted-foreground"
+                            aria-label="Block member"
+                          >
+                            <Ban className="w-4 h-4" />
+                          </Button>
+                        </BlockUserDialog>
+                      </div>
                     </CardContent>
                   </Card>
                 ))
@@ -154,6 +362,136 @@ export default function Supporters() {
               )}
             </div>
           </TabsContent>
+
+          <TabsContent value="circles" className="space-y-4">
+            <div className="flex justify-between items-center">
+              <p className="text-sm text-muted-foreground">
+                Share updates with a circle instead of everyone who supports you.
+              </p>
+              <CircleDialog journeyId={journeyId}>
+                <Button variant="outline" className="gap-2">
+                  <Plus className="w-4 h-4" />
+                  New Circle
+                </Button>
+              </CircleDialog>
+            </div>
+            <div className="grid gap-4">
+              {circles.length > 0 ? (
+                circles.map((circle) => (
+                  <Card key={circle.id}>
+                    <CardContent className="p-4 flex items-center justify-between">
+                      <div className="flex items-center gap-3">
+                        <div className="h-10 w-10 bg-primary/10 rounded-full flex items-center justify-center text-primary">
+                          <Users className="w-5 h-5" />
+                        </div>
+                        <div>
+                          <p className="font-medium text-stone-900">{circle.name}</p>
+                          <p className="text-xs text-stone-500">
+                            {circle.supporterIds
+                              .map((id) => supporterNames.get(id))
+                              .filter(Boolean)
+                              .join(", ") || "No supporters yet"}
+                          </p>
+                        </div>
+                      </div>
+                      <div className="flex items-center gap-1">
+                        <CircleDialog circle={circle} journeyId={journeyId}>
+                          <Button variant="ghost" size="icon" aria-label="Edit circle">
+                            <Pencil className="w-4 h-4" />
+                          </Button>
+                        </CircleDialog>
+                        <DeleteCircleDialog circle={circle}>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="text-destructive hover:bg-destructive/10"
+                            aria-label="Delete circle"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </Button>
+                        </DeleteCircleDialog>
+                      </div>
+                    </CardContent>
+                  </Card>
+                ))
+              ) : (
+                <div className="text-center py-12 border-2 border-dashed rounded-xl text-muted-foreground">
+                  You haven&apos;t created any circles yet. Try &quot;Family&quot; or
+                  &quot;Work&quot;.
+                </div>
+              )}
+            </div>
+          </TabsContent>
+
+          <TabsContent value="journeys" className="space-y-4">
+            <div className="flex justify-between items-center">
+              <p className="text-sm text-muted-foreground">
+                Post about someone you care for together, with one set of supporters.
+              </p>
+              <JourneyDialog>
+                <Button variant="outline" className="gap-2">
+                  <Plus className="w-4 h-4" />
+                  New Journey
+                </Button>
+              </JourneyDialog>
+            </div>
+            <div className="grid gap-4">
+              {journeys.length > 0 ? (
+                journeys.map((journey) => (
+                  <Card key={journey.id}>
+                    <CardContent className="p-4 space-y-3">
+                      <div className="flex items-center justify-between">
+                        <p className="font-medium text-stone-900">{journey.title}</p>
+                        <div className="flex items-center gap-1">
+                          <CreateUpdateDialog journey={journey} />
+                          <AddCoMemberDialog journey={journey}>
+                            <Button variant="ghost" size="icon" aria-label="Add co-member">
+                              <UserPlus className="w-4 h-4" />
+                            </Button>
+                          </AddCoMemberDialog>
+                          <JourneyDialog journey={journey}>
+                            <Button variant="ghost" size="icon" aria-label="Rename journey">
+                              <Pencil className="w-4 h-4" />
+                            </Button>
+                          </JourneyDialog>
+                        </div>
+                      </div>
+                      <div className="flex flex-wrap gap-2">
+                        {journey.members.map((member) => (
+                          <Badge key={member.id} variant="secondary" className="gap-1 pr-1">
+                            {member.id === user?.id ? "You" : member.name}
+                            {journey.members.length > 1 && (
+                              <RemoveCoMemberDialog
+                                journey={journey}
+                                userId={member.id}
+                                name={member.name}
+                                isSelf={member.id === user?.id}
+                              >
+                                <button
+                                  className="rounded-full p-0.5 hover:bg-stone-200"
+                                  aria-label={
+                                    member.id === user?.id
+                                      ? "Leave journey"
+                                      : `Remove ${member.name}`
+                                  }
+                                >
+                                  <X className="w-3 h-3" />
+                                </button>
+                              </RemoveCoMemberDialog>
+                            )}
+                          </Badge>
+                        ))}
+                      </div>
+                    </CardContent>
+                  </Card>
+                ))
+              ) : (
+                <div className="text-center py-12 border-2 border-dashed rounded-xl text-muted-foreground">
+                  You don&apos;t share a journey with anyone yet.
+                </div>
+              )}
+            </div>
+          </TabsContent>
         </Tabs>
       </main>
     </div>
@@ -0,0 +1,50 @@
+import { useEffect } from "react";
+import { Link, useSearch } from "wouter";
+import { useAuth } from "@/hooks/use-auth";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { CheckCircle2, AlertCircle, Loader2 } from "lucide-react";
+
+/**
+ * Landing page for the link in the verification email: /verify-email?token=<token>
+ */
+export default function VerifyEmail() {
+  const { user, verifyEmailMutation } = useAuth();
+  const token = new URLSearchParams(useSearch()).get("token");
+  const { mutate } = verifyEmailMutation;
+
+  useEffect(() => {
+    if (token) mutate({ token });
+  }, [token, mutate]);
+
+  const failed = !token || verifyEmailMutation.isError;
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-stone-50 p-4">
+      <Card className="w-full max-w-md text-center">
+        <CardHeader>
+          <CardTitle className="text-2xl font-serif text-primary">SupportSpark</CardTitle>
+          <CardDescription>Email verification</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {failed ? (
+            <p className="flex items-center justify-center gap-2 text-sm text-destructive">
+              <AlertCircle className="w-4 h-4" />
+              This verification link is invalid or has expired. Log in to send a new one.
+            </p>
+          ) : verifyEmailMutation.isSuccess ? (
+            <p className="flex items-center justify-center gap-2 text-sm">
+              <CheckCircle2 className="w-4 h-4 text-primary" />
+              {verifyEmailMutation.data.message}
+            </p>
+          ) : (
+            <Loader2 className="w-6 h-6 mx-auto text-primary animate-spin" />
+          )}
+          <Link href={user ? "/dashboard" : "/auth"}>
+            <Button className="w-full">{user ? "Go to dashboard" : "Go to login"}</Button>
+          </Link>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,79 @@
+/* eslint-disable no-console */
+// Backup script needs console output for progress reporting
+import path from "path";
+import { createBackup, pruneBackups } from "../server/backup";
+import { resolveDataDir } from "../server/data-dir";
+
+interface BackupOptions {
+  dataDir: string;
+  backupDir: string;
+  keep?: number;
+}
+
+const USAGE = `Usage: npm run backup -- [options]
+
+Writes a timestamped .tar.gz snapshot of the whole data directory, including
+conversation images, with a manifest of file sizes and SHA-256 checksums.
+
+Options:
+  --data-dir <path>  Data directory to back up (defaults to DATA_DIR or ./data)
+  --out <path>       Directory for archives (defaults to BACKUP_DIR or ./backups)
+  --keep <n>         Afterwards delete all but the newest n archives`;
+
+function parseArgs(argv: string[]): BackupOptions {
+  const options: BackupOptions = {
+    dataDir: resolveDataDir(),
+    backupDir: path.resolve(process.env.BACKUP_DIR || "backups"),
+  };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    const value = argv[i + 1];
+    switch (arg) {
+      case "--data-dir":
+      case "--out":
+        if (!value) throw new Error(`${arg} needs a path`);
+        options[arg === "--data-dir" ? "dataDir" : "backupDir"] = path.resolve(value);
+        i++;
+        break;
+      case "--keep":
+        options.keep = Number(value);
+        if (!Number.isInteger(options.keep) || options.keep < 1) {
+          throw new Error("--keep must be a positive whole number");
+        }
+        i++;
+        break;
+      default:
+        throw new Error(`Unknown argument: ${arg}`);
+    }
+  }
+  return options;
+}
+
+async function backup() {
+  let options: BackupOptions;
+  try {
+    options = parseArgs(process.argv.slice(2));
+  } catch (err) {
+    console.error(`❌ ${(err as Error).message}\n\n${USAGE}`);
+    process.exit(1);
+  }
+
+  console.log(`Backing up ${options.dataDir}...\n`);
+  const { file, manifest } = await createBackup(options.dataDir, options.backupDir);
+  const bytes = manifest.files.reduce((total, f) => total + f.size, 0);
+  console.log(`  ✓ ${manifest.files.length} files (${(bytes / 1024).toFixed(1)} KB)`);
+  console.log(`  ✓ Written to ${file}`);
+
+  if (options.keep !== undefined) {
+    const pruned = await pruneBackups(options.backupDir, options.keep);
+    console.log(`  ✓ Removed ${pruned.length} old archive(s), keeping ${options.keep}`);
+  }
+
+  console.log("\n✅ Backup complete!");
+}
+
+backup().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
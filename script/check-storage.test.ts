@@ -0,0 +1,174 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { execFile } from "child_process";
+import { promisify } from "util";
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import type { Message } from "@shared/schema";
+import { DATA_FORMAT_VERSION, loadDataFile } from "../server/data-format";
+
+const run = promisify(execFile);
+const TSX = path.join(process.cwd(), "node_modules", ".bin", "tsx");
+const SCRIPT = path.join(process.cwd(), "script", "check-storage.ts");
+
+const CREATED_AT = "2026-01-01T12:00:00.000Z";
+
+describe("check-storage", () => {
+  let dataDir: string;
+
+  beforeEach(async () => {
+    dataDir = await fs.mkdtemp(path.join(os.tmpdir(), "check-storage-"));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dataDir, { recursive: true, force: true });
+  });
+
+  // Exit code and output; the script exits 1 while problems remain
+  async function checkStorage(...args: string[]) {
+    try {
+      const { stdout } = await run(TSX, [SCRIPT, "--data-dir", dataDir, ...args], {
+        env: { ...process.env, DATA_ENCRYPTION_KEY: "" },
+      });
+      return { code: 0, stdout };
+    } catch (error) {
+      const { code, stdout } = error as { code: number; stdout: string };
+      return { code, stdout };
+    }
+  }
+
+  const readRawFile = async (name: string) =>
+    JSON.parse(await fs.readFile(path.join(dataDir, name), "utf-8"));
+
+  // Content of a file the script wrote, without its format header
+  const readFile = async (name: string) => (await readRawFile(name)).content;
+
+  const writeFile = async (name: string, value: unknown) => {
+    await fs.mkdir(path.dirname(path.join(dataDir, name)), { recursive: true });
+    await fs.writeFile(path.join(dataDir, name), JSON.stringify(value));
+  };
+
+  const user = (id: string) => ({
+    id,
+    email: `${id}@example.com`,
+    password: "hashed",
+    passwordVersion: "bcrypt-10",
+  });
+
+  const message = (id: string, authorId: string, replies?: Message[]): Message => ({
+    id,
+    authorId,
+    authorName: "Test User",
+    content: `Message ${id}`,
+    timestamp: CREATED_AT,
+    ...(replies && { replies }),
+  });
+
+  const conversation = (id: number, memberId: string, title: string, messages: Message[]) => ({
+    id,
+    memberId,
+    title,
+    data: { messages },
+    createdAt: CREATED_AT,
+  });
+
+  // One of each problem the checker repairs: an unindexed file, a file moved to another
+  // member's directory, a repeated message ID and a supporter row for a deleted user
+  async function breakStorage() {
+    await writeFile("users.json", [user("member"), user("other")]);
+    await writeFile("supporters.json", [
+      {
+        id: 1,
+        memberId: "member",
+        supporterId: "missing-user",
+        status: "pending",
+        createdAt: CREATED_AT,
+      },
+    ]);
+    await writeFile("conversations/index.json", [
+      { id: 2, memberId: "member", title: "Moved", createdAt: CREATED_AT },
+      { id: 3, memberId: "member", title: "Duplicated", createdAt: CREATED_AT },
+    ]);
+    await writeFile("conversations/meta.json", { lastConversationId: 3 });
+    await writeFile(
+      "conversations/member/1.json",
+      conversation(1, "member", "Orphan", [message("a", "member")])
+    );
+    await writeFile(
+      "conversations/other/2.json",
+      conversation(2, "other", "Moved", [message("b", "member")])
+    );
+    await writeFile(
+      "conversations/member/3.json",
+      conversation(3, "member", "Duplicated", [
+        message("root", "member", [message("root", "other")]),
+      ])
+    );
+  }
+
+  it("should report each problem and change nothing without --repair", async () => {
+    await breakStorage();
+    const before = await readRawFile("conversations/index.json");
+
+    const { code, stdout } = await checkStorage();
+
+    expect(code).toBe(1);
+    expect(stdout).toContain("Found 4 problem(s)");
+    expect(stdout).toContain("Index entry 2 points at member but the file is under other");
+    expect(stdout).toContain(
+      `Conversation file ${path.join("conversations", "member", "1.json")} has no index entry`
+    );
+    expect(stdout).toContain("Conversation 3 has more than one message with ID root");
+    expect(stdout).toContain("Supporter row 1 references missing user(s): missing-user");
+    expect(stdout).toContain("4 can be fixed automatically with --repair.");
+    expect(await readRawFile("conversations/index.json")).toEqual(before);
+  });
+
+  it("should repair every problem so a second check finds none", async () => {
+    await breakStorage();
+
+    const repair = await checkStorage("--repair");
+    expect(repair.code).toBe(0);
+    expect(repair.stdout).toContain("Repaired 4 problem(s)");
+
+    const { code, stdout } = await checkStorage();
+    expect(code).toBe(0);
+    expect(stdout).toContain("No problems found.");
+
+    const index = await readFile("conversations/index.json");
+    expect(index.map((e: { id: number; memberId: string }) => [e.id, e.memberId])).toEqual([
+      [1, "member"],
+      [2, "other"],
+      [3, "member"],
+    ]);
+    const root = (await readFile("conversations/member/3.json")).data.messages[0];
+    expect(root.id).toBe("root");
+    expect(root.replies[0].id).not.toBe("root");
+    expect(await readFile("supporters.json")).toEqual([]);
+  });
+
+  it("should repair files from an older format version without skipping their upgrades", async () => {
+    const relation = {
+      id: 1,
+      memberId: "member",
+      supporterId: "friend",
+      status: "accepted",
+      createdAt: CREATED_AT,
+    };
+    // Unversioned supporters, as written before data files had a format header
+    await writeFile("users.json", [user("member"), user("friend")]);
+    await writeFile("supporters.json", [
+      relation,
+      { ...relation, id: 99, supporterId: "missing-user" },
+    ]);
+
+    const { code } = await checkStorage("--repair");
+
+    expect(code).toBe(0);
+    const repaired = await readRawFile("supporters.json");
+    expect(repaired.formatVersion).toBe(DATA_FORMAT_VERSION);
+    expect(repaired.content).toEqual(
+      loadDataFile("supporters", [relation], "supporters.json").content
+    );
+  });
+});
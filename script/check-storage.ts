@@ -0,0 +1,413 @@
+/* eslint-disable no-console */
+// Integrity check script needs console output for reporting
+import fs from "fs/promises";
+import path from "path";
+import { randomUUID } from "crypto";
+import type { Conversation, Message } from "@shared/schema";
+import {
+  loadDataFile,
+  unwrapDataFile,
+  wrapDataFile,
+  type DataFileContent,
+  type DataFileKind,
+} from "../server/data-format";
+import { resolveDataDir, withDataLock } from "../server/data-dir";
+import { DataEncryption, isEncryptedContent } from "../server/encryption";
+
+interface CheckOptions {
+  dataDir: string;
+  repair: boolean;
+}
+
+interface ConversationFile {
+  memberId: string;
+  id: number;
+  filePath: string;
+  conversation?: Conversation; // undefined when the file cannot be read as a conversation
+  locked?: boolean; // Encrypted and no key to read it; only its location is checked
+  ownerId?: string; // Member the file says it belongs to, readable even when locked
+}
+
+interface Issue {
+  message: string;
+  // Applies the fix to the in-memory state; absent when the problem needs a human
+  repair?: () => void;
+}
+
+const USAGE = `Usage: npm run check:storage -- [options]
+
+Checks the file storage for inconsistencies between conversations/index.json,
+the per-member conversation files, supporters.json, invitations.json, circles.json,
+journeys.json and users.json.
+Encrypted conversations are read with DATA_ENCRYPTION_KEY when it is set.
+
+Options:
+  --data-dir <path>  Data directory to check (defaults to DATA_DIR or ./data)
+  --repair           Fix what can be fixed automatically. Holds the data directory
+                     lock, so a running server waits and then reloads the repairs`;
+
+function parseArgs(argv: string[]): CheckOptions {
+  const options: CheckOptions = { dataDir: resolveDataDir(), repair: false };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    switch (arg) {
+      case "--data-dir": {
+        const value = argv[++i];
+        if (!value) throw new Error("--data-dir needs a path");
+        options.dataDir = path.resolve(value);
+        break;
+      }
+      case "--repair":
+        options.repair = true;
+        break;
+      default:
+        throw new Error(`Unknown argument: ${arg}`);
+    }
+  }
+  return options;
+}
+
+// Upgraded to the current format like FileStorage reads it, so repairs write current content
+async function readJson<K extends DataFileKind>(
+  kind: K,
+  filePath: string,
+  defaultValue: DataFileContent<K>
+): Promise<DataFileContent<K>> {
+  let raw: string;
+  try {
+    raw = await fs.readFile(filePath, "utf-8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return defaultValue;
+    throw error;
+  }
+  return loadDataFile(kind, JSON.parse(raw), filePath).content;
+}
+
+// Same temp file + rename strategy and format header as FileStorage
+async function writeJson(filePath: string, data: unknown) {
+  const tempPath = `${filePath}.tmp.${Date.now()}.${Math.random().toString(36).slice(2)}`;
+  await fs.writeFile(tempPath, JSON.stringify(wrapDataFile(data), null, 2), "utf-8");
+  await fs.rename(tempPath, filePath);
+}
+
+// Every <memberId>/<id>.json under the conversations directory
+async function scanConversationFiles(
+  conversationsDir: string,
+  encryption: DataEncryption | undefined
+): Promise<ConversationFile[]> {
+  const files: ConversationFile[] = [];
+  const entries = await fs.readdir(conversationsDir, { withFileTypes: true }).catch(() => []);
+
+  for (const dir of entries.filter((e) => e.isDirectory())) {
+    const memberDir = path.join(conversationsDir, dir.name);
+    for (const name of await fs.readdir(memberDir)) {
+      const match = name.match(/^(\d+)\.json$/);
+      if (!match) continue;
+
+      const filePath = path.join(memberDir, name);
+      let file: ReturnType<typeof unwrapDataFile> | undefined;
+      try {
+        file = unwrapDataFile(JSON.parse(await fs.readFile(filePath, "utf-8")));
+      } catch {
+        file = undefined;
+      }
+
+      // Without a key an encrypted file still names its member, which is all the index check needs
+      const encrypted = file && isEncryptedContent(file.content) ? file.content : undefined;
+      if (encrypted && !encryption) {
+        files.push({
+          memberId: dir.name,
+          id: Number(match[1]),
+          filePath,
+          locked: true,
+          ownerId: encrypted.memberId,
+        });
+        continue;
+      }
+
+      // Upgraded to the current format, as FileStorage would load it
+      let conversation: Conversation | undefined;
+      if (file) {
+        const content = encrypted
+          ? await encryption!.decryptJson(encrypted, filePath)
+          : file.content;
+        try {
+          conversation = loadDataFile(
+            "conversation",
+            { formatVersion: file.formatVersion, content },
+            filePath
+          ).content;
+        } catch {
+          conversation = undefined;
+        }
+      }
+      files.push({
+        memberId: dir.name,
+        id: Number(match[1]),
+        filePath,
+        conversation,
+        ownerId: conversation?.memberId,
+      });
+    }
+  }
+  return files.sort((a, b) => a.id - b.id);
+}
+
+function walkMessages(messages: Message[], visit: (message: Message) => void) {
+  for (const message of messages) {
+    visit(message);
+    walkMessages(message.replies || [], visit);
+  }
+}
+
+/**
+ * Run the checks (and repairs) and return the process exit code
+ */
+async function checkStorage(options: CheckOptions): Promise<number> {
+  const usersFile = path.join(options.dataDir, "users.json");
+  const supportersFile = path.join(options.dataDir, "supporters.json");
+  const invitationsFile = path.join(options.dataDir, "invitations.json");
+  const circlesFile = path.join(options.dataDir, "circles.json");
+  const journeysFile = path.join(options.dataDir, "journeys.json");
+  const conversationsDir = path.join(options.dataDir, "conversations");
+  const indexFile = path.join(conversationsDir, "index.json");
+  const metaFile = path.join(conversationsDir, "meta.json");
+
+  console.log(`Checking storage in ${options.dataDir}${options.repair ? " (repair)" : ""}\n`);
+
+  const users = await readJson("users", usersFile, []);
+  let supporters = await readJson("supporters", supportersFile, []);
+  let invitations = await readJson("invitations", invitationsFile, []);
+  let circles = await readJson("circles", circlesFile, []);
+  const journeys = await readJson("journeys", journeysFile, []);
+  let index = await readJson("conversationIndex", indexFile, []);
+  const meta = await readJson("conversationMeta", metaFile, { lastConversationId: 0 });
+  const encryption = DataEncryption.fromEnv(options.dataDir);
+  const files = await scanConversationFiles(conversationsDir, encryption);
+
+  const issues: Issue[] = [];
+  const dirty = new Set<string>();
+  const changedFiles = new Set<ConversationFile>();
+
+  // --- Index entries vs conversation files ---
+  const fileKey = (memberId: string, id: number) => `${memberId}/${id}`;
+  const filesByKey = new Map(files.map((f) => [fileKey(f.memberId, f.id), f]));
+  const indexedKeys = new Set(index.map((e) => fileKey(e.memberId, e.id)));
+  const orphans = files.filter((f) => !indexedKeys.has(fileKey(f.memberId, f.id)));
+
+  for (const entry of index) {
+    if (filesByKey.has(fileKey(entry.memberId, entry.id))) continue;
+
+    // The file may exist under another member directory (member ID changed)
+    const moved = orphans.find((f) => f.id === entry.id && f.ownerId === f.memberId);
+    if (moved) {
+      orphans.splice(orphans.indexOf(moved), 1);
+      issues.push({
+        message: `Index entry ${entry.id} points at ${entry.memberId} but the file is under ${moved.memberId}`,
+        repair: () => {
+          entry.memberId = moved.memberId;
+          dirty.add(indexFile);
+        },
+      });
+    } else {
+      issues.push({
+        message: `Index entry ${entry.id} ("${entry.title}") has no conversation file`,
+        repair: () => {
+          index = index.filter((e) => e !== entry);
+          dirty.add(indexFile);
+        },
+      });
+    }
+  }
+
+  const indexedIds = new Set(index.map((e) => e.id));
+  for (const orphan of orphans) {
+    const relative = path.relative(options.dataDir, orphan.filePath);
+    const conversation = orphan.conversation;
+    if (indexedIds.has(orphan.id)) {
+      issues.push({
+        message: `Conversation file ${relative} reuses ID ${orphan.id}, which is indexed for another member`,
+      });
+    } else if (orphan.locked) {
+      issues.push({
+        message: `Conversation file ${relative} has no index entry (encrypted; set DATA_ENCRYPTION_KEY to re-index it)`,
+      });
+    } else if (!conversation) {
+      issues.push({ message: `Conversation file ${relative} is not a valid conversation file` });
+    } else {
+      issues.push({
+        message: `Conversation file ${relative} has no index entry`,
+        repair: () => {
+          index.push({
+            id: orphan.id,
+            memberId: orphan.memberId,
+            title: conversation.title,
+            createdAt: conversation.createdAt,
+          });
+          index.sort((a, b) => a.id - b.id);
+          dirty.add(indexFile);
+        },
+      });
+    }
+  }
+
+  // --- Duplicate message IDs within a conversation (first occurrence keeps its ID) ---
+  for (const file of files) {
+    if (!file.conversation || file.locked) continue;
+    const seen = new Set<string>();
+    walkMessages(file.conversation.data?.messages || [], (message) => {
+      if (!seen.has(message.id)) {
+        seen.add(message.id);
+        return;
+      }
+      issues.push({
+        message: `Conversation ${file.id} has more than one message with ID ${message.id}`,
+        repair: () => {
+          message.id = randomUUID();
+          changedFiles.add(file);
+        },
+      });
+    });
+  }
+
+  // --- Supporter rows pointing at missing users ---
+  const userIds = new Set(users.map((u) => u.id));
+  // Supporters, invitations and circles belong to a member or to a shared journey
+  const ownerIds = new Set([...Array.from(userIds), ...journeys.map((j) => j.id)]);
+  for (const supporter of supporters) {
+    const missing = [
+      ...(ownerIds.has(supporter.memberId) ? [] : [supporter.memberId]),
+      ...(userIds.has(supporter.supporterId) ? [] : [supporter.supporterId]),
+    ];
+    if (missing.length === 0) continue;
+    issues.push({
+      message: `Supporter row ${supporter.id} references missing user(s): ${missing.join(", ")}`,
+      repair: () => {
+        supporters = supporters.filter((s) => s !== supporter);
+        dirty.add(supportersFile);
+      },
+    });
+  }
+
+  // --- Invitations from members that no longer exist ---
+  for (const invitation of invitations) {
+    if (ownerIds.has(invitation.memberId)) continue;
+    issues.push({
+      message: `Invitation ${invitation.id} is from missing user ${invitation.memberId}`,
+      repair: () => {
+        invitations = invitations.filter((i) => i !== invitation);
+        dirty.add(invitationsFile);
+      },
+    });
+  }
+
+  // --- Circles from missing members, or listing people who are not their supporters ---
+  for (const circle of circles) {
+    if (!ownerIds.has(circle.memberId)) {
+      issues.push({
+        message: `Circle ${circle.id} belongs to missing user ${circle.memberId}`,
+        repair: () => {
+          circles = circles.filter((c) => c !== circle);
+          dirty.add(circlesFile);
+        },
+      });
+      continue;
+    }
+
+    const strays = circle.supporterIds.filter(
+      (id) => !supporters.some((s) => s.memberId === circle.memberId && s.supporterId === id)
+    );
+    if (strays.length === 0) continue;
+    issues.push({
+      message: `Circle ${circle.id} lists non-supporter(s): ${strays.join(", ")}`,
+      repair: () => {
+        circle.supporterIds = circle.supporterIds.filter((id) => !strays.includes(id));
+        dirty.add(circlesFile);
+      },
+    });
+  }
+
+  // --- Conversation ID counter ---
+  const highestId = Math.max(0, ...index.map((e) => e.id), ...files.map((f) => f.id));
+  if (meta.lastConversationId < highestId) {
+    issues.push({
+      message: `meta.json lastConversationId is ${meta.lastConversationId} but ID ${highestId} is in use`,
+      repair: () => {
+        meta.lastConversationId = highestId;
+        dirty.add(metaFile);
+      },
+    });
+  }
+
+  const lockedCount = files.filter((f) => f.locked).length;
+  if (lockedCount > 0) {
+    console.log(
+      `  ! ${lockedCount} encrypted conversation(s) not checked for duplicate message IDs (no DATA_ENCRYPTION_KEY)\n`
+    );
+  }
+
+  if (issues.length === 0) {
+    console.log("  ✓ Index and conversation files agree");
+    console.log("  ✓ Message IDs are unique");
+    console.log("  ✓ Supporter rows reference existing users");
+    console.log("  ✓ Invitations come from existing users");
+    console.log("  ✓ Circles only list their member's supporters");
+    console.log("  ✓ Conversation ID counter is ahead of every ID in use");
+    console.log("\n✅ No problems found.");
+    return 0;
+  }
+
+  const manual = issues.filter((i) => !i.repair);
+  console.log(`Found ${issues.length} problem(s):`);
+  issues.forEach((i) => console.log(`  ${i.repair ? "-" : "!"} ${i.message}`));
+
+  if (!options.repair) {
+    const fixable = issues.length - manual.length;
+    console.log(`\n${fixable} can be fixed automatically with --repair.`);
+    if (manual.length > 0) console.log(`${manual.length} (marked !) need manual attention.`);
+    return 1;
+  }
+
+  issues.forEach((i) => i.repair?.());
+  if (dirty.has(indexFile)) await writeJson(indexFile, index);
+  if (dirty.has(metaFile)) await writeJson(metaFile, meta);
+  if (dirty.has(supportersFile)) await writeJson(supportersFile, supporters);
+  if (dirty.has(invitationsFile)) await writeJson(invitationsFile, invitations);
+  if (dirty.has(circlesFile)) await writeJson(circlesFile, circles);
+  for (const file of Array.from(changedFiles)) {
+    const content = encryption
+      ? await encryption.encryptJson(file.memberId, file.conversation)
+      : file.conversation;
+    await writeJson(file.filePath, content);
+  }
+
+  console.log(`\n  ✓ Repaired ${issues.length - manual.length} problem(s)`);
+  if (manual.length > 0) {
+    console.error(`❌ ${manual.length} problem(s) need manual attention (marked !)`);
+    return 1;
+  }
+  console.log("\n✅ Repair complete!");
+  return 0;
+}
+
+async function check() {
+  let options: CheckOptions;
+  try {
+    options = parseArgs(process.argv.slice(2));
+  } catch (err) {
+    console.error(`❌ ${(err as Error).message}\n\n${USAGE}`);
+    process.exit(1);
+  }
+
+  // Repairs hold the lock so no server or script writes between reading and writing back
+  const exitCode = options.repair
+    ? await withDataLock(options.dataDir, () => checkStorage(options))
+    : await checkStorage(options);
+  process.exit(exitCode);
+}
+
+check().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
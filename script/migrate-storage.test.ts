@@ -0,0 +1,83 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { execFile } from "child_process";
+import { createHash, randomBytes } from "crypto";
+import { promisify } from "util";
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import { FileStorage, SqliteStorage } from "../server/storage";
+
+const run = promisify(execFile);
+const TSX = path.join(process.cwd(), "node_modules", ".bin", "tsx");
+const SCRIPT = path.join(process.cwd(), "script", "migrate-storage.ts");
+
+// Path and content hash of every file under dir, to compare before and after a run
+async function listFiles(dir: string): Promise<Record<string, string>> {
+  const files: Record<string, string> = {};
+  for (const entry of await fs.readdir(dir, { recursive: true, withFileTypes: true })) {
+    if (!entry.isFile()) continue;
+    const filePath = path.join(entry.parentPath, entry.name);
+    const hash = createHash("sha256").update(await fs.readFile(filePath));
+    files[path.relative(dir, filePath)] = hash.digest("hex");
+  }
+  return files;
+}
+
+describe("migrate-storage --dry-run", () => {
+  let dataDir: string;
+
+  beforeEach(async () => {
+    dataDir = await fs.mkdtemp(path.join(os.tmpdir(), "migrate-storage-"));
+    const storage = new FileStorage(dataDir);
+    await storage.createUser({ email: "member@example.com", password: "hashed" });
+    // Missing files would normally be created on startup
+    await fs.rm(path.join(dataDir, "supporters.json"));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dataDir, { recursive: true, force: true });
+  });
+
+  const migrate = (...args: string[]) =>
+    run(TSX, [SCRIPT, ...args], {
+      env: { ...process.env, DATA_DIR: dataDir, DATA_ENCRYPTION_KEY: "", SQLITE_PATH: "" },
+    });
+
+  it("should refuse to copy into SQLite while DATA_ENCRYPTION_KEY is set", async () => {
+    const before = await listFiles(dataDir);
+
+    const failure = await run(TSX, [SCRIPT, "--from", "file", "--to", "sqlite"], {
+      env: {
+        ...process.env,
+        DATA_DIR: dataDir,
+        DATA_ENCRYPTION_KEY: randomBytes(32).toString("base64"),
+        SQLITE_PATH: "",
+      },
+    }).catch((error: { code: number; stderr: string }) => error);
+
+    expect(failure).toMatchObject({ code: 1 });
+    expect((failure as { stderr: string }).stderr).toContain("does not encrypt conversations");
+    expect(await listFiles(dataDir)).toEqual(before);
+  });
+
+  it("should not create the SQLite target or touch the file store", async () => {
+    const before = await listFiles(dataDir);
+
+    const { stdout } = await migrate("--from", "file", "--to", "sqlite", "--dry-run");
+
+    expect(stdout).toContain("does not exist yet");
+    expect(stdout).toContain("Dry run complete, nothing written.");
+    expect(await listFiles(dataDir)).toEqual(before);
+  });
+
+  it("should leave an existing SQLite database and the file store unchanged", async () => {
+    const dbPath = path.join(dataDir, "supportspark.db");
+    new SqliteStorage(dbPath).close();
+    const before = await listFiles(dataDir);
+
+    const { stdout } = await migrate("--from", "sqlite", "--to", "file", "--dry-run");
+
+    expect(stdout).toContain("Target (file) - would be replaced");
+    expect(await listFiles(dataDir)).toEqual(before);
+  });
+});
@@ -0,0 +1,312 @@
+/* eslint-disable no-console */
+// Migration script needs console output for progress reporting
+import { existsSync } from "fs";
+import path from "path";
+import {
+  assertSqliteUnencrypted,
+  FileStorage,
+  SqliteStorage,
+  type IStorage,
+  type StorageSnapshot,
+} from "../server/storage";
+import { resolveDataDir } from "../server/data-dir";
+import type { Message, ReadMarker } from "@shared/schema";
+
+type Backend = "file" | "sqlite";
+
+interface MigrateOptions {
+  from: Backend;
+  to: Backend;
+  sqlitePath?: string;
+  dryRun: boolean;
+}
+
+const USAGE = `Usage: npm run migrate:storage -- --from <file|sqlite> --to <file|sqlite> [options]
+
+Copies the full contents of one storage backend into another, preserving IDs,
+timestamps and nested replies, then verifies the copy. The target is replaced.
+
+Options:
+  --sqlite-path <path>  SQLite database file (defaults to SQLITE_PATH or data/supportspark.db)
+  --dry-run             Report what would be copied without writing anything`;
+
+function parseArgs(argv: string[]): MigrateOptions {
+  const options: Partial<MigrateOptions> = { dryRun: false };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    switch (arg) {
+      case "--from":
+      case "--to": {
+        const value = argv[++i];
+        if (value !== "file" && value !== "sqlite") {
+          throw new Error(`${arg} must be "file" or "sqlite"`);
+        }
+        options[arg === "--from" ? "from" : "to"] = value;
+        break;
+      }
+      case "--sqlite-path":
+        options.sqlitePath = argv[++i];
+        break;
+      case "--dry-run":
+        options.dryRun = true;
+        break;
+      default:
+        throw new Error(`Unknown argument: ${arg}`);
+    }
+  }
+
+  if (!options.from || !options.to) throw new Error("Both --from and --to are required");
+  if (options.from === options.to) throw new Error("--from and --to must differ");
+  return options as MigrateOptions;
+}
+
+function countMessages(messages: Message[]): number {
+  return messages.reduce((total, m) => total + 1 + countMessages(m.replies || []), 0);
+}
+
+function summarize(snapshot: StorageSnapshot) {
+  return {
+    users: snapshot.users.length,
+    supporters: snapshot.supporters.length,
+    invitations: snapshot.invitations.length,
+    circles: snapshot.circles.length,
+    journeys: snapshot.journeys.length,
+    reports: snapshot.reports.length,
+    readMarkers: snapshot.readMarkers.length,
+    conversations: snapshot.conversations.length,
+    messages: snapshot.conversations.reduce((n, c) => n + countMessages(c.data.messages), 0),
+    lastConversationId: snapshot.lastConversationId,
+  };
+}
+
+// JSON with sorted keys so records compare equal regardless of property order
+function stableStringify(value: unknown): string {
+  return JSON.stringify(value, (_key, val) =>
+    val && typeof val === "object" && !Array.isArray(val)
+      ? Object.fromEntries(Object.entries(val).sort(([a], [b]) => a.localeCompare(b)))
+      : val
+  );
+}
+
+// Problems that would make the copy lossy or fail part-way
+function findBlockingProblems(snapshot: StorageSnapshot): string[] {
+  const problems: string[] = [];
+  const findDuplicates = (values: (string | number)[]) =>
+    Array.from(new Set(values.filter((v, i) => values.indexOf(v) !== i)));
+
+  for (const email of findDuplicates(snapshot.users.map((u) => u.email))) {
+    problems.push(`Duplicate user email: ${email}`);
+  }
+  for (const id of findDuplicates(snapshot.users.map((u) => u.id))) {
+    problems.push(`Duplicate user ID: ${id}`);
+  }
+  for (const id of findDuplicates(snapshot.supporters.map((s) => s.id))) {
+    problems.push(`Duplicate supporter ID: ${id}`);
+  }
+  for (const id of findDuplicates(snapshot.invitations.map((i) => i.id))) {
+    problems.push(`Duplicate invitation ID: ${id}`);
+  }
+  for (const id of findDuplicates(snapshot.circles.map((c) => c.id))) {
+    problems.push(`Duplicate circle ID: ${id}`);
+  }
+  for (const id of findDuplicates(snapshot.journeys.map((j) => j.id))) {
+    problems.push(`Duplicate journey ID: ${id}`);
+  }
+  for (const id of findDuplicates(snapshot.reports.map((r) => r.id))) {
+    problems.push(`Duplicate report ID: ${id}`);
+  }
+  for (const id of findDuplicates(snapshot.conversations.map((c) => c.id))) {
+    problems.push(`Duplicate conversation ID: ${id}`);
+  }
+  return problems;
+}
+
+function flattenMessages(
+  messages: Message[],
+  parentId: string | null = null,
+  into = new Map<string, string>()
+): Map<string, string> {
+  for (const { replies, ...message } of messages) {
+    into.set(message.id, stableStringify({ parentId, ...message }));
+    flattenMessages(replies || [], message.id, into);
+  }
+  return into;
+}
+
+function diffMessageTrees(conversationId: number, expected: Message[], actual: Message[]) {
+  const diffs: string[] = [];
+  const expectedMessages = flattenMessages(expected);
+  const actualMessages = flattenMessages(actual);
+
+  expectedMessages.forEach((value, id) => {
+    if (!actualMessages.has(id)) {
+      diffs.push(`Conversation ${conversationId}: missing message ${id}`);
+    } else if (actualMessages.get(id) !== value) {
+      diffs.push(`Conversation ${conversationId}: message ${id} differs`);
+    }
+  });
+  actualMessages.forEach((_value, id) => {
+    if (!expectedMessages.has(id)) {
+      diffs.push(`Conversation ${conversationId}: extra message ${id}`);
+    }
+  });
+  return diffs;
+}
+
+function diffRecords<T extends { id: string | number }>(label: string, expected: T[], actual: T[]) {
+  const diffs: string[] = [];
+  const actualById = new Map(actual.map((r) => [r.id, r]));
+  const expectedIds = new Set(expected.map((r) => r.id));
+
+  for (const record of expected) {
+    const copy = actualById.get(record.id);
+    if (!copy) {
+      diffs.push(`${label} ${record.id}: missing from target`);
+    } else if (stableStringify(copy) !== stableStringify(record)) {
+      diffs.push(`${label} ${record.id}: differs`);
+    }
+  }
+  for (const record of actual) {
+    if (!expectedIds.has(record.id)) diffs.push(`${label} ${record.id}: unexpected in target`);
+  }
+  return diffs;
+}
+
+function diffSnapshots(expected: StorageSnapshot, actual: StorageSnapshot): string[] {
+  const diffs: string[] = [];
+  const expectedSummary = summarize(expected);
+  const actualSummary = summarize(actual);
+
+  for (const key of Object.keys(expectedSummary) as (keyof typeof expectedSummary)[]) {
+    if (expectedSummary[key] !== actualSummary[key]) {
+      diffs.push(
+        `Count mismatch for ${key}: expected ${expectedSummary[key]}, got ${actualSummary[key]}`
+      );
+    }
+  }
+
+  diffs.push(...diffRecords("User", expected.users, actual.users));
+  diffs.push(...diffRecords("Supporter", expected.supporters, actual.supporters));
+  diffs.push(...diffRecords("Invitation", expected.invitations, actual.invitations));
+  diffs.push(...diffRecords("Circle", expected.circles, actual.circles));
+  diffs.push(...diffRecords("Journey", expected.journeys, actual.journeys));
+  diffs.push(...diffRecords("Report", expected.reports, actual.reports));
+  // Read markers have no ID of their own; one user and conversation pair identifies each
+  const withMarkerIds = (markers: ReadMarker[]) =>
+    markers.map((m) => ({ id: `${m.userId} in ${m.conversationId}`, ...m }));
+  diffs.push(
+    ...diffRecords(
+      "Read marker of",
+      withMarkerIds(expected.readMarkers),
+      withMarkerIds(actual.readMarkers)
+    )
+  );
+
+  const actualConversations = new Map(actual.conversations.map((c) => [c.id, c]));
+  for (const conversation of expected.conversations) {
+    const copy = actualConversations.get(conversation.id);
+    if (!copy) {
+      diffs.push(`Conversation ${conversation.id}: missing from target`);
+      continue;
+    }
+    const { data: expectedData, ...expectedFields } = conversation;
+    const { data: actualData, ...actualFields } = copy;
+    if (stableStringify(expectedFields) !== stableStringify(actualFields)) {
+      diffs.push(`Conversation ${conversation.id}: fields differ`);
+    }
+    diffs.push(...diffMessageTrees(conversation.id, expectedData.messages, actualData.messages));
+  }
+  return diffs;
+}
+
+function printSummary(label: string, snapshot: StorageSnapshot) {
+  const summary = summarize(snapshot);
+  console.log(`${label}:`);
+  console.log(`  users:          ${summary.users}`);
+  console.log(`  supporters:     ${summary.supporters}`);
+  console.log(`  invitations:    ${summary.invitations}`);
+  console.log(`  circles:        ${summary.circles}`);
+  console.log(`  journeys:       ${summary.journeys}`);
+  console.log(`  reports:        ${summary.reports}`);
+  console.log(`  read markers:   ${summary.readMarkers}`);
+  console.log(`  conversations:  ${summary.conversations}`);
+  console.log(`  messages:       ${summary.messages}`);
+  console.log(`  last conv. ID:  ${summary.lastConversationId}`);
+}
+
+async function migrate() {
+  let options: MigrateOptions;
+  try {
+    options = parseArgs(process.argv.slice(2));
+  } catch (err) {
+    console.error(`❌ ${(err as Error).message}\n\n${USAGE}`);
+    process.exit(1);
+  }
+
+  if (options.to === "sqlite") {
+    try {
+      assertSqliteUnencrypted();
+    } catch (err) {
+      console.error(`❌ ${(err as Error).message}`);
+      process.exit(1);
+    }
+  }
+
+  const sqlitePath =
+    options.sqlitePath || process.env.SQLITE_PATH || path.join(resolveDataDir(), "supportspark.db");
+
+  // A dry run opens both sides read-only, so neither is created, upgraded or seeded
+  const open = (backend: Backend): IStorage =>
+    backend === "file"
+      ? new FileStorage(undefined, undefined, { readOnly: options.dryRun })
+      : new SqliteStorage(sqlitePath, { readOnly: options.dryRun });
+
+  console.log(
+    `Migrating storage: ${options.from} → ${options.to}${options.dryRun ? " (dry run)" : ""}\n`
+  );
+  const source = open(options.from);
+
+  const snapshot = await source.exportSnapshot();
+  printSummary(`Source (${options.from})`, snapshot);
+
+  const problems = findBlockingProblems(snapshot);
+  if (problems.length > 0) {
+    console.error("\n❌ Source data cannot be migrated as-is:");
+    problems.forEach((p) => console.error(`  - ${p}`));
+    process.exit(1);
+  }
+
+  if (options.dryRun) {
+    console.log("");
+    if (options.to === "sqlite" && !existsSync(sqlitePath)) {
+      console.log(`Target (sqlite) - ${sqlitePath} does not exist yet and would be created`);
+    } else {
+      const target = open(options.to);
+      printSummary(`Target (${options.to}) - would be replaced`, await target.exportSnapshot());
+    }
+    console.log("\n✅ Dry run complete, nothing written.");
+    return;
+  }
+
+  const target = open(options.to);
+  await target.importSnapshot(snapshot);
+  console.log(`\n  ✓ Copied into ${options.to}`);
+
+  console.log("\nVerifying...");
+  const diffs = diffSnapshots(snapshot, await target.exportSnapshot());
+  if (diffs.length > 0) {
+    console.error(`❌ Verification found ${diffs.length} difference(s):`);
+    diffs.forEach((d) => console.error(`  - ${d}`));
+    process.exit(1);
+  }
+
+  console.log("  ✓ Record counts match");
+  console.log("  ✓ Message trees match");
+  console.log("\n✅ Migration complete!");
+}
+
+migrate().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
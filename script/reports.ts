@@ -0,0 +1,96 @@
+/* eslint-disable no-console */
+// Report review script needs console output for listing reports
+import type { Report } from "@shared/schema";
+import { createStorage, findMessage } from "../server/storage";
+
+interface ReportsOptions {
+  all: boolean;
+  resolve?: number;
+}
+
+const USAGE = `Usage: npm run reports -- [options]
+
+Lists abuse reports users have sent from the app, newest first, with the reported
+message when there is one. Uses the storage backend set by STORAGE_DRIVER; encrypted
+conversations are read with DATA_ENCRYPTION_KEY.
+
+Options:
+  --all           Include resolved reports
+  --resolve <id>  Mark a report resolved once it has been dealt with`;
+
+function parseArgs(argv: string[]): ReportsOptions {
+  const options: ReportsOptions = { all: false };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    switch (arg) {
+      case "--all":
+        options.all = true;
+        break;
+      case "--resolve": {
+        const value = Number(argv[++i]);
+        if (!Number.isInteger(value)) throw new Error("--resolve needs a report ID");
+        options.resolve = value;
+        break;
+      }
+      default:
+        throw new Error(`Unknown argument: ${arg}`);
+    }
+  }
+  return options;
+}
+
+async function reports() {
+  let options: ReportsOptions;
+  try {
+    options = parseArgs(process.argv.slice(2));
+  } catch (err) {
+    console.error(`❌ ${(err as Error).message}\n\n${USAGE}`);
+    process.exit(1);
+  }
+
+  const storage = createStorage();
+
+  if (options.resolve !== undefined) {
+    try {
+      await storage.resolveReport(options.resolve);
+    } catch (err) {
+      console.error(`❌ ${(err as Error).message}`);
+      process.exit(1);
+    }
+    console.log(`✅ Report ${options.resolve} resolved`);
+    return;
+  }
+
+  const list = await storage.getReports(options.all ? undefined : "open");
+  if (list.length === 0) {
+    console.log(options.all ? "No reports." : "No open reports.");
+    return;
+  }
+
+  const describeUser = async (id: string) => {
+    const user = await storage.getUser(id);
+    return user ? `${user.email} (${id})` : `deleted user (${id})`;
+  };
+
+  const newestFirst = [...list].sort((a: Report, b: Report) => b.id - a.id);
+  for (const report of newestFirst) {
+    console.log(`#${report.id}  ${report.createdAt}  ${report.status}`);
+    console.log(`  Reported by: ${await describeUser(report.reporterId)}`);
+    console.log(`  Reported:    ${await describeUser(report.reportedUserId)}`);
+    console.log(`  Reason:      ${report.reason}`);
+
+    if (report.conversationId !== undefined && report.messageId) {
+      const conversation = await storage.getConversation(report.conversationId);
+      const message = conversation && findMessage(conversation.data.messages, report.messageId);
+      console.log(`  Update:      #${report.conversationId} ${conversation?.title ?? "(deleted)"}`);
+      console.log(`  Message:     ${message ? message.content : "(deleted)"}`);
+    }
+    console.log("");
+  }
+}
+
+reports().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
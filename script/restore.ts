@@ -0,0 +1,98 @@
+/* eslint-disable no-console */
+// Restore script needs console output for progress reporting
+import path from "path";
+import { readBackup, restoreBackup, BackupError } from "../server/backup";
+import { resolveDataDir } from "../server/data-dir";
+
+interface RestoreCliOptions {
+  archive: string;
+  dataDir: string;
+  backupDir: string;
+  memberId?: string;
+  verifyOnly: boolean;
+}
+
+const USAGE = `Usage: npm run restore -- <archive.tar.gz> [options]
+
+Verifies an archive made by "npm run backup" and restores it. Nothing is written
+unless every file matches the manifest. The current data is backed up first.
+Stop the server before a full restore. A --member restore holds the data
+directory lock, so a running server waits for it and then reloads.
+
+Options:
+  --data-dir <path>    Data directory to restore into (defaults to DATA_DIR or ./data)
+  --backup-dir <path>  Where to save the pre-restore backup (defaults to BACKUP_DIR or ./backups)
+  --member <id>        Restore only this member's conversations and images
+  --verify             Check the archive and exit without restoring`;
+
+function parseArgs(argv: string[]): RestoreCliOptions {
+  const options: Partial<RestoreCliOptions> = {
+    dataDir: resolveDataDir(),
+    backupDir: path.resolve(process.env.BACKUP_DIR || "backups"),
+    verifyOnly: false,
+  };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    switch (arg) {
+      case "--data-dir":
+      case "--backup-dir":
+      case "--member": {
+        const value = argv[++i];
+        if (!value) throw new Error(`${arg} needs a value`);
+        if (arg === "--member") options.memberId = value;
+        else options[arg === "--data-dir" ? "dataDir" : "backupDir"] = path.resolve(value);
+        break;
+      }
+      case "--verify":
+        options.verifyOnly = true;
+        break;
+      default:
+        if (arg.startsWith("--") || options.archive) throw new Error(`Unknown argument: ${arg}`);
+        options.archive = path.resolve(arg);
+    }
+  }
+
+  if (!options.archive) throw new Error("An archive to restore is required");
+  return options as RestoreCliOptions;
+}
+
+async function restore() {
+  let options: RestoreCliOptions;
+  try {
+    options = parseArgs(process.argv.slice(2));
+  } catch (err) {
+    console.error(`❌ ${(err as Error).message}\n\n${USAGE}`);
+    process.exit(1);
+  }
+
+  try {
+    console.log(`Verifying ${options.archive}...\n`);
+    const { manifest } = await readBackup(options.archive);
+    console.log(`  ✓ ${manifest.files.length} files match the manifest`);
+    console.log(`  ✓ Taken ${manifest.createdAt}`);
+
+    if (options.verifyOnly) {
+      console.log("\n✅ Archive is valid, nothing restored.");
+      return;
+    }
+
+    const target = options.memberId ? `member ${options.memberId}` : "all data";
+    console.log(`\nRestoring ${target} into ${options.dataDir}...`);
+    const result = await restoreBackup(options.archive, options.dataDir, options);
+    console.log(`  ✓ Current data saved to ${result.safetyBackup}`);
+    console.log(`  ✓ Restored ${result.restoredFiles} files`);
+    console.log("\n✅ Restore complete!");
+  } catch (err) {
+    if (err instanceof BackupError) {
+      console.error(`❌ ${err.message}\n\nNothing was restored.`);
+      process.exit(1);
+    }
+    throw err;
+  }
+}
+
+restore().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
@@ -0,0 +1,125 @@
+/* eslint-disable no-console */
+// Key rotation script needs console output for progress reporting
+import "dotenv/config";
+import fs from "fs/promises";
+import path from "path";
+import { resolveDataDir, withDataLock } from "../server/data-dir";
+import { unwrapDataFile } from "../server/data-format";
+import { DataEncryption, EncryptionError, isEncryptedBuffer } from "../server/encryption";
+
+const USAGE = `Usage: npm run rotate:keys -- [options]
+
+Rewraps every member data key with the master key in DATA_ENCRYPTION_KEY.
+While rotating, list the old master key in DATA_ENCRYPTION_PREVIOUS_KEYS; once
+this finishes it can be removed. Then restart the server with the new key.
+
+Also encrypts conversation images uploaded before encryption was enabled.
+Conversation files are encrypted by the server when it starts with a key set.
+
+Options:
+  --data-dir <path>  Data directory (defaults to DATA_DIR or ./data)`;
+
+function parseArgs(argv: string[]): { dataDir: string } {
+  const options = { dataDir: resolveDataDir() };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg !== "--data-dir") throw new Error(`Unknown argument: ${arg}`);
+    const value = argv[++i];
+    if (!value) throw new Error("--data-dir needs a path");
+    options.dataDir = path.resolve(value);
+  }
+  return options;
+}
+
+/**
+ * Encrypt every plaintext file under conversations/conv-<id>/images with its member's key
+ */
+async function encryptImages(dataDir: string, encryption: DataEncryption) {
+  const conversationsDir = path.join(dataDir, "conversations");
+  let index: { id: number; memberId: string }[] = [];
+  try {
+    const raw = JSON.parse(await fs.readFile(path.join(conversationsDir, "index.json"), "utf-8"));
+    index = unwrapDataFile(raw).content as typeof index;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") throw error;
+  }
+  const members = new Map(index.map((entry) => [entry.id, entry.memberId]));
+
+  let encrypted = 0;
+  const unknown: string[] = [];
+  const entries = await fs.readdir(conversationsDir, { withFileTypes: true }).catch(() => []);
+  for (const dir of entries.filter((e) => e.isDirectory())) {
+    const match = dir.name.match(/^conv-(\d+)$/);
+    if (!match) continue;
+
+    const imagesDir = path.join(conversationsDir, dir.name, "images");
+    const names = await fs.readdir(imagesDir).catch(() => [] as string[]);
+    const memberId = members.get(Number(match[1]));
+    if (!memberId) {
+      if (names.length > 0) unknown.push(dir.name);
+      continue;
+    }
+
+    for (const name of names) {
+      const filePath = path.join(imagesDir, name);
+      const image = await fs.readFile(filePath);
+      if (isEncryptedBuffer(image)) continue;
+
+      const tempPath = `${filePath}.tmp.${Date.now()}`;
+      await fs.writeFile(tempPath, await encryption.encryptBuffer(memberId, image));
+      await fs.rename(tempPath, filePath);
+      encrypted++;
+    }
+  }
+  return { encrypted, unknown };
+}
+
+async function rotateKeys() {
+  let options: { dataDir: string };
+  try {
+    options = parseArgs(process.argv.slice(2));
+  } catch (err) {
+    console.error(`❌ ${(err as Error).message}\n\n${USAGE}`);
+    process.exit(1);
+  }
+
+  let encryption: DataEncryption | undefined;
+  try {
+    encryption = DataEncryption.fromEnv(options.dataDir);
+  } catch (err) {
+    console.error(`❌ ${(err as Error).message}`);
+    process.exit(1);
+  }
+  if (!encryption) {
+    console.error(`❌ DATA_ENCRYPTION_KEY is not set\n\n${USAGE}`);
+    process.exit(1);
+  }
+
+  console.log(`Rotating encryption keys in ${options.dataDir}...\n`);
+  try {
+    const rewrapped = await encryption.rotateMasterKey();
+    console.log(`  ✓ Rewrapped ${rewrapped} member data key(s) with the current master key`);
+
+    const { encrypted, unknown } = await withDataLock(options.dataDir, () =>
+      encryptImages(options.dataDir, encryption)
+    );
+    console.log(`  ✓ Encrypted ${encrypted} image(s) left from before encryption`);
+    if (unknown.length > 0) {
+      console.log(`  ! Skipped images of unindexed conversations: ${unknown.join(", ")}`);
+    }
+  } catch (err) {
+    if (err instanceof EncryptionError) {
+      console.error(`❌ ${err.message}`);
+      process.exit(1);
+    }
+    throw err;
+  }
+
+  console.log("\n✅ Key rotation complete!");
+}
+
+rotateKeys().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
@@ -0,0 +1,223 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import { gzipSync, gunzipSync } from "zlib";
+import {
+  createBackup,
+  readBackup,
+  restoreBackup,
+  pruneBackups,
+  backupFileName,
+  BackupError,
+} from "./backup";
+import { wrapDataFile, unwrapDataFile } from "./data-format";
+import { SqliteStorage } from "./storage";
+import Database from "better-sqlite3";
+
+const MEMBER_A = "member-a";
+const MEMBER_B = "member-b";
+
+function conversation(id: number, memberId: string, title: string) {
+  return {
+    id,
+    memberId,
+    title,
+    createdAt: "2026-01-01T00:00:00.000Z",
+    data: {
+      messages: [
+        {
+          id: `m${id}`,
+          authorId: memberId,
+          authorName: "Member",
+          content: title,
+          timestamp: "2026-01-01T00:00:00.000Z",
+        },
+      ],
+    },
+  };
+}
+
+describe("Backup and Restore", () => {
+  let root: string;
+  let dataDir: string;
+  let backupDir: string;
+
+  const write = async (relative: string, content: unknown) => {
+    const file = path.join(dataDir, relative);
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.writeFile(
+      file,
+      Buffer.isBuffer(content) ? content : JSON.stringify(wrapDataFile(content))
+    );
+  };
+  const read = async (relative: string) =>
+    unwrapDataFile(JSON.parse(await fs.readFile(path.join(dataDir, relative), "utf-8"))).content;
+
+  beforeEach(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), "supportspark-backup-"));
+    dataDir = path.join(root, "data");
+    backupDir = path.join(root, "backups");
+
+    await write("users.json", []);
+    await write("conversations/index.json", [
+      { id: 1, memberId: MEMBER_A, title: "A1", createdAt: "2026-01-01T00:00:00.000Z" },
+      { id: 2, memberId: MEMBER_B, title: "B2", createdAt: "2026-01-01T00:00:00.000Z" },
+    ]);
+    await write("conversations/meta.json", { lastConversationId: 2 });
+    await write(`conversations/${MEMBER_A}/1.json`, conversation(1, MEMBER_A, "A1"));
+    await write(`conversations/${MEMBER_B}/2.json`, conversation(2, MEMBER_B, "B2"));
+    await write("conversations/conv-1/images/photo.png", Buffer.from([0x89, 0x50, 0x4e, 0x47]));
+  });
+
+  afterEach(async () => {
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  it("should archive every file with a manifest of checksums", async () => {
+    await fs.writeFile(path.join(dataDir, "users.json.tmp.123.abc"), "partial");
+
+    const { file, manifest } = await createBackup(dataDir, backupDir);
+    const { files } = await readBackup(file);
+
+    expect(path.basename(file)).toMatch(/^supportspark-backup-.*\.tar\.gz$/);
+    expect(manifest.files.map((f) => f.path)).toEqual([
+      "conversations/conv-1/images/photo.png",
+      "conversations/index.json",
+      `conversations/${MEMBER_A}/1.json`,
+      `conversations/${MEMBER_B}/2.json`,
+      "conversations/meta.json",
+      "users.json",
+    ]);
+    expect(manifest.files.every((f) => /^[0-9a-f]{64}$/.test(f.sha256))).toBe(true);
+    expect(files.get("conversations/conv-1/images/photo.png")).toEqual(
+      Buffer.from([0x89, 0x50, 0x4e, 0x47])
+    );
+  });
+
+  it("should reject an archive whose contents do not match the manifest", async () => {
+    const { file } = await createBackup(dataDir, backupDir);
+    const tar = gunzipSync(await fs.readFile(file));
+    const at = tar.indexOf("B2");
+    tar.write("XX", at);
+    await fs.writeFile(file, gzipSync(tar));
+
+    await expect(readBackup(file)).rejects.toThrow(/Checksum mismatch/);
+  });
+
+  it("should restore everything and refuse a damaged archive without touching data", async () => {
+    const { file } = await createBackup(dataDir, backupDir, new Date("2026-01-01T00:00:00Z"));
+
+    await write(`conversations/${MEMBER_A}/1.json`, conversation(1, MEMBER_A, "Edited"));
+    await write("conversations/conv-1/images/later.png", Buffer.from([1]));
+
+    const result = await restoreBackup(file, dataDir, { backupDir });
+
+    expect(result.restoredFiles).toBe(6);
+    expect(await read(`conversations/${MEMBER_A}/1.json`)).toMatchObject({ title: "A1" });
+    await expect(
+      fs.stat(path.join(dataDir, "conversations/conv-1/images/later.png"))
+    ).rejects.toThrow();
+    // The data as it was before the restore is kept as its own backup
+    expect(
+      (await readBackup(result.safetyBackup)).files.has("conversations/conv-1/images/later.png")
+    ).toBe(true);
+
+    const damaged = path.join(backupDir, "damaged.tar.gz");
+    await fs.writeFile(damaged, gzipSync(Buffer.from("not a tar archive")));
+    await expect(restoreBackup(damaged, dataDir, { backupDir })).rejects.toBeInstanceOf(
+      BackupError
+    );
+    expect(await read(`conversations/${MEMBER_A}/1.json`)).toMatchObject({ title: "A1" });
+  });
+
+  it("should restore a single member's conversations and images", async () => {
+    const { file } = await createBackup(dataDir, backupDir, new Date("2026-01-01T00:00:00Z"));
+
+    await write(`conversations/${MEMBER_A}/1.json`, conversation(1, MEMBER_A, "Edited A"));
+    await write(`conversations/${MEMBER_B}/2.json`, conversation(2, MEMBER_B, "Edited B"));
+    await fs.rm(path.join(dataDir, "conversations/conv-1"), { recursive: true });
+
+    await restoreBackup(file, dataDir, { backupDir, memberId: MEMBER_A });
+
+    expect(await read(`conversations/${MEMBER_A}/1.json`)).toMatchObject({ title: "A1" });
+    expect(await read(`conversations/${MEMBER_B}/2.json`)).toMatchObject({ title: "Edited B" });
+    await expect(
+      fs.stat(path.join(dataDir, "conversations/conv-1/images/photo.png"))
+    ).resolves.toBeTruthy();
+    expect(await read("conversations/index.json")).toHaveLength(2);
+
+    await expect(restoreBackup(file, dataDir, { backupDir, memberId: "nobody" })).rejects.toThrow(
+      /no conversations for member nobody/
+    );
+  });
+
+  it("should snapshot a SQLite database while it is being written to", async () => {
+    const storage = new SqliteStorage(path.join(dataDir, "supportspark.db"), { dataDir });
+    let written = 0;
+    let writing = true;
+    const writer = (async () => {
+      while (writing) {
+        await storage.createConversation(MEMBER_A, `Write ${written}`, {
+          id: `w${written}`,
+          authorId: MEMBER_A,
+          authorName: "Member",
+          content: "Still going",
+          timestamp: "2026-01-01T00:00:00.000Z",
+        });
+        written++;
+        await new Promise((resolve) => setImmediate(resolve));
+      }
+    })();
+
+    try {
+      while (written < 20) await new Promise((resolve) => setImmediate(resolve));
+      const writtenBefore = written;
+      const { file, manifest } = await createBackup(dataDir, backupDir);
+      writing = false;
+      await writer;
+
+      const paths = manifest.files.map((f) => f.path);
+      expect(paths).toContain("supportspark.db");
+      expect(paths.filter((p) => /\.db-(wal|shm)$/.test(p))).toEqual([]);
+
+      // The archived database stands on its own, without the live write-ahead log
+      const restored = path.join(root, "restored.db");
+      await fs.writeFile(restored, (await readBackup(file)).files.get("supportspark.db")!);
+      const db = new Database(restored, { readonly: true });
+      try {
+        expect(db.pragma("integrity_check", { simple: true })).toBe("ok");
+        const { count } = db
+          .prepare("SELECT COUNT(*) AS count FROM conversations WHERE member_id = ?")
+          .get(MEMBER_A) as { count: number };
+        expect(count).toBeGreaterThanOrEqual(writtenBefore);
+      } finally {
+        db.close();
+      }
+    } finally {
+      writing = false;
+      await writer;
+      storage.close();
+    }
+  });
+
+  it("should refuse a backup directory inside the data directory", async () => {
+    const { file } = await createBackup(dataDir, backupDir);
+
+    await expect(
+      restoreBackup(file, dataDir, { backupDir: path.join(dataDir, "backups") })
+    ).rejects.toThrow(/outside the data directory/);
+  });
+
+  it("should prune all but the newest archives", async () => {
+    await fs.mkdir(backupDir, { recursive: true });
+    const names = [1, 2, 3, 4].map((day) => backupFileName(new Date(`2026-01-0${day}T00:00:00Z`)));
+    for (const name of names) await fs.writeFile(path.join(backupDir, name), "");
+    await fs.writeFile(path.join(backupDir, "notes.txt"), "");
+
+    const pruned = await pruneBackups(backupDir, 2);
+
+    expect(pruned).toEqual(names.slice(0, 2));
+    expect((await fs.readdir(backupDir)).sort()).toEqual([...names.slice(2), "notes.txt"].sort());
+  });
+});
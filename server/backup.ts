@@ -0,0 +1,489 @@
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import { createHash } from "crypto";
+import { gzipSync, gunzipSync } from "zlib";
+import Database from "better-sqlite3";
+import { z } from "zod";
+import { loadDataFile, wrapDataFile, DATA_FORMAT_VERSION } from "./data-format";
+import { withDataLock, isLockFile } from "./data-dir";
+
+/**
+ * Point-in-time backups of the data directory
+ *
+ * A backup is a gzipped tar archive holding manifest.json followed by every file under the
+ * data directory (JSON data, conversation image folders, SQLite databases). The manifest records
+ * the size and SHA-256 of each file so an archive is checked in full before anything is restored.
+ * SQLite databases are archived as a consistent snapshot in place of their -wal and -shm files.
+ */
+
+const MANIFEST_NAME = "manifest.json";
+const ARCHIVE_PREFIX = "supportspark-backup-";
+const ARCHIVE_SUFFIX = ".tar.gz";
+
+const manifestSchema = z.object({
+  format: z.literal("supportspark-backup"),
+  version: z.literal(1),
+  createdAt: z.string(),
+  dataFormatVersion: z.number(),
+  files: z.array(
+    z.object({
+      path: z.string(),
+      size: z.number(),
+      sha256: z.string(),
+    })
+  ),
+});
+
+export type BackupManifest = z.infer<typeof manifestSchema>;
+
+export class BackupError extends Error {
+  constructor(
+    message: string,
+    public readonly problems: string[] = []
+  ) {
+    super(problems.length > 0 ? `${message}:\n  - ${problems.join("\n  - ")}` : message);
+    this.name = "BackupError";
+  }
+}
+
+export interface RestoreOptions {
+  backupDir: string; // Where the safety backup of the current data is written
+  memberId?: string; // Restore only this member's conversations and images
+}
+
+export interface RestoreResult {
+  safetyBackup: string;
+  restoredFiles: number;
+}
+
+// === Tar (ustar) encoding, regular files only ===
+
+const BLOCK = 512;
+
+function writeString(header: Buffer, value: string, offset: number, length: number) {
+  header.write(value, offset, Math.min(Buffer.byteLength(value), length), "utf-8");
+}
+
+function writeOctal(header: Buffer, value: number, offset: number, length: number) {
+  writeString(header, value.toString(8).padStart(length - 1, "0") + "\0", offset, length);
+}
+
+function tarHeader(name: string, size: number, mtime: Date): Buffer {
+  let prefix = "";
+  let base = name;
+  if (Buffer.byteLength(name) > 100) {
+    const split = name.lastIndexOf("/", 155);
+    prefix = name.slice(0, split);
+    base = name.slice(split + 1);
+    if (split <= 0 || Buffer.byteLength(base) > 100 || Buffer.byteLength(prefix) > 155) {
+      throw new BackupError(`Path too long for archive: ${name}`);
+    }
+  }
+
+  const header = Buffer.alloc(BLOCK);
+  writeString(header, base, 0, 100);
+  writeOctal(header, 0o644, 100, 8);
+  writeOctal(header, 0, 108, 8);
+  writeOctal(header, 0, 116, 8);
+  writeOctal(header, size, 124, 12);
+  writeOctal(header, Math.floor(mtime.getTime() / 1000), 136, 12);
+  header.fill(" ", 148, 156); // Checksum is computed with its own field as spaces
+  header.write("0", 156); // Regular file
+  writeString(header, "ustar\0", 257, 6);
+  writeString(header, "00", 263, 2);
+  writeString(header, prefix, 345, 155);
+
+  const checksum = header.reduce((sum, byte) => sum + byte, 0);
+  writeString(header, checksum.toString(8).padStart(6, "0") + "\0 ", 148, 8);
+  return header;
+}
+
+function packTar(files: { name: string; data: Buffer }[], mtime: Date): Buffer {
+  const blocks: Buffer[] = [];
+  for (const { name, data } of files) {
+    blocks.push(tarHeader(name, data.length, mtime), data);
+    const padding = (BLOCK - (data.length % BLOCK)) % BLOCK;
+    if (padding > 0) blocks.push(Buffer.alloc(padding));
+  }
+  blocks.push(Buffer.alloc(BLOCK * 2));
+  return Buffer.concat(blocks);
+}
+
+function readString(block: Buffer, offset: number, length: number): string {
+  const raw = block.subarray(offset, offset + length);
+  const end = raw.indexOf(0);
+  return raw.subarray(0, end === -1 ? length : end).toString("utf-8");
+}
+
+function unpackTar(archive: Buffer): Map<string, Buffer> {
+  const files = new Map<string, Buffer>();
+  let offset = 0;
+
+  while (offset + BLOCK <= archive.length) {
+    const header = archive.subarray(offset, offset + BLOCK);
+    if (header.every((byte) => byte === 0)) break;
+
+    const expected = parseInt(readString(header, 148, 8).trim(), 8);
+    const actual = header.reduce((sum, byte, i) => sum + (i >= 148 && i < 156 ? 32 : byte), 0);
+    if (expected !== actual) throw new BackupError(`Corrupt archive header at byte ${offset}`);
+
+    const prefix = readString(header, 345, 155);
+    const name = (prefix ? `${prefix}/` : "") + readString(header, 0, 100);
+    const size = parseInt(readString(header, 124, 12).trim(), 8);
+    const type = readString(header, 156, 1);
+    if (type !== "0" && type !== "") throw new BackupError(`Unsupported archive entry: ${name}`);
+
+    const start = offset + BLOCK;
+    if (start + size > archive.length) throw new BackupError(`Archive is truncated at ${name}`);
+    files.set(name, archive.subarray(start, start + size));
+    offset = start + Math.ceil(size / BLOCK) * BLOCK;
+  }
+  return files;
+}
+
+// === Backup ===
+
+function sha256(data: Buffer): string {
+  return createHash("sha256").update(data).digest("hex");
+}
+
+// Relative, forward-slash paths of every regular file under dir
+async function listFiles(dir: string, skip: (absolute: string) => boolean): Promise<string[]> {
+  const results: string[] = [];
+  const walk = async (current: string) => {
+    for (const entry of await fs.readdir(current, { withFileTypes: true })) {
+      const absolute = path.join(current, entry.name);
+      if (skip(absolute)) continue;
+      if (entry.isDirectory()) await walk(absolute);
+      else if (entry.isFile()) results.push(path.relative(dir, absolute).split(path.sep).join("/"));
+    }
+  };
+  await walk(dir);
+  return results.sort();
+}
+
+// SQLite's own side files; a database is archived as one snapshot file instead
+const isSqliteSideFile = (name: string) => /\.db-(wal|shm|journal)$/.test(name);
+
+/**
+ * A self-contained copy of a SQLite database, including commits still in its write-ahead log
+ * SqliteStorage does not take the data directory lock, so copying the files byte for byte could
+ * catch a write halfway; VACUUM INTO reads the database in one transaction while writers go on.
+ */
+async function snapshotSqlite(file: string): Promise<Buffer> {
+  const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), "supportspark-snapshot-"));
+  const snapshot = path.join(tempDir, path.basename(file));
+  const db = new Database(file, { fileMustExist: true });
+  try {
+    db.prepare("VACUUM INTO ?").run(snapshot);
+    return await fs.readFile(snapshot);
+  } finally {
+    db.close();
+    await fs.rm(tempDir, { recursive: true, force: true });
+  }
+}
+
+export function backupFileName(date: Date): string {
+  return `${ARCHIVE_PREFIX}${date.toISOString().replace(/[:.]/g, "-")}${ARCHIVE_SUFFIX}`;
+}
+
+/**
+ * Archive the data directory, holding its lock so no write lands halfway through the snapshot
+ */
+export async function createBackup(
+  dataDir: string,
+  backupDir: string,
+  now = new Date()
+): Promise<{ file: string; manifest: BackupManifest }> {
+  return withDataLock(dataDir, () => writeBackup(dataDir, backupDir, now));
+}
+
+async function writeBackup(
+  dataDir: string,
+  backupDir: string,
+  now: Date
+): Promise<{ file: string; manifest: BackupManifest }> {
+  const resolvedBackupDir = path.resolve(backupDir);
+  const isInFlightWrite = (name: string) => /\.tmp\.\d+/.test(name); // Atomic write temp files
+  const paths = await listFiles(dataDir, (absolute) => {
+    const name = path.basename(absolute);
+    return (
+      path.resolve(absolute) === resolvedBackupDir ||
+      isInFlightWrite(name) ||
+      isLockFile(name) ||
+      isSqliteSideFile(name)
+    );
+  });
+
+  const files: { name: string; data: Buffer }[] = [];
+  for (const relative of paths) {
+    const file = path.join(dataDir, relative);
+    const data = relative.endsWith(".db") ? await snapshotSqlite(file) : await fs.readFile(file);
+    files.push({ name: relative, data });
+  }
+
+  const manifest: BackupManifest = {
+    format: "supportspark-backup",
+    version: 1,
+    createdAt: now.toISOString(),
+    dataFormatVersion: DATA_FORMAT_VERSION,
+    files: files.map(({ name, data }) => ({ path: name, size: data.length, sha256: sha256(data) })),
+  };
+  const manifestData = Buffer.from(JSON.stringify(manifest, null, 2));
+
+  await fs.mkdir(backupDir, { recursive: true });
+  const file = path.join(backupDir, backupFileName(now));
+  const tempPath = `${file}.tmp.${Date.now()}`;
+  await fs.writeFile(
+    tempPath,
+    gzipSync(packTar([{ name: MANIFEST_NAME, data: manifestData }, ...files], now))
+  );
+  await fs.rename(tempPath, file);
+
+  return { file, manifest };
+}
+
+function isSafePath(relative: string): boolean {
+  return (
+    relative.length > 0 &&
+    !relative.startsWith("/") &&
+    !relative.includes("\\") &&
+    relative.split("/").every((part) => part !== "" && part !== "." && part !== "..")
+  );
+}
+
+/**
+ * Read an archive and verify it against its manifest
+ * Throws BackupError listing every problem found; nothing is returned for a damaged archive
+ */
+export async function readBackup(
+  archivePath: string
+): Promise<{ manifest: BackupManifest; files: Map<string, Buffer> }> {
+  let entries: Map<string, Buffer>;
+  try {
+    entries = unpackTar(gunzipSync(await fs.readFile(archivePath)));
+  } catch (error) {
+    if (error instanceof BackupError) throw error;
+    throw new BackupError(`Cannot read ${archivePath}: ${(error as Error).message}`);
+  }
+
+  const manifestData = entries.get(MANIFEST_NAME);
+  if (!manifestData) throw new BackupError(`${archivePath} has no ${MANIFEST_NAME}`);
+
+  let manifest: BackupManifest;
+  try {
+    manifest = manifestSchema.parse(JSON.parse(manifestData.toString("utf-8")));
+  } catch (error) {
+    throw new BackupError(`Invalid ${MANIFEST_NAME}: ${(error as Error).message}`);
+  }
+
+  const problems: string[] = [];
+  if (manifest.dataFormatVersion > DATA_FORMAT_VERSION) {
+    problems.push(
+      `Data format version ${manifest.dataFormatVersion} is newer than this build supports (${DATA_FORMAT_VERSION})`
+    );
+  }
+
+  const files = new Map<string, Buffer>();
+  for (const entry of manifest.files) {
+    const data = entries.get(entry.path);
+    if (!isSafePath(entry.path)) problems.push(`Unsafe path: ${entry.path}`);
+    else if (!data) problems.push(`Missing file: ${entry.path}`);
+    else if (data.length !== entry.size) problems.push(`Size mismatch: ${entry.path}`);
+    else if (sha256(data) !== entry.sha256) problems.push(`Checksum mismatch: ${entry.path}`);
+    else files.set(entry.path, data);
+  }
+
+  const listed = new Set(manifest.files.map((f) => f.path));
+  entries.forEach((_data, name) => {
+    if (name !== MANIFEST_NAME && !listed.has(name)) problems.push(`Not in manifest: ${name}`);
+  });
+
+  if (problems.length > 0) throw new BackupError(`${archivePath} failed verification`, problems);
+  return { manifest, files };
+}
+
+// === Restore ===
+
+async function writeFiles(dir: string, files: Map<string, Buffer>) {
+  for (const [relative, data] of Array.from(files.entries())) {
+    const target = path.join(dir, ...relative.split("/"));
+    await fs.mkdir(path.dirname(target), { recursive: true });
+    await fs.writeFile(target, data);
+  }
+}
+
+async function readIndex(dataDir: string) {
+  const file = path.join(dataDir, "conversations", "index.json");
+  try {
+    const raw = JSON.parse(await fs.readFile(file, "utf-8"));
+    return loadDataFile("conversationIndex", raw, file).content;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+    throw error;
+  }
+}
+
+/**
+ * Restore an archive into dataDir. Stop the server before a full restore, which swaps out the
+ * whole directory; a member restore holds the data directory lock and running servers reload it.
+ *
+ * The archive is verified in full first and the current data is backed up to backupDir, so a
+ * damaged archive never leaves a half-restored directory. A full restore builds the new tree
+ * beside dataDir and swaps it in. With memberId, only that member's conversation files and
+ * image folders are replaced and their conversation index entries merged into the current index.
+ */
+export async function restoreBackup(
+  archivePath: string,
+  dataDir: string,
+  options: RestoreOptions
+): Promise<RestoreResult> {
+  const relativeBackupDir = path.relative(path.resolve(dataDir), path.resolve(options.backupDir));
+  if (!relativeBackupDir.startsWith("..") && !path.isAbsolute(relativeBackupDir)) {
+    throw new BackupError("The backup directory must be outside the data directory");
+  }
+
+  const { files } = await readBackup(archivePath);
+
+  if (options.memberId) {
+    const { memberId } = options;
+    return withDataLock(dataDir, () => restoreMember(files, dataDir, memberId, options.backupDir));
+  }
+
+  await fs.mkdir(dataDir, { recursive: true });
+  const { file: safetyBackup } = await createBackup(dataDir, options.backupDir);
+  const staging = `${dataDir}.restore-${Date.now()}`;
+  const previous = `${dataDir}.previous-${Date.now()}`;
+  await writeFiles(staging, files);
+
+  await fs.rename(dataDir, previous);
+  await fs.rename(staging, dataDir);
+  await fs.rm(previous, { recursive: true, force: true });
+
+  return { safetyBackup, restoredFiles: files.size };
+}
+
+async function restoreMember(
+  files: Map<string, Buffer>,
+  dataDir: string,
+  memberId: string,
+  backupDir: string
+): Promise<RestoreResult> {
+  const indexData = files.get("conversations/index.json");
+  const archivedIndex = indexData
+    ? loadDataFile("conversationIndex", JSON.parse(indexData.toString("utf-8")), "index.json")
+        .content
+    : [];
+  const restoredEntries = archivedIndex.filter((e) => e.memberId === memberId);
+  if (restoredEntries.length === 0) {
+    throw new BackupError(`The archive has no conversations for member ${memberId}`);
+  }
+
+  const currentIndex = await readIndex(dataDir);
+  const clashes = restoredEntries.filter((entry) =>
+    currentIndex.some((e) => e.id === entry.id && e.memberId !== memberId)
+  );
+  if (clashes.length > 0) {
+    throw new BackupError(
+      "Conversation IDs in the archive now belong to other members",
+      clashes.map((e) => `Conversation ${e.id}`)
+    );
+  }
+
+  // The member's conversation folder plus the image folder of each of their conversations
+  const ids = (entries: { id: number; memberId: string }[]) =>
+    entries.filter((e) => e.memberId === memberId).map((e) => e.id);
+  const memberPrefixes = (conversationIds: number[]) => [
+    `conversations/${memberId}/`,
+    ...conversationIds.map((id) => `conversations/conv-${id}/`),
+  ];
+  const restorePrefixes = memberPrefixes(ids(restoredEntries));
+  const memberFiles = new Map(
+    Array.from(files.entries()).filter(([name]) => restorePrefixes.some((p) => name.startsWith(p)))
+  );
+
+  const { file: safetyBackup } = await writeBackup(dataDir, backupDir, new Date());
+
+  for (const prefix of memberPrefixes(ids(currentIndex))) {
+    await fs.rm(path.join(dataDir, ...prefix.split("/")), { recursive: true, force: true });
+  }
+  await writeFiles(dataDir, memberFiles);
+
+  const conversationsDir = path.join(dataDir, "conversations");
+  const mergedIndex = currentIndex
+    .filter((e) => e.memberId !== memberId)
+    .concat(restoredEntries)
+    .sort((a, b) => a.id - b.id);
+  await fs.writeFile(
+    path.join(conversationsDir, "index.json"),
+    JSON.stringify(wrapDataFile(mergedIndex), null, 2)
+  );
+
+  // Keep the ID counter ahead of every restored conversation
+  const metaFile = path.join(conversationsDir, "meta.json");
+  let lastConversationId = 0;
+  try {
+    const raw = JSON.parse(await fs.readFile(metaFile, "utf-8"));
+    lastConversationId = loadDataFile("conversationMeta", raw, metaFile).content.lastConversationId;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") throw error;
+  }
+  const highestId = Math.max(lastConversationId, ...mergedIndex.map((e) => e.id));
+  await fs.writeFile(
+    metaFile,
+    JSON.stringify(wrapDataFile({ lastConversationId: highestId }), null, 2)
+  );
+
+  return { safetyBackup, restoredFiles: memberFiles.size };
+}
+
+// === Retention and scheduling ===
+
+/**
+ * Delete the oldest archives in backupDir, keeping the newest `keep`
+ * Returns the deleted file names
+ */
+export async function pruneBackups(backupDir: string, keep: number): Promise<string[]> {
+  const archives = (await fs.readdir(backupDir).catch(() => [] as string[]))
+    .filter((name) => name.startsWith(ARCHIVE_PREFIX) && name.endsWith(ARCHIVE_SUFFIX))
+    .sort();
+  const expired = archives.slice(0, Math.max(0, archives.length - keep));
+  for (const name of expired) {
+    await fs.rm(path.join(backupDir, name), { force: true });
+  }
+  return expired;
+}
+
+export interface BackupScheduleOptions {
+  dataDir: string;
+  backupDir: string;
+  intervalMs: number;
+  retention: number;
+  onBackup?: (file: string, pruned: string[]) => void;
+  onError?: (error: unknown) => void;
+}
+
+/**
+ * Snapshot the data directory every intervalMs and prune old archives
+ * Returns a function that stops the schedule
+ */
+export function startBackupSchedule(options: BackupScheduleOptions): () => void {
+  let running = false;
+  const timer = setInterval(async () => {
+    if (running) return; // Skip a tick rather than overlap a slow snapshot
+    running = true;
+    try {
+      const { file } = await createBackup(options.dataDir, options.backupDir);
+      const pruned = await pruneBackups(options.backupDir, options.retention);
+      options.onBackup?.(file, pruned);
+    } catch (error) {
+      options.onError?.(error);
+    } finally {
+      running = false;
+    }
+  }, options.intervalMs);
+  timer.unref(); // Never keep the process alive just for backups
+
+  return () => clearInterval(timer);
+}
@@ -0,0 +1,64 @@
+import { describe, it, expect } from "vitest";
+import { parseContacts } from "./contacts";
+
+describe("Contact List Parsing", () => {
+  it("should read a pasted list in any common separator", () => {
+    const rows = parseContacts(
+      "ann@example.com, bob@example.com\nCara Diaz <cara@example.com>; dan@example.com\n\n"
+    );
+
+    expect(rows.map((r) => r.email)).toEqual([
+      "ann@example.com",
+      "bob@example.com",
+      "cara@example.com",
+      "dan@example.com",
+    ]);
+  });
+
+  it("should skip a CSV header and report rows without a usable address", () => {
+    const rows = parseContacts(
+      [
+        "First Name,Last Name,E-mail Address",
+        'Ann,Lee,"ann@example.com"',
+        "Bob,Stone,",
+        "Cara,Diaz,cara@",
+      ].join("\r\n")
+    );
+
+    expect(rows).toEqual([
+      { label: "ann@example.com", email: "ann@example.com" },
+      { label: "Bob,Stone," },
+      { label: "cara@" },
+    ]);
+  });
+
+  it("should take the first address of each vCard", () => {
+    const rows = parseContacts(
+      [
+        "BEGIN:VCARD",
+        "VERSION:3.0",
+        "FN:Ann Lee",
+        "item1.EMAIL;TYPE=INTERNET,HOME:ann@exam",
+        " ple.com",
+        "EMAIL;TYPE=WORK:ann.lee@work.example.com",
+        "END:VCARD",
+        "BEGIN:VCARD",
+        "VERSION:3.0",
+        "FN:Bob Stone",
+        "TEL:555-0100",
+        "END:VCARD",
+      ].join("\n")
+    );
+
+    expect(rows).toEqual([
+      { label: "ann@example.com", email: "ann@example.com" },
+      { label: "Bob Stone" },
+    ]);
+  });
+
+  it("should drop repeated addresses regardless of case", () => {
+    const rows = parseContacts("ann@example.com\nAnn@Example.com\nmailto:ann@example.com");
+
+    expect(rows).toEqual([{ label: "ann@example.com", email: "ann@example.com" }]);
+  });
+});
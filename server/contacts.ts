@@ -0,0 +1,88 @@
+import { z } from "zod";
+
+/**
+ * Contact lists for bulk invitations
+ * Members paste a list of addresses or upload an export from their address book, either CSV
+ * (any columns; cells containing "@" are taken as addresses) or vCard (the first EMAIL of each
+ * card). Each contact becomes one row, so the member can see which entries were not usable.
+ */
+
+export interface ContactRow {
+  label: string; // What the member will recognise: the address, or the text it came from
+  email?: string; // Missing when no valid address could be read from the row
+}
+
+const emailSchema = z.string().email();
+
+function toRow(label: string, candidate: string | undefined): ContactRow {
+  const email = candidate?.trim().replace(/^mailto:/i, "");
+  return email && emailSchema.safeParse(email).success ? { label: email, email } : { label };
+}
+
+// "Jane Doe <jane@example.com>" and "jane@example.com" both give the address
+function addressIn(cell: string): string {
+  const bracketed = cell.match(/<([^>]*)>/);
+  if (bracketed) return bracketed[1];
+  return cell.split(/\s+/).find((word) => word.includes("@")) ?? cell;
+}
+
+function parseVCards(content: string): ContactRow[] {
+  // Long lines are folded onto continuation lines starting with a space or tab
+  const lines = content.replace(/\r?\n[ \t]/g, "").split(/\r?\n/);
+  const rows: ContactRow[] = [];
+  let name: string | undefined;
+  let email: string | undefined;
+
+  for (const line of lines) {
+    const separator = line.indexOf(":");
+    if (separator < 0) continue;
+    // Property names may carry a group prefix ("item1.EMAIL") and parameters ("EMAIL;TYPE=home")
+    const property = line.slice(0, separator).split(";")[0].split(".").pop()!.toUpperCase();
+    const value = line.slice(separator + 1).trim();
+
+    if (property === "BEGIN") {
+      name = undefined;
+      email = undefined;
+    } else if (property === "FN") {
+      name = value;
+    } else if (property === "EMAIL") {
+      email ??= value;
+    } else if (property === "END") {
+      rows.push(email ? toRow(email, email) : { label: name || "Contact without a name" });
+    }
+  }
+  return rows;
+}
+
+function parseList(content: string): ContactRow[] {
+  const rows: ContactRow[] = [];
+  content.split(/\r?\n/).forEach((line, index) => {
+    const cells = line
+      .split(/[,;\t]/)
+      .map((cell) => cell.replace(/^\s*"(.*)"\s*$/, "$1").trim())
+      .filter(Boolean);
+    if (cells.length === 0) return;
+
+    const addresses = cells.filter((cell) => cell.includes("@"));
+    if (addresses.length > 0) {
+      rows.push(...addresses.map((cell) => toRow(addressIn(cell), addressIn(cell))));
+    } else if (!(index === 0 && /e-?mail/i.test(line))) {
+      // Anything but a CSV header row without an address is an entry we could not use
+      rows.push({ label: line.trim() });
+    }
+  });
+  return rows;
+}
+
+/** Rows from pasted text, a CSV file or a vCard file, with repeated addresses dropped */
+export function parseContacts(content: string): ContactRow[] {
+  const rows = /^BEGIN:VCARD/im.test(content) ? parseVCards(content) : parseList(content);
+  const seen = new Set<string>();
+  return rows.filter((row) => {
+    if (!row.email) return true;
+    const key = row.email.toLowerCase();
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
@@ -0,0 +1,118 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import { withDataLock, DataLockTimeoutError, DATA_LOCK_FILE, resolveDataDir } from "./data-dir";
+
+describe("Data Directory Lock", () => {
+  let dataDir: string;
+  let lockPath: string;
+
+  beforeEach(async () => {
+    dataDir = await fs.mkdtemp(path.join(os.tmpdir(), "supportspark-lock-"));
+    lockPath = path.join(dataDir, DATA_LOCK_FILE);
+  });
+
+  afterEach(async () => {
+    await fs.rm(dataDir, { recursive: true, force: true });
+  });
+
+  it("should run holders one at a time and remove the lock afterwards", async () => {
+    const events: string[] = [];
+    const hold = (name: string) =>
+      withDataLock(dataDir, async () => {
+        events.push(`${name} start`);
+        await new Promise((resolve) => setTimeout(resolve, 30));
+        events.push(`${name} end`);
+      });
+
+    await Promise.all([hold("a"), hold("b")]);
+
+    expect(events).toEqual(["a start", "a end", "b start", "b end"]);
+    await expect(fs.stat(lockPath)).rejects.toThrow();
+  });
+
+  it("should release the lock when the holder throws", async () => {
+    await expect(
+      withDataLock(dataDir, async () => {
+        throw new Error("write failed");
+      })
+    ).rejects.toThrow("write failed");
+
+    await expect(withDataLock(dataDir, async () => "next")).resolves.toBe("next");
+  });
+
+  it("should take over a lock left by a process that has exited", async () => {
+    // Far above any real pid on Linux (pid_max tops out at 2^22)
+    await fs.writeFile(lockPath, "99999999:crashed");
+
+    await expect(withDataLock(dataDir, async () => "recovered")).resolves.toBe("recovered");
+  });
+
+  it("should let only one of several contenders take over an abandoned lock", async () => {
+    await fs.writeFile(lockPath, "99999999:crashed");
+    let holders = 0;
+    let overlapped = false;
+    const hold = () =>
+      withDataLock(dataDir, async () => {
+        overlapped ||= ++holders > 1;
+        await new Promise((resolve) => setTimeout(resolve, 30));
+        holders--;
+      });
+
+    await Promise.all([hold(), hold(), hold()]);
+
+    expect(overlapped).toBe(false);
+    expect((await fs.readdir(dataDir)).filter((name) => name !== DATA_LOCK_FILE)).toEqual([]);
+  });
+
+  it("should not take over from a live holder that outlasts staleMs", async () => {
+    const events: string[] = [];
+    const hold = (name: string, ms: number) =>
+      withDataLock(
+        dataDir,
+        async () => {
+          events.push(`${name} start`);
+          await new Promise((resolve) => setTimeout(resolve, ms));
+          events.push(`${name} end`);
+        },
+        { staleMs: 150 }
+      );
+
+    await Promise.all([hold("slow", 500), hold("next", 0)]);
+
+    expect(events).toEqual(["slow start", "slow end", "next start", "next end"]);
+  });
+
+  it("should time out while a live process holds the lock", async () => {
+    await fs.writeFile(lockPath, `${process.pid}:other-holder`);
+
+    await expect(
+      withDataLock(dataDir, async () => "never", { timeoutMs: 100 })
+    ).rejects.toBeInstanceOf(DataLockTimeoutError);
+    expect(await fs.readFile(lockPath, "utf-8")).toBe(`${process.pid}:other-holder`);
+  });
+
+  it("should take over a lock not touched for staleMs", async () => {
+    await fs.writeFile(lockPath, `${process.pid}:hung-holder`);
+    const old = new Date(Date.now() - 60_000);
+    await fs.utimes(lockPath, old, old);
+
+    await expect(withDataLock(dataDir, async () => "taken", { staleMs: 1000 })).resolves.toBe(
+      "taken"
+    );
+  });
+
+  it("should resolve the data directory from DATA_DIR", () => {
+    const previous = process.env.DATA_DIR;
+    try {
+      process.env.DATA_DIR = dataDir;
+      expect(resolveDataDir()).toBe(dataDir);
+      delete process.env.DATA_DIR;
+      expect(resolveDataDir()).toBe(path.join(process.cwd(), "data"));
+    } finally {
+      if (previous === undefined) delete process.env.DATA_DIR;
+      else process.env.DATA_DIR = previous;
+    }
+  });
+});
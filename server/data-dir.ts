@@ -0,0 +1,158 @@
+import fs from "fs/promises";
+import path from "path";
+import { randomUUID } from "crypto";
+
+/**
+ * Root of all persisted data: DATA_DIR when set, otherwise ./data
+ */
+export function resolveDataDir(): string {
+  return path.resolve(process.env.DATA_DIR || "data");
+}
+
+/** Lock file inside the data directory, held while any process writes to it */
+export const DATA_LOCK_FILE = ".lock";
+
+/** Lock files are never data: backups and integrity checks skip them */
+export function isLockFile(name: string): boolean {
+  return name.endsWith(".lock");
+}
+
+const LOCK_RETRY_MS = 20;
+const DEFAULT_STALE_MS = 30_000;
+
+export interface DataLockOptions {
+  /** Give up waiting after this long (default 10s) */
+  timeoutMs?: number;
+  /** Treat a lock not refreshed for this long as abandoned (default 30s) */
+  staleMs?: number;
+}
+
+export class DataLockTimeoutError extends Error {
+  constructor(public readonly lockPath: string) {
+    super(`Timed out waiting for the lock ${lockPath}`);
+    this.name = "DataLockTimeoutError";
+  }
+}
+
+/**
+ * Run fn while holding the advisory lock on dataDir
+ * Every process writing to the same data directory (server instances, CLI scripts) takes this
+ * lock, so read-modify-write cycles never interleave. The lock file records the holder's pid,
+ * and the holder touches it every staleMs / 3 while fn runs; a lock left by a process that has
+ * exited, or not touched for staleMs (a hung holder, or a pid reused since), is taken over.
+ * Only processes on one machine are covered: pids are not checked across hosts.
+ */
+export async function withDataLock<T>(
+  dataDir: string,
+  fn: () => Promise<T>,
+  options: DataLockOptions = {}
+): Promise<T> {
+  return withFileLock(path.join(dataDir, DATA_LOCK_FILE), fn, options);
+}
+
+/**
+ * Run fn while holding the lock file at lockPath (same rules as withDataLock)
+ * For state with its own lifecycle, such as the encryption key store, that must not wait on
+ * (or deadlock inside) the data directory lock
+ */
+export async function withFileLock<T>(
+  lockPath: string,
+  fn: () => Promise<T>,
+  options: DataLockOptions = {}
+): Promise<T> {
+  const { staleMs = DEFAULT_STALE_MS } = options;
+  const token = await acquireLock(lockPath, options);
+  // Touch the lock while fn runs, so a slow holder is never mistaken for a hung one
+  const heartbeat = setInterval(() => {
+    const now = new Date();
+    fs.utimes(lockPath, now, now).catch(() => undefined);
+  }, staleMs / 3);
+  heartbeat.unref();
+  try {
+    return await fn();
+  } finally {
+    clearInterval(heartbeat);
+    await releaseLock(lockPath, token);
+  }
+}
+
+async function acquireLock(lockPath: string, options: DataLockOptions): Promise<string> {
+  const { timeoutMs = 10_000, staleMs = DEFAULT_STALE_MS } = options;
+  const token = `${process.pid}:${randomUUID()}`;
+  const deadline = Date.now() + timeoutMs;
+
+  for (;;) {
+    try {
+      await fs.writeFile(lockPath, token, { flag: "wx" });
+      return token;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "EEXIST") throw error;
+    }
+
+    const stale = await staleHolder(lockPath, staleMs);
+    if (stale !== undefined) {
+      await takeOver(lockPath, stale);
+      continue;
+    }
+    if (Date.now() >= deadline) throw new DataLockTimeoutError(lockPath);
+    await new Promise((resolve) => setTimeout(resolve, LOCK_RETRY_MS));
+  }
+}
+
+/**
+ * Remove the lock file if it still holds the stale token. The file is first renamed aside,
+ * which only one contender can do; if it turns out to be a fresh lock that another contender
+ * created after taking over, it is linked back into place
+ */
+async function takeOver(lockPath: string, staleToken: string) {
+  const aside = `${lockPath}.${randomUUID()}.lock`;
+  try {
+    await fs.rename(lockPath, aside);
+  } catch (error) {
+    // Someone else moved it first
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return;
+    throw error;
+  }
+
+  try {
+    if ((await fs.readFile(aside, "utf-8")) !== staleToken) {
+      await fs.link(aside, lockPath).catch((error: NodeJS.ErrnoException) => {
+        // Another contender created a lock in the moment the file was aside; keep theirs
+        if (error.code !== "EEXIST") throw error;
+      });
+    }
+  } finally {
+    await fs.rm(aside, { force: true });
+  }
+}
+
+async function releaseLock(lockPath: string, token: string) {
+  // Leave the file alone if another process took over the lock as stale
+  const holder = await fs.readFile(lockPath, "utf-8").catch(() => undefined);
+  if (holder === token) await fs.rm(lockPath, { force: true });
+}
+
+// The token in the lock file if its holder is gone, otherwise undefined
+async function staleHolder(lockPath: string, staleMs: number): Promise<string | undefined> {
+  let holder: string;
+  let modified: number;
+  try {
+    holder = await fs.readFile(lockPath, "utf-8");
+    modified = (await fs.stat(lockPath)).mtimeMs;
+  } catch (error) {
+    // Released between our attempt and this check; just retry
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return undefined;
+    throw error;
+  }
+
+  if (Date.now() - modified > staleMs) return holder;
+
+  const pid = Number(holder.split(":")[0]);
+  if (!Number.isInteger(pid) || pid <= 0) return undefined; // Holder is still writing the file
+  try {
+    process.kill(pid, 0);
+    return undefined;
+  } catch (error) {
+    return (error as NodeJS.ErrnoException).code === "ESRCH" ? holder : undefined;
+  }
+}
@@ -0,0 +1,199 @@
+import { describe, it, expect } from "vitest";
+import {
+  loadDataFile,
+  wrapDataFile,
+  unwrapDataFile,
+  DataFormatError,
+  DATA_FORMAT_VERSION,
+  type DataUpgrade,
+} from "./data-format";
+
+const user = {
+  id: "user-1",
+  email: "user@example.com",
+  password: "$2b$10$hash",
+  passwordVersion: "bcrypt-10",
+  emailVerified: true,
+  blockedUserIds: [],
+};
+
+describe("Data Format", () => {
+  it("should treat files without a header as version 0 and upgrade them", () => {
+    const { content, upgraded } = loadDataFile("users", [user], "users.json");
+
+    expect(upgraded).toBe(true);
+    expect(content).toEqual([user]);
+  });
+
+  it("should load current files without upgrading", () => {
+    const { content, upgraded } = loadDataFile("users", wrapDataFile([user]), "users.json");
+
+    expect(upgraded).toBe(false);
+    expect(content).toEqual([user]);
+  });
+
+  it("should round-trip the header", () => {
+    const wrapped = wrapDataFile({ lastConversationId: 3 });
+
+    expect(wrapped.formatVersion).toBe(DATA_FORMAT_VERSION);
+    expect(unwrapDataFile(JSON.parse(JSON.stringify(wrapped)))).toEqual(wrapped);
+  });
+
+  it("should run only the steps newer than the file, in order", () => {
+    const upgrades: DataUpgrade[] = [
+      { version: 1, description: "Header", upgrade: (_kind, content) => content },
+      {
+        version: 2,
+        description: "Default password version",
+        upgrade: (kind, content) =>
+          kind === "users"
+            ? (content as object[]).map((u) => ({ passwordVersion: "bcrypt-10", ...u }))
+            : content,
+      },
+      {
+        version: 3,
+        description: "Default names",
+        upgrade: (kind, content) =>
+          kind === "users"
+            ? (content as object[]).map((u) => ({ firstName: "Unknown", ...u }))
+            : content,
+      },
+    ];
+    const legacyUser = {
+      id: "user-1",
+      email: "user@example.com",
+      password: "plain",
+      emailVerified: false,
+      blockedUserIds: [],
+    };
+
+    const fromV1 = loadDataFile(
+      "users",
+      { formatVersion: 1, content: [legacyUser] },
+      "u",
+      upgrades
+    );
+    expect(fromV1.content[0]).toMatchObject({ passwordVersion: "bcrypt-10", firstName: "Unknown" });
+
+    const fromV2 = loadDataFile(
+      "users",
+      { formatVersion: 2, content: [legacyUser] },
+      "u",
+      upgrades
+    );
+    expect(fromV2.content[0].passwordVersion).toBeUndefined();
+    expect(fromV2.content[0].firstName).toBe("Unknown");
+  });
+
+  it("should treat users from before email verification as verified", () => {
+    const { emailVerified: _emailVerified, ...legacyUser } = user; // eslint-disable-line @typescript-eslint/no-unused-vars
+
+    const { content } = loadDataFile(
+      "users",
+      { formatVersion: 1, content: [legacyUser, { ...user, id: "user-2", emailVerified: false }] },
+      "users.json"
+    );
+
+    expect(content.map((u) => u.emailVerified)).toEqual([true, false]);
+  });
+
+  it("should give supporter relationships from before roles the commenter role", () => {
+    const supporter = {
+      id: 1,
+      memberId: "user-1",
+      supporterId: "user-2",
+      status: "accepted",
+      createdAt: new Date().toISOString(),
+    };
+
+    const { content } = loadDataFile(
+      "supporters",
+      { formatVersion: 2, content: [supporter, { ...supporter, id: 2, role: "viewer" }] },
+      "supporters.json"
+    );
+
+    expect(content.map((s) => s.role)).toEqual(["commenter", "viewer"]);
+  });
+
+  it("should give pending invitations from before expiry a deadline 14 days after sending", () => {
+    const supporter = {
+      id: 1,
+      memberId: "user-1",
+      supporterId: "user-2",
+      status: "pending",
+      role: "commenter",
+      createdAt: "2024-03-01T12:00:00.000Z",
+    };
+
+    const { content } = loadDataFile(
+      "supporters",
+      { formatVersion: 3, content: [supporter, { ...supporter, id: 2, status: "accepted" }] },
+      "supporters.json"
+    );
+
+    expect(content.map((s) => s.expiresAt)).toEqual(["2024-03-15T12:00:00.000Z", undefined]);
+  });
+
+  it("should give users from before blocking an empty block list", () => {
+    const { blockedUserIds: _blockedUserIds, ...legacyUser } = user; // eslint-disable-line @typescript-eslint/no-unused-vars
+
+    const { content } = loadDataFile(
+      "users",
+      { formatVersion: 4, content: [legacyUser, { ...user, id: "user-2", blockedUserIds: ["x"] }] },
+      "users.json"
+    );
+
+    expect(content.map((u) => u.blockedUserIds)).toEqual([[], ["x"]]);
+  });
+
+  it("should take read markers off users once they have their own file", () => {
+    const legacyUser = { ...user, lastReadAt: { "1": "2024-03-01T12:00:00.000Z" } };
+
+    const { content, upgraded } = loadDataFile(
+      "users",
+      { formatVersion: 5, content: [legacyUser] },
+      "users.json"
+    );
+
+    expect(upgraded).toBe(true);
+    expect(content).toEqual([user]);
+  });
+
+  it("should reject files written by a newer format version", () => {
+    expect(() =>
+      loadDataFile("users", { formatVersion: DATA_FORMAT_VERSION + 1, content: [] }, "users.json")
+    ).toThrow(/newer than this build supports/);
+  });
+
+  it("should reject records that fail schema validation", () => {
+    const invalid = [user, { ...user, id: "user-2", email: "not-an-email" }];
+
+    expect(() => loadDataFile("users", invalid, "users.json")).toThrow(DataFormatError);
+    expect(() => loadDataFile("users", invalid, "users.json")).toThrow(/users\.json.*1\.email/);
+  });
+
+  it("should validate nested conversation messages", () => {
+    const conversation = {
+      id: 1,
+      memberId: "user-1",
+      title: "Thread",
+      createdAt: new Date().toISOString(),
+      data: {
+        messages: [
+          {
+            id: "m1",
+            authorId: "user-1",
+            authorName: "User",
+            content: "Root",
+            timestamp: new Date().toISOString(),
+            replies: [{ id: "m2", authorId: "user-1", content: "Missing fields" }],
+          },
+        ],
+      },
+    };
+
+    expect(() => loadDataFile("conversation", conversation, "1.json")).toThrow(
+      /data\.messages\.0\.replies\.0/
+    );
+  });
+});
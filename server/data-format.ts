@@ -0,0 +1,186 @@
+import { z } from "zod";
+import {
+  userSchema,
+  supporterSchema,
+  conversationSchema,
+  invitationSchema,
+  circleSchema,
+  journeySchema,
+  reportSchema,
+  readMarkerSchema,
+} from "@shared/schema";
+
+/**
+ * On-disk format for FileStorage JSON files
+ *
+ * Every file is written as { formatVersion, content }. Files from before versioning are bare
+ * JSON and count as version 0. On load, content is passed through each upgrade step newer than
+ * the file's version, in order, and then validated against the schema for its kind.
+ */
+
+const conversationIndexEntrySchema = z.object({
+  id: z.number(),
+  memberId: z.string(),
+  title: z.string(),
+  createdAt: z.string(),
+});
+
+// Per-member data keys, each wrapped (encrypted) with a master key; see encryption.ts
+const memberKeySchema = z.object({
+  memberId: z.string(),
+  masterKeyId: z.string(),
+  wrappedKey: z.string(),
+  createdAt: z.string(),
+});
+
+const dataFileSchemas = {
+  users: z.array(userSchema),
+  supporters: z.array(supporterSchema),
+  invitations: z.array(invitationSchema),
+  circles: z.array(circleSchema),
+  journeys: z.array(journeySchema),
+  reports: z.array(reportSchema),
+  readMarkers: z.array(readMarkerSchema),
+  conversationIndex: z.array(conversationIndexEntrySchema),
+  conversationMeta: z.object({ lastConversationId: z.number() }),
+  conversation: conversationSchema,
+  memberKeys: z.array(memberKeySchema),
+};
+
+export type DataFileKind = keyof typeof dataFileSchemas;
+export type DataFileContent<K extends DataFileKind> = z.infer<(typeof dataFileSchemas)[K]>;
+
+export interface DataUpgrade {
+  version: number; // Format version the step produces
+  description: string;
+  upgrade(kind: DataFileKind, content: unknown): unknown;
+}
+
+/**
+ * Ordered upgrade steps. When the stored shape changes, append a step that rewrites older
+ * content deterministically (e.g. fills a new required field) rather than leaving it optional
+ */
+export const DATA_UPGRADES: DataUpgrade[] = [
+  {
+    version: 1,
+    description: "Add format header to every data file",
+    upgrade: (_kind, content) => content,
+  },
+  {
+    version: 2,
+    // They signed up before addresses were checked and were never sent a link, so blocking them
+    // from invitations until they verify would shut out every existing account
+    description: "Treat accounts from before email verification as verified",
+    upgrade: (kind, content) =>
+      kind === "users"
+        ? (content as object[]).map((u) => ({ emailVerified: true, ...u }))
+        : content,
+  },
+  {
+    version: 3,
+    description: "Give existing supporter relationships the commenter role",
+    upgrade: (kind, content) =>
+      kind === "supporters"
+        ? (content as object[]).map((s) => ({ role: "commenter", ...s }))
+        : content,
+  },
+  {
+    version: 4,
+    description: "Expire pending supporter invitations 14 days after they were sent",
+    upgrade: (kind, content) =>
+      kind === "supporters"
+        ? (content as { status: string; createdAt: string }[]).map((s) => {
+            if (s.status !== "pending") return s;
+            const expiresAt = Date.parse(s.createdAt) + 14 * 24 * 60 * 60 * 1000;
+            return { expiresAt: new Date(expiresAt).toISOString(), ...s };
+          })
+        : content,
+  },
+  {
+    version: 5,
+    description: "Give every user an empty block list",
+    upgrade: (kind, content) =>
+      kind === "users"
+        ? (content as object[]).map((u) => ({ blockedUserIds: [], ...u }))
+        : content,
+  },
+  {
+    version: 6,
+    // FileStorage copies the markers into readMarkers.json before users.json is upgraded
+    description: "Move conversation read markers off users into their own file",
+    upgrade: (kind, content) =>
+      kind === "users"
+        ? (content as { lastReadAt?: unknown }[]).map(({ lastReadAt: _moved, ...u }) => u)
+        : content,
+  },
+];
+
+export const DATA_FORMAT_VERSION = DATA_UPGRADES[DATA_UPGRADES.length - 1].version;
+
+export class DataFormatError extends Error {
+  constructor(file: string, reason: string) {
+    super(`${file}: ${reason}`);
+    this.name = "DataFormatError";
+  }
+}
+
+interface VersionedFile {
+  formatVersion: number;
+  content: unknown;
+}
+
+function isVersionedFile(raw: unknown): raw is VersionedFile {
+  return (
+    !!raw &&
+    typeof raw === "object" &&
+    !Array.isArray(raw) &&
+    typeof (raw as VersionedFile).formatVersion === "number" &&
+    "content" in raw
+  );
+}
+
+// Content and version of a parsed file without upgrading or validating it
+export function unwrapDataFile(raw: unknown): VersionedFile {
+  return isVersionedFile(raw) ? raw : { formatVersion: 0, content: raw };
+}
+
+export function wrapDataFile(content: unknown): VersionedFile {
+  return { formatVersion: DATA_FORMAT_VERSION, content };
+}
+
+/**
+ * Upgrade and validate a parsed data file
+ * upgraded is true when the file is older than the current format and should be rewritten
+ */
+export function loadDataFile<K extends DataFileKind>(
+  kind: K,
+  raw: unknown,
+  file: string,
+  upgrades: DataUpgrade[] = DATA_UPGRADES
+): { content: DataFileContent<K>; upgraded: boolean } {
+  const { formatVersion, content } = unwrapDataFile(raw);
+  const latest = upgrades.length > 0 ? upgrades[upgrades.length - 1].version : 0;
+
+  if (formatVersion > latest) {
+    throw new DataFormatError(
+      file,
+      `format version ${formatVersion} is newer than this build supports (${latest})`
+    );
+  }
+
+  let upgradedContent = content;
+  for (const step of upgrades) {
+    if (step.version > formatVersion) upgradedContent = step.upgrade(kind, upgradedContent);
+  }
+
+  const result = dataFileSchemas[kind].safeParse(upgradedContent);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    throw new DataFormatError(
+      file,
+      `invalid ${kind} data at ${issue.path.join(".") || "(root)"}: ${issue.message}`
+    );
+  }
+
+  return { content: result.data as DataFileContent<K>, upgraded: formatVersion < latest };
+}
@@ -0,0 +1,96 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import { randomBytes } from "crypto";
+import { DataEncryption, EncryptionError, isEncryptedBuffer, masterKeyId } from "./encryption";
+import { unwrapDataFile } from "./data-format";
+
+describe("Data Encryption", () => {
+  let dataDir: string;
+  let masterKey: Buffer;
+  let encryption: DataEncryption;
+
+  const readKeys = async () =>
+    unwrapDataFile(JSON.parse(await fs.readFile(path.join(dataDir, "keys.json"), "utf-8")))
+      .content as { memberId: string; masterKeyId: string }[];
+
+  beforeEach(async () => {
+    dataDir = await fs.mkdtemp(path.join(os.tmpdir(), "supportspark-encryption-"));
+    masterKey = randomBytes(32);
+    encryption = new DataEncryption(dataDir, masterKey);
+  });
+
+  afterEach(async () => {
+    await fs.rm(dataDir, { recursive: true, force: true });
+  });
+
+  it("should round-trip JSON without leaving plaintext in the envelope", async () => {
+    const secret = { title: "Chemo starts Monday" };
+
+    const envelope = await encryption.encryptJson("member-a", secret);
+
+    expect(JSON.stringify(envelope)).not.toContain("Chemo");
+    expect(envelope.memberId).toBe("member-a");
+    await expect(encryption.decryptJson(envelope, "1.json")).resolves.toEqual(secret);
+  });
+
+  it("should round-trip binary files and pass plaintext files through", async () => {
+    const image = Buffer.from([0x89, 0x50, 0x4e, 0x47, 1, 2, 3]);
+
+    const stored = await encryption.encryptBuffer("member-a", image);
+
+    expect(isEncryptedBuffer(stored)).toBe(true);
+    expect(stored.includes(image)).toBe(false);
+    expect(await encryption.decryptBuffer(stored, "photo.png")).toEqual(image);
+    expect(await encryption.decryptBuffer(image, "old.png")).toEqual(image);
+  });
+
+  it("should give each member their own data key", async () => {
+    await encryption.encryptJson("member-a", {});
+    await encryption.encryptJson("member-b", {});
+    await encryption.encryptJson("member-a", {});
+
+    expect((await readKeys()).map((k) => k.memberId)).toEqual(["member-a", "member-b"]);
+  });
+
+  it("should reject a wrong master key and tampered content", async () => {
+    const envelope = await encryption.encryptJson("member-a", { note: "private" });
+
+    const wrongKey = new DataEncryption(dataDir, randomBytes(32));
+    await expect(wrongKey.verify()).rejects.toBeInstanceOf(EncryptionError);
+
+    const data = Buffer.from(envelope.data, "base64");
+    data[0] ^= 1;
+    await expect(
+      encryption.decryptJson({ ...envelope, data: data.toString("base64") }, "1.json")
+    ).rejects.toThrow(/tampered/);
+  });
+
+  it("should rotate the master key without re-encrypting content", async () => {
+    const envelope = await encryption.encryptJson("member-a", { note: "private" });
+    const image = await encryption.encryptBuffer("member-b", Buffer.from("image"));
+    const newKey = randomBytes(32);
+
+    const rotating = new DataEncryption(dataDir, newKey, [masterKey]);
+    expect(await rotating.rotateMasterKey()).toBe(2);
+    expect(await rotating.rotateMasterKey()).toBe(0);
+    expect((await readKeys()).every((k) => k.masterKeyId === masterKeyId(newKey))).toBe(true);
+
+    // Once rotated, the old master key is no longer needed
+    const rotated = new DataEncryption(dataDir, newKey);
+    await expect(rotated.verify()).resolves.toBeUndefined();
+    await expect(rotated.decryptJson(envelope, "1.json")).resolves.toEqual({ note: "private" });
+    expect((await rotated.decryptBuffer(image, "photo.png")).toString()).toBe("image");
+  });
+
+  it("should read master keys from the environment", () => {
+    expect(DataEncryption.fromEnv(dataDir, {})).toBeUndefined();
+    expect(
+      DataEncryption.fromEnv(dataDir, { DATA_ENCRYPTION_KEY: masterKey.toString("base64") })
+    ).toBeInstanceOf(DataEncryption);
+    expect(() => DataEncryption.fromEnv(dataDir, { DATA_ENCRYPTION_KEY: "too-short" })).toThrow(
+      /must be 32 bytes/
+    );
+  });
+});
@@ -0,0 +1,288 @@
+import fs from "fs/promises";
+import path from "path";
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from "crypto";
+import { loadDataFile, wrapDataFile, type DataFileContent } from "./data-format";
+import { withFileLock } from "./data-dir";
+
+/**
+ * Envelope encryption for conversation content at rest
+ *
+ * Each member has a random 256-bit data key. Data keys are stored in keys.json wrapped
+ * (AES-256-GCM encrypted) with the master key from DATA_ENCRYPTION_KEY, which never touches
+ * the disk. Conversation files and uploaded images are encrypted with their member's data key,
+ * so the data directory and its backups are unreadable without the master key. Rotating the
+ * master key only rewraps the data keys; the encrypted files themselves are left as they are.
+ */
+
+const ALGORITHM = "aes-256-gcm";
+const KEY_BYTES = 32;
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+const KEYS_FILE = "keys.json";
+const KEYS_LOCK_FILE = ".keys.lock";
+
+// Prefix of encrypted binary files: magic, member ID length (2 bytes), member ID, IV, tag
+const BINARY_MAGIC = Buffer.from("SSENC1");
+
+type MemberKeyRecord = DataFileContent<"memberKeys">[number];
+
+/** Encrypted JSON content, stored in place of the plaintext content of a data file */
+export interface EncryptedContent {
+  encrypted: typeof ALGORITHM;
+  memberId: string;
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+export class EncryptionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "EncryptionError";
+  }
+}
+
+export function isEncryptedContent(content: unknown): content is EncryptedContent {
+  return (
+    !!content &&
+    typeof content === "object" &&
+    (content as EncryptedContent).encrypted === ALGORITHM &&
+    typeof (content as EncryptedContent).memberId === "string"
+  );
+}
+
+export function isEncryptedBuffer(data: Buffer): boolean {
+  return data.subarray(0, BINARY_MAGIC.length).equals(BINARY_MAGIC);
+}
+
+/** Short fingerprint recorded with each wrapped key so the right master key can be picked */
+export function masterKeyId(key: Buffer): string {
+  return createHash("sha256").update(key).digest("hex").slice(0, 16);
+}
+
+function parseMasterKey(value: string, name: string): Buffer {
+  const key = Buffer.from(value.trim(), "base64");
+  if (key.length !== KEY_BYTES) {
+    throw new EncryptionError(
+      `${name} must be ${KEY_BYTES} bytes, base64 encoded (generate one with: openssl rand -base64 32)`
+    );
+  }
+  return key;
+}
+
+function seal(key: Buffer, plaintext: Buffer): { iv: Buffer; tag: Buffer; data: Buffer } {
+  const iv = randomBytes(IV_BYTES);
+  const cipher = createCipheriv(ALGORITHM, key, iv);
+  const data = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return { iv, tag: cipher.getAuthTag(), data };
+}
+
+function unseal(key: Buffer, iv: Buffer, tag: Buffer, data: Buffer, what: string): Buffer {
+  try {
+    const decipher = createDecipheriv(ALGORITHM, key, iv);
+    decipher.setAuthTag(tag);
+    return Buffer.concat([decipher.update(data), decipher.final()]);
+  } catch {
+    throw new EncryptionError(`Could not decrypt ${what}: wrong key or tampered data`);
+  }
+}
+
+export class DataEncryption {
+  private keysFile: string;
+  private keysLockFile: string;
+  private currentKeyId: string;
+  private masterKeys: Map<string, Buffer>;
+
+  // Unwrapped data keys by member ID
+  private dataKeys: Map<string, Buffer> = new Map();
+
+  /**
+   * @param masterKey Wraps new data keys
+   * @param previousMasterKeys Still accepted for unwrapping, until rotateMasterKey rewraps them
+   */
+  constructor(dataDir: string, masterKey: Buffer, previousMasterKeys: Buffer[] = []) {
+    this.keysFile = path.join(dataDir, KEYS_FILE);
+    this.keysLockFile = path.join(dataDir, KEYS_LOCK_FILE);
+    this.currentKeyId = masterKeyId(masterKey);
+    this.masterKeys = new Map([masterKey, ...previousMasterKeys].map((k) => [masterKeyId(k), k]));
+  }
+
+  /**
+   * Build from DATA_ENCRYPTION_KEY (and DATA_ENCRYPTION_PREVIOUS_KEYS, comma separated)
+   * Returns undefined when encryption is not configured
+   */
+  static fromEnv(
+    dataDir: string,
+    env: NodeJS.ProcessEnv = process.env
+  ): DataEncryption | undefined {
+    if (!env.DATA_ENCRYPTION_KEY) return undefined;
+    const previous = (env.DATA_ENCRYPTION_PREVIOUS_KEYS || "")
+      .split(",")
+      .filter((value) => value.trim())
+      .map((value) => parseMasterKey(value, "DATA_ENCRYPTION_PREVIOUS_KEYS"));
+    return new DataEncryption(
+      dataDir,
+      parseMasterKey(env.DATA_ENCRYPTION_KEY, "DATA_ENCRYPTION_KEY"),
+      previous
+    );
+  }
+
+  /** Whether a data directory holds encrypted content (so starting without a key must fail) */
+  static async isInUse(dataDir: string): Promise<boolean> {
+    return fs
+      .access(path.join(dataDir, KEYS_FILE))
+      .then(() => true)
+      .catch(() => false);
+  }
+
+  /**
+   * Check that every stored data key can be unwrapped with the configured master keys
+   */
+  async verify(): Promise<void> {
+    for (const record of await this.readKeys()) {
+      this.unwrap(record);
+    }
+  }
+
+  async encryptJson(memberId: string, value: unknown): Promise<EncryptedContent> {
+    const key = await this.dataKey(memberId, true);
+    const { iv, tag, data } = seal(key, Buffer.from(JSON.stringify(value), "utf-8"));
+    return {
+      encrypted: ALGORITHM,
+      memberId,
+      iv: iv.toString("base64"),
+      tag: tag.toString("base64"),
+      data: data.toString("base64"),
+    };
+  }
+
+  async decryptJson(content: EncryptedContent, what: string): Promise<unknown> {
+    const key = await this.dataKey(content.memberId, false);
+    const plaintext = unseal(
+      key,
+      Buffer.from(content.iv, "base64"),
+      Buffer.from(content.tag, "base64"),
+      Buffer.from(content.data, "base64"),
+      what
+    );
+    return JSON.parse(plaintext.toString("utf-8"));
+  }
+
+  async encryptBuffer(memberId: string, plaintext: Buffer): Promise<Buffer> {
+    const key = await this.dataKey(memberId, true);
+    const { iv, tag, data } = seal(key, plaintext);
+    const member = Buffer.from(memberId, "utf-8");
+    const length = Buffer.alloc(2);
+    length.writeUInt16BE(member.length);
+    return Buffer.concat([BINARY_MAGIC, length, member, iv, tag, data]);
+  }
+
+  /** Decrypt a file written by encryptBuffer; files from before encryption are returned as is */
+  async decryptBuffer(stored: Buffer, what: string): Promise<Buffer> {
+    if (!isEncryptedBuffer(stored)) return stored;
+    let offset = BINARY_MAGIC.length;
+    const memberLength = stored.readUInt16BE(offset);
+    offset += 2;
+    const memberId = stored.subarray(offset, offset + memberLength).toString("utf-8");
+    offset += memberLength;
+    const iv = stored.subarray(offset, offset + IV_BYTES);
+    const tag = stored.subarray(offset + IV_BYTES, offset + IV_BYTES + TAG_BYTES);
+    const data = stored.subarray(offset + IV_BYTES + TAG_BYTES);
+    return unseal(await this.dataKey(memberId, false), iv, tag, data, what);
+  }
+
+  /**
+   * Rewrap every data key still wrapped with a previous master key under the current one
+   * Returns the number of keys rewrapped
+   */
+  async rotateMasterKey(): Promise<number> {
+    return withFileLock(this.keysLockFile, async () => {
+      const records = await this.readKeys();
+      let rewrapped = 0;
+      const updated = records.map((record) => {
+        if (record.masterKeyId === this.currentKeyId) return record;
+        rewrapped++;
+        return { ...record, ...this.wrap(this.unwrap(record)) };
+      });
+      if (rewrapped > 0) await this.writeKeys(updated);
+      return rewrapped;
+    });
+  }
+
+  private wrap(dataKey: Buffer): Pick<MemberKeyRecord, "masterKeyId" | "wrappedKey"> {
+    const { iv, tag, data } = seal(this.masterKeys.get(this.currentKeyId)!, dataKey);
+    return {
+      masterKeyId: this.currentKeyId,
+      wrappedKey: Buffer.concat([iv, tag, data]).toString("base64"),
+    };
+  }
+
+  private unwrap(record: MemberKeyRecord): Buffer {
+    const masterKey = this.masterKeys.get(record.masterKeyId);
+    if (!masterKey) {
+      throw new EncryptionError(
+        `The data key for member ${record.memberId} is wrapped with master key ` +
+          `${record.masterKeyId}, which is neither DATA_ENCRYPTION_KEY nor one of ` +
+          "DATA_ENCRYPTION_PREVIOUS_KEYS"
+      );
+    }
+    const wrapped = Buffer.from(record.wrappedKey, "base64");
+    return unseal(
+      masterKey,
+      wrapped.subarray(0, IV_BYTES),
+      wrapped.subarray(IV_BYTES, IV_BYTES + TAG_BYTES),
+      wrapped.subarray(IV_BYTES + TAG_BYTES),
+      `the data key for member ${record.memberId}`
+    );
+  }
+
+  /**
+   * Look up a member's data key, creating it when create is set
+   * keys.json is re-read on a cache miss so keys created by other processes are found
+   */
+  private async dataKey(memberId: string, create: boolean): Promise<Buffer> {
+    const cached = this.dataKeys.get(memberId);
+    if (cached) return cached;
+
+    const find = async () => {
+      const record = (await this.readKeys()).find((r) => r.memberId === memberId);
+      return record && this.unwrap(record);
+    };
+
+    let key = await find();
+    if (!key && create) {
+      key = await withFileLock(this.keysLockFile, async () => {
+        const records = await this.readKeys();
+        const existing = records.find((r) => r.memberId === memberId);
+        if (existing) return this.unwrap(existing);
+
+        const created = randomBytes(KEY_BYTES);
+        records.push({ memberId, ...this.wrap(created), createdAt: new Date().toISOString() });
+        await this.writeKeys(records);
+        return created;
+      });
+    }
+    if (!key) throw new EncryptionError(`No data key for member ${memberId}`);
+
+    this.dataKeys.set(memberId, key);
+    return key;
+  }
+
+  private async readKeys(): Promise<MemberKeyRecord[]> {
+    let raw: string;
+    try {
+      raw = await fs.readFile(this.keysFile, "utf-8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+      throw error;
+    }
+    return loadDataFile("memberKeys", JSON.parse(raw), this.keysFile).content;
+  }
+
+  // Same temp file + rename strategy and format header as FileStorage
+  private async writeKeys(records: MemberKeyRecord[]) {
+    const tempPath = `${this.keysFile}.tmp.${Date.now()}.${Math.random().toString(36).slice(2)}`;
+    await fs.writeFile(tempPath, JSON.stringify(wrapDataFile(records), null, 2), "utf-8");
+    await fs.rename(tempPath, this.keysFile);
+  }
+}
@@ -1,8 +1,12 @@
 import "dotenv/config";
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
+import { createStorage } from "./storage";
 import { serveStatic } from "./static";
 import { createServer } from "http";
+import { basename, resolve } from "path";
+import { startBackupSchedule } from "./backup";
+import { resolveDataDir } from "./data-dir";
 
 // === ENVIRONMENT VARIABLE VALIDATION ===
 // Validate required environment variables at startup
@@ -99,7 +103,7 @@ app.use((req, res, next) => {
 });
 
 (async () => {
-  await registerRoutes(httpServer, app);
+  await registerRoutes(httpServer, app, createStorage());
 
   app.use((err: unknown, _req: Request, res: Response, _next: NextFunction) => {
     const status = (err && typeof err === 'object' && ('status' in err || 'statusCode' in err)) 
@@ -128,6 +132,23 @@ app.use((req, res, next) => {
   // this serves both the API and the client.
   // It is the only port that is not firewalled.
   const port = parseInt(process.env.PORT || "5000", 10);
+
+  // Scheduled snapshots of the data directory (off unless BACKUP_INTERVAL_HOURS is set)
+  const backupIntervalHours = Number(process.env.BACKUP_INTERVAL_HOURS || 0);
+  if (backupIntervalHours > 0) {
+    const retention = parseInt(process.env.BACKUP_RETENTION || "7", 10);
+    startBackupSchedule({
+      dataDir: resolveDataDir(),
+      backupDir: resolve(process.env.BACKUP_DIR || "backups"),
+      intervalMs: backupIntervalHours * 60 * 60 * 1000,
+      retention,
+      onBackup: (file, pruned) =>
+        log(`wrote ${basename(file)}, removed ${pruned.length} old archive(s)`, "backup"),
+      onError: (error) => console.error("Scheduled backup failed:", error),
+    });
+    log(`snapshots every ${backupIntervalHours}h, keeping ${retention}`, "backup");
+  }
+
   httpServer.listen(
     {
       port,
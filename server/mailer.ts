@@ -0,0 +1,75 @@
+import fs from "fs/promises";
+import path from "path";
+import { randomUUID } from "crypto";
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+export interface SentMail extends MailMessage {
+  sentAt: string; // ISO String
+}
+
+/**
+ * Outgoing email transport
+ * Routes only depend on this interface, so a real provider can be added as another transport
+ * in createMailer without touching them
+ */
+export interface Mailer {
+  send(message: MailMessage): Promise<void>;
+}
+
+/**
+ * Writes each message to a JSON file in an outbox directory instead of sending it
+ * (MAIL_TRANSPORT=outbox, the default). Open the files to follow links during development.
+ */
+export class OutboxMailer implements Mailer {
+  constructor(
+    private readonly dir: string = path.resolve(process.env.MAIL_OUTBOX_DIR || "outbox")
+  ) {}
+
+  async send(message: MailMessage): Promise<void> {
+    const mail: SentMail = { ...message, sentAt: new Date().toISOString() };
+    await fs.mkdir(this.dir, { recursive: true });
+    // Timestamp prefix keeps the files in sending order
+    const file = path.join(this.dir, `${Date.now()}-${randomUUID()}.json`);
+    await fs.writeFile(file, JSON.stringify(mail, null, 2), "utf-8");
+  }
+
+  /** Messages in the outbox, oldest first */
+  async list(): Promise<SentMail[]> {
+    const names = await fs.readdir(this.dir).catch(() => [] as string[]);
+    const mails: SentMail[] = [];
+    for (const name of names.filter((n) => n.endsWith(".json")).sort()) {
+      mails.push(JSON.parse(await fs.readFile(path.join(this.dir, name), "utf-8")));
+    }
+    return mails;
+  }
+}
+
+/**
+ * Keeps sent messages in memory (MAIL_TRANSPORT=memory, for tests)
+ */
+export class MemoryMailer implements Mailer {
+  sent: SentMail[] = [];
+
+  async send(message: MailMessage): Promise<void> {
+    this.sent.push({ ...message, sentAt: new Date().toISOString() });
+  }
+}
+
+/**
+ * Select the mail transport from MAIL_TRANSPORT ("outbox" by default, or "memory")
+ */
+export function createMailer(transport = process.env.MAIL_TRANSPORT): Mailer {
+  switch (transport || "outbox") {
+    case "outbox":
+      return new OutboxMailer();
+    case "memory":
+      return new MemoryMailer();
+    default:
+      throw new Error(`Unknown MAIL_TRANSPORT "${transport}" (expected "outbox" or "memory")`);
+  }
+}
@@ -1,15 +1,25 @@
-import { describe, it, expect, beforeAll, afterAll, beforeEach } from "vitest";
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach, vi } from "vitest";
 import request from "supertest";
 import express, { type Express } from "express";
 import { registerRoutes } from "./routes";
 import { createServer, type Server as HttpServer } from "http";
-import { storage } from "./storage";
+import { InMemoryStorage } from "./storage";
+import { MemoryMailer } from "./mailer";
+import { signToken } from "./tokens";
 import bcrypt from "bcrypt";
+import { randomBytes } from "crypto";
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+
+// Far enough ahead that invitations created in tests stay pending
+const INVITE_EXPIRY = "2099-01-01T00:00:00.000Z";
 
 describe("Authentication Security Tests", () => {
   let app: Express;
   let server: HttpServer;
   let agent: ReturnType<typeof request.agent>;
+  let storage: InMemoryStorage;
 
   beforeAll(async () => {
     // Set environment variables for testing
@@ -24,8 +34,9 @@ describe("Authentication Security Tests", () => {
     app.use(express.json());
     app.use(express.urlencoded({ extended: false }));
 
-    // Register routes
-    server = await registerRoutes(httpServer, app);
+    // Register routes against fresh in-memory storage
+    storage = new InMemoryStorage();
+    server = await registerRoutes(httpServer, app, storage);
 
     // Create agent for session persistence
     agent = request.agent(app);
@@ -262,7 +273,7 @@ describe("Health Check Endpoint", () => {
     const httpServer = createServer(app);
     app.use(express.json());
     app.use(express.urlencoded({ extended: false }));
-    server = await registerRoutes(httpServer, app);
+    server = await registerRoutes(httpServer, app, new InMemoryStorage());
   });
 
   afterAll(async () => {
@@ -279,3 +290,1655 @@ describe("Health Check Endpoint", () => {
     expect(response.body).toHaveProperty("storageReady");
   });
 });
+
+describe("POST /api/conversations/:id/messages - Concurrent Replies", () => {
+  let app: Express;
+  let server: HttpServer;
+
+  beforeAll(async () => {
+    process.env.SESSION_SECRET = "test-secret-key";
+    process.env.NODE_ENV = "test";
+
+    app = express();
+    const httpServer = createServer(app);
+    app.use(express.json());
+    app.use(express.urlencoded({ extended: false }));
+    server = await registerRoutes(httpServer, app, new InMemoryStorage());
+    // Listen once so parallel requests share one server instead of supertest
+    // starting (and closing) it per request
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+  });
+
+  afterAll(async () => {
+    if (server) {
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+    }
+  });
+
+  it("should keep every reply when several are posted at once", async () => {
+    const agent = request.agent(server);
+    await agent
+      .post("/api/register")
+      .send({ email: `test-concurrent-${Date.now()}@example.com`, password: "TestPassword123" })
+      .expect(201);
+
+    const created = await agent
+      .post("/api/conversations")
+      .send({ title: "Concurrent thread", initialMessage: "Root" })
+      .expect(201);
+    const rootId = created.body.data.messages[0].id;
+    const url = `/api/conversations/${created.body.id}/messages`;
+
+    // Like the client: on 412 pick up the new ETag and send again
+    const postWithRetry = async (body: object) => {
+      let etag = created.headers.etag;
+      for (;;) {
+        const response = await agent.post(url).set("If-Match", etag).send(body);
+        if (response.status !== 412) return response;
+        etag = response.headers.etag;
+      }
+    };
+
+    const responses = await Promise.all(
+      Array.from({ length: 10 }, (_, i) =>
+        postWithRetry({ content: `Reply ${i}`, parentMessageId: i % 2 === 0 ? undefined : rootId })
+      )
+    );
+    responses.forEach((response) => expect(response.status).toBe(200));
+
+    const response = await agent.get(`/api/conversations/${created.body.id}`).expect(200);
+    expect(response.body.data.messages).toHaveLength(6);
+    expect(response.body.data.messages[0].replies).toHaveLength(5);
+  });
+
+  it("should return 404 when the parent message does not exist", async () => {
+    const agent = request.agent(app);
+    await agent
+      .post("/api/register")
+      .send({ email: `test-orphan-${Date.now()}@example.com`, password: "TestPassword123" })
+      .expect(201);
+
+    const created = await agent
+      .post("/api/conversations")
+      .send({ title: "Thread", initialMessage: "Root" })
+      .expect(201);
+
+    const response = await agent
+      .post(`/api/conversations/${created.body.id}/messages`)
+      .set("If-Match", created.headers.etag)
+      .send({ content: "Orphan", parentMessageId: "missing" })
+      .expect(404);
+    expect(response.body.message).toBe("Parent message not found");
+  });
+});
+
+describe("Conversation ETags - Optimistic Concurrency", () => {
+  let app: Express;
+  let server: HttpServer;
+  let agent: ReturnType<typeof request.agent>;
+  let url: string;
+
+  beforeAll(async () => {
+    process.env.SESSION_SECRET = "test-secret-key";
+    process.env.NODE_ENV = "test";
+
+    app = express();
+    const httpServer = createServer(app);
+    app.use(express.json());
+    app.use(express.urlencoded({ extended: false }));
+    server = await registerRoutes(httpServer, app, new InMemoryStorage());
+  });
+
+  afterAll(async () => {
+    if (server) {
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+    }
+  });
+
+  beforeEach(async () => {
+    agent = request.agent(app);
+    await agent
+      .post("/api/register")
+      .send({ email: `test-etag-${Date.now()}@example.com`, password: "TestPassword123" })
+      .expect(201);
+    const created = await agent
+      .post("/api/conversations")
+      .send({ title: "Versioned thread", initialMessage: "Root" })
+      .expect(201);
+    url = `/api/conversations/${created.body.id}`;
+  });
+
+  it("should return the conversation version as an ETag", async () => {
+    const response = await agent.get(url).expect(200);
+    expect(response.headers.etag).toBe('"1"');
+    expect(response.body.version).toBe(1);
+  });
+
+  it("should require If-Match when adding a message", async () => {
+    const response = await agent.post(`${url}/messages`).send({ content: "Hi" }).expect(428);
+    expect(response.body.message).toContain("If-Match");
+  });
+
+  it("should accept a write with the current ETag and return the next one", async () => {
+    const { headers } = await agent.get(url).expect(200);
+    const response = await agent
+      .post(`${url}/messages`)
+      .set("If-Match", headers.etag)
+      .send({ content: "Hi" })
+      .expect(200);
+    expect(response.headers.etag).toBe('"2"');
+    expect(response.body.version).toBe(2);
+  });
+
+  it("should reject a write based on a stale ETag with 412", async () => {
+    const { headers } = await agent.get(url).expect(200);
+    await agent
+      .post(`${url}/messages`)
+      .set("If-Match", headers.etag)
+      .send({ content: "First" })
+      .expect(200);
+
+    const response = await agent
+      .post(`${url}/messages`)
+      .set("If-Match", headers.etag)
+      .send({ content: "Second" })
+      .expect(412);
+    expect(response.headers.etag).toBe('"2"');
+
+    const current = await agent.get(url).expect(200);
+    expect(current.body.data.messages).toHaveLength(2);
+  });
+});
+
+describe("Storage Injection", () => {
+  const createApp = async (storage: InMemoryStorage) => {
+    const app = express();
+    app.use(express.json());
+    await registerRoutes(createServer(app), app, storage);
+    return app;
+  };
+
+  it("should serve each app from the storage it was given", async () => {
+    process.env.SESSION_SECRET = "test-secret-key";
+    process.env.NODE_ENV = "test";
+    const firstStorage = new InMemoryStorage({ seedDemoData: false });
+    const first = await createApp(firstStorage);
+    const second = await createApp(new InMemoryStorage({ seedDemoData: false }));
+    const credentials = { email: "injected@example.com", password: "TestPassword123" };
+
+    await request(first).post("/api/register").send(credentials).expect(201);
+
+    expect(await firstStorage.getUserByEmail(credentials.email)).toBeDefined();
+    await request(first).post("/api/login").send(credentials).expect(200);
+    await request(second).post("/api/login").send(credentials).expect(401);
+  });
+});
+
+describe("Password Reset", () => {
+  let app: Express;
+  let storage: InMemoryStorage;
+  let mailer: MemoryMailer;
+  const credentials = { email: "forgetful@example.com", password: "OriginalPassword123" };
+
+  // The reset link is the only line of the email that starts with http
+  const tokenFromMail = () => {
+    const link = mailer.sent
+      .at(-1)!
+      .text.split("\n")
+      .find((line) => line.startsWith("http"))!;
+    return new URL(link).searchParams.get("reset")!;
+  };
+
+  beforeEach(async () => {
+    process.env.SESSION_SECRET = "test-secret-key";
+    process.env.NODE_ENV = "test";
+    app = express();
+    app.use(express.json());
+    storage = new InMemoryStorage({ seedDemoData: false });
+    mailer = new MemoryMailer();
+    await registerRoutes(createServer(app), app, storage, mailer);
+    await request(app).post("/api/register").send(credentials).expect(201);
+    mailer.sent = []; // Drop the verification email
+  });
+
+  it("should answer the same for unknown emails without sending mail", async () => {
+    const known = await request(app)
+      .post("/api/password/forgot")
+      .send({ email: credentials.email });
+    const unknown = await request(app)
+      .post("/api/password/forgot")
+      .send({ email: "nobody@example.com" });
+
+    expect(unknown.status).toBe(200);
+    expect(unknown.body).toEqual(known.body);
+    expect(mailer.sent.map((mail) => mail.to)).toEqual([credentials.email]);
+  });
+
+  it("should answer the same when the reset email cannot be sent", async () => {
+    const unknown = await request(app)
+      .post("/api/password/forgot")
+      .send({ email: "nobody@example.com" });
+    vi.spyOn(mailer, "send").mockRejectedValueOnce(new Error("Mail server down"));
+    const logged = vi.spyOn(console, "error").mockImplementation(() => {});
+
+    try {
+      const known = await request(app)
+        .post("/api/password/forgot")
+        .send({ email: credentials.email });
+
+      expect(known.status).toBe(200);
+      expect(known.body).toEqual(unknown.body);
+      expect(logged).toHaveBeenCalled();
+    } finally {
+      vi.restoreAllMocks();
+    }
+  });
+
+  it("should store only a hash of the emailed token", async () => {
+    await request(app).post("/api/password/forgot").send({ email: credentials.email }).expect(200);
+
+    const token = tokenFromMail();
+    const user = await storage.getUserByEmail(credentials.email);
+    expect(user?.passwordReset?.tokenHash).toBeDefined();
+    expect(JSON.stringify(user)).not.toContain(token.split(".")[1]);
+  });
+
+  it("should reset the password once per token", async () => {
+    await request(app).post("/api/password/forgot").send({ email: credentials.email }).expect(200);
+    const token = tokenFromMail();
+    const newPassword = "BrandNewPassword456";
+
+    await request(app)
+      .post("/api/password/reset")
+      .send({ token, password: newPassword })
+      .expect(200);
+
+    await request(app).post("/api/login").send(credentials).expect(401);
+    await request(app)
+      .post("/api/login")
+      .send({ email: credentials.email, password: newPassword })
+      .expect(200);
+    // The reset link reached the inbox, so the address is verified too
+    expect((await storage.getUserByEmail(credentials.email))?.emailVerified).toBe(true);
+    const reused = await request(app)
+      .post("/api/password/reset")
+      .send({ token, password: "AnotherPassword789" });
+    expect(reused.status).toBe(400);
+  });
+
+  it("should reject expired and tampered tokens", async () => {
+    await request(app).post("/api/password/forgot").send({ email: credentials.email }).expect(200);
+    const token = tokenFromMail();
+    const user = (await storage.getUserByEmail(credentials.email))!;
+
+    await request(app)
+      .post("/api/password/reset")
+      .send({ token: `${token}x`, password: "BrandNewPassword456" })
+      .expect(400);
+
+    await storage.updateUser(user.id, {
+      passwordReset: {
+        ...user.passwordReset!,
+        expiresAt: new Date(Date.now() - 1000).toISOString(),
+      },
+    });
+    await request(app)
+      .post("/api/password/reset")
+      .send({ token, password: "BrandNewPassword456" })
+      .expect(400);
+    await request(app).post("/api/login").send(credentials).expect(200);
+  });
+});
+
+describe("Email Verification", () => {
+  let app: Express;
+  let storage: InMemoryStorage;
+  let mailer: MemoryMailer;
+  const member = { email: "member@example.com", password: "MemberPassword123" };
+  const supporter = { email: "supporter@example.com", password: "SupporterPassword123" };
+
+  const linkFromMail = () =>
+    new URL(
+      mailer.sent
+        .at(-1)!
+        .text.split("\n")
+        .find((line) => line.startsWith("http"))!
+    );
+
+  beforeEach(async () => {
+    process.env.SESSION_SECRET = "test-secret-key";
+    process.env.NODE_ENV = "test";
+    app = express();
+    app.use(express.json());
+    storage = new InMemoryStorage({ seedDemoData: false });
+    mailer = new MemoryMailer();
+    await registerRoutes(createServer(app), app, storage, mailer);
+  });
+
+  it("should register accounts unverified and email a verification link", async () => {
+    const res = await request(app).post("/api/register").send(supporter).expect(201);
+
+    expect(res.body.emailVerified).toBe(false);
+    expect(res.body.emailVerification).toBeUndefined();
+    expect(mailer.sent.map((mail) => mail.to)).toEqual([supporter.email]);
+    expect(linkFromMail().pathname).toBe("/verify-email");
+  });
+
+  it("should verify the email once per token", async () => {
+    const agent = request.agent(app);
+    await agent.post("/api/register").send(supporter).expect(201);
+    const token = linkFromMail().searchParams.get("token")!;
+
+    await request(app).post("/api/email/verify").send({ token }).expect(200);
+    await request(app).post("/api/email/verify").send({ token }).expect(400);
+
+    const me = await agent.get("/api/auth/user").expect(200);
+    expect(me.body.emailVerified).toBe(true);
+    await agent.post("/api/email/verify/resend").expect(400);
+  });
+
+  it("should only add verified accounts to a circle directly", async () => {
+    const registered = await request(app).post("/api/register").send(supporter).expect(201);
+    const token = linkFromMail().searchParams.get("token")!;
+    const memberAgent = request.agent(app);
+    const memberId = (await memberAgent.post("/api/register").send(member).expect(201)).body.id;
+
+    // Unverified: the address gets an emailed signup link instead
+    await memberAgent.post("/api/supporters/invite").send({ email: supporter.email }).expect(202);
+    expect(await storage.getSupporterRecord(memberId, registered.body.id)).toBeUndefined();
+
+    await request(app).post("/api/email/verify").send({ token }).expect(200);
+    await memberAgent.post("/api/supporters/invite").send({ email: supporter.email }).expect(201);
+  });
+
+  it("should replace the pending token when a new link is requested", async () => {
+    const agent = request.agent(app);
+    await agent.post("/api/register").send(supporter).expect(201);
+    const first = linkFromMail().searchParams.get("token")!;
+
+    await agent.post("/api/email/verify/resend").expect(200);
+    const second = linkFromMail().searchParams.get("token")!;
+
+    await request(app).post("/api/email/verify").send({ token: first }).expect(400);
+    await request(app).post("/api/email/verify").send({ token: second }).expect(200);
+  });
+});
+
+describe("Email Invitations", () => {
+  let app: Express;
+  let storage: InMemoryStorage;
+  let mailer: MemoryMailer;
+  let member: ReturnType<typeof request.agent>;
+  const memberCredentials = {
+    email: "member@example.com",
+    password: "MemberPassword123",
+    firstName: "Maya",
+  };
+  const invitee = { email: "newcomer@example.com", password: "NewcomerPassword123" };
+
+  const inviteTokenFromMail = () => {
+    const link = mailer.sent
+      .at(-1)!
+      .text.split("\n")
+      .find((line) => line.startsWith("http"))!;
+    return new URL(link).searchParams.get("invite")!;
+  };
+
+  beforeEach(async () => {
+    process.env.SESSION_SECRET = "test-secret-key";
+    process.env.NODE_ENV = "test";
+    app = express();
+    app.use(express.json());
+    storage = new InMemoryStorage({ seedDemoData: false });
+    mailer = new MemoryMailer();
+    await registerRoutes(createServer(app), app, storage, mailer);
+
+    member = request.agent(app);
+    await member.post("/api/register").send(memberCredentials).expect(201);
+  });
+
+  it("should email a signup link to addresses without a verified account", async () => {
+    const res = await member.post("/api/supporters/invite").send({ email: invitee.email });
+
+    expect(res.status).toBe(202);
+    expect(mailer.sent.at(-1)?.to).toBe(invitee.email);
+    const outstanding = await member.get("/api/supporters/invitations").expect(200);
+    expect(outstanding.body.map((i: { email: string }) => i.email)).toEqual([invitee.email]);
+
+    const preview = await request(app).get(`/api/invitations/${inviteTokenFromMail()}`).expect(200);
+    expect(preview.body).toEqual({ email: invitee.email, memberName: "Maya" });
+
+    await member.post("/api/supporters/invite").send({ email: invitee.email }).expect(400);
+  });
+
+  it("should attach an account registered through the link as a pending supporter", async () => {
+    await member.post("/api/supporters/invite").send({ email: invitee.email }).expect(202);
+    const inviteToken = inviteTokenFromMail();
+
+    const res = await request(app)
+      .post("/api/register")
+      .send({ ...invitee, inviteToken })
+      .expect(201);
+
+    // Following the emailed link proves the address, so no verification email is needed
+    expect(res.body.emailVerified).toBe(true);
+    expect(mailer.sent.at(-1)?.subject).not.toMatch(/Confirm/);
+    const memberId = (await storage.getUserByEmail(memberCredentials.email))!.id;
+    expect((await storage.getSupporterRecord(memberId, res.body.id))?.status).toBe("pending");
+    expect((await member.get("/api/supporters/invitations")).body).toEqual([]);
+    await request(app).get(`/api/invitations/${inviteToken}`).expect(404);
+  });
+
+  it("should attach an existing account that logs in through the link", async () => {
+    await request(app).post("/api/register").send(invitee).expect(201);
+    await member.post("/api/supporters/invite").send({ email: invitee.email }).expect(202);
+
+    const res = await request(app)
+      .post("/api/login")
+      .send({ ...invitee, inviteToken: inviteTokenFromMail() })
+      .expect(200);
+
+    const memberId = (await storage.getUserByEmail(memberCredentials.email))!.id;
+    expect(await storage.getSupporterRecord(memberId, res.body.id)).toBeDefined();
+  });
+
+  it("should attach a logged-in account that accepts the link", async () => {
+    const agent = request.agent(app);
+    const { id } = (await agent.post("/api/register").send(invitee).expect(201)).body;
+    await member.post("/api/supporters/invite").send({ email: invitee.email }).expect(202);
+
+    const missing = await agent.post("/api/invitations/accept").send({}).expect(400);
+    expect(missing.body.field).toBe("token");
+    await agent.post("/api/invitations/accept").send({ token: inviteTokenFromMail() }).expect(200);
+
+    const memberId = (await storage.getUserByEmail(memberCredentials.email))!.id;
+    expect(await storage.getSupporterRecord(memberId, id)).toBeDefined();
+  });
+
+  it("should ignore forged and expired links", async () => {
+    await member.post("/api/supporters/invite").send({ email: invitee.email }).expect(202);
+    const inviteToken = inviteTokenFromMail();
+    const [payload, signature] = inviteToken.split(".");
+    const forged = `${payload}.${signature.slice(1)}A`;
+
+    await request(app).get(`/api/invitations/${forged}`).expect(404);
+    const res = await request(app)
+      .post("/api/register")
+      .send({ ...invitee, inviteToken: forged })
+      .expect(201);
+    const memberId = (await storage.getUserByEmail(memberCredentials.email))!.id;
+    expect(await storage.getSupporterRecord(memberId, res.body.id)).toBeUndefined();
+
+    const expired = await storage.createInvitation(
+      memberId,
+      "late@example.com",
+      new Date(Date.now() - 1000).toISOString()
+    );
+    const expiredToken = signToken(
+      `invitation:${expired.id}:${Date.parse(expired.expiresAt)}`,
+      process.env.SESSION_SECRET!
+    );
+    await request(app).get(`/api/invitations/${expiredToken}`).expect(404);
+  });
+});
+
+describe("Removing Supporters", () => {
+  let app: Express;
+  let storage: InMemoryStorage;
+  let member: ReturnType<typeof request.agent>;
+  let supporter: ReturnType<typeof request.agent>;
+  let recordId: number;
+  let conversationId: number;
+
+  beforeEach(async () => {
+    process.env.SESSION_SECRET = "test-secret-key";
+    process.env.NODE_ENV = "test";
+    app = express();
+    app.use(express.json());
+    storage = new InMemoryStorage({ seedDemoData: false });
+    await registerRoutes(createServer(app), app, storage, new MemoryMailer());
+
+    member = request.agent(app);
+    supporter = request.agent(app);
+    const memberId = (
+      await member
+        .post("/api/register")
+        .send({ email: "member@example.com", password: "MemberPassword123" })
+        .expect(201)
+    ).body.id;
+    const supporterId = (
+      await supporter
+        .post("/api/register")
+        .send({ email: "supporter@example.com", password: "SupporterPassword123" })
+        .expect(201)
+    ).body.id;
+
+    recordId = (await storage.createSupporter(memberId, supporterId, INVITE_EXPIRY)).id;
+    await storage.updateSupporterStatus(recordId, "accepted");
+    conversationId = (
+      await member
+        .post("/api/conversations")
+        .send({ title: "Week one", initialMessage: "Starting treatment today" })
+        .expect(201)
+    ).body.id;
+    await supporter.get(`/api/conversations/${conversationId}`).expect(200);
+  });
+
+  it("should end a revoked supporter's access immediately", async () => {
+    const [record] = await storage.getSupportersForMember(
+      (await storage.getUserByEmail("member@example.com"))!.id
+    );
+    const circle = await storage.createCircle(record.memberId, "Family", [record.supporterId]);
+
+    await member.delete(`/api/supporters/${recordId}`).expect(200);
+
+    await supporter.get(`/api/conversations/${conversationId}`).expect(403);
+    await supporter.get(`/api/conversations/${conversationId}/images/photo.png`).expect(403);
+    expect((await supporter.get("/api/conversations").expect(200)).body).toEqual([]);
+    expect((await member.get("/api/supporters").expect(200)).body.mySupporters).toEqual([]);
+    expect((await storage.getCircle(circle.id))?.supporterIds).toEqual([]);
+  });
+
+  it("should let a supporter leave a circle", async () => {
+    const res = await supporter.delete(`/api/supporters/${recordId}`).expect(200);
+
+    expect(res.body.message).toBe("You have left the circle");
+    await supporter.get(`/api/conversations/${conversationId}`).expect(403);
+    await supporter.delete(`/api/supporters/${recordId}`).expect(404);
+  });
+
+  it("should not let anyone else remove the relationship", async () => {
+    const stranger = request.agent(app);
+    await stranger
+      .post("/api/register")
+      .send({ email: "stranger@example.com", password: "StrangerPassword123" })
+      .expect(201);
+
+    await stranger.delete(`/api/supporters/${recordId}`).expect(404);
+    await stranger.get(`/api/conversations/${conversationId}/images/photo.png`).expect(403);
+    await request(app).delete(`/api/supporters/${recordId}`).expect(401);
+    await supporter.get(`/api/conversations/${conversationId}`).expect(200);
+  });
+});
+
+describe("Circles and Update Audiences", () => {
+  let app: Express;
+  let storage: InMemoryStorage;
+  let member: ReturnType<typeof request.agent>;
+  let family: ReturnType<typeof request.agent>;
+  let colleague: ReturnType<typeof request.agent>;
+  let familyId: string;
+  let colleagueId: string;
+
+  const registerSupporter = async (agent: ReturnType<typeof request.agent>, email: string) => {
+    const res = await agent
+      .post("/api/register")
+      .send({ email, password: "SupporterPassword123" })
+      .expect(201);
+    const memberId = (await storage.getUserByEmail("member@example.com"))!.id;
+    const record = await storage.createSupporter(memberId, res.body.id, INVITE_EXPIRY);
+    await storage.updateSupporterStatus(record.id, "accepted");
+    return res.body.id as string;
+  };
+
+  const postUpdate = async (audience?: object) =>
+    (
+      await member
+        .post("/api/conversations")
+        .send({ title: "News", initialMessage: "Scan results are in", audience })
+        .expect(201)
+    ).body.id as number;
+
+  beforeEach(async () => {
+    process.env.SESSION_SECRET = "test-secret-key";
+    process.env.NODE_ENV = "test";
+    app = express();
+    app.use(express.json());
+    storage = new InMemoryStorage({ seedDemoData: false });
+    await registerRoutes(createServer(app), app, storage, new MemoryMailer());
+
+    member = request.agent(app);
+    family = request.agent(app);
+    colleague = request.agent(app);
+    await member
+      .post("/api/register")
+      .send({ email: "member@example.com", password: "MemberPassword123" })
+      .expect(201);
+    familyId = await registerSupporter(family, "family@example.com");
+    colleagueId = await registerSupporter(colleague, "colleague@example.com");
+  });
+
+  it("should only show an update to the circles it was shared with", async () => {
+    const circle = await member
+      .post("/api/circles")
+      .send({ name: "Family", supporterIds: [familyId] })
+      .expect(201);
+    const everyone = await postUpdate();
+    const familyOnly = await postUpdate({ circleIds: [circle.body.id], supporterIds: [] });
+
+    await family.get(`/api/conversations/${familyOnly}`).expect(200);
+    await colleague.get(`/api/conversations/${familyOnly}`).expect(403);
+    const listed = await colleague.get("/api/conversations").expect(200);
+    expect(listed.body.map((c: { id: number }) => c.id)).toEqual([everyone]);
+
+    await colleague
+      .post(`/api/conversations/${familyOnly}/messages`)
+      .set("If-Match", '"1"')
+      .send({ content: "Thinking of you" })
+      .expect(403);
+  });
+
+  it("should share an update with individual supporters", async () => {
+    const id = await postUpdate({ circleIds: [], supporterIds: [colleagueId] });
+
+    await colleague.get(`/api/conversations/${id}`).expect(200);
+    await family.get(`/api/conversations/${id}`).expect(403);
+  });
+
+  it("should follow circle membership changes and deletion", async () => {
+    const circle = await member
+      .post("/api/circles")
+      .send({ name: "Work", supporterIds: [] })
+      .expect(201);
+    const id = await postUpdate({ circleIds: [circle.body.id], supporterIds: [] });
+    await colleague.get(`/api/conversations/${id}`).expect(403);
+
+    await member
+      .patch(`/api/circles/${circle.body.id}`)
+      .send({ supporterIds: [colleagueId] })
+      .expect(200);
+    await colleague.get(`/api/conversations/${id}`).expect(200);
+
+    await member.delete(`/api/circles/${circle.body.id}`).expect(200);
+    await colleague.get(`/api/conversations/${id}`).expect(403);
+    expect((await member.get("/api/circles").expect(200)).body).toEqual([]);
+  });
+
+  it("should reject circles and audiences outside the member's supporters", async () => {
+    const stranger = request.agent(app);
+    const strangerId = (
+      await stranger
+        .post("/api/register")
+        .send({ email: "stranger@example.com", password: "StrangerPassword123" })
+        .expect(201)
+    ).body.id;
+
+    await member
+      .post("/api/circles")
+      .send({ name: "Odd", supporterIds: [strangerId] })
+      .expect(400);
+    await member.post("/api/circles").send({ name: " ", supporterIds: [] }).expect(400);
+    await member
+      .post("/api/conversations")
+      .send({ title: "x", initialMessage: "y", audience: { circleIds: [99], supporterIds: [] } })
+      .expect(400);
+
+    // Circles belong to the member who made them
+    const circle = await member.post("/api/circles").send({ name: "Family", supporterIds: [] });
+    await stranger.patch(`/api/circles/${circle.body.id}`).send({ name: "Mine" }).expect(404);
+    await stranger.delete(`/api/circles/${circle.body.id}`).expect(404);
+    expect((await stranger.get("/api/circles").expect(200)).body).toEqual([]);
+  });
+});
+
+describe("Supporter Roles", () => {
+  let app: Express;
+  let storage: InMemoryStorage;
+  let member: ReturnType<typeof request.agent>;
+  let supporter: ReturnType<typeof request.agent>;
+  let memberId: string;
+  let recordId: number;
+  let conversationId: number;
+
+  const setRole = (role: string) => member.patch(`/api/supporters/${recordId}/role`).send({ role });
+
+  beforeEach(async () => {
+    process.env.SESSION_SECRET = "test-secret-key";
+    process.env.NODE_ENV = "test";
+    app = express();
+    app.use(express.json());
+    storage = new InMemoryStorage({ seedDemoData: false });
+    await registerRoutes(createServer(app), app, storage, new MemoryMailer());
+
+    member = request.agent(app);
+    supporter = request.agent(app);
+    memberId = (
+      await member
+        .post("/api/register")
+        .send({ email: "member@example.com", password: "MemberPassword123" })
+        .expect(201)
+    ).body.id;
+    const supporterId = (
+      await supporter
+        .post("/api/register")
+        .send({
+          email: "caregiver@example.com",
+          password: "CaregiverPassword123",
+          firstName: "Sam",
+        })
+        .expect(201)
+    ).body.id;
+
+    const record = await storage.createSupporter(memberId, supporterId, INVITE_EXPIRY);
+    expect(record.role).toBe("commenter");
+    recordId = record.id;
+    await storage.updateSupporterStatus(recordId, "accepted");
+    conversationId = (
+      await member
+        .post("/api/conversations")
+        .send({ title: "Surgery", initialMessage: "Going in tomorrow" })
+        .expect(201)
+    ).body.id;
+  });
+
+  it("should let viewers read but not reply", async () => {
+    const reply = (content: string) =>
+      supporter
+        .post(`/api/conversations/${conversationId}/messages`)
+        .set("If-Match", '"1"')
+        .send({ content });
+
+    await setRole("viewer").expect(200);
+    await supporter.get(`/api/conversations/${conversationId}`).expect(200);
+    await reply("Good luck").expect(403);
+
+    await setRole("commenter").expect(200);
+    await reply("Good luck").expect(200);
+  });
+
+  it("should let caregivers post updates for the member", async () => {
+    const post = () =>
+      supporter
+        .post("/api/conversations")
+        .send({ title: "From the hospital", initialMessage: "Surgery went well", memberId });
+
+    await post().expect(403);
+    await setRole("caregiver").expect(200);
+    const res = await post().expect(201);
+
+    expect(res.body.memberId).toBe(memberId);
+    expect(res.body.data.messages[0]).toMatchObject({ authorName: "Sam" });
+    const memberFeed = await member.get("/api/conversations").expect(200);
+    expect(memberFeed.body.map((c: { id: number }) => c.id)).toContain(res.body.id);
+  });
+
+  it("should show caregivers updates outside their audience", async () => {
+    const circle = await storage.createCircle(memberId, "Family", []);
+    const id = (
+      await member
+        .post("/api/conversations")
+        .send({
+          title: "Family only",
+          initialMessage: "Just for family",
+          audience: { circleIds: [circle.id], supporterIds: [] },
+        })
+        .expect(201)
+    ).body.id;
+
+    await supporter.get(`/api/conversations/${id}`).expect(403);
+    await setRole("caregiver").expect(200);
+    await supporter.get(`/api/conversations/${id}`).expect(200);
+  });
+
+  it("should only let the member change roles", async () => {
+    await supporter
+      .patch(`/api/supporters/${recordId}/role`)
+      .send({ role: "caregiver" })
+      .expect(404);
+    await setRole("owner").expect(400);
+
+    const res = await setRole("viewer").expect(200);
+    expect(res.body.role).toBe("viewer");
+  });
+});
+
+describe("Encrypted Image Uploads", () => {
+  let app: Express;
+  let storage: InMemoryStorage;
+  let member: ReturnType<typeof request.agent>;
+  let caregiver: ReturnType<typeof request.agent>;
+  let memberId: string;
+  let conversationId: number;
+  let dataDir: string;
+  const originalEnv = { DATA_ENCRYPTION_KEY: process.env.DATA_ENCRYPTION_KEY };
+
+  beforeEach(async () => {
+    process.env.SESSION_SECRET = "test-secret-key";
+    process.env.NODE_ENV = "test";
+    dataDir = await fs.mkdtemp(path.join(os.tmpdir(), "supportspark-images-"));
+    process.env.DATA_ENCRYPTION_KEY = randomBytes(32).toString("base64");
+    app = express();
+    app.use(express.json());
+    // Not DATA_DIR: images and their keys must follow the storage's own data directory
+    storage = new InMemoryStorage({ seedDemoData: false, dataDir });
+    await registerRoutes(createServer(app), app, storage, new MemoryMailer());
+
+    member = request.agent(app);
+    caregiver = request.agent(app);
+    const register = async (agent: ReturnType<typeof request.agent>, email: string) => {
+      const { id } = (
+        await agent.post("/api/register").send({ email, password: "Password12345" }).expect(201)
+      ).body;
+      return id as string;
+    };
+    memberId = await register(member, "member@example.com");
+    const caregiverId = await register(caregiver, "caregiver@example.com");
+    const record = await storage.createSupporter(memberId, caregiverId, INVITE_EXPIRY);
+    await storage.updateSupporterStatus(record.id, "accepted");
+    await storage.updateSupporterRole(record.id, "caregiver");
+    conversationId = (
+      await member
+        .post("/api/conversations")
+        .send({ title: "Surgery", initialMessage: "Going in tomorrow" })
+        .expect(201)
+    ).body.id;
+  });
+
+  afterEach(async () => {
+    for (const [key, value] of Object.entries(originalEnv)) {
+      if (value === undefined) delete process.env[key];
+      else process.env[key] = value;
+    }
+    await fs.rm(dataDir, { recursive: true, force: true });
+  });
+
+  it("should encrypt a caregiver's upload with the member's data key", async () => {
+    const photo = Buffer.from("a photo from the hospital");
+
+    const res = await caregiver
+      .post(`/api/conversations/${conversationId}/images`)
+      .attach("images", photo, "photo.png")
+      .expect(200);
+
+    const [url] = res.body.images;
+    const stored = await fs.readFile(
+      path.join(dataDir, "conversations", `conv-${conversationId}`, "images", path.basename(url))
+    );
+    expect(stored.includes(photo)).toBe(false);
+    const keys = JSON.parse(await fs.readFile(path.join(dataDir, "keys.json"), "utf-8"));
+    expect(keys.content.map((k: { memberId: string }) => k.memberId)).toEqual([memberId]);
+    const served = await member.get(url).expect(200);
+    expect(served.body).toEqual(photo);
+  });
+});
+
+describe("Invitation Lifecycle", () => {
+  let app: Express;
+  let storage: InMemoryStorage;
+  let mailer: MemoryMailer;
+  let member: ReturnType<typeof request.agent>;
+  let invitee: ReturnType<typeof request.agent>;
+  let recordId: number;
+
+  beforeEach(async () => {
+    process.env.SESSION_SECRET = "test-secret-key";
+    process.env.NODE_ENV = "test";
+    app = express();
+    app.use(express.json());
+    storage = new InMemoryStorage({ seedDemoData: false });
+    mailer = new MemoryMailer();
+    await registerRoutes(createServer(app), app, storage, mailer);
+
+    member = request.agent(app);
+    invitee = request.agent(app);
+    await member
+      .post("/api/register")
+      .send({ email: "member@example.com", password: "MemberPassword123", firstName: "Maya" })
+      .expect(201);
+    const inviteeId = (
+      await invitee
+        .post("/api/register")
+        .send({ email: "friend@example.com", password: "FriendPassword123" })
+        .expect(201)
+    ).body.id;
+    await storage.updateUser(inviteeId, { emailVerified: true });
+
+    const res = await member
+      .post("/api/supporters/invite")
+      .send({ email: "friend@example.com", message: "Would love you in my corner" })
+      .expect(201);
+    recordId = res.body.id;
+  });
+
+  const lapse = () => storage.renewSupporterInvitation(recordId, new Date(0).toISOString());
+
+  it("should show the personal note and expiry to the invitee", async () => {
+    const { body } = await invitee.get("/api/supporters").expect(200);
+
+    expect(body.supporting).toHaveLength(1);
+    expect(body.supporting[0]).toMatchObject({
+      status: "pending",
+      message: "Would love you in my corner",
+    });
+    expect(Date.parse(body.supporting[0].expiresAt)).toBeGreaterThan(Date.now());
+  });
+
+  it("should expire lapsed invitations and refuse to accept them", async () => {
+    await lapse();
+
+    const { body } = await member.get("/api/supporters").expect(200);
+    expect(body.mySupporters[0].status).toBe("expired");
+
+    const res = await invitee
+      .patch(`/api/supporters/${recordId}/status`)
+      .send({ status: "accepted" })
+      .expect(400);
+    expect(res.body.message).toBe("This invitation has expired");
+  });
+
+  it("should let the member resend an expired invitation", async () => {
+    await lapse();
+    mailer.sent = [];
+
+    const res = await member.post(`/api/supporters/${recordId}/resend`).expect(200);
+
+    expect(res.body.status).toBe("pending");
+    expect(Date.parse(res.body.expiresAt)).toBeGreaterThan(Date.now());
+    expect(mailer.sent).toHaveLength(1);
+    expect(mailer.sent[0].to).toBe("friend@example.com");
+    expect(mailer.sent[0].text).toContain("> Would love you in my corner");
+    await invitee
+      .patch(`/api/supporters/${recordId}/status`)
+      .send({ status: "accepted" })
+      .expect(200);
+    await member.post(`/api/supporters/${recordId}/resend`).expect(400);
+  });
+
+  it("should let only the member cancel an outstanding invitation", async () => {
+    await invitee.delete(`/api/supporters/${recordId}/invitation`).expect(404);
+
+    const res = await member.delete(`/api/supporters/${recordId}/invitation`).expect(200);
+
+    expect(res.body.message).toBe("Invitation cancelled");
+    expect((await invitee.get("/api/supporters").expect(200)).body.supporting).toEqual([]);
+    await member.delete(`/api/supporters/${recordId}/invitation`).expect(404);
+  });
+});
+
+describe("Bulk Invitations", () => {
+  let app: Express;
+  let storage: InMemoryStorage;
+  let mailer: MemoryMailer;
+  let member: ReturnType<typeof request.agent>;
+  const content = [
+    "Name,Email",
+    "Me,member@example.com",
+    "Friend,friend@example.com",
+    "Newcomer,newcomer@example.com",
+    "Typo,newcomer@",
+  ].join("\n");
+
+  beforeEach(async () => {
+    process.env.SESSION_SECRET = "test-secret-key";
+    process.env.NODE_ENV = "test";
+    app = express();
+    app.use(express.json());
+    storage = new InMemoryStorage({ seedDemoData: false });
+    mailer = new MemoryMailer();
+    await registerRoutes(createServer(app), app, storage, mailer);
+
+    member = request.agent(app);
+    await member
+      .post("/api/register")
+      .send({ email: "member@example.com", password: "MemberPassword123" })
+      .expect(201);
+    const friendId = (
+      await request(app)
+        .post("/api/register")
+        .send({ email: "friend@example.com", password: "FriendPassword123" })
+        .expect(201)
+    ).body.id;
+    await storage.updateUser(friendId, { emailVerified: true });
+    await member.post("/api/supporters/invite").send({ email: "friend@example.com" }).expect(201);
+    mailer.sent = [];
+  });
+
+  it("should report what would happen to each row without inviting anyone", async () => {
+    const res = await member
+      .post("/api/supporters/invite/bulk")
+      .send({ content, preview: true })
+      .expect(200);
+
+    expect(res.body.results).toEqual([
+      { label: "member@example.com", email: "member@example.com", status: "self" },
+      { label: "friend@example.com", email: "friend@example.com", status: "already_connected" },
+      { label: "newcomer@example.com", email: "newcomer@example.com", status: "invited" },
+      { label: "newcomer@", status: "invalid" },
+    ]);
+    expect(mailer.sent).toEqual([]);
+    expect((await member.get("/api/supporters/invitations").expect(200)).body).toEqual([]);
+  });
+
+  it("should invite the usable rows with the personal note", async () => {
+    const res = await member
+      .post("/api/supporters/invite/bulk")
+      .send({ content, message: "Thinking of you all" })
+      .expect(200);
+
+    expect(res.body.results.map((r: { status: string }) => r.status)).toEqual([
+      "self",
+      "already_connected",
+      "invited",
+      "invalid",
+    ]);
+    expect(mailer.sent.map((m) => m.to)).toEqual(["newcomer@example.com"]);
+    expect(mailer.sent[0].text).toContain("> Thinking of you all");
+
+    const again = await member.post("/api/supporters/invite/bulk").send({ content }).expect(200);
+    expect(again.body.results[2].status).toBe("already_connected");
+  });
+
+  it("should refuse lists over the size limit", async () => {
+    const addresses = Array.from({ length: 101 }, (_, i) => `person${i}@example.com`);
+
+    await member
+      .post("/api/supporters/invite/bulk")
+      .send({ content: addresses.join("\n") })
+      .expect(400);
+    expect(mailer.sent).toEqual([]);
+  });
+});
+
+describe("Blocking and Reporting", () => {
+  let app: Express;
+  let storage: InMemoryStorage;
+  let member: ReturnType<typeof request.agent>;
+  let alice: ReturnType<typeof request.agent>;
+  let bob: ReturnType<typeof request.agent>;
+  let ids: Record<"member" | "alice" | "bob", string>;
+  let conversationId: number;
+
+  // Reply as agent with the conversation's current ETag, expecting status
+  const reply = async (
+    agent: ReturnType<typeof request.agent>,
+    status: number,
+    content: string,
+    parentMessageId?: string
+  ) => {
+    const { headers } = await agent.get(`/api/conversations/${conversationId}`).expect(200);
+    return agent
+      .post(`/api/conversations/${conversationId}/messages`)
+      .set("If-Match", headers.etag)
+      .send({ content, parentMessageId })
+      .expect(status);
+  };
+
+  beforeEach(async () => {
+    process.env.SESSION_SECRET = "test-secret-key";
+    process.env.NODE_ENV = "test";
+    app = express();
+    app.use(express.json());
+    storage = new InMemoryStorage({ seedDemoData: false });
+    await registerRoutes(createServer(app), app, storage, new MemoryMailer());
+
+    member = request.agent(app);
+    alice = request.agent(app);
+    bob = request.agent(app);
+    const register = async (agent: ReturnType<typeof request.agent>, email: string) => {
+      const { id } = (
+        await agent.post("/api/register").send({ email, password: "Password12345" }).expect(201)
+      ).body;
+      await storage.updateUser(id, { emailVerified: true });
+      return id as string;
+    };
+    ids = {
+      member: await register(member, "member@example.com"),
+      alice: await register(alice, "alice@example.com"),
+      bob: await register(bob, "bob@example.com"),
+    };
+    for (const supporterId of [ids.alice, ids.bob]) {
+      const record = await storage.createSupporter(ids.member, supporterId, INVITE_EXPIRY);
+      await storage.updateSupporterStatus(record.id, "accepted");
+    }
+    conversationId = (
+      await member
+        .post("/api/conversations")
+        .send({ title: "Week one", initialMessage: "Starting treatment today" })
+        .expect(201)
+    ).body.id;
+  });
+
+  it("should end the relationship and refuse invitations both ways", async () => {
+    const circle = await storage.createCircle(ids.member, "Friends", [ids.alice]);
+
+    await member.post("/api/blocks").send({ userId: ids.alice }).expect(201);
+
+    expect(await storage.getSupporterRecord(ids.member, ids.alice)).toBeUndefined();
+    expect((await storage.getCircle(circle.id))?.supporterIds).toEqual([]);
+    await alice.get(`/api/conversations/${conversationId}`).expect(403);
+    expect((await member.get("/api/blocks").expect(200)).body).toEqual([
+      { userId: ids.alice, name: "Unknown" },
+    ]);
+
+    const invite = await member
+      .post("/api/supporters/invite")
+      .send({ email: "alice@example.com" })
+      .expect(400);
+    expect(invite.body.message).toBe("You can't invite this person.");
+    await alice.post("/api/supporters/invite").send({ email: "member@example.com" }).expect(400);
+    const bulk = await member
+      .post("/api/supporters/invite/bulk")
+      .send({ content: "alice@example.com" })
+      .expect(200);
+    expect(bulk.body.results[0].status).toBe("blocked");
+
+    await member.delete(`/api/blocks/${ids.alice}`).expect(200);
+    await member.delete(`/api/blocks/${ids.alice}`).expect(404);
+    await member.post("/api/supporters/invite").send({ email: "alice@example.com" }).expect(201);
+  });
+
+  it("should stop blocked people replying to the blocker", async () => {
+    const bobMessage = (await reply(bob, 200, "Sending love")).body.data.messages[1];
+    await bob.post("/api/blocks").send({ userId: ids.alice }).expect(201);
+
+    const res = await reply(alice, 403, "Me too", bobMessage.id);
+    expect(res.body.message).toBe("You can't reply to this person");
+    // Bob is not the member, so Alice can still reply to the update itself
+    await reply(alice, 200, "Thinking of you");
+
+    await member.post("/api/blocks").send({ userId: ids.bob }).expect(201);
+    await bob.post("/api/blocks").send({ userId: ids.bob }).expect(400);
+    await member.post("/api/blocks").send({ userId: "no-such-user" }).expect(404);
+  });
+
+  it("should record a reported message against its author", async () => {
+    const aliceMessage = (await reply(alice, 200, "Something unkind")).body.data.messages[1];
+    const target = { conversationId, messageId: aliceMessage.id };
+
+    const res = await bob
+      .post("/api/reports")
+      .send({ ...target, reason: "Abusive reply" })
+      .expect(201);
+    expect(res.body).toMatchObject({
+      reporterId: ids.bob,
+      reportedUserId: ids.alice,
+      messageId: aliceMessage.id,
+      status: "open",
+    });
+    expect(await storage.getReports("open")).toHaveLength(1);
+
+    await alice.post("/api/reports").send({ ...target, reason: "Mine" }).expect(400);
+    await bob.post("/api/reports").send({ ...target, reason: "   " }).expect(400);
+    await bob
+      .post("/api/reports")
+      .send({ conversationId, messageId: "missing", reason: "Abusive reply" })
+      .expect(404);
+
+    const stranger = request.agent(app);
+    await stranger
+      .post("/api/register")
+      .send({ email: "stranger@example.com", password: "StrangerPassword123" })
+      .expect(201);
+    await stranger.post("/api/reports").send({ ...target, reason: "Nosy" }).expect(403);
+  });
+
+  it("should record a reported person", async () => {
+    const res = await alice
+      .post("/api/reports")
+      .send({ userId: ids.bob, reason: "Keeps messaging me" })
+      .expect(201);
+    expect(res.body.reportedUserId).toBe(ids.bob);
+    expect(res.body.messageId).toBeUndefined();
+
+    await alice.post("/api/reports").send({ userId: "no-such-user", reason: "Spam" }).expect(404);
+    await alice.post("/api/reports").send({ reason: "Spam" }).expect(400);
+    await request(app).post("/api/reports").send({ userId: ids.bob, reason: "Spam" }).expect(401);
+  });
+});
+
+describe("Shared Journeys", () => {
+  let app: Express;
+  let storage: InMemoryStorage;
+  let parent: ReturnType<typeof request.agent>;
+  let partner: ReturnType<typeof request.agent>;
+  let friend: ReturnType<typeof request.agent>;
+  let ids: Record<"parent" | "partner" | "friend", string>;
+  let journeyId: string;
+
+  beforeEach(async () => {
+    process.env.SESSION_SECRET = "test-secret-key";
+    process.env.NODE_ENV = "test";
+    app = express();
+    app.use(express.json());
+    storage = new InMemoryStorage({ seedDemoData: false });
+    await registerRoutes(createServer(app), app, storage, new MemoryMailer());
+
+    parent = request.agent(app);
+    partner = request.agent(app);
+    friend = request.agent(app);
+    const register = async (agent: ReturnType<typeof request.agent>, email: string) => {
+      const { id } = (
+        await agent.post("/api/register").send({ email, password: "Password12345" }).expect(201)
+      ).body;
+      await storage.updateUser(id, { emailVerified: true });
+      return id as string;
+    };
+    ids = {
+      parent: await register(parent, "parent@example.com"),
+      partner: await register(partner, "partner@example.com"),
+      friend: await register(friend, "friend@example.com"),
+    };
+
+    const journey = await parent.post("/api/journeys").send({ title: "Sam's recovery" });
+    journeyId = journey.body.id;
+    await parent
+      .post(`/api/journeys/${journeyId}/members`)
+      .send({ email: "partner@example.com" })
+      .expect(200);
+  });
+
+  it("should let every co-member post to the journey and read its updates", async () => {
+    const res = await partner
+      .post("/api/conversations")
+      .send({ title: "Home again", initialMessage: "Sam is home", memberId: journeyId })
+      .expect(201);
+    expect(res.body.memberId).toBe(journeyId);
+
+    const feed = await parent.get("/api/conversations").expect(200);
+    expect(feed.body.map((c: { id: number }) => c.id)).toContain(res.body.id);
+    await parent.get(`/api/conversations/${res.body.id}`).expect(200);
+    await friend.get(`/api/conversations/${res.body.id}`).expect(403);
+    await friend
+      .post("/api/conversations")
+      .send({ title: "Hi", initialMessage: "Hello", memberId: journeyId })
+      .expect(403);
+
+    const journeys = await partner.get("/api/journeys").expect(200);
+    expect(journeys.body).toHaveLength(1);
+    expect(journeys.body[0].memberIds).toEqual([ids.parent, ids.partner]);
+  });
+
+  it("should share one supporter list among the co-members", async () => {
+    const invited = await parent
+      .post("/api/supporters/invite")
+      .send({ email: "friend@example.com", journeyId })
+      .expect(201);
+    expect(invited.body.memberId).toBe(journeyId);
+    // Co-members count as the journey when checking who can be invited
+    await partner
+      .post("/api/supporters/invite")
+      .send({ email: "parent@example.com", journeyId })
+      .expect(400);
+
+    const list = await partner.get(`/api/supporters?journeyId=${journeyId}`).expect(200);
+    expect(list.body.mySupporters.map((s: { id: number }) => s.id)).toEqual([invited.body.id]);
+    expect((await partner.get("/api/supporters").expect(200)).body.mySupporters).toEqual([]);
+    await friend.get(`/api/supporters?journeyId=${journeyId}`).expect(404);
+
+    const following = await friend.get("/api/supporters").expect(200);
+    expect(following.body.supporting[0].memberName).toBe("Sam's recovery");
+    await friend
+      .patch(`/api/supporters/${invited.body.id}/status`)
+      .send({ status: "accepted" })
+      .expect(200);
+
+    const circle = await partner
+      .post("/api/circles")
+      .send({ name: "Family", supporterIds: [ids.friend], journeyId })
+      .expect(201);
+    await parent.patch(`/api/circles/${circle.body.id}`).send({ name: "Close family" }).expect(200);
+    await friend.delete(`/api/circles/${circle.body.id}`).expect(404);
+
+    const removed = await partner.delete(`/api/supporters/${invited.body.id}`).expect(200);
+    expect(removed.body.message).toBe("Supporter removed");
+  });
+
+  it("should let co-members remove each other but keep the last one", async () => {
+    await parent
+      .post(`/api/journeys/${journeyId}/members`)
+      .send({ email: "partner@example.com" })
+      .expect(400);
+    await parent
+      .post(`/api/journeys/${journeyId}/members`)
+      .send({ email: "nobody@example.com" })
+      .expect(404);
+    await friend.patch(`/api/journeys/${journeyId}`).send({ title: "Mine now" }).expect(404);
+
+    const left = await partner
+      .delete(`/api/journeys/${journeyId}/members/${ids.partner}`)
+      .expect(200);
+    expect(left.body.message).toBe("You have left the journey");
+    await partner
+      .post("/api/conversations")
+      .send({ title: "Hi", initialMessage: "Hello", memberId: journeyId })
+      .expect(403);
+
+    await parent.delete(`/api/journeys/${journeyId}/members/${ids.parent}`).expect(400);
+    await parent.delete(`/api/journeys/${journeyId}/members/${ids.friend}`).expect(404);
+  });
+});
+
+describe("Editing and Deleting Messages", () => {
+  let app: Express;
+  let storage: InMemoryStorage;
+  let member: ReturnType<typeof request.agent>;
+  let alice: ReturnType<typeof request.agent>;
+  let bob: ReturnType<typeof request.agent>;
+  let conversationId: number;
+
+  // Send a message write as agent with the conversation's current ETag, expecting status
+  const write = async (
+    agent: ReturnType<typeof request.agent>,
+    method: "post" | "patch" | "delete",
+    path: string,
+    status: number,
+    body?: object
+  ) => {
+    const { headers } = await agent.get(`/api/conversations/${conversationId}`).expect(200);
+    return agent[method](`/api/conversations/${conversationId}/messages${path}`)
+      .set("If-Match", headers.etag)
+      .send(body)
+      .expect(status);
+  };
+
+  beforeEach(async () => {
+    process.env.SESSION_SECRET = "test-secret-key";
+    process.env.NODE_ENV = "test";
+    app = express();
+    app.use(express.json());
+    storage = new InMemoryStorage({ seedDemoData: false });
+    await registerRoutes(createServer(app), app, storage, new MemoryMailer());
+
+    member = request.agent(app);
+    alice = request.agent(app);
+    bob = request.agent(app);
+    const register = async (agent: ReturnType<typeof request.agent>, email: string) => {
+      const { id } = (
+        await agent.post("/api/register").send({ email, password: "Password12345" }).expect(201)
+      ).body;
+      return id as string;
+    };
+    const memberId = await register(member, "member@example.com");
+    for (const supporterId of [
+      await register(alice, "alice@example.com"),
+      await register(bob, "bob@example.com"),
+    ]) {
+      const record = await storage.createSupporter(memberId, supporterId, INVITE_EXPIRY);
+      await storage.updateSupporterStatus(record.id, "accepted");
+    }
+    conversationId = (
+      await member
+        .post("/api/conversations")
+        .send({ title: "Week one", initialMessage: "Starting treatment today" })
+        .expect(201)
+    ).body.id;
+  });
+
+  it("should let only the author edit a nested reply, keeping its history", async () => {
+    const posted = await write(alice, "post", "", 200, { content: "Thinking of yuo" });
+    const aliceMessage = posted.body.data.messages[1];
+    const bobReply = (
+      await write(bob, "post", "", 200, { content: "Same", parentMessageId: aliceMessage.id })
+    ).body.data.messages[1].replies[0];
+
+    const res = await write(bob, "patch", `/${bobReply.id}`, 200, { content: "Same here" });
+    const edited = res.body.data.messages[1].replies[0];
+    expect(edited).toMatchObject({ content: "Same here", editHistory: [{ content: "Same" }] });
+    expect(edited.editedAt).toBeDefined();
+
+    await write(alice, "patch", `/${bobReply.id}`, 403, { content: "Hijacked" });
+    await write(member, "patch", `/${bobReply.id}`, 403, { content: "Hijacked" });
+    await write(alice, "patch", `/${aliceMessage.id}`, 400, { content: "  " });
+    await write(alice, "patch", "/missing", 404, { content: "Nope" });
+    await alice
+      .patch(`/api/conversations/${conversationId}/messages/${aliceMessage.id}`)
+      .send({ content: "Thinking of you" })
+      .expect(428);
+  });
+
+  it("should leave a tombstone when a message with replies is deleted", async () => {
+    const posted = await write(alice, "post", "", 200, { content: "Regrettable" });
+    const aliceMessage = posted.body.data.messages[1];
+    await write(bob, "post", "", 200, { content: "Hmm", parentMessageId: aliceMessage.id });
+
+    await write(bob, "delete", `/${aliceMessage.id}`, 403);
+    const res = await write(alice, "delete", `/${aliceMessage.id}`, 200);
+    expect(res.body.data.messages[1]).toMatchObject({ content: "", deleted: true });
+    expect(res.body.data.messages[1].replies).toHaveLength(1);
+    await write(alice, "patch", `/${aliceMessage.id}`, 404, { content: "Back" });
+
+    // The member can clear up anyone's message, but not the update's own opening message
+    const bobReply = res.body.data.messages[1].replies[0];
+    const cleared = await write(member, "delete", `/${bobReply.id}`, 200);
+    expect(cleared.body.data.messages).toHaveLength(1);
+    const opening = cleared.body.data.messages[0];
+    await write(member, "delete", `/${opening.id}`, 400);
+  });
+});
+
+describe("Renaming, Archiving and Deleting Updates", () => {
+  let app: Express;
+  let storage: InMemoryStorage;
+  let member: ReturnType<typeof request.agent>;
+  let supporter: ReturnType<typeof request.agent>;
+  let conversationId: number;
+  let dataDir: string;
+
+  // Send an update write as agent with the conversation's current ETag, expecting status
+  const write = async (
+    agent: ReturnType<typeof request.agent>,
+    method: "patch" | "delete",
+    status: number,
+    body?: object
+  ) => {
+    const { headers } = await agent.get(`/api/conversations/${conversationId}`).expect(200);
+    return agent[method](`/api/conversations/${conversationId}`)
+      .set("If-Match", headers.etag)
+      .send(body)
+      .expect(status);
+  };
+
+  beforeEach(async () => {
+    process.env.SESSION_SECRET = "test-secret-key";
+    process.env.NODE_ENV = "test";
+    // Uploaded images are written under the storage's data directory
+    dataDir = await fs.mkdtemp(path.join(os.tmpdir(), "supportspark-routes-"));
+    app = express();
+    app.use(express.json());
+    storage = new InMemoryStorage({ seedDemoData: false, dataDir });
+    await registerRoutes(createServer(app), app, storage, new MemoryMailer());
+
+    member = request.agent(app);
+    supporter = request.agent(app);
+    const register = async (agent: ReturnType<typeof request.agent>, email: string) => {
+      const { id } = (
+        await agent.post("/api/register").send({ email, password: "Password12345" }).expect(201)
+      ).body;
+      return id as string;
+    };
+    const memberId = await register(member, "member@example.com");
+    const supporterId = await register(supporter, "friend@example.com");
+    const record = await storage.createSupporter(memberId, supporterId, INVITE_EXPIRY);
+    await storage.updateSupporterStatus(record.id, "accepted");
+    conversationId = (
+      await member
+        .post("/api/conversations")
+        .send({ title: "Week one", initialMessage: "Starting treatment today" })
+        .expect(201)
+    ).body.id;
+  });
+
+  afterEach(async () => {
+    await fs.rm(dataDir, { recursive: true, force: true });
+  });
+
+  it("should let only the member rename and archive an update", async () => {
+    const renamed = await write(member, "patch", 200, { title: "Week one, day two" });
+    expect(renamed.body.title).toBe("Week one, day two");
+    await write(member, "patch", 400, { title: "  " });
+    await write(supporter, "patch", 403, { title: "Hijacked" });
+    await member.patch(`/api/conversations/${conversationId}`).send({ archived: true }).expect(428);
+
+    await write(member, "patch", 200, { archived: true });
+    for (const agent of [member, supporter]) {
+      expect((await agent.get("/api/conversations").expect(200)).body).toEqual([]);
+      const all = await agent.get("/api/conversations?includeArchived=true").expect(200);
+      expect(all.body).toMatchObject([{ id: conversationId, archived: true }]);
+    }
+    // Archived updates stay readable by link, and can be brought back
+    await supporter.get(`/api/conversations/${conversationId}`).expect(200);
+    await write(member, "patch", 200, { archived: false });
+    expect((await supporter.get("/api/conversations").expect(200)).body).toHaveLength(1);
+  });
+
+  it("should delete an update with its uploaded images", async () => {
+    const upload = await member
+      .post(`/api/conversations/${conversationId}/images`)
+      .attach("images", Buffer.from("image"), "photo.png")
+      .expect(200);
+    const imageDir = path.join(dataDir, "conversations", `conv-${conversationId}`, "images");
+    await expect(fs.readdir(imageDir)).resolves.toHaveLength(1);
+
+    await write(supporter, "delete", 403);
+    const stale = await member
+      .delete(`/api/conversations/${conversationId}`)
+      .set("If-Match", '"0"')
+      .expect(412);
+    expect(stale.headers.etag).toBe('"1"');
+
+    await write(member, "delete", 200);
+    await member.get(`/api/conversations/${conversationId}`).expect(404);
+    expect((await member.get("/api/conversations").expect(200)).body).toEqual([]);
+    await member.get(upload.body.images[0]).expect(404);
+    await expect(fs.access(path.dirname(imageDir))).rejects.toThrow();
+  });
+});
+
+describe("Reactions", () => {
+  let app: Express;
+  let storage: InMemoryStorage;
+  let member: ReturnType<typeof request.agent>;
+  let alice: ReturnType<typeof request.agent>;
+  let bob: ReturnType<typeof request.agent>;
+  let conversationId: number;
+  let openingId: string;
+
+  beforeEach(async () => {
+    process.env.SESSION_SECRET = "test-secret-key";
+    process.env.NODE_ENV = "test";
+    app = express();
+    app.use(express.json());
+    storage = new InMemoryStorage({ seedDemoData: false });
+    await registerRoutes(createServer(app), app, storage, new MemoryMailer());
+
+    member = request.agent(app);
+    alice = request.agent(app);
+    bob = request.agent(app);
+    const register = async (agent: ReturnType<typeof request.agent>, email: string) => {
+      const { id } = (
+        await agent.post("/api/register").send({ email, password: "Password12345" }).expect(201)
+      ).body;
+      return id as string;
+    };
+    const memberId = await register(member, "member@example.com");
+    const aliceId = await register(alice, "alice@example.com");
+    await register(bob, "bob@example.com");
+    // Viewers can't reply, but can still react
+    const record = await storage.createSupporter(memberId, aliceId, INVITE_EXPIRY);
+    await storage.updateSupporterStatus(record.id, "accepted");
+    await storage.updateSupporterRole(record.id, "viewer");
+
+    const created = await member
+      .post("/api/conversations")
+      .send({ title: "Scan results", initialMessage: "All clear!" })
+      .expect(201);
+    conversationId = created.body.id;
+    openingId = created.body.data.messages[0].id;
+  });
+
+  it("should let supporters add and take back reactions without an ETag", async () => {
+    const path = `/api/conversations/${conversationId}/messages/${openingId}/reactions`;
+
+    await Promise.all([
+      alice.put(`${path}/celebrate`).expect(200),
+      member.put(`${path}/heart`).expect(200),
+    ]);
+    const twice = await alice.put(`${path}/celebrate`).expect(200);
+    const reactions = twice.body.data.messages[0].reactions;
+    expect(reactions).toHaveLength(2);
+    expect(reactions).toContainEqual(expect.objectContaining({ kind: "celebrate" }));
+
+    const undone = await alice.delete(`${path}/celebrate`).expect(200);
+    expect(undone.body.data.messages[0].reactions.map((r: { kind: string }) => r.kind)).toEqual([
+      "heart",
+    ]);
+
+    await alice.put(`${path}/shrug`).expect(400);
+    await bob.put(`${path}/heart`).expect(403);
+    const missing = `/api/conversations/${conversationId}/messages/missing/reactions/hug`;
+    await alice.put(missing).expect(404);
+  });
+});
+
+describe("Unread Tracking and Read Receipts", () => {
+  let app: Express;
+  let storage: InMemoryStorage;
+  let member: ReturnType<typeof request.agent>;
+  let supporter: ReturnType<typeof request.agent>;
+  let stranger: ReturnType<typeof request.agent>;
+  let conversationId: number;
+
+  beforeEach(async () => {
+    process.env.SESSION_SECRET = "test-secret-key";
+    process.env.NODE_ENV = "test";
+    app = express();
+    app.use(express.json());
+    storage = new InMemoryStorage({ seedDemoData: false });
+    await registerRoutes(createServer(app), app, storage, new MemoryMailer());
+
+    member = request.agent(app);
+    supporter = request.agent(app);
+    stranger = request.agent(app);
+    const register = async (agent: ReturnType<typeof request.agent>, email: string) => {
+      const { id } = (
+        await agent.post("/api/register").send({ email, password: "Password12345" }).expect(201)
+      ).body;
+      return id as string;
+    };
+    const memberId = await register(member, "member@example.com");
+    const supporterId = await register(supporter, "friend@example.com");
+    await register(stranger, "stranger@example.com");
+    const record = await storage.createSupporter(memberId, supporterId, INVITE_EXPIRY);
+    await storage.updateSupporterStatus(record.id, "accepted");
+    conversationId = (
+      await member
+        .post("/api/conversations")
+        .send({ title: "Week one", initialMessage: "Starting treatment today" })
+        .expect(201)
+    ).body.id;
+  });
+
+  it("should count messages from others since the last visit", async () => {
+    const [unvisited] = (await supporter.get("/api/conversations").expect(200)).body;
+    expect(unvisited).toMatchObject({ id: conversationId, unreadCount: 1 });
+    expect(unvisited.lastReadAt).toBeUndefined();
+    expect(unvisited.seenBy).toBeUndefined();
+
+    const read = await supporter.post(`/api/conversations/${conversationId}/read`).expect(200);
+    expect((await supporter.get("/api/conversations").expect(200)).body[0].unreadCount).toBe(0);
+    await stranger.post(`/api/conversations/${conversationId}/read`).expect(403);
+
+    // Make sure the reply is timestamped after the read marker
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    const { headers } = await member.get(`/api/conversations/${conversationId}`).expect(200);
+    await member
+      .post(`/api/conversations/${conversationId}/messages`)
+      .set("If-Match", headers.etag)
+      .send({ content: "Day two went well" })
+      .expect(200);
+
+    const revisited = await supporter.get(`/api/conversations/${conversationId}`).expect(200);
+    expect(revisited.body).toMatchObject({ unreadCount: 1, lastReadAt: read.body.lastReadAt });
+  });
+
+  it("should tell only the member how many supporters have seen an update", async () => {
+    const before = (await member.get("/api/conversations").expect(200)).body[0];
+    expect(before).toMatchObject({ unreadCount: 0, seenBy: 0 });
+
+    await supporter.post(`/api/conversations/${conversationId}/read`).expect(200);
+    const after = await member.get(`/api/conversations/${conversationId}`).expect(200);
+    expect(after.body.seenBy).toBe(1);
+    const asSupporter = await supporter.get(`/api/conversations/${conversationId}`).expect(200);
+    expect(asSupporter.body.seenBy).toBeUndefined();
+  });
+});
@@ -1,11 +1,16 @@
-import type { Express } from "express";
+import type { Express, Response } from "express";
 import type { Server } from "http";
-import { storage, FileStorage } from "./storage";
-import { api } from "@shared/routes";
+import {
+  FileStorage,
+  ConversationVersionConflictError,
+  findMessage,
+  type IStorage,
+} from "./storage";
+import { api, versionToETag, parseETag, type ConversationWithReadState } from "@shared/routes";
 import { z } from "zod";
 import { randomUUID } from "crypto";
 import session from "express-session";
-import passport from "passport";
+import { Passport } from "passport";
 import { Strategy as LocalStrategy } from "passport-local";
 import memorystore from "memorystore";
 import { promises as fs } from "fs";
@@ -13,12 +18,54 @@ import path from "path";
 import multer from "multer";
 import bcrypt from "bcrypt";
 import rateLimit from "express-rate-limit";
-import type { User, Message, Supporter } from "@shared/schema";
+import type {
+  User,
+  Message,
+  Supporter,
+  SupporterRole,
+  Invitation,
+  Conversation,
+  Audience,
+  BulkInviteResult,
+  ReadMarker,
+} from "@shared/schema";
+import { reactionKindSchema } from "@shared/schema";
 import type { AuthenticatedRequest, AuthMiddleware } from "./types";
+import { createMailer, type Mailer } from "./mailer";
+import { parseContacts } from "./contacts";
+import {
+  createUserToken,
+  parseUserToken,
+  pendingTokenMatches,
+  signToken,
+  verifySignedToken,
+} from "./tokens";
 
 const MemoryStore = memorystore(session);
 
-export async function registerRoutes(httpServer: Server, app: Express): Promise<Server> {
+// How long emailed links stay valid
+const PASSWORD_RESET_TTL_MS = 60 * 60 * 1000;
+const EMAIL_VERIFICATION_TTL_MS = 24 * 60 * 60 * 1000;
+const INVITATION_TTL_MS = 14 * 24 * 60 * 60 * 1000;
+
+// Contacts per bulk invitation request, each of which may send an email
+const MAX_BULK_INVITES = 100;
+
+// Blocking works both ways: neither user can invite the other or join their circle
+function blockedBetween(a: User, b: User) {
+  return a.blockedUserIds.includes(b.id) || b.blockedUserIds.includes(a.id);
+}
+
+/**
+ * Register all API routes on app, backed by storage
+ * mailer defaults to the MAIL_TRANSPORT transport; tests pass their own (e.g. MemoryMailer)
+ */
+export async function registerRoutes(
+  httpServer: Server,
+  app: Express,
+  storage: IStorage,
+  mailer: Mailer = createMailer()
+): Promise<Server> {
   // === AUTHENTICATION SETUP ===
   // Remove hardcoded fallback - environment validation ensures SESSION_SECRET exists
   const sessionSecret = process.env.SESSION_SECRET!;
@@ -40,6 +87,8 @@ export async function registerRoutes(httpServer: Server, app: Express): Promise<
     })
   );
 
+  // Own Passport instance so each app's strategy and session lookups use its own storage
+  const passport = new Passport();
   app.use(passport.initialize());
   app.use(passport.session());
 
@@ -111,6 +160,15 @@ export async function registerRoutes(httpServer: Server, app: Express): Promise<
     skipSuccessfulRequests: false, // Count all requests
   });
 
+  // Requests that send or use emailed links; separate so failed logins do not block a reset
+  const emailLinkLimiter = rateLimit({
+    windowMs: 15 * 60 * 1000,
+    max: process.env.NODE_ENV === "test" ? 100 : 5,
+    message: { message: "Too many attempts, please try again later" },
+    standardHeaders: true,
+    legacyHeaders: false,
+  });
+
   const testRegisterLimiter = rateLimit({
     windowMs: 15 * 60 * 1000,
     max: 5,
@@ -124,13 +182,206 @@ export async function registerRoutes(httpServer: Server, app: Express): Promise<
   // Helper to strip sensitive fields from user object
   const sanitizeUser = (user: User | undefined) => {
     if (!user) return undefined;
-    // eslint-disable-next-line @typescript-eslint/no-unused-vars
-    const { password: _password, passwordVersion: _passwordVersion, ...safeUser } = user;
+    const {
+      password: _password, // eslint-disable-line @typescript-eslint/no-unused-vars
+      passwordVersion: _passwordVersion, // eslint-disable-line @typescript-eslint/no-unused-vars
+      passwordReset: _passwordReset, // eslint-disable-line @typescript-eslint/no-unused-vars
+      emailVerification: _emailVerification, // eslint-disable-line @typescript-eslint/no-unused-vars
+      ...safeUser
+    } = user;
     return safeUser;
   };
 
-  app.post("/api/login", authLimiter, passport.authenticate("local"), (req, res) => {
-    res.json(sanitizeUser(req.user));
+  // Links point at APP_URL, never the request's Host header, which a caller could forge
+  const appUrl = process.env.APP_URL || `http://localhost:${process.env.PORT || "5000"}`;
+
+  // Store a fresh verification token (replacing any earlier one) and email its link
+  const sendVerificationEmail = async (user: User) => {
+    const { token, pending } = createUserToken(user.id, EMAIL_VERIFICATION_TTL_MS);
+    await storage.updateUser(user.id, { emailVerification: pending });
+
+    await mailer.send({
+      to: user.email,
+      subject: "Confirm your SupportSpark email address",
+      text: [
+        `Hi ${user.firstName || "there"},`,
+        "",
+        "Please confirm this is your email address so members can invite you to their circle",
+        "(the link expires in 24 hours):",
+        "",
+        `${appUrl}/verify-email?token=${encodeURIComponent(token)}`,
+        "",
+        "If you didn't create a SupportSpark account, you can ignore this email.",
+      ].join("\n"),
+    });
+  };
+
+  // Invitation links name the invitation and its expiry, signed with the session secret
+  const invitationToken = (invitation: Invitation) =>
+    signToken(`invitation:${invitation.id}:${Date.parse(invitation.expiresAt)}`, sessionSecret);
+
+  // The stored invitation a link is for; undefined when forged, expired or already used
+  const findInvitation = async (token: string) => {
+    const match = verifySignedToken(token, sessionSecret)?.match(/^invitation:(\d+):(\d+)$/);
+    if (!match || Number(match[2]) < Date.now()) return undefined;
+
+    const invitation = await storage.getInvitation(Number(match[1]));
+    return invitation && Date.parse(invitation.expiresAt) === Number(match[2])
+      ? invitation
+      : undefined;
+  };
+
+  /**
+   * User IDs of whoever owns updates posted under memberId: the co-members of a shared journey,
+   * or otherwise the member whose user ID it is
+   */
+  const journeyMemberIds = async (memberId: string) =>
+    (await storage.getJourney(memberId))?.memberIds ?? [memberId];
+
+  const isJourneyMember = async (memberId: string, userId: string) =>
+    (await journeyMemberIds(memberId)).includes(userId);
+
+  // The user's own member ID followed by those of the shared journeys they are a co-member of
+  const ownedMemberIds = async (userId: string) => [
+    userId,
+    ...(await storage.getJourneysForUser(userId)).map((j) => j.id),
+  ];
+
+  /**
+   * Whose supporters and circles a request manages: the user's own, or with journeyId (from the
+   * query string or body) a shared journey's. undefined when they are not one of its co-members
+   */
+  const managedMemberId = async (userId: string, journeyId: unknown) => {
+    if (journeyId === undefined) return userId;
+    return typeof journeyId === "string" && (await isJourneyMember(journeyId, userId))
+      ? journeyId
+      : undefined;
+  };
+
+  // A supporter record of the user's own or one of their shared journeys, by ID
+  const findManagedSupporter = async (userId: string, id: number) => {
+    for (const memberId of await ownedMemberIds(userId)) {
+      const record = (await storage.getSupportersForMember(memberId)).find((s) => s.id === id);
+      if (record) return record;
+    }
+    return undefined;
+  };
+
+  // What invitation emails ask someone to follow
+  const followedUpdates = async (memberId: string) => {
+    const journey = await storage.getJourney(memberId);
+    return journey ? `"${journey.title}"` : "their updates";
+  };
+
+  /**
+   * Use up the invitation behind an invitation link, making user a pending supporter of the
+   * member who sent it. Returns the user, updated when this verified their email address
+   */
+  const acceptInvitation = async (token: unknown, user: User): Promise<User> => {
+    const invitation = typeof token === "string" ? await findInvitation(token) : undefined;
+    if (!invitation) return user;
+
+    const existing = await storage.getSupporterRecord(invitation.memberId, user.id);
+    const memberIds = await journeyMemberIds(invitation.memberId);
+    const members = await Promise.all(memberIds.map((id) => storage.getUser(id)));
+    const refused = members.some((member) => !member || blockedBetween(member, user));
+    if (!memberIds.includes(user.id) && !existing && !refused) {
+      await storage.createSupporter(
+        invitation.memberId,
+        user.id,
+        new Date(Date.now() + INVITATION_TTL_MS).toISOString(),
+        invitation.message
+      );
+    }
+    await storage.deleteInvitation(invitation.id);
+
+    // The link was emailed to the invited address, so following it proves the address
+    if (user.email === invitation.email && !user.emailVerified) {
+      return storage.updateUser(user.id, { emailVerified: true, emailVerification: undefined });
+    }
+    return user;
+  };
+
+  // Pending invitations lapse lazily: they are marked expired the next time they are read
+  const expireLapsedInvitations = (records: Supporter[]) =>
+    Promise.all(
+      records.map((s) =>
+        s.status === "pending" && s.expiresAt && Date.parse(s.expiresAt) <= Date.now()
+          ? storage.updateSupporterStatus(s.id, "expired")
+          : s
+      )
+    );
+
+  // Quote the member's personal note in invitation emails
+  const quoteInvitationMessage = (message: string | undefined) =>
+    message ? ["", ...message.split("\n").map((line) => `> ${line}`)] : [];
+
+  // Why email cannot be invited to memberId's circle right now, or undefined when it can
+  const inviteBlocker = async (memberId: string, email: string) => {
+    const members = await Promise.all(
+      (await journeyMemberIds(memberId)).map((id) => storage.getUser(id))
+    );
+    if (members.some((member) => member?.email === email)) return "self" as const;
+
+    const invitedUser = await storage.getUserByEmail(email);
+    if (invitedUser && members.some((member) => member && blockedBetween(member, invitedUser))) {
+      return "blocked" as const;
+    }
+    if (invitedUser && invitedUser.emailVerified) {
+      const existing = await storage.getSupporterRecord(memberId, invitedUser.id);
+      return existing ? ("already_connected" as const) : undefined;
+    }
+
+    const outstanding = await storage.getInvitationsForMember(memberId);
+    return outstanding.some((i) => i.email === email && Date.parse(i.expiresAt) > Date.now())
+      ? ("already_connected" as const)
+      : undefined;
+  };
+
+  /**
+   * Invite email to memberId's circle on behalf of member (memberId is theirs or a shared
+   * journey's). A verified account becomes a pending supporter straight away; any other address
+   * is emailed a signup link
+   */
+  const sendInvitation = async (
+    member: User,
+    memberId: string,
+    email: string,
+    message: string | undefined
+  ): Promise<{ supporter: Supporter } | { invitation: Invitation }> => {
+    const expiresAt = new Date(Date.now() + INVITATION_TTL_MS).toISOString();
+    const invitedUser = await storage.getUserByEmail(email);
+    if (invitedUser && invitedUser.emailVerified) {
+      return {
+        supporter: await storage.createSupporter(memberId, invitedUser.id, expiresAt, message),
+      };
+    }
+
+    // Only following the link attaches an account, so registering someone else's address
+    // does not bring their invitations to the squatter
+    const invitation = await storage.createInvitation(memberId, email, expiresAt, message);
+    const memberName = `${member.firstName || ""} ${member.lastName || ""}`.trim() || member.email;
+    await mailer.send({
+      to: email,
+      subject: `${memberName} invited you to their SupportSpark circle`,
+      text: [
+        "Hi,",
+        "",
+        `${memberName} would like you to follow ${await followedUpdates(memberId)} on SupportSpark,`,
+        "a private space for sharing life's challenges with the people who care.",
+        ...quoteInvitationMessage(message),
+        "",
+        "Join their circle by creating an account or logging in here (the link expires in 14 days):",
+        "",
+        `${appUrl}/auth?invite=${encodeURIComponent(invitationToken(invitation))}`,
+      ].join("\n"),
+    });
+    return { invitation };
+  };
+
+  // inviteToken is set when logging in from an invitation link
+  app.post("/api/login", authLimiter, passport.authenticate("local"), async (req, res) => {
+    res.json(sanitizeUser(await acceptInvitation(req.body.inviteToken, req.user!)));
   });
 
   app.post("/api/register", authLimiter, async (req, res) => {
@@ -143,12 +394,20 @@ export async function registerRoutes(httpServer: Server, app: Express): Promise<
       // Hash password with bcrypt (10 rounds)
       const hashedPassword = await bcrypt.hash(req.body.password, 10);
 
-      const user = await storage.createUser({
+      const created = await storage.createUser({
         email: req.body.email,
         password: hashedPassword,
         firstName: req.body.firstName,
         lastName: req.body.lastName,
       });
+      const user = await acceptInvitation(req.body.inviteToken, created);
+
+      // The account works without it; a failed send can be retried from the app
+      if (!user.emailVerified) {
+        await sendVerificationEmail(user).catch((error) =>
+          console.error("Failed to send verification email:", error)
+        );
+      }
 
       req.login(user, (err) => {
         if (err) return res.status(500).json({ message: "Login failed after registration" });
@@ -173,6 +432,77 @@ export async function registerRoutes(httpServer: Server, app: Express): Promise<
     res.json(sanitizeUser(req.user));
   });
 
+  // === PASSWORD RESET ===
+
+  app.post(api.password.forgot.path, emailLinkLimiter, async (req, res) => {
+    const parsed = api.password.forgot.input.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Enter a valid email address", field: "email" });
+    }
+
+    // Same answer either way so the form cannot be used to find out who has an account
+    const response = {
+      message: "If an account exists for that email, we've sent a link to reset the password.",
+    };
+
+    const user = await storage.getUserByEmail(parsed.data.email);
+    if (!user) return res.json(response);
+
+    const { token, pending } = createUserToken(user.id, PASSWORD_RESET_TTL_MS);
+    await storage.updateUser(user.id, { passwordReset: pending });
+
+    const link = `${appUrl}/auth?reset=${encodeURIComponent(token)}`;
+    // A failed send is only logged: an error here would give away that the account exists
+    await mailer
+      .send({
+        to: user.email,
+        subject: "Reset your SupportSpark password",
+        text: [
+          `Hi ${user.firstName || "there"},`,
+          "",
+          "Someone asked to reset the password for your SupportSpark account.",
+          "Choose a new password here (the link works once and expires in 1 hour):",
+          "",
+          link,
+          "",
+          "If this wasn't you, you can ignore this email; your password has not changed.",
+        ].join("\n"),
+      })
+      .catch((error) => console.error("Failed to send password reset email:", error));
+
+    res.json(response);
+  });
+
+  app.post(api.password.reset.path, emailLinkLimiter, async (req, res) => {
+    const parsed = api.password.reset.input.safeParse(req.body);
+    if (!parsed.success) {
+      if (parsed.error.issues[0]?.path[0] === "password") {
+        return res
+          .status(400)
+          .json({ message: "Password must be between 8 and 72 characters", field: "password" });
+      }
+      return res.status(400).json({ message: "This reset link is invalid or has expired" });
+    }
+
+    const parts = parseUserToken(parsed.data.token);
+    const user = parts && (await storage.getUser(parts.userId));
+    if (!parts || !user || !pendingTokenMatches(parts.secret, user.passwordReset)) {
+      return res.status(400).json({ message: "This reset link is invalid or has expired" });
+    }
+
+    // Clearing passwordReset makes the link single-use. The link was opened from the
+    // account's inbox, which also proves the address belongs to whoever is resetting
+    await storage.updateUser(user.id, {
+      password: await bcrypt.hash(parsed.data.password, 10),
+      passwordVersion: "bcrypt-10",
+      passwordReset: undefined,
+      emailVerified: true,
+      emailVerification: undefined,
+    });
+
+    res.json({ message: "Your password has been reset. You can now log in." });
+  });
+
   // Middleware to ensure authentication
   const requireAuth: AuthMiddleware = (req, res, next) => {
     if (!req.isAuthenticated()) {
@@ -182,17 +512,144 @@ export async function registerRoutes(httpServer: Server, app: Express): Promise<
     next();
   };
 
+  // === EMAIL VERIFICATION ===
+
+  // Not behind requireAuth: the link may be opened in a browser that is not logged in
+  app.post(api.emailVerification.verify.path, emailLinkLimiter, async (req, res) => {
+    const parsed = api.emailVerification.verify.input.safeParse(req.body);
+    const parts = parsed.success ? parseUserToken(parsed.data.token) : undefined;
+    const user = parts && (await storage.getUser(parts.userId));
+    if (!parts || !user || !pendingTokenMatches(parts.secret, user.emailVerification)) {
+      return res.status(400).json({ message: "This verification link is invalid or has expired" });
+    }
+
+    await storage.updateUser(user.id, { emailVerified: true, emailVerification: undefined });
+    res.json({ message: "Your email address is verified." });
+  });
+
+  app.post(
+    api.emailVerification.resend.path,
+    requireAuth,
+    emailLinkLimiter,
+    async (req: AuthenticatedRequest, res) => {
+      if (!req.user?.id) return res.status(401).json({ message: "Not authenticated" });
+      const user = await storage.getUser(req.user.id);
+      if (!user) return res.status(401).json({ message: "Not authenticated" });
+
+      if (user.emailVerified) {
+        return res.status(400).json({ message: "Your email address is already verified." });
+      }
+
+      await sendVerificationEmail(user);
+      res.json({ message: `We've sent a new verification link to ${user.email}.` });
+    }
+  );
+
   // === CONVERSATIONS ===
 
+  /**
+   * How userId relates to a conversation, or undefined when they may not see it. The member (or
+   * each co-member of a shared journey) and their caregivers see every conversation; other
+   * accepted supporters must be named in its audience (when it has one) directly or through one
+   * of its circles
+   */
+  const conversationAccess = async (
+    conversation: Conversation,
+    userId: string
+  ): Promise<"member" | SupporterRole | undefined> => {
+    if (await isJourneyMember(conversation.memberId, userId)) return "member";
+
+    const supporterRecord = await storage.getSupporterRecord(conversation.memberId, userId);
+    if (!supporterRecord || supporterRecord.status !== "accepted") return undefined;
+    if (supporterRecord.role === "caregiver") return "caregiver";
+
+    const audience = conversation.audience;
+    if (!audience || audience.supporterIds.includes(userId)) return supporterRecord.role;
+    const circles = await storage.getCirclesForMember(conversation.memberId);
+    const inCircle = circles.some(
+      (c) => audience.circleIds.includes(c.id) && c.supporterIds.includes(userId)
+    );
+    return inCircle ? supporterRecord.role : undefined;
+  };
+
+  // Co-members post to their shared journeys, and caregivers on behalf of the member they support
+  const canPostFor = async (memberId: string, userId: string) => {
+    if (await isJourneyMember(memberId, userId)) return true;
+    const supporterRecord = await storage.getSupporterRecord(memberId, userId);
+    return supporterRecord?.status === "accepted" && supporterRecord.role === "caregiver";
+  };
+
+  // Error message when an audience names circles or people outside the member's own circle
+  const checkAudience = async (memberId: string, audience: Audience) => {
+    const circleIds = new Set((await storage.getCirclesForMember(memberId)).map((c) => c.id));
+    if (audience.circleIds.some((id) => !circleIds.has(id))) {
+      return "Unknown circle in audience";
+    }
+    if (!(await areSupportersOf(memberId, audience.supporterIds))) {
+      return "Audience can only include your supporters";
+    }
+    return undefined;
+  };
+
+  const areSupportersOf = async (memberId: string, userIds: string[]) => {
+    const supporterIds = new Set(
+      (await storage.getSupportersForMember(memberId)).map((s) => s.supporterId)
+    );
+    return userIds.every((id) => supporterIds.has(id));
+  };
+
+  // Messages anywhere in a thread that someone else posted after since (all of them without)
+  const countUnread = (messages: Message[], userId: string, since?: string): number =>
+    messages.reduce((total, message) => {
+      const isNew =
+        !message.deleted &&
+        message.authorId !== userId &&
+        (!since || new Date(message.timestamp) > new Date(since));
+      return total + (isNew ? 1 : 0) + countUnread(message.replies || [], userId, since);
+    }, 0);
+
+  // Accepted supporters of the conversation's member who have opened it
+  const countSeenBy = async (conversation: Conversation, markers: ReadMarker[]) => {
+    const readers = new Set(markers.map((m) => m.userId));
+    const supporters = await storage.getSupportersForMember(conversation.memberId);
+    return supporters.filter((s) => s.status === "accepted" && readers.has(s.supporterId)).length;
+  };
+
+  // A conversation with the user's unread count and, for the member, how many have seen it
+  const withReadState = async (
+    conversation: Conversation,
+    user: User,
+    isMember: boolean
+  ): Promise<ConversationWithReadState> => {
+    const markers = await storage.getReadMarkers(conversation.id);
+    const lastReadAt = markers.find((m) => m.userId === user.id)?.readAt;
+    return {
+      ...conversation,
+      unreadCount: countUnread(conversation.data.messages, user.id, lastReadAt),
+      ...(lastReadAt && { lastReadAt }),
+      ...(isMember && { seenBy: await countSeenBy(conversation, markers) }),
+    };
+  };
+
   app.get(api.conversations.list.path, requireAuth, async (req: AuthenticatedRequest, res) => {
-    if (!req.user?.id) return res.status(401).json({ message: "Not authenticated" });
-    const conversations = await storage.getConversationsForUser(req.user.id);
-    res.json(conversations);
+    const user = req.user;
+    if (!user) return res.status(401).json({ message: "Not authenticated" });
+    const includeArchived = req.query.includeArchived === "true";
+    const conversations = (await storage.getConversationsForUser(user.id)).filter(
+      (c) => includeArchived || !c.archived
+    );
+    const visible = await Promise.all(
+      conversations.map(async (c) => {
+        const access = await conversationAccess(c, user.id);
+        return access && withReadState(c, user, access === "member");
+      })
+    );
+    res.json(visible.filter(Boolean));
   });
 
   app.get(api.conversations.get.path, requireAuth, async (req: AuthenticatedRequest, res) => {
-    const userId = req.user?.id;
-    if (!userId) return res.status(401).json({ message: "Not authenticated" });
+    const user = req.user;
+    if (!user) return res.status(401).json({ message: "Not authenticated" });
 
     const id = Number(req.params.id);
     const conversation = await storage.getConversation(id);
@@ -202,17 +659,31 @@ export async function registerRoutes(httpServer: Server, app: Express): Promise<
     }
 
     // Check access
-    const isOwner = conversation.memberId === userId;
+    const access = await conversationAccess(conversation, user.id);
+    if (!access) {
+      return res.status(403).json({ message: "Access denied" });
+    }
 
-    if (!isOwner) {
-      // Check if accepted supporter
-      const supporterRecord = await storage.getSupporterRecord(conversation.memberId, userId);
-      if (!supporterRecord || supporterRecord.status !== "accepted") {
-        return res.status(403).json({ message: "Access denied" });
-      }
+    // Clients send this back as If-Match when they write to the conversation
+    res.set("ETag", versionToETag(conversation.version));
+    res.json(await withReadState(conversation, user, access === "member"));
+  });
+
+  // Move the user's read marker to now; reading never changes the conversation itself
+  app.post(api.conversations.markRead.path, requireAuth, async (req: AuthenticatedRequest, res) => {
+    const userId = req.user?.id;
+    if (!userId) return res.status(401).json({ message: "Not authenticated" });
+
+    const conversation = await storage.getConversation(Number(req.params.id));
+    if (!conversation) {
+      return res.status(404).json({ message: "Conversation not found" });
+    }
+    if (!(await conversationAccess(conversation, userId))) {
+      return res.status(403).json({ message: "Access denied" });
     }
 
-    res.json(conversation);
+    const marker = await storage.markConversationRead(userId, conversation.id);
+    res.json({ lastReadAt: marker.readAt });
   });
 
   app.post(api.conversations.create.path, requireAuth, async (req: AuthenticatedRequest, res) => {
@@ -233,8 +704,28 @@ export async function registerRoutes(httpServer: Server, app: Express): Promise<
         replies: [],
       };
 
-      const conversation = await storage.createConversation(userId, input.title, initialMessage);
+      // Caregivers name the member they are posting for, and co-members the shared journey;
+      // the update belongs to that member or journey
+      const memberId = input.memberId ?? userId;
+      if (!(await canPostFor(memberId, userId))) {
+        return res
+          .status(403)
+          .json({ message: "Only caregivers can post updates for this member" });
+      }
 
+      if (input.audience) {
+        const problem = await checkAudience(memberId, input.audience);
+        if (problem) return res.status(400).json({ message: problem });
+      }
+
+      const conversation = await storage.createConversation(
+        memberId,
+        input.title,
+        initialMessage,
+        input.audience
+      );
+
+      res.set("ETag", versionToETag(conversation.version));
       res.status(201).json(conversation);
     } catch (err) {
       if (err instanceof z.ZodError) {
@@ -244,6 +735,104 @@ export async function registerRoutes(httpServer: Server, app: Express): Promise<
     }
   });
 
+  /**
+   * The conversation a write route is about, once the user may see it and has sent its version
+   * in If-Match; otherwise undefined, with the error response already sent
+   */
+  const loadConversationForWrite = async (req: AuthenticatedRequest, res: Response) => {
+    const userId = req.user?.id;
+    if (!userId) {
+      res.status(401).json({ message: "Not authenticated" });
+      return undefined;
+    }
+
+    const conversation = await storage.getConversation(Number(req.params.id));
+    if (!conversation) {
+      res.status(404).json({ message: "Conversation not found" });
+      return undefined;
+    }
+    const access = await conversationAccess(conversation, userId);
+    if (!access) {
+      res.status(403).json({ message: "Access denied" });
+      return undefined;
+    }
+
+    const expectedVersion = parseETag(req.get("If-Match"));
+    if (expectedVersion === undefined) {
+      res.status(428).json({ message: "If-Match header with the conversation ETag is required" });
+      return undefined;
+    }
+    return { userId, conversation, access, expectedVersion };
+  };
+
+  // As loadConversationForWrite, plus the message named in the path
+  const loadMessageForWrite = async (req: AuthenticatedRequest, res: Response) => {
+    const target = await loadConversationForWrite(req, res);
+    if (!target) return undefined;
+
+    const message = findMessage(target.conversation.data.messages, String(req.params.messageId));
+    if (!message || message.deleted) {
+      res.status(404).json({ message: "Message not found" });
+      return undefined;
+    }
+    return { ...target, message };
+  };
+
+  // Answer a write that lost the race with the version it lost to
+  const sendVersionConflict = (res: Response, err: ConversationVersionConflictError) => {
+    res.set("ETag", versionToETag(err.currentVersion));
+    return res.status(412).json({
+      message: "Conversation has changed since it was loaded. Refresh and try again.",
+    });
+  };
+
+  // Only the member (or a co-member of a shared journey) renames, archives or deletes an update
+  app.patch(api.conversations.update.path, requireAuth, async (req: AuthenticatedRequest, res) => {
+    const target = await loadConversationForWrite(req, res);
+    if (!target) return;
+    const { conversation, access, expectedVersion } = target;
+    if (access !== "member") {
+      return res.status(403).json({ message: "Only the member can change this update" });
+    }
+
+    let updated;
+    try {
+      const input = api.conversations.update.input.parse(req.body);
+      updated = await storage.updateConversation(
+        conversation.id,
+        { ...conversation, ...input },
+        expectedVersion
+      );
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({ message: err.message });
+      }
+      if (err instanceof ConversationVersionConflictError) return sendVersionConflict(res, err);
+      throw err;
+    }
+
+    res.set("ETag", versionToETag(updated.version));
+    res.json(updated);
+  });
+
+  app.delete(api.conversations.delete.path, requireAuth, async (req: AuthenticatedRequest, res) => {
+    const target = await loadConversationForWrite(req, res);
+    if (!target) return;
+    const { conversation, access, expectedVersion } = target;
+    if (access !== "member") {
+      return res.status(403).json({ message: "Only the member can delete this update" });
+    }
+
+    try {
+      await storage.deleteConversation(conversation.id, expectedVersion);
+    } catch (err) {
+      if (err instanceof ConversationVersionConflictError) return sendVersionConflict(res, err);
+      throw err;
+    }
+
+    res.json({ message: "Update deleted" });
+  });
+
   app.post(
     api.conversations.addMessage.path,
     requireAuth,
@@ -259,17 +848,37 @@ export async function registerRoutes(httpServer: Server, app: Express): Promise<
         return res.status(404).json({ message: "Conversation not found" });
       }
 
-      // Check access (same as get)
-      const isOwner = conversation.memberId === userId;
+      // Check access (same as get); viewers can read but not reply
+      const access = await conversationAccess(conversation, userId);
+      if (!access) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      if (access === "viewer") {
+        return res.status(403).json({ message: "Your role in this circle is read-only" });
+      }
 
-      if (!isOwner) {
-        const supporterRecord = await storage.getSupporterRecord(conversation.memberId, userId);
-        if (!supporterRecord || supporterRecord.status !== "accepted") {
-          return res.status(403).json({ message: "Access denied" });
-        }
+      // Optimistic concurrency: the write must name the version the client last saw
+      const expectedVersion = parseETag(req.get("If-Match"));
+      if (expectedVersion === undefined) {
+        return res
+          .status(428)
+          .json({ message: "If-Match header with the conversation ETag is required" });
       }
 
       const input = api.conversations.addMessage.input.parse(req.body);
+
+      // Blocked people cannot reply to the member's updates or to the blocker's own messages
+      const parent =
+        input.parentMessageId && findMessage(conversation.data.messages, input.parentMessageId);
+      const authorIds = await journeyMemberIds(conversation.memberId);
+      if (parent) authorIds.push(parent.authorId);
+      for (const authorId of authorIds) {
+        const author = await storage.getUser(authorId);
+        if (author?.blockedUserIds.includes(userId)) {
+          return res.status(403).json({ message: "You can't reply to this person" });
+        }
+      }
+
       const userName = `${user.firstName || ""} ${user.lastName || ""}`.trim() || "Anonymous";
 
       const newMessage: Omit<Message, "replies"> & { replies: Message[] } = {
@@ -286,42 +895,148 @@ export async function registerRoutes(httpServer: Server, app: Express): Promise<
         newMessage.images = input.images;
       }
 
-      if (input.parentMessageId) {
-        // Helper to recursively find and reply
-        const addReply = (messages: Message[]): boolean => {
-          for (const msg of messages) {
-            if (msg.id === input.parentMessageId) {
-              if (!msg.replies) msg.replies = [];
-              msg.replies.push(newMessage);
-              return true;
-            }
-            if (msg.replies && msg.replies.length > 0) {
-              if (addReply(msg.replies)) return true;
-            }
-          }
-          return false;
-        };
+      // Appended atomically so concurrent replies never overwrite each other
+      let updated;
+      try {
+        updated = await storage.appendMessage(
+          id,
+          input.parentMessageId,
+          newMessage,
+          expectedVersion
+        );
+      } catch (err) {
+        if (err instanceof ConversationVersionConflictError) return sendVersionConflict(res, err);
+        throw err;
+      }
+      if (!updated) return res.status(404).json({ message: "Parent message not found" });
 
-        const found = addReply(conversation.data.messages);
-        if (!found) return res.status(404).json({ message: "Parent message not found" });
-      } else {
-        // Top level message
-        conversation.data.messages.push(newMessage);
+      res.set("ETag", versionToETag(updated.version));
+      res.json(updated);
+    }
+  );
+
+  app.patch(
+    api.conversations.editMessage.path,
+    requireAuth,
+    async (req: AuthenticatedRequest, res) => {
+      const target = await loadMessageForWrite(req, res);
+      if (!target) return;
+      const { userId, conversation, message, expectedVersion } = target;
+      if (message.authorId !== userId) {
+        return res.status(403).json({ message: "Only the author can edit this message" });
+      }
+
+      let updated;
+      try {
+        const input = api.conversations.editMessage.input.parse(req.body);
+        if (!input.content.trim() && !message.images?.length) {
+          return res.status(400).json({ message: "Message can't be empty" });
+        }
+        updated = await storage.editMessage(
+          conversation.id,
+          message.id,
+          input.content,
+          expectedVersion
+        );
+      } catch (err) {
+        if (err instanceof z.ZodError) {
+          return res.status(400).json({ message: err.message });
+        }
+        if (err instanceof ConversationVersionConflictError) return sendVersionConflict(res, err);
+        throw err;
+      }
+      if (!updated) return res.status(404).json({ message: "Message not found" });
+
+      res.set("ETag", versionToETag(updated.version));
+      res.json(updated);
+    }
+  );
+
+  // Authors remove their own messages; the member (or any co-member) can remove anyone's
+  app.delete(
+    api.conversations.deleteMessage.path,
+    requireAuth,
+    async (req: AuthenticatedRequest, res) => {
+      const target = await loadMessageForWrite(req, res);
+      if (!target) return;
+      const { userId, conversation, access, message, expectedVersion } = target;
+      if (message.authorId !== userId && access !== "member") {
+        return res.status(403).json({ message: "Only the author or the member can delete this" });
+      }
+      if (conversation.data.messages[0]?.id === message.id) {
+        return res.status(400).json({ message: "The opening message can't be deleted" });
       }
 
-      const updated = await storage.updateConversation(id, conversation);
+      let updated;
+      try {
+        updated = await storage.deleteMessage(conversation.id, message.id, expectedVersion);
+      } catch (err) {
+        if (err instanceof ConversationVersionConflictError) return sendVersionConflict(res, err);
+        throw err;
+      }
+      if (!updated) return res.status(404).json({ message: "Message not found" });
+
+      res.set("ETag", versionToETag(updated.version));
       res.json(updated);
     }
   );
 
+  // Anyone who can see an update may react to its messages, viewers included
+  const respondToReaction = async (req: AuthenticatedRequest, res: Response, reacted: boolean) => {
+    const user = req.user;
+    if (!user) return res.status(401).json({ message: "Not authenticated" });
+
+    const kind = reactionKindSchema.safeParse(req.params.kind);
+    if (!kind.success) return res.status(400).json({ message: "Unknown reaction" });
+
+    const conversation = await storage.getConversation(Number(req.params.id));
+    if (!conversation) {
+      return res.status(404).json({ message: "Conversation not found" });
+    }
+    if (!(await conversationAccess(conversation, user.id))) {
+      return res.status(403).json({ message: "Access denied" });
+    }
+    const message = findMessage(conversation.data.messages, String(req.params.messageId));
+    if (!message || message.deleted) {
+      return res.status(404).json({ message: "Message not found" });
+    }
+    const author = reacted ? await storage.getUser(message.authorId) : undefined;
+    if (author?.blockedUserIds.includes(user.id)) {
+      return res.status(403).json({ message: "You can't react to this person" });
+    }
+
+    const userName = `${user.firstName || ""} ${user.lastName || ""}`.trim() || "Anonymous";
+    const updated = await storage.setReaction(
+      conversation.id,
+      message.id,
+      { kind: kind.data, userId: user.id, userName },
+      reacted
+    );
+    if (!updated) return res.status(404).json({ message: "Message not found" });
+
+    res.set("ETag", versionToETag(updated.version));
+    res.json(updated);
+  };
+
+  app.put(api.conversations.addReaction.path, requireAuth, (req: AuthenticatedRequest, res) =>
+    respondToReaction(req, res, true)
+  );
+  app.delete(api.conversations.removeReaction.path, requireAuth, (req: AuthenticatedRequest, res) =>
+    respondToReaction(req, res, false)
+  );
+
   // === SUPPORTERS ===
 
   app.get(api.supporters.list.path, requireAuth, async (req: AuthenticatedRequest, res) => {
     const userId = req.user?.id;
     if (!userId) return res.status(401).json({ message: "Not authenticated" });
+    const memberId = await managedMemberId(userId, req.query.journeyId);
+    if (!memberId) return res.status(404).json({ message: "Journey not found" });
 
-    const mySupporters = await storage.getSupportersForMember(userId);
-    const supporting = await storage.getSupportingMembers(userId);
+    const mySupporters = await expireLapsedInvitations(
+      await storage.getSupportersForMember(memberId)
+    );
+    const supporting = await expireLapsedInvitations(await storage.getSupportingMembers(userId));
 
     // Enrich data with names if possible (in a real DB this is a join)
     // For now we'll fetch user details for each
@@ -334,9 +1049,14 @@ export async function registerRoutes(httpServer: Server, app: Express): Promise<
       return Promise.all(
         list.map(async (item) => {
           const user = await storage.getUser(item[idField]);
+          const journey = !user && (await storage.getJourney(item[idField]));
           return {
             ...item,
-            [nameField]: user ? `${user.firstName} ${user.lastName}` : "Unknown",
+            [nameField]: user
+              ? `${user.firstName} ${user.lastName}`
+              : journey
+                ? journey.title
+                : "Unknown",
             [emailField]: user?.email,
           };
         })
@@ -354,26 +1074,105 @@ export async function registerRoutes(httpServer: Server, app: Express): Promise<
 
   app.post(api.supporters.invite.path, requireAuth, async (req: AuthenticatedRequest, res) => {
     if (!req.user?.id) return res.status(401).json({ message: "Not authenticated" });
-    const userId = req.user.id;
     const input = api.supporters.invite.input.parse(req.body);
+    const memberId = await managedMemberId(req.user.id, input.journeyId);
+    if (!memberId) return res.status(404).json({ message: "Journey not found" });
+
+    const blocker = await inviteBlocker(memberId, input.email);
+    if (blocker) {
+      return res.status(400).json({
+        message: {
+          self: "You cannot invite yourself.",
+          blocked: "You can't invite this person.",
+          already_connected: "Already invited or connected.",
+        }[blocker],
+      });
+    }
+
+    const result = await sendInvitation(req.user, memberId, input.email, input.message);
+    if ("supporter" in result) return res.status(201).json(result.supporter);
+    res.status(202).json(result.invitation);
+  });
 
-    const invitedUser = await storage.getUserByEmail(input.email);
-    if (!invitedUser) {
-      // In this simple clone, we only invite registered users
-      return res.status(404).json({ message: "User not found. They need to register first." });
+  // Invite everyone in a pasted list or an uploaded CSV/vCard file, or with preview set, only
+  // report what would happen to each row
+  app.post(api.supporters.bulkInvite.path, requireAuth, async (req: AuthenticatedRequest, res) => {
+    if (!req.user?.id) return res.status(401).json({ message: "Not authenticated" });
+    const member = req.user;
+    try {
+      const input = api.supporters.bulkInvite.input.parse(req.body);
+      const memberId = await managedMemberId(member.id, input.journeyId);
+      if (!memberId) return res.status(404).json({ message: "Journey not found" });
+      const rows = parseContacts(input.content);
+      if (rows.length > MAX_BULK_INVITES) {
+        return res
+          .status(400)
+          .json({ message: `You can invite up to ${MAX_BULK_INVITES} people at a time` });
+      }
+
+      // One at a time, so a repeated address cannot slip past the duplicate check
+      const results: BulkInviteResult[] = [];
+      for (const row of rows) {
+        if (!row.email) {
+          results.push({ label: row.label, status: "invalid" });
+          continue;
+        }
+        const blocker = await inviteBlocker(memberId, row.email);
+        if (!blocker && !input.preview) {
+          await sendInvitation(member, memberId, row.email, input.message);
+        }
+        results.push({ label: row.label, email: row.email, status: blocker ?? "invited" });
+      }
+      res.json({ results });
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({ message: err.message });
+      }
+      throw err;
     }
+  });
 
-    if (invitedUser.id === userId) {
-      return res.status(400).json({ message: "You cannot invite yourself." });
+  // Email invitations this member has sent that have not been used or expired yet
+  app.get(api.supporters.invitations.path, requireAuth, async (req: AuthenticatedRequest, res) => {
+    if (!req.user?.id) return res.status(401).json({ message: "Not authenticated" });
+    const memberId = await managedMemberId(req.user.id, req.query.journeyId);
+    if (!memberId) return res.status(404).json({ message: "Journey not found" });
+    const invitations = await storage.getInvitationsForMember(memberId);
+    res.json(invitations.filter((i) => Date.parse(i.expiresAt) > Date.now()));
+  });
+
+  // Who sent an invitation link, for the signup page; public like the link itself
+  app.get(api.invitations.get.path, emailLinkLimiter, async (req, res) => {
+    const invitation = await findInvitation(String(req.params.token));
+    const member = invitation && (await storage.getUser(invitation.memberId));
+    const journey = invitation && !member && (await storage.getJourney(invitation.memberId));
+    if (!invitation || (!member && !journey)) {
+      return res.status(404).json({ message: "This invitation is invalid or has expired" });
     }
 
-    const existing = await storage.getSupporterRecord(userId, invitedUser.id);
-    if (existing) {
-      return res.status(400).json({ message: "Already invited or connected." });
+    res.json({
+      email: invitation.email,
+      memberName: member
+        ? `${member.firstName || ""} ${member.lastName || ""}`.trim() || member.email
+        : journey && journey.title,
+      message: invitation.message,
+    });
+  });
+
+  app.post(api.invitations.accept.path, requireAuth, async (req: AuthenticatedRequest, res) => {
+    if (!req.user?.id) return res.status(401).json({ message: "Not authenticated" });
+    const parsed = api.invitations.accept.input.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "The invitation token is missing", field: "token" });
     }
 
-    const supporter = await storage.createSupporter(userId, invitedUser.id);
-    res.status(201).json(supporter);
+    const invitation = await findInvitation(parsed.data.token);
+    if (!invitation) {
+      return res.status(404).json({ message: "This invitation is invalid or has expired" });
+    }
+
+    await acceptInvitation(parsed.data.token, req.user);
+    res.json({ message: "Invitation accepted" });
   });
 
   app.patch(
@@ -386,7 +1185,7 @@ export async function registerRoutes(httpServer: Server, app: Express): Promise<
       const input = api.supporters.updateStatus.input.parse(req.body);
 
       // Verify permission: User must be the supporter accepting an invite
-      const supporting = await storage.getSupportingMembers(userId);
+      const supporting = await expireLapsedInvitations(await storage.getSupportingMembers(userId));
       const record = supporting.find((s) => s.id === id);
 
       if (!record) {
@@ -394,12 +1193,424 @@ export async function registerRoutes(httpServer: Server, app: Express): Promise<
           .status(404)
           .json({ message: "Invitation not found or you are not the invitee." });
       }
+      if (record.status === "expired") {
+        return res.status(400).json({ message: "This invitation has expired" });
+      }
 
       const updated = await storage.updateSupporterStatus(id, input.status);
       res.json(updated);
     }
   );
 
+  app.patch(api.supporters.updateRole.path, requireAuth, async (req: AuthenticatedRequest, res) => {
+    if (!req.user?.id) return res.status(401).json({ message: "Not authenticated" });
+    const id = Number(req.params.id);
+    const userId = req.user.id;
+
+    // Verify permission: User must be the member (or a co-member) the supporter supports
+    if (!(await findManagedSupporter(userId, id))) {
+      return res.status(404).json({ message: "Supporter not found" });
+    }
+
+    try {
+      const input = api.supporters.updateRole.input.parse(req.body);
+      const updated = await storage.updateSupporterRole(id, input.role);
+      res.json(updated);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({ message: err.message });
+      }
+      throw err;
+    }
+  });
+
+  // The member gives an outstanding or lapsed invitation a fresh expiry and reminds the invitee
+  app.post(api.supporters.resend.path, requireAuth, async (req: AuthenticatedRequest, res) => {
+    if (!req.user?.id) return res.status(401).json({ message: "Not authenticated" });
+    const id = Number(req.params.id);
+
+    const record = await findManagedSupporter(req.user.id, id);
+    const invitee = record && (await storage.getUser(record.supporterId));
+    if (!record || !invitee) {
+      return res.status(404).json({ message: "Invitation not found" });
+    }
+    if (record.status !== "pending" && record.status !== "expired") {
+      return res.status(400).json({ message: "Only pending or expired invitations can be resent" });
+    }
+
+    const renewed = await storage.renewSupporterInvitation(
+      id,
+      new Date(Date.now() + INVITATION_TTL_MS).toISOString()
+    );
+    const memberName =
+      `${req.user.firstName || ""} ${req.user.lastName || ""}`.trim() || req.user.email;
+    await mailer.send({
+      to: invitee.email,
+      subject: `${memberName} is still hoping you'll join their SupportSpark circle`,
+      text: [
+        `Hi ${invitee.firstName || "there"},`,
+        "",
+        `${memberName} invited you to follow ${await followedUpdates(record.memberId)} on SupportSpark.`,
+        ...quoteInvitationMessage(renewed.message),
+        "",
+        "Accept or decline the invitation here (it expires in 14 days):",
+        "",
+        `${appUrl}/supporters`,
+      ].join("\n"),
+    });
+
+    res.json(renewed);
+  });
+
+  app.delete(api.supporters.cancel.path, requireAuth, async (req: AuthenticatedRequest, res) => {
+    if (!req.user?.id) return res.status(401).json({ message: "Not authenticated" });
+    const id = Number(req.params.id);
+
+    const record = await findManagedSupporter(req.user.id, id);
+    if (!record) {
+      return res.status(404).json({ message: "Invitation not found" });
+    }
+    if (record.status !== "pending" && record.status !== "expired") {
+      return res
+        .status(400)
+        .json({ message: "Only pending or expired invitations can be cancelled" });
+    }
+
+    await storage.removeSupporter(id);
+    res.json({ message: "Invitation cancelled" });
+  });
+
+  // Delete a supporter record and take the supporter out of the member's circles too, so an
+  // invitation later starts them in none
+  const endSupport = async (record: Supporter) => {
+    await storage.removeSupporter(record.id);
+    for (const circle of await storage.getCirclesForMember(record.memberId)) {
+      if (circle.supporterIds.includes(record.supporterId)) {
+        await storage.updateCircle(circle.id, {
+          supporterIds: circle.supporterIds.filter((id) => id !== record.supporterId),
+        });
+      }
+    }
+  };
+
+  app.delete(api.supporters.remove.path, requireAuth, async (req: AuthenticatedRequest, res) => {
+    if (!req.user?.id) return res.status(401).json({ message: "Not authenticated" });
+    const id = Number(req.params.id);
+    const userId = req.user.id;
+
+    // Either side of the relationship may end it; conversation access is checked against
+    // the supporter record on every request, so it ends as soon as the record is gone
+    const record =
+      (await findManagedSupporter(userId, id)) ??
+      (await storage.getSupportingMembers(userId)).find((s) => s.id === id);
+
+    if (!record) {
+      return res.status(404).json({ message: "Supporter not found" });
+    }
+
+    await endSupport(record);
+    res.json({
+      message: record.supporterId === userId ? "You have left the circle" : "Supporter removed",
+    });
+  });
+
+  // === CIRCLES ===
+
+  app.get(api.circles.list.path, requireAuth, async (req: AuthenticatedRequest, res) => {
+    if (!req.user?.id) return res.status(401).json({ message: "Not authenticated" });
+    const memberId = await managedMemberId(req.user.id, req.query.journeyId);
+    if (!memberId) return res.status(404).json({ message: "Journey not found" });
+    res.json(await storage.getCirclesForMember(memberId));
+  });
+
+  app.post(api.circles.create.path, requireAuth, async (req: AuthenticatedRequest, res) => {
+    if (!req.user?.id) return res.status(401).json({ message: "Not authenticated" });
+    try {
+      const input = api.circles.create.input.parse(req.body);
+      const memberId = await managedMemberId(req.user.id, input.journeyId);
+      if (!memberId) return res.status(404).json({ message: "Journey not found" });
+      const supporterIds = Array.from(new Set(input.supporterIds));
+      if (!(await areSupportersOf(memberId, supporterIds))) {
+        return res.status(400).json({ message: "Circles can only include your supporters" });
+      }
+
+      const circle = await storage.createCircle(memberId, input.name, supporterIds);
+      res.status(201).json(circle);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({ message: err.message });
+      }
+      throw err;
+    }
+  });
+
+  app.patch(api.circles.update.path, requireAuth, async (req: AuthenticatedRequest, res) => {
+    if (!req.user?.id) return res.status(401).json({ message: "Not authenticated" });
+    const circle = await storage.getCircle(Number(req.params.id));
+    if (!circle || !(await isJourneyMember(circle.memberId, req.user.id))) {
+      return res.status(404).json({ message: "Circle not found" });
+    }
+
+    try {
+      const input = api.circles.update.input.parse(req.body);
+      const supporterIds = input.supporterIds && Array.from(new Set(input.supporterIds));
+      if (supporterIds && !(await areSupportersOf(circle.memberId, supporterIds))) {
+        return res.status(400).json({ message: "Circles can only include your supporters" });
+      }
+
+      const updated = await storage.updateCircle(circle.id, {
+        ...(input.name !== undefined && { name: input.name }),
+        ...(supporterIds && { supporterIds }),
+      });
+      res.json(updated);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({ message: err.message });
+      }
+      throw err;
+    }
+  });
+
+  // Updates shared with a deleted circle stay visible only to the rest of their audience
+  app.delete(api.circles.delete.path, requireAuth, async (req: AuthenticatedRequest, res) => {
+    if (!req.user?.id) return res.status(401).json({ message: "Not authenticated" });
+    const circle = await storage.getCircle(Number(req.params.id));
+    if (!circle || !(await isJourneyMember(circle.memberId, req.user.id))) {
+      return res.status(404).json({ message: "Circle not found" });
+    }
+
+    await storage.deleteCircle(circle.id);
+    res.json({ message: "Circle deleted" });
+  });
+
+  // === SHARED JOURNEYS ===
+
+  app.get(api.journeys.list.path, requireAuth, async (req: AuthenticatedRequest, res) => {
+    if (!req.user?.id) return res.status(401).json({ message: "Not authenticated" });
+    const journeys = await storage.getJourneysForUser(req.user.id);
+    res.json(
+      await Promise.all(
+        journeys.map(async (journey) => ({
+          ...journey,
+          members: await Promise.all(
+            journey.memberIds.map(async (id) => {
+              const user = await storage.getUser(id);
+              const name = user && `${user.firstName || ""} ${user.lastName || ""}`.trim();
+              return { id, name: name || user?.email || "Unknown" };
+            })
+          ),
+        }))
+      )
+    );
+  });
+
+  app.post(api.journeys.create.path, requireAuth, async (req: AuthenticatedRequest, res) => {
+    if (!req.user?.id) return res.status(401).json({ message: "Not authenticated" });
+    try {
+      const input = api.journeys.create.input.parse(req.body);
+      res.status(201).json(await storage.createJourney(input.title, [req.user.id]));
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({ message: err.message });
+      }
+      throw err;
+    }
+  });
+
+  app.patch(api.journeys.update.path, requireAuth, async (req: AuthenticatedRequest, res) => {
+    if (!req.user?.id) return res.status(401).json({ message: "Not authenticated" });
+    const journey = await storage.getJourney(String(req.params.id));
+    if (!journey || !journey.memberIds.includes(req.user.id)) {
+      return res.status(404).json({ message: "Journey not found" });
+    }
+
+    try {
+      const input = api.journeys.update.input.parse(req.body);
+      res.json(await storage.updateJourney(journey.id, { title: input.title }));
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({ message: err.message });
+      }
+      throw err;
+    }
+  });
+
+  // Only verified accounts can be added, so an address cannot be claimed into a journey later
+  app.post(api.journeys.addMember.path, requireAuth, async (req: AuthenticatedRequest, res) => {
+    if (!req.user?.id) return res.status(401).json({ message: "Not authenticated" });
+    const journey = await storage.getJourney(String(req.params.id));
+    if (!journey || !journey.memberIds.includes(req.user.id)) {
+      return res.status(404).json({ message: "Journey not found" });
+    }
+
+    try {
+      const input = api.journeys.addMember.input.parse(req.body);
+      const user = await storage.getUserByEmail(input.email);
+      if (!user || !user.emailVerified) {
+        return res.status(404).json({ message: "Verified user with that email not found" });
+      }
+      if (journey.memberIds.includes(user.id)) {
+        return res.status(400).json({ message: "They already share this journey." });
+      }
+      const members = await Promise.all(journey.memberIds.map((id) => storage.getUser(id)));
+      if (members.some((member) => member && blockedBetween(member, user))) {
+        return res.status(400).json({ message: "You can't add this person." });
+      }
+
+      // A supporter who becomes a co-member no longer needs their supporter record
+      const record = await storage.getSupporterRecord(journey.id, user.id);
+      if (record) await endSupport(record);
+      res.json(
+        await storage.updateJourney(journey.id, { memberIds: [...journey.memberIds, user.id] })
+      );
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({ message: err.message });
+      }
+      throw err;
+    }
+  });
+
+  // Co-members are equals: any of them can remove another, or leave themselves
+  app.delete(
+    api.journeys.removeMember.path,
+    requireAuth,
+    async (req: AuthenticatedRequest, res) => {
+      if (!req.user?.id) return res.status(401).json({ message: "Not authenticated" });
+      const userId = String(req.params.userId);
+      const journey = await storage.getJourney(String(req.params.id));
+      if (!journey || !journey.memberIds.includes(req.user.id)) {
+        return res.status(404).json({ message: "Journey not found" });
+      }
+      if (!journey.memberIds.includes(userId)) {
+        return res.status(404).json({ message: "They are not a co-member of this journey" });
+      }
+      if (journey.memberIds.length === 1) {
+        return res.status(400).json({ message: "A journey needs at least one co-member." });
+      }
+
+      await storage.updateJourney(journey.id, {
+        memberIds: journey.memberIds.filter((id) => id !== userId),
+      });
+      res.json({
+        message: userId === req.user.id ? "You have left the journey" : "Co-member removed",
+      });
+    }
+  );
+
+  // === BLOCKS AND REPORTS ===
+
+  app.get(api.blocks.list.path, requireAuth, async (req: AuthenticatedRequest, res) => {
+    if (!req.user?.id) return res.status(401).json({ message: "Not authenticated" });
+    const blocked = await Promise.all(
+      req.user.blockedUserIds.map(async (userId) => {
+        const user = await storage.getUser(userId);
+        const name = user && `${user.firstName || ""} ${user.lastName || ""}`.trim();
+        return { userId, name: name || "Unknown" };
+      })
+    );
+    res.json(blocked);
+  });
+
+  app.post(api.blocks.create.path, requireAuth, async (req: AuthenticatedRequest, res) => {
+    if (!req.user?.id) return res.status(401).json({ message: "Not authenticated" });
+    const user = req.user;
+    try {
+      const input = api.blocks.create.input.parse(req.body);
+      if (input.userId === user.id) {
+        return res.status(400).json({ message: "You cannot block yourself." });
+      }
+      if (!(await storage.getUser(input.userId))) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      if (!user.blockedUserIds.includes(input.userId)) {
+        await storage.updateUser(user.id, {
+          blockedUserIds: [...user.blockedUserIds, input.userId],
+        });
+      }
+      // Whichever of them was supporting the other (or a journey the other shares) stops,
+      // including pending invitations
+      for (const memberId of await ownedMemberIds(user.id)) {
+        const record = await storage.getSupporterRecord(memberId, input.userId);
+        if (record) await endSupport(record);
+      }
+      for (const memberId of await ownedMemberIds(input.userId)) {
+        const record = await storage.getSupporterRecord(memberId, user.id);
+        if (record) await endSupport(record);
+      }
+      res.status(201).json({ message: "User blocked" });
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({ message: err.message });
+      }
+      throw err;
+    }
+  });
+
+  // Unblocking does not restore any supporter relationship; the member invites them again
+  app.delete(api.blocks.delete.path, requireAuth, async (req: AuthenticatedRequest, res) => {
+    if (!req.user?.id) return res.status(401).json({ message: "Not authenticated" });
+    const userId = String(req.params.userId);
+    if (!req.user.blockedUserIds.includes(userId)) {
+      return res.status(404).json({ message: "You have not blocked this person" });
+    }
+
+    await storage.updateUser(req.user.id, {
+      blockedUserIds: req.user.blockedUserIds.filter((id) => id !== userId),
+    });
+    res.json({ message: "User unblocked" });
+  });
+
+  // Reports keep ids rather than a copy of the message, so the content stays encrypted at rest
+  app.post(api.reports.create.path, requireAuth, async (req: AuthenticatedRequest, res) => {
+    if (!req.user?.id) return res.status(401).json({ message: "Not authenticated" });
+    const reporterId = req.user.id;
+    try {
+      const input = api.reports.create.input.parse(req.body);
+
+      let reportedUserId = input.userId;
+      if (input.messageId !== undefined) {
+        const conversation =
+          input.conversationId !== undefined
+            ? await storage.getConversation(input.conversationId)
+            : undefined;
+        if (!conversation) {
+          return res.status(404).json({ message: "Conversation not found" });
+        }
+        if (!(await conversationAccess(conversation, reporterId))) {
+          return res.status(403).json({ message: "Access denied" });
+        }
+        const message = findMessage(conversation.data.messages, input.messageId);
+        if (!message) return res.status(404).json({ message: "Message not found" });
+        reportedUserId = message.authorId;
+      } else if (reportedUserId === undefined) {
+        return res.status(400).json({ message: "Name a message or a person to report" });
+      } else if (!(await storage.getUser(reportedUserId))) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      if (reportedUserId === reporterId) {
+        return res.status(400).json({ message: "You cannot report yourself." });
+      }
+
+      const report = await storage.createReport({
+        reporterId,
+        reportedUserId,
+        ...(input.messageId !== undefined && {
+          conversationId: input.conversationId,
+          messageId: input.messageId,
+        }),
+        reason: input.reason,
+      });
+      res.status(201).json(report);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({ message: err.message });
+      }
+      throw err;
+    }
+  });
+
   // === DEMO ROUTES ===
 
   // Login as demo member
@@ -465,17 +1676,14 @@ export async function registerRoutes(httpServer: Server, app: Express): Promise<
 
   // === IMAGE UPLOAD ===
 
+  // Images are encrypted at rest with the member's data key when DATA_ENCRYPTION_KEY is set. The
+  // storage supplies the encryption, so the keys sit in the same data directory as the images
+  const encryption = storage.getImageEncryption();
+
   // Configure multer for conversation image uploads
   const imageStorage = multer.diskStorage({
     destination: async (req, file, cb) => {
-      const conversationId = req.params.id;
-      const uploadDir = path.join(
-        process.cwd(),
-        "data",
-        "conversations",
-        `conv-${conversationId}`,
-        "images"
-      );
+      const uploadDir = storage.getImageDir(Number(req.params.id));
       try {
         await fs.mkdir(uploadDir, { recursive: true });
         cb(null, uploadDir);
@@ -506,8 +1714,33 @@ export async function registerRoutes(httpServer: Server, app: Express): Promise<
     },
   });
 
-  // Middleware to verify member ownership before upload
-  const verifyMemberOwnership: AuthMiddleware = async (req: AuthenticatedRequest, res, next) => {
+  // Middleware to verify the user is the member or posts for them before upload
+  const verifyPostingAccess: AuthMiddleware = async (req: AuthenticatedRequest, res, next) => {
+    const userId = req.user?.id;
+    if (!userId) {
+      res.status(401).json({ message: "Not authenticated" });
+      return;
+    }
+
+    const id = Number(req.params.id);
+    const conversation = await storage.getConversation(id);
+
+    if (!conversation) {
+      res.status(404).json({ message: "Conversation not found" });
+      return;
+    }
+
+    if (!(await canPostFor(conversation.memberId, userId))) {
+      res.status(403).json({ message: "Only the member or their caregivers can upload images" });
+      return;
+    }
+
+    res.locals.conversation = conversation;
+    next();
+  };
+
+  // Middleware to verify the user may see the conversation (same as get)
+  const verifyConversationAccess: AuthMiddleware = async (req: AuthenticatedRequest, res, next) => {
     const userId = req.user?.id;
     if (!userId) {
       res.status(401).json({ message: "Not authenticated" });
@@ -522,8 +1755,8 @@ export async function registerRoutes(httpServer: Server, app: Express): Promise<
       return;
     }
 
-    if (conversation.memberId !== userId) {
-      res.status(403).json({ message: "Only the member can upload images" });
+    if (!(await conversationAccess(conversation, userId))) {
+      res.status(403).json({ message: "Access denied" });
       return;
     }
 
@@ -534,11 +1767,22 @@ export async function registerRoutes(httpServer: Server, app: Express): Promise<
   app.post(
     "/api/conversations/:id/images",
     requireAuth,
-    verifyMemberOwnership,
+    verifyPostingAccess,
     imageUpload.array("images", 5),
     async (req: AuthenticatedRequest, res) => {
       const id = Number(req.params.id);
       const files = req.files as Express.Multer.File[];
+      // Set by verifyPostingAccess; a caregiver's or co-member's upload is still the member's file
+      const { memberId } = res.locals.conversation as Conversation;
+
+      // Multer writes plaintext; replace each file with its encrypted form before responding
+      if (encryption) {
+        for (const file of files) {
+          const image = await fs.readFile(file.path);
+          await fs.writeFile(file.path, await encryption.encryptBuffer(memberId, image));
+        }
+      }
+
       const imageUrls = files.map((f) => `/api/conversations/${id}/images/${f.filename}`);
 
       res.json({ images: imageUrls });
@@ -546,24 +1790,25 @@ export async function registerRoutes(httpServer: Server, app: Express): Promise<
   );
 
   // Serve uploaded images
-  app.get("/api/conversations/:id/images/:filename", async (req, res) => {
-    const { id, filename } = req.params;
-    const imagePath = path.join(
-      process.cwd(),
-      "data",
-      "conversations",
-      `conv-${id}`,
-      "images",
-      filename
-    );
+  app.get(
+    "/api/conversations/:id/images/:filename",
+    requireAuth,
+    verifyConversationAccess,
+    async (req, res) => {
+      const filename = String(req.params.filename);
+      const imagePath = path.join(storage.getImageDir(Number(req.params.id)), filename);
 
-    try {
-      await fs.access(imagePath);
-      res.sendFile(imagePath);
-    } catch {
-      res.status(404).json({ message: "Image not found" });
+      try {
+        await fs.access(imagePath);
+      } catch {
+        return res.status(404).json({ message: "Image not found" });
+      }
+
+      if (!encryption) return res.sendFile(imagePath);
+      const image = await encryption.decryptBuffer(await fs.readFile(imagePath), imagePath);
+      res.type(path.extname(filename)).send(image);
     }
-  });
+  );
 
   // === TEST-ONLY ENDPOINTS ===
   // These endpoints are only available in test environment for verifying rate limiting
@@ -1,12 +1,25 @@
 import { describe, it, expect, beforeEach, afterEach } from "vitest";
-import { FileStorage } from "./storage";
+import {
+  FileStorage,
+  SqliteStorage,
+  InMemoryStorage,
+  createStorage,
+  ConversationVersionConflictError,
+} from "./storage";
 import type { InsertUser, Message } from "@shared/schema";
 import fs from "fs/promises";
+import os from "os";
 import path from "path";
+import Database from "better-sqlite3";
+import { randomBytes } from "crypto";
+import { DataEncryption, EncryptionError } from "./encryption";
 
 // Use a test data directory
 const TEST_DATA_DIR = path.join(process.cwd(), "data-test");
 
+// Far enough ahead that invitations created in tests stay pending
+const INVITE_EXPIRY = "2099-01-01T00:00:00.000Z";
+
 describe("FileStorage", () => {
   let storage: FileStorage;
 
@@ -31,7 +44,7 @@ describe("FileStorage", () => {
 
   describe("User Operations", () => {
     beforeEach(() => {
-      storage = new FileStorage();
+      storage = new FileStorage(TEST_DATA_DIR);
     });
 
     it("should create a new user", async () => {
@@ -90,11 +103,82 @@ describe("FileStorage", () => {
       const user = await storage.getUserByEmail("nonexistent@example.com");
       expect(user).toBeUndefined();
     });
+
+    it("should update and persist user fields", async () => {
+      const createdUser = await storage.createUser({
+        email: "test@example.com",
+        password: "hashedpassword123",
+      });
+
+      const updated = await storage.updateUser(createdUser.id, { password: "newhash456" });
+      const reloaded = await new FileStorage(TEST_DATA_DIR).getUser(createdUser.id);
+
+      expect(updated.password).toBe("newhash456");
+      expect(reloaded?.password).toBe("newhash456");
+      expect(reloaded?.email).toBe(createdUser.email);
+      await expect(storage.updateUser("non-existent-id", {})).rejects.toThrow("User not found");
+    });
+  });
+
+  describe("Read Marker Operations", () => {
+    beforeEach(() => {
+      storage = new FileStorage(TEST_DATA_DIR);
+    });
+
+    it("should keep a read marker per user and conversation without touching users", async () => {
+      const reader = await storage.createUser({ email: "reader@example.com", password: "hashed" });
+      const other = await storage.createUser({ email: "other@example.com", password: "hashed" });
+      const usersBefore = await fs.readFile(path.join(TEST_DATA_DIR, "users.json"), "utf-8");
+
+      await Promise.all([
+        storage.markConversationRead(reader.id, 1),
+        storage.markConversationRead(reader.id, 2),
+        storage.markConversationRead(other.id, 1),
+      ]);
+      const reread = await storage.markConversationRead(reader.id, 1);
+      const reloaded = new FileStorage(TEST_DATA_DIR);
+
+      const markers = await reloaded.getReadMarkers(1);
+      expect(markers).toHaveLength(2);
+      expect(markers).toContainEqual(reread);
+      expect((await reloaded.getReadMarkers(2)).map((m) => m.userId)).toEqual([reader.id]);
+      expect(await fs.readFile(path.join(TEST_DATA_DIR, "users.json"), "utf-8")).toBe(usersBefore);
+      await expect(storage.markConversationRead("non-existent-id", 1)).rejects.toThrow(
+        "User not found"
+      );
+    });
+
+    it("should move read markers off users written before they had their own file", async () => {
+      const legacyUser = {
+        id: "reader",
+        email: "reader@example.com",
+        password: "hashed",
+        emailVerified: true,
+        blockedUserIds: [],
+        lastReadAt: { "3": "2026-01-02T00:00:00.000Z" },
+      };
+      // Let the instance from beforeEach finish creating its files, then start over
+      await storage.getReadMarkers(3);
+      await fs.rm(TEST_DATA_DIR, { recursive: true, force: true });
+      await fs.mkdir(TEST_DATA_DIR, { recursive: true });
+      await fs.writeFile(
+        path.join(TEST_DATA_DIR, "users.json"),
+        JSON.stringify({ formatVersion: 5, content: [legacyUser] })
+      );
+
+      storage = new FileStorage(TEST_DATA_DIR);
+      expect(await storage.getReadMarkers(3)).toEqual([
+        { userId: "reader", conversationId: 3, readAt: "2026-01-02T00:00:00.000Z" },
+      ]);
+      const users = JSON.parse(await fs.readFile(path.join(TEST_DATA_DIR, "users.json"), "utf-8"));
+      expect(users.content[0]).not.toHaveProperty("lastReadAt");
+      expect(await new FileStorage(TEST_DATA_DIR).getReadMarkers(3)).toHaveLength(1);
+    });
   });
 
   describe("Conversation Operations", () => {
     beforeEach(async () => {
-      storage = new FileStorage();
+      storage = new FileStorage(TEST_DATA_DIR);
     });
 
     it("should create a new conversation", async () => {
@@ -211,11 +295,57 @@ describe("FileStorage", () => {
       const conversation = await storage.getConversation(999999);
       expect(conversation).toBeUndefined();
     });
+
+    it("should delete the conversation file and index entry without reusing the ID", async () => {
+      const user = await storage.createUser({
+        email: "member@example.com",
+        password: "hashed",
+      });
+
+      const initialMessage: Message = {
+        id: "msg-1",
+        authorId: user.id,
+        authorName: "Test User",
+        content: "Goodbye",
+        timestamp: new Date().toISOString(),
+      };
+
+      const conversation = await storage.createConversation(user.id, "Old", initialMessage);
+      const memberDir = path.join(TEST_DATA_DIR, "conversations", user.id);
+      const filePath = path.join(memberDir, `${conversation.id}.json`);
+      const imageDir = storage.getImageDir(conversation.id);
+      await fs.mkdir(imageDir, { recursive: true });
+      await fs.writeFile(path.join(imageDir, "photo.png"), "image");
+
+      await expect(storage.deleteConversation(conversation.id, 2)).rejects.toBeInstanceOf(
+        ConversationVersionConflictError
+      );
+      await storage.markConversationRead(user.id, conversation.id);
+      await storage.deleteConversation(conversation.id, 1);
+
+      expect(await storage.getConversation(conversation.id)).toBeUndefined();
+      expect(await storage.getReadMarkers(conversation.id)).toEqual([]);
+      await expect(fs.access(filePath)).rejects.toThrow();
+      expect(path.dirname(imageDir)).toBe(
+        path.join(TEST_DATA_DIR, "conversations", `conv-${conversation.id}`)
+      );
+      await expect(fs.access(path.dirname(imageDir))).rejects.toThrow();
+      const { content: index } = JSON.parse(
+        await fs.readFile(path.join(TEST_DATA_DIR, "conversations", "index.json"), "utf-8")
+      );
+      expect(index.map((entry: { id: number }) => entry.id)).not.toContain(conversation.id);
+      await expect(storage.deleteConversation(conversation.id)).rejects.toThrow(
+        "Conversation not found"
+      );
+
+      const next = await storage.createConversation(user.id, "New", initialMessage);
+      expect(next.id).toBeGreaterThan(conversation.id);
+    });
   });
 
   describe("Supporter Operations", () => {
     beforeEach(async () => {
-      storage = new FileStorage();
+      storage = new FileStorage(TEST_DATA_DIR);
     });
 
     it("should create supporter relationship", async () => {
@@ -229,7 +359,7 @@ describe("FileStorage", () => {
         password: "hashed",
       });
 
-      const relationship = await storage.createSupporter(member.id, supporter.id);
+      const relationship = await storage.createSupporter(member.id, supporter.id, INVITE_EXPIRY);
 
       expect(relationship).toBeDefined();
       expect(relationship.id).toBeDefined();
@@ -254,8 +384,8 @@ describe("FileStorage", () => {
         password: "hashed",
       });
 
-      await storage.createSupporter(member.id, supporter1.id);
-      await storage.createSupporter(member.id, supporter2.id);
+      await storage.createSupporter(member.id, supporter1.id, INVITE_EXPIRY);
+      await storage.createSupporter(member.id, supporter2.id, INVITE_EXPIRY);
 
       const supporters = await storage.getSupportersForMember(member.id);
 
@@ -281,8 +411,8 @@ describe("FileStorage", () => {
         password: "hashed",
       });
 
-      await storage.createSupporter(member1.id, supporter.id);
-      await storage.createSupporter(member2.id, supporter.id);
+      await storage.createSupporter(member1.id, supporter.id, INVITE_EXPIRY);
+      await storage.createSupporter(member2.id, supporter.id, INVITE_EXPIRY);
 
       const supporting = await storage.getSupportingMembers(supporter.id);
 
@@ -303,7 +433,7 @@ describe("FileStorage", () => {
         password: "hashed",
       });
 
-      const relationship = await storage.createSupporter(member.id, supporter.id);
+      const relationship = await storage.createSupporter(member.id, supporter.id, INVITE_EXPIRY);
       expect(relationship.status).toBe("pending");
 
       const updated = await storage.updateSupporterStatus(relationship.id, "accepted");
@@ -321,7 +451,7 @@ describe("FileStorage", () => {
         password: "hashed",
       });
 
-      const relationship = await storage.createSupporter(member.id, supporter.id);
+      const relationship = await storage.createSupporter(member.id, supporter.id, INVITE_EXPIRY);
       const updated = await storage.updateSupporterStatus(relationship.id, "rejected");
       expect(updated.status).toBe("rejected");
     });
@@ -337,7 +467,7 @@ describe("FileStorage", () => {
         password: "hashed",
       });
 
-      await storage.createSupporter(member.id, supporter.id);
+      await storage.createSupporter(member.id, supporter.id, INVITE_EXPIRY);
 
       const record = await storage.getSupporterRecord(member.id, supporter.id);
 
@@ -350,11 +480,139 @@ describe("FileStorage", () => {
       const record = await storage.getSupporterRecord("non-existent-1", "non-existent-2");
       expect(record).toBeUndefined();
     });
+
+    it("should remove a supporter relationship", async () => {
+      const member = await storage.createUser({
+        email: "member@example.com",
+        password: "hashed",
+      });
+
+      const supporter = await storage.createUser({
+        email: "supporter@example.com",
+        password: "hashed",
+      });
+
+      const relationship = await storage.createSupporter(member.id, supporter.id, INVITE_EXPIRY);
+      await storage.removeSupporter(relationship.id);
+
+      expect(await storage.getSupporterRecord(member.id, supporter.id)).toBeUndefined();
+      expect(await storage.getSupportersForMember(member.id)).toEqual([]);
+      await expect(storage.removeSupporter(relationship.id)).rejects.toThrow(
+        "Supporter record not found"
+      );
+    });
+  });
+
+  describe("Invitation Operations", () => {
+    beforeEach(async () => {
+      storage = new FileStorage(TEST_DATA_DIR);
+    });
+
+    it("should create, list and delete email invitations", async () => {
+      const expiresAt = new Date(Date.now() + 60_000).toISOString();
+      const first = await storage.createInvitation("member-a", "one@example.com", expiresAt);
+      const second = await storage.createInvitation("member-a", "two@example.com", expiresAt);
+      await storage.createInvitation("member-b", "one@example.com", expiresAt);
+
+      expect(second.id).toBe(first.id + 1);
+      expect(await storage.getInvitation(first.id)).toEqual(first);
+
+      await storage.deleteInvitation(first.id);
+      await storage.deleteInvitation(first.id);
+
+      const reloaded = new FileStorage(TEST_DATA_DIR);
+      expect(await reloaded.getInvitationsForMember("member-a")).toEqual([second]);
+      expect(await reloaded.getInvitation(first.id)).toBeUndefined();
+    });
+  });
+
+  describe("Circle Operations", () => {
+    beforeEach(async () => {
+      storage = new FileStorage(TEST_DATA_DIR);
+    });
+
+    it("should create, rename and delete circles", async () => {
+      const family = await storage.createCircle("member-a", "Family", ["supporter-1"]);
+      const work = await storage.createCircle("member-a", "Work", []);
+      await storage.createCircle("member-b", "Church", []);
+
+      const renamed = await storage.updateCircle(work.id, {
+        name: "Colleagues",
+        supporterIds: ["supporter-2"],
+      });
+      expect(renamed).toMatchObject({ id: work.id, name: "Colleagues" });
+
+      await storage.deleteCircle(family.id);
+      await expect(storage.deleteCircle(family.id)).rejects.toThrow("Circle not found");
+      await expect(storage.updateCircle(family.id, { name: "Gone" })).rejects.toThrow(
+        "Circle not found"
+      );
+
+      const reloaded = new FileStorage(TEST_DATA_DIR);
+      expect(await reloaded.getCirclesForMember("member-a")).toEqual([renamed]);
+      expect(await reloaded.getCircle(family.id)).toBeUndefined();
+    });
+
+    it("should store the audience a conversation was shared with", async () => {
+      const initialMessage: Message = {
+        id: "msg-1",
+        authorId: "member-a",
+        authorName: "Member",
+        content: "Only for family",
+        timestamp: new Date().toISOString(),
+      };
+      const audience = { circleIds: [1], supporterIds: ["supporter-2"] };
+
+      const shared = await storage.createConversation(
+        "member-a",
+        "Family news",
+        initialMessage,
+        audience
+      );
+      const everyone = await storage.createConversation("member-a", "For all", initialMessage);
+
+      const reloaded = new FileStorage(TEST_DATA_DIR);
+      expect((await reloaded.getConversation(shared.id))?.audience).toEqual(audience);
+      expect((await reloaded.getConversation(everyone.id))?.audience).toBeUndefined();
+    });
+  });
+
+  describe("Journey Operations", () => {
+    beforeEach(async () => {
+      storage = new FileStorage(TEST_DATA_DIR);
+    });
+
+    it("should create journeys and change their co-members", async () => {
+      const journey = await storage.createJourney("Our son's recovery", ["parent-a"]);
+      const updated = await storage.updateJourney(journey.id, {
+        memberIds: ["parent-a", "parent-b"],
+      });
+      await expect(storage.updateJourney("missing", { title: "Gone" })).rejects.toThrow(
+        "Journey not found"
+      );
+
+      const initialMessage: Message = {
+        id: "msg-1",
+        authorId: "parent-b",
+        authorName: "Parent B",
+        content: "Home from hospital",
+        timestamp: new Date().toISOString(),
+      };
+      const conversation = await storage.createConversation(journey.id, "Week one", initialMessage);
+
+      const reloaded = new FileStorage(TEST_DATA_DIR);
+      expect(await reloaded.getJourney(journey.id)).toEqual(updated);
+      expect(await reloaded.getJourneysForUser("parent-b")).toEqual([updated]);
+      expect(await reloaded.getJourneysForUser("someone-else")).toEqual([]);
+      expect((await reloaded.getConversationsForUser("parent-a")).map((c) => c.id)).toEqual([
+        conversation.id,
+      ]);
+    });
   });
 
   describe("Atomic Write Operations (STORAGE1 Fix)", () => {
     beforeEach(async () => {
-      storage = new FileStorage();
+      storage = new FileStorage(TEST_DATA_DIR);
     });
 
     it("should persist user data atomically", async () => {
@@ -419,9 +677,331 @@ describe("FileStorage", () => {
     });
   });
 
+  describe("Concurrent Replies", () => {
+    beforeEach(async () => {
+      storage = new FileStorage(TEST_DATA_DIR);
+    });
+
+    it("should not lose replies appended at the same time", async () => {
+      const user = await storage.createUser({
+        email: "concurrent@example.com",
+        password: "hashed",
+      });
+
+      const root: Message = {
+        id: "root",
+        authorId: user.id,
+        authorName: "User",
+        content: "Root",
+        timestamp: new Date().toISOString(),
+      };
+      const conversation = await storage.createConversation(user.id, "Busy thread", root);
+
+      const reply = (i: number): Message => ({
+        id: `reply-${i}`,
+        authorId: user.id,
+        authorName: "User",
+        content: `Reply ${i}`,
+        timestamp: new Date().toISOString(),
+      });
+
+      // Half top-level messages, half nested replies to the root message
+      await Promise.all(
+        Array.from({ length: 20 }, (_, i) =>
+          storage.appendMessage(conversation.id, i % 2 === 0 ? undefined : "root", reply(i))
+        )
+      );
+
+      const retrieved = await storage.getConversation(conversation.id);
+      expect(retrieved?.data.messages).toHaveLength(11);
+      expect(retrieved?.data.messages[0].replies).toHaveLength(10);
+    });
+
+    it("should return undefined for a missing parent message", async () => {
+      const user = await storage.createUser({
+        email: "concurrent@example.com",
+        password: "hashed",
+      });
+      const conversation = await storage.createConversation(user.id, "Thread", {
+        id: "root",
+        authorId: user.id,
+        authorName: "User",
+        content: "Root",
+        timestamp: new Date().toISOString(),
+      });
+
+      const result = await storage.appendMessage(conversation.id, "missing", {
+        id: "orphan",
+        authorId: user.id,
+        authorName: "User",
+        content: "Orphan",
+        timestamp: new Date().toISOString(),
+      });
+
+      expect(result).toBeUndefined();
+    });
+
+    it("should bump the version on each write and reject stale versions", async () => {
+      const user = await storage.createUser({
+        email: "versioned@example.com",
+        password: "hashed",
+      });
+      const reply = (id: string): Message => ({
+        id,
+        authorId: user.id,
+        authorName: "User",
+        content: id,
+        timestamp: new Date().toISOString(),
+      });
+      const conversation = await storage.createConversation(user.id, "Thread", reply("root"));
+      expect(conversation.version).toBe(1);
+
+      const appended = await storage.appendMessage(conversation.id, undefined, reply("a"), 1);
+      expect(appended?.version).toBe(2);
+
+      await expect(
+        storage.appendMessage(conversation.id, undefined, reply("b"), 1)
+      ).rejects.toBeInstanceOf(ConversationVersionConflictError);
+      await expect(
+        storage.updateConversation(conversation.id, { ...appended!, title: "Renamed" }, 1)
+      ).rejects.toMatchObject({ currentVersion: 2 });
+
+      const renamed = await storage.updateConversation(
+        conversation.id,
+        { ...appended!, title: "Renamed" },
+        2
+      );
+      expect(renamed.version).toBe(3);
+      expect((await storage.getConversation(conversation.id))?.data.messages).toHaveLength(2);
+    });
+  });
+
+  describe("Editing and Deleting Messages", () => {
+    let userId: string;
+    let conversationId: number;
+
+    const message = (id: string, replies: Message[] = []): Message => ({
+      id,
+      authorId: userId,
+      authorName: "User",
+      content: id,
+      timestamp: new Date().toISOString(),
+      images: [`/uploads/${id}.png`],
+      replies,
+    });
+
+    beforeEach(async () => {
+      storage = new FileStorage(TEST_DATA_DIR);
+      userId = (await storage.createUser({ email: "editor@example.com", password: "hashed" })).id;
+      const conversation = await storage.createConversation(userId, "Thread", message("root"));
+      conversationId = conversation.id;
+      await storage.appendMessage(conversationId, "root", message("reply"));
+      await storage.appendMessage(conversationId, "reply", message("nested"));
+    });
+
+    it("should keep earlier versions when a nested message is edited", async () => {
+      await storage.editMessage(conversationId, "nested", "First fix");
+      const edited = await storage.editMessage(conversationId, "nested", "Second fix", 4);
+
+      const nested = edited?.data.messages[0].replies![0].replies![0];
+      expect(edited?.version).toBe(5);
+      expect(nested?.content).toBe("Second fix");
+      expect(nested?.editedAt).toBeDefined();
+      expect(nested?.editHistory?.map((e) => e.content)).toEqual(["nested", "First fix"]);
+      expect(await storage.editMessage(conversationId, "missing", "Nope")).toBeUndefined();
+    });
+
+    it("should leave a tombstone for a deleted message that has replies", async () => {
+      await storage.editMessage(conversationId, "reply", "Regretted");
+      const deleted = await storage.deleteMessage(conversationId, "reply");
+
+      const tombstone = deleted?.data.messages[0].replies![0];
+      expect(tombstone).toMatchObject({ id: "reply", content: "", deleted: true });
+      expect(tombstone?.images).toBeUndefined();
+      expect(tombstone?.editHistory).toBeUndefined();
+      expect(tombstone?.replies?.map((r) => r.id)).toEqual(["nested"]);
+      expect(await storage.editMessage(conversationId, "reply", "Back again")).toBeUndefined();
+
+      // Deleting the last reply under a tombstone takes the tombstone with it
+      const emptied = await storage.deleteMessage(conversationId, "nested");
+      expect(emptied?.data.messages[0].replies).toEqual([]);
+      expect(await storage.deleteMessage(conversationId, "nested")).toBeUndefined();
+    });
+  });
+
+  describe("Reactions", () => {
+    beforeEach(async () => {
+      storage = new FileStorage(TEST_DATA_DIR);
+    });
+
+    it("should not lose reactions added at the same time", async () => {
+      const user = await storage.createUser({ email: "member@example.com", password: "hashed" });
+      const conversation = await storage.createConversation(user.id, "Thread", {
+        id: "root",
+        authorId: user.id,
+        authorName: "Member",
+        content: "Hard day",
+        timestamp: new Date().toISOString(),
+      });
+
+      await Promise.all(
+        Array.from({ length: 10 }, (_, i) =>
+          storage.setReaction(
+            conversation.id,
+            "root",
+            { kind: "hug", userId: `friend-${i}`, userName: `Friend ${i}` },
+            true
+          )
+        )
+      );
+      const hugs = (await storage.getConversation(conversation.id))?.data.messages[0].reactions;
+      expect(hugs).toHaveLength(10);
+
+      // Reacting twice keeps one reaction, and taking it back twice is harmless
+      const reaction = { kind: "heart" as const, userId: "friend-0", userName: "Friend 0" };
+      await storage.setReaction(conversation.id, "root", reaction, true);
+      const twice = await storage.setReaction(conversation.id, "root", reaction, true);
+      expect(twice?.data.messages[0].reactions).toHaveLength(11);
+      await storage.setReaction(conversation.id, "root", reaction, false);
+      const undone = await storage.setReaction(conversation.id, "root", reaction, false);
+      expect(undone?.data.messages[0].reactions?.map((r) => r.kind)).not.toContain("heart");
+      expect(await storage.setReaction(conversation.id, "missing", reaction, true)).toBeUndefined();
+    });
+  });
+
+  describe("Encryption at Rest", () => {
+    const masterKey = randomBytes(32);
+    const message: Message = {
+      id: "msg-1",
+      authorId: "member",
+      authorName: "Member",
+      content: "The biopsy came back clear",
+      timestamp: new Date().toISOString(),
+    };
+    const conversationFile = (id: number) =>
+      path.join(TEST_DATA_DIR, "conversations", "member", `${id}.json`);
+
+    it("should write conversation files that only decrypt with the key", async () => {
+      storage = new FileStorage(TEST_DATA_DIR, new DataEncryption(TEST_DATA_DIR, masterKey));
+      const conversation = await storage.createConversation("member", "Results", message);
+
+      const onDisk = await fs.readFile(conversationFile(conversation.id), "utf-8");
+      expect(onDisk).not.toContain("biopsy");
+      expect(onDisk).not.toContain("Results");
+
+      const reopened = new FileStorage(TEST_DATA_DIR, new DataEncryption(TEST_DATA_DIR, masterKey));
+      const read = await reopened.getConversation(conversation.id);
+      expect(read?.data.messages[0].content).toBe(message.content);
+    });
+
+    it("should encrypt existing plaintext conversations at startup", async () => {
+      const plain = new FileStorage(TEST_DATA_DIR);
+      const conversation = await plain.createConversation("member", "Results", message);
+      expect(await fs.readFile(conversationFile(conversation.id), "utf-8")).toContain("biopsy");
+
+      storage = new FileStorage(TEST_DATA_DIR, new DataEncryption(TEST_DATA_DIR, masterKey));
+      expect((await storage.getConversation(conversation.id))?.title).toBe("Results");
+      expect(await fs.readFile(conversationFile(conversation.id), "utf-8")).not.toContain("biopsy");
+    });
+
+    it("should refuse to start on encrypted data without the key", async () => {
+      const encrypted = new FileStorage(
+        TEST_DATA_DIR,
+        new DataEncryption(TEST_DATA_DIR, masterKey)
+      );
+      await encrypted.createConversation("member", "Results", message);
+
+      await expect(new FileStorage(TEST_DATA_DIR).getUser("anyone")).rejects.toBeInstanceOf(
+        EncryptionError
+      );
+      await expect(
+        new FileStorage(TEST_DATA_DIR, new DataEncryption(TEST_DATA_DIR, randomBytes(32))).getUser(
+          "anyone"
+        )
+      ).rejects.toThrow(/neither DATA_ENCRYPTION_KEY/);
+    });
+  });
+
+  describe("Shared Data Directory", () => {
+    // Two instances on one directory stand in for two processes (cluster workers, CLI scripts)
+    let other: FileStorage;
+
+    beforeEach(async () => {
+      storage = new FileStorage(TEST_DATA_DIR);
+      await storage.getUser("warm-up");
+      other = new FileStorage(TEST_DATA_DIR);
+    });
+
+    it("should see users and supporters written by another instance", async () => {
+      const member = await storage.createUser({ email: "member@example.com", password: "hashed" });
+      const supporter = await other.createUser({ email: "friend@example.com", password: "hashed" });
+
+      expect(await other.getUserByEmail("member@example.com")).toMatchObject({ id: member.id });
+      expect(await storage.getUser(supporter.id)).toBeDefined();
+
+      const invite = await other.createSupporter(member.id, supporter.id, INVITE_EXPIRY);
+      await storage.updateSupporterStatus(invite.id, "accepted");
+
+      expect(await other.getSupporterRecord(member.id, supporter.id)).toMatchObject({
+        status: "accepted",
+      });
+    });
+
+    it("should not hand out the same ID from two instances", async () => {
+      const message: Message = {
+        id: "msg-1",
+        authorId: "member",
+        authorName: "Member",
+        content: "Hello",
+        timestamp: new Date().toISOString(),
+      };
+
+      const created = await Promise.all(
+        [storage, other, storage, other].map((s, i) =>
+          s.createConversation("member", `Conv ${i}`, message)
+        )
+      );
+      const invites = await Promise.all(
+        [storage, other].map((s, i) => s.createSupporter("member", `supporter-${i}`, INVITE_EXPIRY))
+      );
+
+      expect(new Set(created.map((c) => c.id)).size).toBe(4);
+      expect(invites[0].id).not.toBe(invites[1].id);
+      const fresh = new FileStorage(TEST_DATA_DIR);
+      expect(await fresh.getConversationsForUser("member")).toHaveLength(4);
+      expect(await fresh.getSupportersForMember("member")).toHaveLength(2);
+    });
+
+    it("should keep replies appended through both instances", async () => {
+      const member = await storage.createUser({ email: "member@example.com", password: "hashed" });
+      const root: Message = {
+        id: "root",
+        authorId: member.id,
+        authorName: "Member",
+        content: "Root",
+        timestamp: new Date().toISOString(),
+      };
+      const conversation = await storage.createConversation(member.id, "Thread", root);
+
+      await Promise.all(
+        Array.from({ length: 6 }, (_, i) =>
+          (i % 2 ? other : storage).appendMessage(conversation.id, "root", {
+            ...root,
+            id: `reply-${i}`,
+            content: `Reply ${i}`,
+          })
+        )
+      );
+
+      const stored = await other.getConversation(conversation.id);
+      expect(stored?.data.messages[0].replies).toHaveLength(6);
+      expect(stored?.version).toBe(7);
+    });
+  });
+
   describe("Demo Data", () => {
     beforeEach(async () => {
-      storage = new FileStorage();
+      storage = new FileStorage(TEST_DATA_DIR);
     });
 
     it("should create demo member and supporter accounts", async () => {
@@ -452,3 +1032,632 @@ describe("FileStorage", () => {
     });
   });
 });
+
+describe("SqliteStorage", () => {
+  let storage: SqliteStorage;
+
+  beforeEach(() => {
+    // Fresh in-memory database per test
+    storage = new SqliteStorage(":memory:");
+  });
+
+  const message = (id: string, authorId: string): Message => ({
+    id,
+    authorId,
+    authorName: "Test User",
+    content: `Message ${id}`,
+    timestamp: new Date().toISOString(),
+  });
+
+  it("should create and look up users by ID and email", async () => {
+    const user = await storage.createUser({
+      email: "sqlite@example.com",
+      password: "hashed",
+      firstName: "Sql",
+    });
+
+    expect(user.passwordVersion).toBe("bcrypt-10");
+    expect((await storage.getUser(user.id))?.email).toBe("sqlite@example.com");
+    expect((await storage.getUserByEmail("sqlite@example.com"))?.id).toBe(user.id);
+    expect(await storage.getUserByEmail("missing@example.com")).toBeUndefined();
+  });
+
+  it("should keep a read marker per user and conversation", async () => {
+    const user = await storage.createUser({ email: "reader@example.com", password: "hashed" });
+
+    await storage.markConversationRead(user.id, 1);
+    await storage.markConversationRead(user.id, 2);
+    const reread = await storage.markConversationRead(user.id, 1);
+
+    expect(await storage.getReadMarkers(1)).toEqual([reread]);
+    expect(await storage.getReadMarkers(2)).toHaveLength(1);
+    await expect(storage.markConversationRead("missing", 1)).rejects.toThrow("User not found");
+  });
+
+  it("should move read markers off users when migrating", async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), "sqlite-storage-"));
+    const filename = path.join(dir, "test.db");
+    try {
+      const previous = new SqliteStorage(filename);
+      const user = await previous.createUser({ email: "old@example.com", password: "hashed" });
+      previous.close();
+
+      // Put a marker back on the user and roll the schema version back to before the migration
+      const db = new Database(filename);
+      db.exec("DROP TABLE read_markers");
+      db.prepare(
+        "UPDATE users SET record = json_set(record, '$.lastReadAt', json(?)) WHERE id = ?"
+      ).run(JSON.stringify({ 3: "2026-01-02T00:00:00.000Z" }), user.id);
+      db.pragma(`user_version = ${(db.pragma("user_version", { simple: true }) as number) - 1}`);
+      db.close();
+
+      const migrated = new SqliteStorage(filename);
+      expect(await migrated.getReadMarkers(3)).toEqual([
+        { userId: user.id, conversationId: 3, readAt: "2026-01-02T00:00:00.000Z" },
+      ]);
+      expect(await migrated.getUser(user.id)).not.toHaveProperty("lastReadAt");
+      migrated.close();
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("should treat users from before email verification as verified when migrating", async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), "sqlite-storage-"));
+    const filename = path.join(dir, "test.db");
+    try {
+      const previous = new SqliteStorage(filename);
+      const user = await previous.createUser({ email: "old@example.com", password: "hashed" });
+      previous.close();
+
+      // Roll the record and schema version back to before the migration and the ones after it
+      const db = new Database(filename);
+      db.prepare("UPDATE users SET record = json_remove(record, '$.emailVerified')").run();
+      for (const table of ["invitations", "circles", "reports", "journeys", "read_markers"]) {
+        db.exec(`DROP TABLE ${table}`);
+      }
+      db.pragma(`user_version = ${(db.pragma("user_version", { simple: true }) as number) - 8}`);
+      db.close();
+
+      const migrated = new SqliteStorage(filename);
+      expect((await migrated.getUser(user.id))?.emailVerified).toBe(true);
+      migrated.close();
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("should reject a second user with the same email", async () => {
+    await storage.createUser({ email: "dup@example.com", password: "hashed" });
+
+    await expect(
+      storage.createUser({ email: "dup@example.com", password: "hashed" })
+    ).rejects.toThrow();
+  });
+
+  it("should round-trip threaded conversations", async () => {
+    const user = await storage.createUser({ email: "member@example.com", password: "hashed" });
+    const conversation = await storage.createConversation(
+      user.id,
+      "Thread",
+      message("m1", user.id)
+    );
+
+    conversation.data.messages[0].replies = [
+      { ...message("r1", user.id), replies: [message("r1-1", user.id)] },
+    ];
+    conversation.title = "Renamed";
+    await storage.updateConversation(conversation.id, conversation);
+
+    const retrieved = await storage.getConversation(conversation.id);
+    expect(retrieved?.title).toBe("Renamed");
+    expect(retrieved?.data.messages[0].replies?.[0].replies?.[0].id).toBe("r1-1");
+    expect(await storage.getConversation(999999)).toBeUndefined();
+  });
+
+  it("should only list conversations of members the user supports with accepted status", async () => {
+    const member = await storage.createUser({ email: "member@example.com", password: "hashed" });
+    const other = await storage.createUser({ email: "other@example.com", password: "hashed" });
+    const supporter = await storage.createUser({ email: "sup@example.com", password: "hashed" });
+
+    await storage.createConversation(member.id, "Member update", message("m1", member.id));
+    await storage.createConversation(other.id, "Other update", message("o1", other.id));
+
+    const invite = await storage.createSupporter(member.id, supporter.id, INVITE_EXPIRY);
+    await storage.createSupporter(other.id, supporter.id, INVITE_EXPIRY);
+    expect(await storage.getConversationsForUser(supporter.id)).toHaveLength(0);
+
+    await storage.updateSupporterStatus(invite.id, "accepted");
+    const titles = (await storage.getConversationsForUser(supporter.id)).map((c) => c.title);
+    expect(titles).toEqual(["Member update"]);
+  });
+
+  it("should manage supporter relationships", async () => {
+    const member = await storage.createUser({ email: "member@example.com", password: "hashed" });
+    const supporter = await storage.createUser({ email: "sup@example.com", password: "hashed" });
+
+    const created = await storage.createSupporter(member.id, supporter.id, INVITE_EXPIRY);
+    expect(created.status).toBe("pending");
+
+    expect(created.role).toBe("commenter");
+
+    expect(created.expiresAt).toBe(INVITE_EXPIRY);
+
+    await storage.updateSupporterStatus(created.id, "expired");
+    const renewed = await storage.renewSupporterInvitation(created.id, "2100-01-01T00:00:00.000Z");
+    expect(renewed).toMatchObject({ status: "pending", expiresAt: "2100-01-01T00:00:00.000Z" });
+
+    await storage.updateSupporterRole(created.id, "caregiver");
+    const updated = await storage.updateSupporterStatus(created.id, "rejected");
+    expect(updated).toMatchObject({ id: created.id, status: "rejected", role: "caregiver" });
+
+    expect(await storage.getSupportersForMember(member.id)).toEqual([updated]);
+    expect(await storage.getSupportingMembers(supporter.id)).toEqual([updated]);
+    expect(await storage.getSupporterRecord(member.id, supporter.id)).toEqual(updated);
+    await expect(storage.updateSupporterStatus(999999, "accepted")).rejects.toThrow(
+      "Supporter record not found"
+    );
+
+    await storage.removeSupporter(created.id);
+    expect(await storage.getSupporterRecord(member.id, supporter.id)).toBeUndefined();
+    await expect(storage.removeSupporter(created.id)).rejects.toThrow("Supporter record not found");
+  });
+
+  it("should not lose replies appended at the same time", async () => {
+    const user = await storage.createUser({ email: "member@example.com", password: "hashed" });
+    const conversation = await storage.createConversation(
+      user.id,
+      "Busy thread",
+      message("root", user.id)
+    );
+
+    await Promise.all(
+      Array.from({ length: 20 }, (_, i) =>
+        storage.appendMessage(
+          conversation.id,
+          i % 2 === 0 ? undefined : "root",
+          message(`reply-${i}`, user.id)
+        )
+      )
+    );
+
+    const retrieved = await storage.getConversation(conversation.id);
+    expect(retrieved?.data.messages).toHaveLength(11);
+    expect(retrieved?.data.messages[0].replies).toHaveLength(10);
+    expect(
+      await storage.appendMessage(conversation.id, "missing", message("orphan", user.id))
+    ).toBeUndefined();
+  });
+
+  it("should bump the version on each write and reject stale versions", async () => {
+    const user = await storage.createUser({ email: "member@example.com", password: "hashed" });
+    const conversation = await storage.createConversation(
+      user.id,
+      "Thread",
+      message("root", user.id)
+    );
+    expect(conversation.version).toBe(1);
+
+    const appended = await storage.appendMessage(
+      conversation.id,
+      undefined,
+      message("a", user.id),
+      1
+    );
+    expect(appended?.version).toBe(2);
+
+    await expect(
+      storage.appendMessage(conversation.id, undefined, message("b", user.id), 1)
+    ).rejects.toBeInstanceOf(ConversationVersionConflictError);
+
+    const renamed = await storage.updateConversation(conversation.id, {
+      ...appended!,
+      title: "Renamed",
+    });
+    expect(renamed.version).toBe(3);
+    expect((await storage.getConversation(conversation.id))?.version).toBe(3);
+  });
+
+  it("should edit and delete nested messages", async () => {
+    const user = await storage.createUser({ email: "member@example.com", password: "hashed" });
+    const conversation = await storage.createConversation(
+      user.id,
+      "Thread",
+      message("root", user.id)
+    );
+    await storage.appendMessage(conversation.id, "root", message("reply", user.id));
+    await storage.appendMessage(conversation.id, "reply", message("nested", user.id));
+
+    const edited = await storage.editMessage(conversation.id, "nested", "Fixed", 3);
+    expect(edited?.data.messages[0].replies![0].replies![0]).toMatchObject({
+      content: "Fixed",
+      editHistory: [{ content: "Message nested" }],
+    });
+    await expect(storage.deleteMessage(conversation.id, "reply", 3)).rejects.toBeInstanceOf(
+      ConversationVersionConflictError
+    );
+
+    const deleted = await storage.deleteMessage(conversation.id, "reply", 4);
+    expect(deleted?.data.messages[0].replies![0]).toMatchObject({ deleted: true, content: "" });
+    expect((await storage.getConversation(conversation.id))?.version).toBe(5);
+  });
+
+  it("should add and take back reactions on nested messages", async () => {
+    const user = await storage.createUser({ email: "member@example.com", password: "hashed" });
+    const conversation = await storage.createConversation(
+      user.id,
+      "Thread",
+      message("root", user.id)
+    );
+    await storage.appendMessage(conversation.id, "root", message("reply", user.id));
+    const reaction = { kind: "prayer" as const, userId: user.id, userName: "Test User" };
+
+    const reacted = await storage.setReaction(conversation.id, "reply", reaction, true);
+    expect(reacted?.data.messages[0].replies![0].reactions).toEqual([reaction]);
+    const undone = await storage.setReaction(conversation.id, "reply", reaction, false);
+    expect(undone?.data.messages[0].replies![0].reactions).toBeUndefined();
+  });
+
+  it("should delete conversations and their images without reusing their IDs", async () => {
+    const dataDir = await fs.mkdtemp(path.join(os.tmpdir(), "sqlite-storage-"));
+    storage = new SqliteStorage(":memory:", { dataDir });
+    try {
+      const user = await storage.createUser({ email: "member@example.com", password: "hashed" });
+      const conversation = await storage.createConversation(
+        user.id,
+        "Thread",
+        message("root", user.id)
+      );
+      const imageDir = storage.getImageDir(conversation.id);
+      expect(imageDir.startsWith(dataDir)).toBe(true);
+      await fs.mkdir(imageDir, { recursive: true });
+      await fs.writeFile(path.join(imageDir, "photo.png"), "image");
+
+      await expect(storage.deleteConversation(conversation.id, 2)).rejects.toBeInstanceOf(
+        ConversationVersionConflictError
+      );
+      await storage.markConversationRead(user.id, conversation.id);
+      await storage.deleteConversation(conversation.id, 1);
+      expect(await storage.getConversation(conversation.id)).toBeUndefined();
+      expect(await storage.getConversationsForUser(user.id)).toEqual([]);
+      expect(await storage.getReadMarkers(conversation.id)).toEqual([]);
+      await expect(fs.access(path.dirname(imageDir))).rejects.toThrow();
+
+      const next = await storage.createConversation(user.id, "Next", message("root", user.id));
+      expect(next.id).toBeGreaterThan(conversation.id);
+    } finally {
+      await fs.rm(dataDir, { recursive: true, force: true });
+    }
+  });
+
+  it("should seed demo data once", async () => {
+    const conversations = await storage.getConversationsForUser(SqliteStorage.DEMO_SUPPORTER_ID);
+    const relationship = await storage.getSupporterRecord(
+      SqliteStorage.DEMO_MEMBER_ID,
+      SqliteStorage.DEMO_SUPPORTER_ID
+    );
+
+    expect(conversations).toHaveLength(2);
+    expect(conversations[0].data.messages[0].replies).toHaveLength(1);
+    expect(relationship?.status).toBe("accepted");
+  });
+
+  it("should import a snapshot preserving IDs and nested replies", async () => {
+    const snapshot = {
+      users: [
+        {
+          id: "user-a",
+          email: "a@example.com",
+          password: "hashed",
+          emailVerified: true,
+          blockedUserIds: ["user-c"],
+          createdAt: "2026-01-01",
+        },
+      ],
+      supporters: [
+        {
+          id: 7,
+          memberId: "user-a",
+          supporterId: "user-b",
+          status: "accepted" as const,
+          role: "caregiver" as const,
+          createdAt: "2026-01-02",
+        },
+      ],
+      invitations: [
+        {
+          id: 3,
+          memberId: "user-a",
+          email: "friend@example.com",
+          createdAt: "2026-01-02",
+          expiresAt: "2026-01-16",
+        },
+      ],
+      circles: [
+        {
+          id: 5,
+          memberId: "user-a",
+          name: "Family",
+          supporterIds: ["user-b"],
+          createdAt: "2026-01-02",
+        },
+      ],
+      journeys: [
+        {
+          id: "journey-1",
+          title: "Our son's recovery",
+          memberIds: ["user-a", "user-c"],
+          createdAt: "2026-01-02",
+        },
+      ],
+      reports: [
+        {
+          id: 2,
+          reporterId: "user-a",
+          reportedUserId: "user-c",
+          conversationId: 42,
+          messageId: "m1",
+          reason: "Abusive reply",
+          status: "open" as const,
+          createdAt: "2026-01-04",
+        },
+      ],
+      readMarkers: [{ userId: "user-b", conversationId: 42, readAt: "2026-01-05" }],
+      conversations: [
+        {
+          id: 42,
+          memberId: "user-a",
+          title: "Imported",
+          createdAt: "2026-01-03",
+          data: { messages: [{ ...message("m1", "user-a"), replies: [message("r1", "user-b")] }] },
+          audience: { circleIds: [5], supporterIds: [] },
+        },
+      ],
+      lastConversationId: 50,
+    };
+
+    await storage.importSnapshot(snapshot);
+
+    expect(await storage.exportSnapshot()).toEqual(snapshot);
+    expect(await storage.getSupporterRecord("user-a", "user-b")).toEqual(snapshot.supporters[0]);
+
+    // New conversations continue after the imported counter
+    const created = await storage.createConversation("user-a", "Next", message("m2", "user-a"));
+    expect(created.id).toBe(51);
+    const invitation = await storage.createInvitation("user-a", "other@example.com", "2026-02-01");
+    expect(invitation.id).toBe(4);
+    expect((await storage.createCircle("user-a", "Work", [])).id).toBe(6);
+    const report = await storage.createReport({
+      reporterId: "user-b",
+      reportedUserId: "user-c",
+      reason: "Spam",
+    });
+    expect(report.id).toBe(3);
+    await storage.resolveReport(2);
+    expect((await storage.getReports("open")).map((r) => r.id)).toEqual([3]);
+
+    // Co-members see the shared journey's conversations
+    const shared = await storage.createConversation(
+      "journey-1",
+      "Day one",
+      message("m3", "user-c")
+    );
+    expect((await storage.getJourneysForUser("user-c")).map((j) => j.id)).toEqual(["journey-1"]);
+    expect((await storage.getConversationsForUser("user-c")).map((c) => c.id)).toEqual([shared.id]);
+  });
+
+  it("should persist to a database file across instances", async () => {
+    const dbPath = path.join(TEST_DATA_DIR, "sqlite", "storage.db");
+    await fs.rm(path.dirname(dbPath), { recursive: true, force: true });
+
+    const first = new SqliteStorage(dbPath);
+    const user = await first.createUser({ email: "persist@example.com", password: "hashed" });
+
+    const second = new SqliteStorage(dbPath);
+    expect((await second.getUser(user.id))?.email).toBe("persist@example.com");
+    expect(await second.getConversationsForUser(SqliteStorage.DEMO_MEMBER_ID)).toHaveLength(2);
+
+    await fs.rm(path.dirname(dbPath), { recursive: true, force: true });
+  });
+});
+
+describe("InMemoryStorage", () => {
+  let storage: InMemoryStorage;
+
+  beforeEach(() => {
+    storage = new InMemoryStorage({ seedDemoData: false });
+  });
+
+  const message = (id: string, authorId: string): Message => ({
+    id,
+    authorId,
+    authorName: "Test User",
+    content: `Message ${id}`,
+    timestamp: new Date().toISOString(),
+  });
+
+  it("should start empty unless demo data is requested", async () => {
+    expect(await storage.getUser(InMemoryStorage.DEMO_MEMBER_ID)).toBeUndefined();
+
+    const seeded = new InMemoryStorage();
+    expect(await seeded.getUser(InMemoryStorage.DEMO_MEMBER_ID)).toBeDefined();
+    expect(await seeded.getConversationsForUser(InMemoryStorage.DEMO_SUPPORTER_ID)).toHaveLength(2);
+  });
+
+  it("should keep read markers like the other backends", async () => {
+    const user = await storage.createUser({ email: "reader@example.com", password: "hashed" });
+
+    const read = await storage.markConversationRead(user.id, 7);
+    expect(read).toMatchObject({ userId: user.id, conversationId: 7 });
+    expect(await storage.getReadMarkers(7)).toEqual([read]);
+    expect(await storage.getReadMarkers(8)).toEqual([]);
+  });
+
+  it("should keep separate instances isolated", async () => {
+    const other = new InMemoryStorage({ seedDemoData: false });
+    const user = await storage.createUser({ email: "one@example.com", password: "hashed" });
+
+    expect(await storage.getUserByEmail("one@example.com")).toEqual(user);
+    expect(await other.getUserByEmail("one@example.com")).toBeUndefined();
+  });
+
+  it("should not let callers change stored records without a write", async () => {
+    const user = await storage.createUser({ email: "member@example.com", password: "hashed" });
+    const conversation = await storage.createConversation(
+      user.id,
+      "Thread",
+      message("root", user.id)
+    );
+
+    conversation.title = "Changed locally";
+    conversation.data.messages.push(message("local", user.id));
+
+    const stored = await storage.getConversation(conversation.id);
+    expect(stored?.title).toBe("Thread");
+    expect(stored?.data.messages).toHaveLength(1);
+
+    (await storage.getUser(user.id))!.blockedUserIds.push("someone");
+    (await storage.getUserByEmail("member@example.com"))!.blockedUserIds.push("someone");
+    const blocked = ["other"];
+    (await storage.updateUser(user.id, { blockedUserIds: blocked })).blockedUserIds.push("more");
+    blocked.push("later");
+    expect((await storage.getUser(user.id))?.blockedUserIds).toEqual(["other"]);
+  });
+
+  it("should only list conversations of members the user supports with accepted status", async () => {
+    const member = await storage.createUser({ email: "member@example.com", password: "hashed" });
+    const supporter = await storage.createUser({ email: "friend@example.com", password: "hashed" });
+    await storage.createConversation(member.id, "Update", message("root", member.id));
+
+    const relation = await storage.createSupporter(member.id, supporter.id, INVITE_EXPIRY);
+    expect(await storage.getConversationsForUser(supporter.id)).toHaveLength(0);
+
+    await storage.updateSupporterStatus(relation.id, "accepted");
+    expect(await storage.getConversationsForUser(supporter.id)).toHaveLength(1);
+    expect((await storage.getSupporterRecord(member.id, supporter.id))?.status).toBe("accepted");
+  });
+
+  it("should append replies and enforce versions like the other backends", async () => {
+    const user = await storage.createUser({ email: "member@example.com", password: "hashed" });
+    const conversation = await storage.createConversation(
+      user.id,
+      "Thread",
+      message("root", user.id)
+    );
+
+    await Promise.all(
+      Array.from({ length: 10 }, (_, i) =>
+        storage.appendMessage(conversation.id, "root", message(`reply-${i}`, user.id))
+      )
+    );
+    const retrieved = await storage.getConversation(conversation.id);
+    expect(retrieved?.data.messages[0].replies).toHaveLength(10);
+    expect(retrieved?.version).toBe(11);
+
+    await expect(
+      storage.appendMessage(conversation.id, undefined, message("stale", user.id), 1)
+    ).rejects.toBeInstanceOf(ConversationVersionConflictError);
+    expect(
+      await storage.appendMessage(conversation.id, "missing", message("orphan", user.id))
+    ).toBeUndefined();
+  });
+
+  it("should edit and delete messages like the other backends", async () => {
+    const user = await storage.createUser({ email: "member@example.com", password: "hashed" });
+    const conversation = await storage.createConversation(
+      user.id,
+      "Thread",
+      message("root", user.id)
+    );
+    await storage.appendMessage(conversation.id, "root", message("reply", user.id));
+
+    const edited = await storage.editMessage(conversation.id, "reply", "Fixed");
+    edited!.data.messages[0].replies![0].content = "Changed locally";
+    const stored = await storage.getConversation(conversation.id);
+    expect(stored?.data.messages[0].replies![0]).toMatchObject({
+      content: "Fixed",
+      editHistory: [{ content: "Message reply" }],
+    });
+
+    const deleted = await storage.deleteMessage(conversation.id, "reply", 3);
+    expect(deleted?.data.messages[0].replies).toEqual([]);
+  });
+
+  it("should keep one reaction per user and kind like the other backends", async () => {
+    const user = await storage.createUser({ email: "member@example.com", password: "hashed" });
+    const conversation = await storage.createConversation(
+      user.id,
+      "Thread",
+      message("root", user.id)
+    );
+    const reaction = { kind: "celebrate" as const, userId: user.id, userName: "Test User" };
+
+    await storage.setReaction(conversation.id, "root", reaction, true);
+    await storage.setReaction(conversation.id, "root", reaction, true);
+    const stored = await storage.getConversation(conversation.id);
+    expect(stored?.data.messages[0].reactions).toEqual([reaction]);
+  });
+
+  it("should delete conversations and their images like the other backends", async () => {
+    const dataDir = await fs.mkdtemp(path.join(os.tmpdir(), "memory-storage-"));
+    storage = new InMemoryStorage({ seedDemoData: false, dataDir });
+    try {
+      const user = await storage.createUser({ email: "member@example.com", password: "hashed" });
+      const conversation = await storage.createConversation(
+        user.id,
+        "Thread",
+        message("root", user.id)
+      );
+      const imageDir = storage.getImageDir(conversation.id);
+      expect(imageDir.startsWith(dataDir)).toBe(true);
+      await fs.mkdir(imageDir, { recursive: true });
+      await fs.writeFile(path.join(imageDir, "photo.png"), "image");
+
+      await expect(storage.deleteConversation(conversation.id, 2)).rejects.toBeInstanceOf(
+        ConversationVersionConflictError
+      );
+      await storage.markConversationRead(user.id, conversation.id);
+      await storage.deleteConversation(conversation.id);
+      expect(await storage.getConversation(conversation.id)).toBeUndefined();
+      expect(await storage.getReadMarkers(conversation.id)).toEqual([]);
+      await expect(fs.access(path.dirname(imageDir))).rejects.toThrow();
+      await expect(storage.deleteConversation(conversation.id)).rejects.toThrow(
+        "Conversation not found"
+      );
+    } finally {
+      await fs.rm(dataDir, { recursive: true, force: true });
+    }
+  });
+
+  it("should round-trip a snapshot", async () => {
+    const seeded = new InMemoryStorage();
+    const snapshot = await seeded.exportSnapshot();
+
+    await storage.importSnapshot(snapshot);
+
+    expect(await storage.exportSnapshot()).toEqual(snapshot);
+    const next = await storage.createConversation("someone", "Next", message("n", "someone"));
+    expect(next.id).toBe(snapshot.lastConversationId + 1);
+  });
+});
+
+describe("createStorage", () => {
+  it("should create in-memory storage for STORAGE_DRIVER=memory", () => {
+    expect(createStorage("memory")).toBeInstanceOf(InMemoryStorage);
+  });
+
+  it("should reject an unknown STORAGE_DRIVER", () => {
+    expect(() => createStorage("postgres")).toThrow('Unknown STORAGE_DRIVER "postgres"');
+  });
+
+  it("should refuse SQLite while DATA_ENCRYPTION_KEY is set", () => {
+    const previous = process.env.DATA_ENCRYPTION_KEY;
+    try {
+      process.env.DATA_ENCRYPTION_KEY = randomBytes(32).toString("base64");
+      expect(() => createStorage("sqlite")).toThrow(EncryptionError);
+    } finally {
+      if (previous === undefined) delete process.env.DATA_ENCRYPTION_KEY;
+      else process.env.DATA_ENCRYPTION_KEY = previous;
+    }
+  });
+});
@@ -3,17 +3,40 @@ import {
   type InsertUser,
   type Conversation,
   type Supporter,
+  type SupporterRole,
+  type Invitation,
+  type Circle,
+  type Journey,
+  type Report,
+  type Audience,
   type Message,
+  type MessageReaction,
+  type ReadMarker,
 } from "@shared/schema";
 import fs from "fs/promises";
+import { mkdirSync, readFileSync, statSync } from "fs";
 import path from "path";
 import { randomUUID } from "crypto";
+import Database from "better-sqlite3";
+import {
+  loadDataFile,
+  wrapDataFile,
+  unwrapDataFile,
+  DataFormatError,
+  DATA_FORMAT_VERSION,
+  type DataFileKind,
+  type DataFileContent,
+} from "./data-format";
+import { resolveDataDir, withDataLock } from "./data-dir";
+import { DataEncryption, EncryptionError, isEncryptedContent } from "./encryption";
 
 export interface IStorage {
   // User Operations
   getUser(id: string): Promise<User | undefined>;
   getUserByEmail(email: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
+  /** Apply updates to a stored user and bump updatedAt; throws when the user does not exist */
+  updateUser(id: string, updates: Partial<Omit<User, "id">>): Promise<User>;
 
   // Conversation Operations
   getConversationsForUser(userId: string): Promise<Conversation[]>;
@@ -21,16 +44,159 @@ export interface IStorage {
   createConversation(
     memberId: string,
     title: string,
-    initialMessage: Message
+    initialMessage: Message,
+    audience?: Audience
+  ): Promise<Conversation>;
+  /**
+   * Writes bump the conversation version; passing expectedVersion makes the write conditional
+   * and throws ConversationVersionConflictError when the stored version has moved on
+   */
+  updateConversation(
+    id: number,
+    conversation: Conversation,
+    expectedVersion?: number
   ): Promise<Conversation>;
-  updateConversation(id: number, conversation: Conversation): Promise<Conversation>;
+  /**
+   * Remove a conversation and its uploaded images for good
+   * Throws when it does not exist or is not at expectedVersion
+   */
+  deleteConversation(id: number, expectedVersion?: number): Promise<void>;
+  /** Directory a conversation's uploaded images are written to */
+  getImageDir(conversationId: number): string;
+  /** Encrypts the images in getImageDir at rest; undefined when they are kept as uploaded */
+  getImageEncryption(): DataEncryption | undefined;
+  /**
+   * Atomically add a message, either top level or as a reply to parentMessageId
+   * Returns undefined when the conversation or parent message does not exist
+   */
+  appendMessage(
+    conversationId: number,
+    parentMessageId: string | undefined,
+    message: Message,
+    expectedVersion?: number
+  ): Promise<Conversation | undefined>;
+  /**
+   * Atomically replace a message's content, keeping the old content in its edit history
+   * Returns undefined when the conversation or message does not exist, or it was deleted
+   */
+  editMessage(
+    conversationId: number,
+    messageId: string,
+    content: string,
+    expectedVersion?: number
+  ): Promise<Conversation | undefined>;
+  /**
+   * Atomically delete a message; one that still has replies is left as a tombstone
+   * Returns undefined when the conversation or message does not exist
+   */
+  deleteMessage(
+    conversationId: number,
+    messageId: string,
+    expectedVersion?: number
+  ): Promise<Conversation | undefined>;
+  /**
+   * Atomically add (reacted) or take back a user's reaction of one kind on a message; doing it
+   * twice is harmless, so unlike other writes it is never conditional on a version
+   * Returns undefined when the conversation or message does not exist, or it was deleted
+   */
+  setReaction(
+    conversationId: number,
+    messageId: string,
+    reaction: MessageReaction,
+    reacted: boolean
+  ): Promise<Conversation | undefined>;
 
   // Supporter Operations
   getSupportersForMember(memberId: string): Promise<Supporter[]>;
   getSupportingMembers(supporterId: string): Promise<Supporter[]>;
-  createSupporter(memberId: string, supporterId: string): Promise<Supporter>;
-  updateSupporterStatus(id: number, status: "accepted" | "rejected"): Promise<Supporter>;
+  createSupporter(
+    memberId: string,
+    supporterId: string,
+    expiresAt: string,
+    message?: string
+  ): Promise<Supporter>;
+  updateSupporterStatus(
+    id: number,
+    status: "accepted" | "rejected" | "expired"
+  ): Promise<Supporter>;
+  updateSupporterRole(id: number, role: SupporterRole): Promise<Supporter>;
+  /** Make an invitation pending again until expiresAt, e.g. when the member resends it */
+  renewSupporterInvitation(id: number, expiresAt: string): Promise<Supporter>;
+  removeSupporter(id: number): Promise<void>;
   getSupporterRecord(memberId: string, supporterId: string): Promise<Supporter | undefined>;
+
+  // Invitation Operations (emailed to people without a verified account)
+  getInvitation(id: number): Promise<Invitation | undefined>;
+  getInvitationsForMember(memberId: string): Promise<Invitation[]>;
+  createInvitation(
+    memberId: string,
+    email: string,
+    expiresAt: string,
+    message?: string
+  ): Promise<Invitation>;
+  /** Remove an invitation once it has been used; does nothing when it is already gone */
+  deleteInvitation(id: number): Promise<void>;
+
+  // Circle Operations (named groups of a member's supporters)
+  getCircle(id: number): Promise<Circle | undefined>;
+  getCirclesForMember(memberId: string): Promise<Circle[]>;
+  createCircle(memberId: string, name: string, supporterIds: string[]): Promise<Circle>;
+  updateCircle(
+    id: number,
+    updates: Partial<Pick<Circle, "name" | "supporterIds">>
+  ): Promise<Circle>;
+  deleteCircle(id: number): Promise<void>;
+
+  // Journey Operations (journeys shared by several co-members)
+  getJourney(id: string): Promise<Journey | undefined>;
+  getJourneysForUser(userId: string): Promise<Journey[]>;
+  createJourney(title: string, memberIds: string[]): Promise<Journey>;
+  updateJourney(
+    id: string,
+    updates: Partial<Pick<Journey, "title" | "memberIds">>
+  ): Promise<Journey>;
+
+  // Report Operations (abuse reports awaiting admin review)
+  createReport(report: Omit<Report, "id" | "status" | "createdAt" | "resolvedAt">): Promise<Report>;
+  /** All reports, oldest first, or only those with the given status */
+  getReports(status?: Report["status"]): Promise<Report[]>;
+  resolveReport(id: number): Promise<Report>;
+
+  // Read Marker Operations (when each user last opened each conversation)
+  /** Set the user's read marker for a conversation to now; throws when the user does not exist */
+  markConversationRead(userId: string, conversationId: number): Promise<ReadMarker>;
+  /** Every user's read marker for a conversation; deleting the conversation removes them */
+  getReadMarkers(conversationId: number): Promise<ReadMarker[]>;
+
+  // Bulk Operations (storage migration)
+  exportSnapshot(): Promise<StorageSnapshot>;
+  importSnapshot(snapshot: StorageSnapshot): Promise<void>;
+}
+
+/**
+ * Thrown by conditional writes when the conversation changed since the caller read it
+ */
+export class ConversationVersionConflictError extends Error {
+  constructor(public readonly currentVersion: number) {
+    super("Conversation has been modified");
+    this.name = "ConversationVersionConflictError";
+  }
+}
+
+/**
+ * Full contents of a storage backend with IDs preserved
+ * lastConversationId can exceed the highest conversation ID in use so that IDs are never reused
+ */
+export interface StorageSnapshot {
+  users: User[];
+  supporters: Supporter[];
+  invitations: Invitation[];
+  circles: Circle[];
+  journeys: Journey[];
+  reports: Report[];
+  readMarkers: ReadMarker[];
+  conversations: Conversation[];
+  lastConversationId: number;
 }
 
 interface ConversationIndex {
@@ -44,77 +210,423 @@ interface ConversationMeta {
   lastConversationId: number;
 }
 
+/**
+ * Add a message to a thread in place, searching nested replies for the parent
+ * Returns false when parentMessageId is given but not found
+ */
+function insertMessage(
+  messages: Message[],
+  parentMessageId: string | undefined,
+  message: Message
+): boolean {
+  if (!parentMessageId) {
+    messages.push(message);
+    return true;
+  }
+  for (const msg of messages) {
+    if (msg.id === parentMessageId) {
+      if (!msg.replies) msg.replies = [];
+      msg.replies.push(message);
+      return true;
+    }
+    if (msg.replies && msg.replies.length > 0) {
+      if (insertMessage(msg.replies, parentMessageId, message)) return true;
+    }
+  }
+  return false;
+}
+
+/** A message anywhere in a thread, searching nested replies */
+export function findMessage(messages: Message[], id: string): Message | undefined {
+  for (const message of messages) {
+    if (message.id === id) return message;
+    const reply = findMessage(message.replies || [], id);
+    if (reply) return reply;
+  }
+  return undefined;
+}
+
+/**
+ * Replace a message's content in place, keeping the old content in its edit history
+ * Returns false when the message is not found or was deleted
+ */
+function reviseMessage(messages: Message[], id: string, content: string): boolean {
+  const message = findMessage(messages, id);
+  if (!message || message.deleted) return false;
+
+  const editedAt = new Date().toISOString();
+  message.editHistory = [...(message.editHistory || []), { content: message.content, editedAt }];
+  message.content = content;
+  message.editedAt = editedAt;
+  return true;
+}
+
+/**
+ * Add or take back a reaction in place, keeping one per user and kind
+ * Returns false when the message is not found or was deleted
+ */
+function applyReaction(
+  messages: Message[],
+  id: string,
+  reaction: MessageReaction,
+  reacted: boolean
+): boolean {
+  const message = findMessage(messages, id);
+  if (!message || message.deleted) return false;
+
+  const others = (message.reactions || []).filter(
+    (r) => r.userId !== reaction.userId || r.kind !== reaction.kind
+  );
+  const reactions = reacted ? [...others, reaction] : others;
+  if (reactions.length > 0) message.reactions = reactions;
+  else delete message.reactions;
+  return true;
+}
+
+/**
+ * Delete a message in place, searching nested replies. One that still has replies becomes a
+ * tombstone so the thread stays intact; its content, images and edit history go either way
+ * Returns false when the message is not found
+ */
+function removeMessage(messages: Message[], id: string): boolean {
+  const index = messages.findIndex((message) => message.id === id);
+  if (index >= 0) {
+    const { authorId, authorName, timestamp, replies } = messages[index];
+    if (replies && replies.length > 0) {
+      messages[index] = {
+        id,
+        authorId,
+        authorName,
+        content: "",
+        timestamp,
+        deleted: true,
+        replies,
+      };
+    } else {
+      messages.splice(index, 1);
+    }
+    return true;
+  }
+
+  for (let i = 0; i < messages.length; i++) {
+    const message = messages[i];
+    if (!removeMessage(message.replies || [], id)) continue;
+    // A tombstone whose last reply was just deleted has nothing left to hold together
+    if (message.deleted && message.replies!.length === 0) messages.splice(i, 1);
+    return true;
+  }
+  return false;
+}
+
+// Read markers are unique per user and conversation
+function readMarkerKey(userId: string, conversationId: number): string {
+  return `${conversationId}:${userId}`;
+}
+
+/**
+ * Folder holding a conversation's uploaded images
+ * Every driver keeps images as files under a data directory, beside any conversation files
+ */
+function conversationUploadDir(dataDir: string, conversationId: number): string {
+  return path.join(dataDir, "conversations", `conv-${conversationId}`);
+}
+
+/**
+ * Move a conversation to its next version, first checking it is still at expectedVersion
+ * Conversations written before versioning count as version 0
+ */
+function advanceVersion(conversation: Conversation, expectedVersion: number | undefined) {
+  const current = conversation.version ?? 0;
+  if (expectedVersion !== undefined && expectedVersion !== current) {
+    throw new ConversationVersionConflictError(current);
+  }
+  conversation.version = current + 1;
+}
+
+// Demo account IDs (deterministic for easy lookup)
+const DEMO_MEMBER_ID = "demo-member-sarah";
+const DEMO_SUPPORTER_ID = "demo-supporter-james";
+
+/**
+ * Demo accounts seeded by every storage backend
+ * Demo accounts use random UUIDs as passwords to prevent standard login
+ */
+function buildDemoUsers(): User[] {
+  const demoPasswordBlocker = `DEMO_ONLY_${randomUUID()}`;
+  const now = new Date().toISOString();
+
+  return [
+    {
+      id: DEMO_MEMBER_ID,
+      email: "sarah@demo.supportspark.com",
+      password: demoPasswordBlocker,
+      passwordVersion: "bcrypt-10", // Demo accounts bypass normal auth but need version field
+      emailVerified: true,
+      blockedUserIds: [],
+      firstName: "Sarah",
+      lastName: "Mitchell",
+      createdAt: now,
+      updatedAt: now,
+    },
+    {
+      id: DEMO_SUPPORTER_ID,
+      email: "james@demo.supportspark.com",
+      password: demoPasswordBlocker,
+      passwordVersion: "bcrypt-10", // Demo accounts bypass normal auth but need version field
+      emailVerified: true,
+      blockedUserIds: [],
+      firstName: "James",
+      lastName: "Chen",
+      createdAt: now,
+      updatedAt: now,
+    },
+  ];
+}
+
+/**
+ * Demo conversations for the demo member, oldest first
+ * IDs are assigned by the storage backend when the conversations are seeded
+ */
+function buildDemoConversations(): Omit<Conversation, "id">[] {
+  const now = new Date();
+  const sevenDaysAgo = new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000);
+  const sixDaysAgo = new Date(now.getTime() - 6 * 24 * 60 * 60 * 1000);
+  const fiveDaysAgo = new Date(now.getTime() - 5 * 24 * 60 * 60 * 1000);
+  const threeDaysAgo = new Date(now.getTime() - 3 * 24 * 60 * 60 * 1000);
+  const twoDaysAgo = new Date(now.getTime() - 2 * 24 * 60 * 60 * 1000);
+  const oneDayAgo = new Date(now.getTime() - 1 * 24 * 60 * 60 * 1000);
+
+  return [
+    // First conversation - Life transition
+    {
+      memberId: DEMO_MEMBER_ID,
+      title: "Starting fresh after a big change",
+      createdAt: sevenDaysAgo.toISOString(),
+      data: {
+        messages: [
+          {
+            id: "msg-1-1",
+            authorId: DEMO_MEMBER_ID,
+            authorName: "Sarah Mitchell",
+            content:
+              "Hi everyone. I wanted to create this space to keep you all updated during this transition. As some of you know, I was laid off last week. It's been a shock, but I'm trying to stay positive and see this as an opportunity for a fresh start.",
+            timestamp: sevenDaysAgo.toISOString(),
+            replies: [
+              {
+                id: "msg-1-1-reply-1",
+                authorId: DEMO_SUPPORTER_ID,
+                authorName: "James Chen",
+                content:
+                  "Sarah, I'm so sorry to hear this. We've all been thinking of you. Your skills and experience are incredible - this is just a temporary setback. We're here for whatever you need.",
+                timestamp: new Date(sevenDaysAgo.getTime() + 2 * 60 * 60 * 1000).toISOString(),
+                replies: [],
+              },
+            ],
+          },
+          {
+            id: "msg-1-2",
+            authorId: DEMO_MEMBER_ID,
+            authorName: "Sarah Mitchell",
+            content:
+              "Day 2 update: Started updating my resume today. It's been a while since I've done this, but it's actually nice to reflect on what I've accomplished. Small steps forward!",
+            timestamp: sixDaysAgo.toISOString(),
+            replies: [
+              {
+                id: "msg-1-2-reply-1",
+                authorId: DEMO_SUPPORTER_ID,
+                authorName: "James Chen",
+                content:
+                  "That's the spirit! Every small step counts. Happy to review your resume if you'd like another set of eyes on it.",
+                timestamp: new Date(sixDaysAgo.getTime() + 3 * 60 * 60 * 1000).toISOString(),
+                replies: [],
+              },
+            ],
+          },
+          {
+            id: "msg-1-3",
+            authorId: DEMO_MEMBER_ID,
+            authorName: "Sarah Mitchell",
+            content:
+              "Had a great call with a former colleague who offered to introduce me to some people in her network. It really helps to know I'm not alone in this. Thank you all for the encouraging messages.",
+            timestamp: fiveDaysAgo.toISOString(),
+            replies: [],
+          },
+        ],
+      },
+    },
+    // Second conversation - Week 1 progress
+    {
+      memberId: DEMO_MEMBER_ID,
+      title: "Week 1 - Finding my footing",
+      createdAt: threeDaysAgo.toISOString(),
+      data: {
+        messages: [
+          {
+            id: "msg-2-1",
+            authorId: DEMO_MEMBER_ID,
+            authorName: "Sarah Mitchell",
+            content:
+              "First week has been an emotional rollercoaster. Some days I feel motivated, others I just want to stay in bed. My cat hasn't left my side - she seems to know I need extra cuddles right now.",
+            timestamp: threeDaysAgo.toISOString(),
+            replies: [
+              {
+                id: "msg-2-1-reply-1",
+                authorId: DEMO_SUPPORTER_ID,
+                authorName: "James Chen",
+                content:
+                  "Those ups and downs are completely normal. Be kind to yourself - you're going through a major life change. We're all cheering for you!",
+                timestamp: new Date(threeDaysAgo.getTime() + 4 * 60 * 60 * 1000).toISOString(),
+                replies: [],
+              },
+            ],
+          },
+          {
+            id: "msg-2-2",
+            authorId: DEMO_MEMBER_ID,
+            authorName: "Sarah Mitchell",
+            content:
+              "Milestone today - had my first informational interview! It went really well and they mentioned a potential opening. Also established a daily routine which helps a lot. Feeling more like myself each day.",
+            timestamp: twoDaysAgo.toISOString(),
+            replies: [
+              {
+                id: "msg-2-2-reply-1",
+                authorId: DEMO_SUPPORTER_ID,
+                authorName: "James Chen",
+                content:
+                  "That's amazing progress! Establishing a routine is so important. Keep celebrating those wins - they add up!",
+                timestamp: new Date(twoDaysAgo.getTime() + 2 * 60 * 60 * 1000).toISOString(),
+                replies: [],
+              },
+            ],
+          },
+          {
+            id: "msg-2-3",
+            authorId: DEMO_MEMBER_ID,
+            authorName: "Sarah Mitchell",
+            content:
+              "Applied to five positions this week and feeling hopeful. Also taking time to think about what I really want in my next role. Grateful for all your support through this journey.",
+            timestamp: oneDayAgo.toISOString(),
+            replies: [],
+          },
+        ],
+      },
+    },
+  ];
+}
+
+/**
+ * JSON file storage under the data directory (DATA_DIR, default ./data)
+ * Several processes may share one directory: writes hold the directory lock and every call
+ * first reloads the cached files if another process has replaced them since they were read.
+ * With DATA_ENCRYPTION_KEY set, conversation files are encrypted with per-member data keys.
+ */
 export class FileStorage implements IStorage {
-  private dataDir = path.join(process.cwd(), "data");
-  private usersFile = path.join(this.dataDir, "users.json");
-  private supportersFile = path.join(this.dataDir, "supporters.json");
-  private conversationsDir = path.join(this.dataDir, "conversations");
-  private conversationIndexFile = path.join(this.conversationsDir, "index.json");
-  private conversationMetaFile = path.join(this.conversationsDir, "meta.json");
+  private dataDir: string;
+  private usersFile: string;
+  private supportersFile: string;
+  private invitationsFile: string;
+  private circlesFile: string;
+  private journeysFile: string;
+  private reportsFile: string;
+  private readMarkersFile: string;
+  private conversationsDir: string;
+  private conversationIndexFile: string;
+  private conversationMetaFile: string;
 
   // In-memory cache
   private users: Map<string, User> = new Map();
   private conversationIndex: Map<number, ConversationIndex> = new Map();
   private supporters: Map<number, Supporter> = new Map();
+  private invitations: Map<number, Invitation> = new Map();
+  private circles: Map<number, Circle> = new Map();
+  private journeys: Map<string, Journey> = new Map();
+  private reports: Map<number, Report> = new Map();
+  private readMarkers: Map<string, ReadMarker> = new Map();
   private currentConversationId = 1;
   private currentSupporterId = 1;
+  private currentInvitationId = 1;
+  private currentCircleId = 1;
+  private currentReportId = 1;
   private initialized = false;
-
-  constructor() {
+  private initError: unknown;
+
+  // Inode, size and mtime of each cached file as this process last read or wrote it
+  private fileStamps: Map<string, string> = new Map();
+
+  // Tail of this process's write queue (writes run one at a time, then take the directory lock)
+  private writeQueue: Promise<unknown> = Promise.resolve();
+
+  // Only read what is on disk: no upgrades, demo data or missing files are written
+  private readOnly: boolean;
+
+  constructor(
+    dataDir: string = resolveDataDir(),
+    private encryption: DataEncryption | undefined = DataEncryption.fromEnv(dataDir),
+    options: { readOnly?: boolean } = {}
+  ) {
+    this.dataDir = dataDir;
+    this.readOnly = options.readOnly ?? false;
+    this.usersFile = path.join(dataDir, "users.json");
+    this.supportersFile = path.join(dataDir, "supporters.json");
+    this.invitationsFile = path.join(dataDir, "invitations.json");
+    this.circlesFile = path.join(dataDir, "circles.json");
+    this.journeysFile = path.join(dataDir, "journeys.json");
+    this.reportsFile = path.join(dataDir, "reports.json");
+    this.readMarkersFile = path.join(dataDir, "readMarkers.json");
+    this.conversationsDir = path.join(dataDir, "conversations");
+    this.conversationIndexFile = path.join(this.conversationsDir, "index.json");
+    this.conversationMetaFile = path.join(this.conversationsDir, "meta.json");
     this.init();
   }
 
   // Demo account IDs (deterministic for easy lookup)
-  static DEMO_MEMBER_ID = "demo-member-sarah";
-  static DEMO_SUPPORTER_ID = "demo-supporter-james";
+  static DEMO_MEMBER_ID = DEMO_MEMBER_ID;
+  static DEMO_SUPPORTER_ID = DEMO_SUPPORTER_ID;
 
   private async init() {
     if (this.initialized) return;
     try {
+      if (this.readOnly) {
+        await this.checkEncryptionKeys();
+        await this.loadData();
+        this.initialized = true;
+        return;
+      }
       await fs.mkdir(this.dataDir, { recursive: true });
       await fs.mkdir(this.conversationsDir, { recursive: true });
-      await this.loadData();
-      await this.ensureDemoData();
+      await this.checkEncryptionKeys();
+      await withDataLock(this.dataDir, async () => {
+        await this.loadData();
+        await this.upgradeConversationFiles();
+        await this.ensureDemoData();
+      });
       this.initialized = true;
     } catch (error) {
+      this.initError = error;
       console.error("Error initializing storage:", error);
     }
   }
 
-  private async ensureDemoData() {
-    // Check if demo member exists
-    // Demo accounts use random UUIDs as passwords to prevent standard login
-    const demoPasswordBlocker = `DEMO_ONLY_${randomUUID()}`;
-
-    if (!this.users.has(FileStorage.DEMO_MEMBER_ID)) {
-      const demoMember: User = {
-        id: FileStorage.DEMO_MEMBER_ID,
-        email: "sarah@demo.supportspark.com",
-        password: demoPasswordBlocker,
-        passwordVersion: "bcrypt-10", // Demo accounts bypass normal auth but need version field
-        firstName: "Sarah",
-        lastName: "Mitchell",
-        createdAt: new Date().toISOString(),
-        updatedAt: new Date().toISOString(),
-      };
-      this.users.set(demoMember.id, demoMember);
-      await this.persistUsers();
+  /**
+   * Refuse to start without a key once data is encrypted, or with a key that cannot unwrap it
+   */
+  private async checkEncryptionKeys() {
+    if (this.encryption) {
+      await this.encryption.verify();
+    } else if (await DataEncryption.isInUse(this.dataDir)) {
+      throw new EncryptionError(
+        `Conversations in ${this.dataDir} are encrypted; set DATA_ENCRYPTION_KEY to start`
+      );
     }
+  }
 
-    // Check if demo supporter exists
-    if (!this.users.has(FileStorage.DEMO_SUPPORTER_ID)) {
-      const demoSupporter: User = {
-        id: FileStorage.DEMO_SUPPORTER_ID,
-        email: "james@demo.supportspark.com",
-        password: demoPasswordBlocker,
-        passwordVersion: "bcrypt-10", // Demo accounts bypass normal auth but need version field
-        firstName: "James",
-        lastName: "Chen",
-        createdAt: new Date().toISOString(),
-        updatedAt: new Date().toISOString(),
-      };
-      this.users.set(demoSupporter.id, demoSupporter);
-      await this.persistUsers();
+  private async ensureDemoData() {
+    // Check if demo accounts exist
+    for (const demoUser of buildDemoUsers()) {
+      if (!this.users.has(demoUser.id)) {
+        this.users.set(demoUser.id, demoUser);
+        await this.persistUsers();
+      }
     }
 
     // Create supporter relationship if not exists
@@ -130,6 +642,7 @@ export class FileStorage implements IStorage {
         memberId: FileStorage.DEMO_MEMBER_ID,
         supporterId: FileStorage.DEMO_SUPPORTER_ID,
         status: "accepted",
+        role: "commenter",
         createdAt: new Date().toISOString(),
       };
       this.supporters.set(supporterId, supporter);
@@ -142,139 +655,11 @@ export class FileStorage implements IStorage {
     );
 
     if (demoConversations.length === 0) {
-      const now = new Date();
-      const sevenDaysAgo = new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000);
-      const sixDaysAgo = new Date(now.getTime() - 6 * 24 * 60 * 60 * 1000);
-      const fiveDaysAgo = new Date(now.getTime() - 5 * 24 * 60 * 60 * 1000);
-      const threeDaysAgo = new Date(now.getTime() - 3 * 24 * 60 * 60 * 1000);
-      const twoDaysAgo = new Date(now.getTime() - 2 * 24 * 60 * 60 * 1000);
-      const oneDayAgo = new Date(now.getTime() - 1 * 24 * 60 * 60 * 1000);
-
-      // First conversation - Life transition
-      const conversationId1 = this.currentConversationId++;
-      const demoConversation1: Conversation = {
-        id: conversationId1,
-        memberId: FileStorage.DEMO_MEMBER_ID,
-        title: "Starting fresh after a big change",
-        createdAt: sevenDaysAgo.toISOString(),
-        data: {
-          messages: [
-            {
-              id: "msg-1-1",
-              authorId: FileStorage.DEMO_MEMBER_ID,
-              authorName: "Sarah Mitchell",
-              content:
-                "Hi everyone. I wanted to create this space to keep you all updated during this transition. As some of you know, I was laid off last week. It's been a shock, but I'm trying to stay positive and see this as an opportunity for a fresh start.",
-              timestamp: sevenDaysAgo.toISOString(),
-              replies: [
-                {
-                  id: "msg-1-1-reply-1",
-                  authorId: FileStorage.DEMO_SUPPORTER_ID,
-                  authorName: "James Chen",
-                  content:
-                    "Sarah, I'm so sorry to hear this. We've all been thinking of you. Your skills and experience are incredible - this is just a temporary setback. We're here for whatever you need.",
-                  timestamp: new Date(sevenDaysAgo.getTime() + 2 * 60 * 60 * 1000).toISOString(),
-                  replies: [],
-                },
-              ],
-            },
-            {
-              id: "msg-1-2",
-              authorId: FileStorage.DEMO_MEMBER_ID,
-              authorName: "Sarah Mitchell",
-              content:
-                "Day 2 update: Started updating my resume today. It's been a while since I've done this, but it's actually nice to reflect on what I've accomplished. Small steps forward!",
-              timestamp: sixDaysAgo.toISOString(),
-              replies: [
-                {
-                  id: "msg-1-2-reply-1",
-                  authorId: FileStorage.DEMO_SUPPORTER_ID,
-                  authorName: "James Chen",
-                  content:
-                    "That's the spirit! Every small step counts. Happy to review your resume if you'd like another set of eyes on it.",
-                  timestamp: new Date(sixDaysAgo.getTime() + 3 * 60 * 60 * 1000).toISOString(),
-                  replies: [],
-                },
-              ],
-            },
-            {
-              id: "msg-1-3",
-              authorId: FileStorage.DEMO_MEMBER_ID,
-              authorName: "Sarah Mitchell",
-              content:
-                "Had a great call with a former colleague who offered to introduce me to some people in her network. It really helps to know I'm not alone in this. Thank you all for the encouraging messages.",
-              timestamp: fiveDaysAgo.toISOString(),
-              replies: [],
-            },
-          ],
-        },
-      };
-
-      // Second conversation - Week 1 progress
-      const conversationId2 = this.currentConversationId++;
-      const demoConversation2: Conversation = {
-        id: conversationId2,
-        memberId: FileStorage.DEMO_MEMBER_ID,
-        title: "Week 1 - Finding my footing",
-        createdAt: threeDaysAgo.toISOString(),
-        data: {
-          messages: [
-            {
-              id: "msg-2-1",
-              authorId: FileStorage.DEMO_MEMBER_ID,
-              authorName: "Sarah Mitchell",
-              content:
-                "First week has been an emotional rollercoaster. Some days I feel motivated, others I just want to stay in bed. My cat hasn't left my side - she seems to know I need extra cuddles right now.",
-              timestamp: threeDaysAgo.toISOString(),
-              replies: [
-                {
-                  id: "msg-2-1-reply-1",
-                  authorId: FileStorage.DEMO_SUPPORTER_ID,
-                  authorName: "James Chen",
-                  content:
-                    "Those ups and downs are completely normal. Be kind to yourself - you're going through a major life change. We're all cheering for you!",
-                  timestamp: new Date(threeDaysAgo.getTime() + 4 * 60 * 60 * 1000).toISOString(),
-                  replies: [],
-                },
-              ],
-            },
-            {
-              id: "msg-2-2",
-              authorId: FileStorage.DEMO_MEMBER_ID,
-              authorName: "Sarah Mitchell",
-              content:
-                "Milestone today - had my first informational interview! It went really well and they mentioned a potential opening. Also established a daily routine which helps a lot. Feeling more like myself each day.",
-              timestamp: twoDaysAgo.toISOString(),
-              replies: [
-                {
-                  id: "msg-2-2-reply-1",
-                  authorId: FileStorage.DEMO_SUPPORTER_ID,
-                  authorName: "James Chen",
-                  content:
-                    "That's amazing progress! Establishing a routine is so important. Keep celebrating those wins - they add up!",
-                  timestamp: new Date(twoDaysAgo.getTime() + 2 * 60 * 60 * 1000).toISOString(),
-                  replies: [],
-                },
-              ],
-            },
-            {
-              id: "msg-2-3",
-              authorId: FileStorage.DEMO_MEMBER_ID,
-              authorName: "Sarah Mitchell",
-              content:
-                "Applied to five positions this week and feeling hopeful. Also taking time to think about what I really want in my next role. Grateful for all your support through this journey.",
-              timestamp: oneDayAgo.toISOString(),
-              replies: [],
-            },
-          ],
-        },
-      };
-
-      // Add both conversations to index
-      for (const conv of [demoConversation1, demoConversation2]) {
+      for (const demo of buildDemoConversations()) {
+        const conv: Conversation = { id: this.currentConversationId++, ...demo };
         this.conversationIndex.set(conv.id, {
           id: conv.id,
-          memberId: FileStorage.DEMO_MEMBER_ID,
+          memberId: conv.memberId,
           title: conv.title,
           createdAt: conv.createdAt,
         });
@@ -290,46 +675,194 @@ export class FileStorage implements IStorage {
     if (!this.initialized) {
       await this.init();
     }
+    // Never run against partially loaded data; a later write would overwrite the files
+    if (!this.initialized) throw this.initError;
+    await this.reloadIfChanged();
+  }
+
+  /**
+   * Run a write under the data directory lock, starting from the latest data on disk
+   */
+  private async withWriteLock<T>(fn: () => Promise<T>): Promise<T> {
+    await this.ensureInitialized();
+    const run = this.writeQueue.then(() =>
+      withDataLock(this.dataDir, async () => {
+        await this.reloadIfChanged();
+        return fn();
+      })
+    );
+    this.writeQueue = run.catch(() => undefined);
+    return run;
+  }
+
+  private async fileStamp(filePath: string): Promise<string | undefined> {
+    try {
+      const stats = await fs.stat(filePath);
+      return `${stats.ino}:${stats.size}:${stats.mtimeMs}`;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return undefined;
+      throw error;
+    }
+  }
+
+  /**
+   * Reload the cache when another process has replaced any cached file since this one read it
+   * Atomic writes rename a new file into place, so the inode changes on every write
+   */
+  private async reloadIfChanged() {
+    for (const [filePath, stamp] of Array.from(this.fileStamps.entries())) {
+      if ((await this.fileStamp(filePath)) !== stamp) {
+        await this.loadData();
+        return;
+      }
+    }
   }
 
   private async loadData() {
     try {
+      // Load Read Markers, first taking them off users when the file predates them (v6), as
+      // loading users.json below upgrades them away
+      const readMarkersData = await this.readDataFile(
+        "readMarkers",
+        this.readMarkersFile,
+        (await this.fileStamp(this.readMarkersFile)) ? [] : await this.readLegacyReadMarkers()
+      );
+      this.readMarkers = new Map(
+        readMarkersData.map((m) => [readMarkerKey(m.userId, m.conversationId), m])
+      );
+
       // Load Users
-      const usersData = await this.readFile<User[]>(this.usersFile, []);
+      const usersData = await this.readDataFile("users", this.usersFile, []);
       this.users = new Map(usersData.map((u) => [u.id, u]));
 
       // Load Conversation Index
-      const indexData = await this.readFile<ConversationIndex[]>(this.conversationIndexFile, []);
+      const indexData = await this.readDataFile(
+        "conversationIndex",
+        this.conversationIndexFile,
+        []
+      );
       this.conversationIndex = new Map(indexData.map((c) => [c.id, c]));
 
       // Load Conversation Meta
-      const metaData = await this.readFile<ConversationMeta>(this.conversationMetaFile, {
+      const metaData = await this.readDataFile("conversationMeta", this.conversationMetaFile, {
         lastConversationId: 0,
       });
       this.currentConversationId = metaData.lastConversationId + 1;
 
       // Load Supporters
-      const supportersData = await this.readFile<Supporter[]>(this.supportersFile, []);
+      const supportersData = await this.readDataFile("supporters", this.supportersFile, []);
       this.supporters = new Map(supportersData.map((s) => [s.id, s]));
       if (supportersData.length > 0) {
         this.currentSupporterId = Math.max(...supportersData.map((s) => s.id)) + 1;
       }
+
+      // Load Invitations
+      const invitationsData = await this.readDataFile("invitations", this.invitationsFile, []);
+      this.invitations = new Map(invitationsData.map((i) => [i.id, i]));
+      this.currentInvitationId = Math.max(0, ...invitationsData.map((i) => i.id)) + 1;
+
+      // Load Circles
+      const circlesData = await this.readDataFile("circles", this.circlesFile, []);
+      this.circles = new Map(circlesData.map((c) => [c.id, c]));
+      this.currentCircleId = Math.max(0, ...circlesData.map((c) => c.id)) + 1;
+
+      // Load Journeys
+      const journeysData = await this.readDataFile("journeys", this.journeysFile, []);
+      this.journeys = new Map(journeysData.map((j) => [j.id, j]));
+
+      // Load Reports
+      const reportsData = await this.readDataFile("reports", this.reportsFile, []);
+      this.reports = new Map(reportsData.map((r) => [r.id, r]));
+      this.currentReportId = Math.max(0, ...reportsData.map((r) => r.id)) + 1;
     } catch (error) {
+      // Invalid files must stop startup rather than be replaced by empty data
+      if (error instanceof DataFormatError) throw error;
       console.error("Error loading data:", error);
     }
   }
 
-  private async readFile<T>(filePath: string, defaultValue: T): Promise<T> {
+  /**
+   * Read a data file, upgrading it to the current format version and validating its records
+   * Upgraded files are written back so the upgrade runs once
+   */
+  private async readDataFile<K extends DataFileKind>(
+    kind: K,
+    filePath: string,
+    defaultValue: DataFileContent<K>
+  ): Promise<DataFileContent<K>> {
+    let raw: string;
     try {
-      const content = await fs.readFile(filePath, "utf-8");
-      return JSON.parse(content);
+      // Stamp before reading: a write landing in between then shows up as a change next time
+      this.fileStamps.set(filePath, (await this.fileStamp(filePath)) ?? "");
+      raw = await fs.readFile(filePath, "utf-8");
     } catch (error) {
-      if (error && typeof error === 'object' && 'code' in error && (error as { code: string }).code === "ENOENT") {
-        await fs.writeFile(filePath, JSON.stringify(defaultValue, null, 2));
+      if (error && typeof error === "object" && "code" in error && error.code === "ENOENT") {
+        if (!this.readOnly) await this.atomicWrite(filePath, defaultValue);
         return defaultValue;
       }
       throw error;
     }
+
+    const { content, upgraded } = loadDataFile(kind, this.parseJson(raw, filePath), filePath);
+    if (upgraded && !this.readOnly) await this.atomicWrite(filePath, content);
+    return content;
+  }
+
+  // Read markers as users.json kept them on each user before format version 6
+  private async readLegacyReadMarkers(): Promise<ReadMarker[]> {
+    let raw: string;
+    try {
+      raw = await fs.readFile(this.usersFile, "utf-8");
+    } catch (error) {
+      if (error && typeof error === "object" && "code" in error && error.code === "ENOENT") {
+        return [];
+      }
+      throw error;
+    }
+
+    const { content } = unwrapDataFile(this.parseJson(raw, this.usersFile));
+    if (!Array.isArray(content)) return [];
+    return content.flatMap((user: { id: string; lastReadAt?: Record<string, string> }) =>
+      Object.entries(user.lastReadAt ?? {}).map(([conversationId, readAt]) => ({
+        userId: user.id,
+        conversationId: Number(conversationId),
+        readAt,
+      }))
+    );
+  }
+
+  private parseJson(raw: string, filePath: string): unknown {
+    try {
+      return JSON.parse(raw);
+    } catch (error) {
+      throw new DataFormatError(filePath, (error as Error).message);
+    }
+  }
+
+  /**
+   * Bring every indexed conversation file up to the current format version at startup,
+   * encrypting files still in plaintext when a key is set
+   */
+  private async upgradeConversationFiles() {
+    for (const entry of Array.from(this.conversationIndex.values())) {
+      const filePath = this.getConversationFilePath(entry.memberId, entry.id);
+      let raw: string;
+      try {
+        raw = await fs.readFile(filePath, "utf-8");
+      } catch (error) {
+        if (error && typeof error === "object" && "code" in error && error.code === "ENOENT") {
+          continue;
+        }
+        throw error;
+      }
+
+      const { formatVersion, content } = unwrapDataFile(this.parseJson(raw, filePath));
+      const needsEncryption = !!this.encryption && !isEncryptedContent(content);
+      if (formatVersion === DATA_FORMAT_VERSION && !needsEncryption) continue;
+
+      const { content: conversation } = await this.parseConversationFile(raw, filePath);
+      await this.atomicWrite(filePath, await this.conversationFileContent(conversation));
+    }
   }
 
   private async persistUsers() {
@@ -355,19 +888,45 @@ export class FileStorage implements IStorage {
     );
   }
 
+  private async persistInvitations() {
+    await this.atomicWrite(this.invitationsFile, Array.from(this.invitations.values()));
+  }
+
+  private async persistCircles() {
+    await this.atomicWrite(this.circlesFile, Array.from(this.circles.values()));
+  }
+
+  private async persistJourneys() {
+    await this.atomicWrite(this.journeysFile, Array.from(this.journeys.values()));
+  }
+
+  private async persistReports() {
+    await this.atomicWrite(this.reportsFile, Array.from(this.reports.values()));
+  }
+
+  private async persistReadMarkers() {
+    await this.atomicWrite(this.readMarkersFile, Array.from(this.readMarkers.values()));
+  }
+
   /**
    * Atomic write operation using temp file + rename strategy
    * Prevents data corruption from concurrent writes (STORAGE1 fix)
    */
   private async atomicWrite(filePath: string, data: unknown): Promise<void> {
+    if (this.readOnly) throw new Error(`Storage in ${this.dataDir} was opened read-only`);
     const tempPath = `${filePath}.tmp.${Date.now()}.${Math.random().toString(36).slice(2)}`;
     
     try {
-      // Write to temp file
-      await fs.writeFile(tempPath, JSON.stringify(data, null, 2), 'utf-8');
+      // Write to temp file, stamped with the current data format version
+      await fs.writeFile(tempPath, JSON.stringify(wrapDataFile(data), null, 2), "utf-8");
       
       // Atomic rename (POSIX guarantees atomicity)
       await fs.rename(tempPath, filePath);
+
+      // Our own write is not a change to reload
+      if (this.fileStamps.has(filePath)) {
+        this.fileStamps.set(filePath, (await this.fileStamp(filePath)) ?? "");
+      }
     } catch (error) {
       // Cleanup temp file on error
       try {
@@ -391,23 +950,45 @@ export class FileStorage implements IStorage {
   private async writeConversationFile(conversation: Conversation) {
     await this.ensureMemberDir(conversation.memberId);
     const filePath = this.getConversationFilePath(conversation.memberId, conversation.id);
-    await this.atomicWrite(filePath, conversation);
+    await this.atomicWrite(filePath, await this.conversationFileContent(conversation));
+  }
+
+  private async conversationFileContent(conversation: Conversation): Promise<unknown> {
+    return this.encryption
+      ? this.encryption.encryptJson(conversation.memberId, conversation)
+      : conversation;
+  }
+
+  /**
+   * Parse a conversation file, decrypting it when encrypted, then upgrade and validate it
+   */
+  private async parseConversationFile(raw: string, filePath: string) {
+    const { formatVersion, content } = unwrapDataFile(this.parseJson(raw, filePath));
+    let plaintext = content;
+    if (isEncryptedContent(content)) {
+      if (!this.encryption) {
+        throw new EncryptionError(`${filePath} is encrypted but DATA_ENCRYPTION_KEY is not set`);
+      }
+      plaintext = await this.encryption.decryptJson(content, filePath);
+    }
+    return loadDataFile("conversation", { formatVersion, content: plaintext }, filePath);
   }
 
   private async readConversationFile(
     memberId: string,
     conversationId: number
   ): Promise<Conversation | undefined> {
+    const filePath = this.getConversationFilePath(memberId, conversationId);
+    let raw: string;
     try {
-      const filePath = this.getConversationFilePath(memberId, conversationId);
-      const content = await fs.readFile(filePath, "utf-8");
-      return JSON.parse(content);
+      raw = await fs.readFile(filePath, "utf-8");
     } catch (error) {
       if (error && typeof error === 'object' && 'code' in error && (error as { code: string }).code === "ENOENT") {
         return undefined;
       }
       throw error;
     }
+    return (await this.parseConversationFile(raw, filePath)).content;
   }
 
   // === User Operations ===
@@ -423,18 +1004,33 @@ export class FileStorage implements IStorage {
   }
 
   async createUser(insertUser: InsertUser): Promise<User> {
-    await this.ensureInitialized();
-    const id = randomUUID();
-    const user: User = {
-      ...insertUser,
-      id,
-      passwordVersion: "bcrypt-10", // Set password version for new users
-      createdAt: new Date().toISOString(),
-      updatedAt: new Date().toISOString(),
-    };
-    this.users.set(id, user);
-    await this.persistUsers();
-    return user;
+    return this.withWriteLock(async () => {
+      const id = randomUUID();
+      const user: User = {
+        ...insertUser,
+        id,
+        passwordVersion: "bcrypt-10", // Set password version for new users
+        emailVerified: false, // Until the emailed verification link is followed
+        blockedUserIds: [],
+        createdAt: new Date().toISOString(),
+        updatedAt: new Date().toISOString(),
+      };
+      this.users.set(id, user);
+      await this.persistUsers();
+      return user;
+    });
+  }
+
+  async updateUser(id: string, updates: Partial<Omit<User, "id">>): Promise<User> {
+    return this.withWriteLock(async () => {
+      const existing = this.users.get(id);
+      if (!existing) throw new Error("User not found");
+
+      const user: User = { ...existing, ...updates, id, updatedAt: new Date().toISOString() };
+      this.users.set(id, user);
+      await this.persistUsers();
+      return user;
+    });
   }
 
   // === Conversation Operations ===
@@ -448,8 +1044,11 @@ export class FileStorage implements IStorage {
       .filter((s) => s.status === "accepted")
       .map((s) => s.memberId);
 
-    // Include own conversations (as member)
+    // Include own conversations (as member) and those of shared journeys
     acceptedMemberIds.push(userId);
+    for (const journey of await this.getJourneysForUser(userId)) {
+      acceptedMemberIds.push(journey.id);
+    }
 
     // Get conversation IDs from index that belong to these members
     const relevantIndexEntries = Array.from(this.conversationIndex.values()).filter((c) =>
@@ -481,52 +1080,164 @@ export class FileStorage implements IStorage {
   async createConversation(
     memberId: string,
     title: string,
-    initialMessage: Message
+    initialMessage: Message,
+    audience?: Audience
   ): Promise<Conversation> {
-    await this.ensureInitialized();
+    return this.withWriteLock(async () => {
+      const id = this.currentConversationId++;
+      const conversation: Conversation = {
+        id,
+        memberId,
+        title,
+        data: {
+          messages: [initialMessage],
+        },
+        createdAt: new Date().toISOString(),
+        version: 1,
+        ...(audience && { audience }),
+      };
 
-    const id = this.currentConversationId++;
-    const conversation: Conversation = {
-      id,
-      memberId,
-      title,
-      data: {
-        messages: [initialMessage],
-      },
-      createdAt: new Date().toISOString(),
-    };
+      // Add to index
+      this.conversationIndex.set(id, {
+        id,
+        memberId,
+        title,
+        createdAt: conversation.createdAt,
+      });
 
-    // Add to index
-    this.conversationIndex.set(id, {
-      id,
-      memberId,
-      title,
-      createdAt: conversation.createdAt,
+      // Persist conversation file, index, and meta
+      await this.writeConversationFile(conversation);
+      await this.persistConversationIndex();
+      await this.persistConversationMeta();
+
+      return conversation;
     });
+  }
 
-    // Persist conversation file, index, and meta
-    await this.writeConversationFile(conversation);
-    await this.persistConversationIndex();
-    await this.persistConversationMeta();
+  async updateConversation(
+    id: number,
+    conversation: Conversation,
+    expectedVersion?: number
+  ): Promise<Conversation> {
+    return this.withWriteLock(async () => {
+      // Write the updated conversation file, versioned from what is currently stored
+      const indexEntry = this.conversationIndex.get(id);
+      const stored = indexEntry && (await this.readConversationFile(indexEntry.memberId, id));
+      const updated = { ...conversation, version: stored ? stored.version : conversation.version };
+      advanceVersion(updated, expectedVersion);
+      await this.writeConversationFile(updated);
+
+      // Update index if title changed
+      if (indexEntry && indexEntry.title !== conversation.title) {
+        indexEntry.title = conversation.title;
+        this.conversationIndex.set(id, indexEntry);
+        await this.persistConversationIndex();
+      }
 
-    return conversation;
+      return updated;
+    });
   }
 
-  async updateConversation(id: number, conversation: Conversation): Promise<Conversation> {
-    await this.ensureInitialized();
+  async deleteConversation(id: number, expectedVersion?: number): Promise<void> {
+    return this.withWriteLock(async () => {
+      const indexEntry = this.conversationIndex.get(id);
+      if (!indexEntry) throw new Error("Conversation not found");
+      const stored = await this.readConversationFile(indexEntry.memberId, id);
+      if (stored) advanceVersion(stored, expectedVersion);
 
-    // Update index if title changed
-    const indexEntry = this.conversationIndex.get(id);
-    if (indexEntry && indexEntry.title !== conversation.title) {
-      indexEntry.title = conversation.title;
-      this.conversationIndex.set(id, indexEntry);
+      // The meta file keeps lastConversationId, so the ID is not handed out again
+      this.conversationIndex.delete(id);
       await this.persistConversationIndex();
-    }
+      await fs.rm(this.getConversationFilePath(indexEntry.memberId, id), { force: true });
+      await fs.rm(conversationUploadDir(this.dataDir, id), { recursive: true, force: true });
+
+      const markers = Array.from(this.readMarkers.values()).filter((m) => m.conversationId === id);
+      for (const marker of markers) {
+        this.readMarkers.delete(readMarkerKey(marker.userId, id));
+      }
+      if (markers.length > 0) await this.persistReadMarkers();
+    });
+  }
+
+  getImageDir(conversationId: number): string {
+    return path.join(conversationUploadDir(this.dataDir, conversationId), "images");
+  }
+
+  getImageEncryption(): DataEncryption | undefined {
+    return this.encryption;
+  }
+
+  async appendMessage(
+    conversationId: number,
+    parentMessageId: string | undefined,
+    message: Message,
+    expectedVersion?: number
+  ): Promise<Conversation | undefined> {
+    return this.withWriteLock(async () => {
+      // Re-read inside the lock so this write builds on every earlier one
+      const indexEntry = this.conversationIndex.get(conversationId);
+      if (!indexEntry) return undefined;
+
+      const conversation = await this.readConversationFile(indexEntry.memberId, conversationId);
+      if (!conversation) return undefined;
+      advanceVersion(conversation, expectedVersion);
+      if (!insertMessage(conversation.data.messages, parentMessageId, message)) return undefined;
+
+      await this.writeConversationFile(conversation);
+      return conversation;
+    });
+  }
+
+  async editMessage(
+    conversationId: number,
+    messageId: string,
+    content: string,
+    expectedVersion?: number
+  ): Promise<Conversation | undefined> {
+    return this.changeMessages(conversationId, expectedVersion, (messages) =>
+      reviseMessage(messages, messageId, content)
+    );
+  }
+
+  async deleteMessage(
+    conversationId: number,
+    messageId: string,
+    expectedVersion?: number
+  ): Promise<Conversation | undefined> {
+    return this.changeMessages(conversationId, expectedVersion, (messages) =>
+      removeMessage(messages, messageId)
+    );
+  }
+
+  async setReaction(
+    conversationId: number,
+    messageId: string,
+    reaction: MessageReaction,
+    reacted: boolean
+  ): Promise<Conversation | undefined> {
+    return this.changeMessages(conversationId, undefined, (messages) =>
+      applyReaction(messages, messageId, reaction, reacted)
+    );
+  }
+
+  // Re-read a conversation inside the lock and write it back if change reports success
+  private async changeMessages(
+    conversationId: number,
+    expectedVersion: number | undefined,
+    change: (messages: Message[]) => boolean
+  ): Promise<Conversation | undefined> {
+    return this.withWriteLock(async () => {
+      const indexEntry = this.conversationIndex.get(conversationId);
+      if (!indexEntry) return undefined;
 
-    // Write the updated conversation file
-    await this.writeConversationFile(conversation);
+      const conversation = await this.readConversationFile(indexEntry.memberId, conversationId);
+      if (!conversation) return undefined;
+      advanceVersion(conversation, expectedVersion);
+      if (!change(conversation.data.messages)) return undefined;
 
-    return conversation;
+      await this.writeConversationFile(conversation);
+      return conversation;
+    });
   }
 
   // === Supporter Operations ===
@@ -541,39 +1252,1788 @@ export class FileStorage implements IStorage {
     return Array.from(this.supporters.values()).filter((s) => s.supporterId === supporterId);
   }
 
-  async createSupporter(memberId: string, supporterId: string): Promise<Supporter> {
-    await this.ensureInitialized();
-    const id = this.currentSupporterId++;
-    const supporter: Supporter = {
-      id,
-      memberId,
-      supporterId,
-      status: "pending",
-      createdAt: new Date().toISOString(),
-    };
+  async createSupporter(
+    memberId: string,
+    supporterId: string,
+    expiresAt: string,
+    message?: string
+  ): Promise<Supporter> {
+    return this.withWriteLock(async () => {
+      const id = this.currentSupporterId++;
+      const supporter: Supporter = {
+        id,
+        memberId,
+        supporterId,
+        status: "pending",
+        role: "commenter",
+        ...(message && { message }),
+        createdAt: new Date().toISOString(),
+        expiresAt,
+      };
 
-    this.supporters.set(id, supporter);
-    await this.persistSupporters();
-    return supporter;
+      this.supporters.set(id, supporter);
+      await this.persistSupporters();
+      return supporter;
+    });
   }
 
-  async updateSupporterStatus(id: number, status: "accepted" | "rejected"): Promise<Supporter> {
-    await this.ensureInitialized();
-    const supporter = this.supporters.get(id);
-    if (!supporter) throw new Error("Supporter record not found");
+  async updateSupporterStatus(
+    id: number,
+    status: "accepted" | "rejected" | "expired"
+  ): Promise<Supporter> {
+    return this.withWriteLock(async () => {
+      const supporter = this.supporters.get(id);
+      if (!supporter) throw new Error("Supporter record not found");
 
-    supporter.status = status;
-    this.supporters.set(id, supporter);
-    await this.persistSupporters();
-    return supporter;
+      supporter.status = status;
+      this.supporters.set(id, supporter);
+      await this.persistSupporters();
+      return supporter;
+    });
   }
 
-  async getSupporterRecord(memberId: string, supporterId: string): Promise<Supporter | undefined> {
-    await this.ensureInitialized();
-    return Array.from(this.supporters.values()).find(
-      (s) => s.memberId === memberId && s.supporterId === supporterId
-    );
-  }
-}
+  async updateSupporterRole(id: number, role: SupporterRole): Promise<Supporter> {
+    return this.withWriteLock(async () => {
+      const supporter = this.supporters.get(id);
+      if (!supporter) throw new Error("Supporter record not found");
 
-export const storage = new FileStorage();
+      supporter.role = role;
+      this.supporters.set(id, supporter);
+      await this.persistSupporters();
+      return supporter;
+    });
+  }
+
+  async renewSupporterInvitation(id: number, expiresAt: string): Promise<Supporter> {
+    return this.withWriteLock(async () => {
+      const supporter = this.supporters.get(id);
+      if (!supporter) throw new Error("Supporter record not found");
+
+      supporter.status = "pending";
+      supporter.expiresAt = expiresAt;
+      this.supporters.set(id, supporter);
+      await this.persistSupporters();
+      return supporter;
+    });
+  }
+
+  async removeSupporter(id: number): Promise<void> {
+    return this.withWriteLock(async () => {
+      if (!this.supporters.delete(id)) throw new Error("Supporter record not found");
+      await this.persistSupporters();
+    });
+  }
+
+  async getSupporterRecord(memberId: string, supporterId: string): Promise<Supporter | undefined> {
+    await this.ensureInitialized();
+    return Array.from(this.supporters.values()).find(
+      (s) => s.memberId === memberId && s.supporterId === supporterId
+    );
+  }
+
+  // === Invitation Operations ===
+
+  async getInvitation(id: number): Promise<Invitation | undefined> {
+    await this.ensureInitialized();
+    return this.invitations.get(id);
+  }
+
+  async getInvitationsForMember(memberId: string): Promise<Invitation[]> {
+    await this.ensureInitialized();
+    return Array.from(this.invitations.values()).filter((i) => i.memberId === memberId);
+  }
+
+  async createInvitation(
+    memberId: string,
+    email: string,
+    expiresAt: string,
+    message?: string
+  ): Promise<Invitation> {
+    return this.withWriteLock(async () => {
+      const id = this.currentInvitationId++;
+      const invitation: Invitation = {
+        id,
+        memberId,
+        email,
+        ...(message && { message }),
+        createdAt: new Date().toISOString(),
+        expiresAt,
+      };
+
+      this.invitations.set(id, invitation);
+      await this.persistInvitations();
+      return invitation;
+    });
+  }
+
+  async deleteInvitation(id: number): Promise<void> {
+    return this.withWriteLock(async () => {
+      if (!this.invitations.delete(id)) return;
+      await this.persistInvitations();
+    });
+  }
+
+  // === Circle Operations ===
+
+  async getCircle(id: number): Promise<Circle | undefined> {
+    await this.ensureInitialized();
+    return this.circles.get(id);
+  }
+
+  async getCirclesForMember(memberId: string): Promise<Circle[]> {
+    await this.ensureInitialized();
+    return Array.from(this.circles.values()).filter((c) => c.memberId === memberId);
+  }
+
+  async createCircle(memberId: string, name: string, supporterIds: string[]): Promise<Circle> {
+    return this.withWriteLock(async () => {
+      const id = this.currentCircleId++;
+      const circle: Circle = {
+        id,
+        memberId,
+        name,
+        supporterIds,
+        createdAt: new Date().toISOString(),
+      };
+
+      this.circles.set(id, circle);
+      await this.persistCircles();
+      return circle;
+    });
+  }
+
+  async updateCircle(
+    id: number,
+    updates: Partial<Pick<Circle, "name" | "supporterIds">>
+  ): Promise<Circle> {
+    return this.withWriteLock(async () => {
+      const existing = this.circles.get(id);
+      if (!existing) throw new Error("Circle not found");
+
+      const circle: Circle = { ...existing, ...updates };
+      this.circles.set(id, circle);
+      await this.persistCircles();
+      return circle;
+    });
+  }
+
+  async deleteCircle(id: number): Promise<void> {
+    return this.withWriteLock(async () => {
+      if (!this.circles.delete(id)) throw new Error("Circle not found");
+      await this.persistCircles();
+    });
+  }
+
+  // === Journey Operations ===
+
+  async getJourney(id: string): Promise<Journey | undefined> {
+    await this.ensureInitialized();
+    return this.journeys.get(id);
+  }
+
+  async getJourneysForUser(userId: string): Promise<Journey[]> {
+    await this.ensureInitialized();
+    return Array.from(this.journeys.values()).filter((j) => j.memberIds.includes(userId));
+  }
+
+  async createJourney(title: string, memberIds: string[]): Promise<Journey> {
+    return this.withWriteLock(async () => {
+      const journey: Journey = {
+        id: randomUUID(),
+        title,
+        memberIds,
+        createdAt: new Date().toISOString(),
+      };
+
+      this.journeys.set(journey.id, journey);
+      await this.persistJourneys();
+      return journey;
+    });
+  }
+
+  async updateJourney(
+    id: string,
+    updates: Partial<Pick<Journey, "title" | "memberIds">>
+  ): Promise<Journey> {
+    return this.withWriteLock(async () => {
+      const existing = this.journeys.get(id);
+      if (!existing) throw new Error("Journey not found");
+
+      const journey: Journey = { ...existing, ...updates };
+      this.journeys.set(id, journey);
+      await this.persistJourneys();
+      return journey;
+    });
+  }
+
+  // === Report Operations ===
+
+  async createReport(
+    report: Omit<Report, "id" | "status" | "createdAt" | "resolvedAt">
+  ): Promise<Report> {
+    return this.withWriteLock(async () => {
+      const id = this.currentReportId++;
+      const created: Report = {
+        ...report,
+        id,
+        status: "open",
+        createdAt: new Date().toISOString(),
+      };
+
+      this.reports.set(id, created);
+      await this.persistReports();
+      return created;
+    });
+  }
+
+  async getReports(status?: Report["status"]): Promise<Report[]> {
+    await this.ensureInitialized();
+    return Array.from(this.reports.values()).filter((r) => !status || r.status === status);
+  }
+
+  async resolveReport(id: number): Promise<Report> {
+    return this.withWriteLock(async () => {
+      const existing = this.reports.get(id);
+      if (!existing) throw new Error("Report not found");
+
+      const report: Report = {
+        ...existing,
+        status: "resolved",
+        resolvedAt: new Date().toISOString(),
+      };
+      this.reports.set(id, report);
+      await this.persistReports();
+      return report;
+    });
+  }
+
+  // === Read Marker Operations ===
+
+  async markConversationRead(userId: string, conversationId: number): Promise<ReadMarker> {
+    return this.withWriteLock(async () => {
+      if (!this.users.has(userId)) throw new Error("User not found");
+
+      const marker: ReadMarker = { userId, conversationId, readAt: new Date().toISOString() };
+      this.readMarkers.set(readMarkerKey(userId, conversationId), marker);
+      await this.persistReadMarkers();
+      return marker;
+    });
+  }
+
+  async getReadMarkers(conversationId: number): Promise<ReadMarker[]> {
+    await this.ensureInitialized();
+    return Array.from(this.readMarkers.values()).filter((m) => m.conversationId === conversationId);
+  }
+
+  // === Bulk Operations ===
+
+  async exportSnapshot(): Promise<StorageSnapshot> {
+    await this.ensureInitialized();
+
+    // Index entries whose conversation file is missing are skipped
+    const conversations: Conversation[] = [];
+    for (const entry of Array.from(this.conversationIndex.values())) {
+      const conversation = await this.readConversationFile(entry.memberId, entry.id);
+      if (conversation) {
+        conversations.push(conversation);
+      }
+    }
+
+    return {
+      users: Array.from(this.users.values()),
+      supporters: Array.from(this.supporters.values()),
+      invitations: Array.from(this.invitations.values()),
+      circles: Array.from(this.circles.values()),
+      journeys: Array.from(this.journeys.values()),
+      reports: Array.from(this.reports.values()),
+      readMarkers: Array.from(this.readMarkers.values()),
+      conversations,
+      lastConversationId: this.currentConversationId - 1,
+    };
+  }
+
+  async importSnapshot(snapshot: StorageSnapshot): Promise<void> {
+    return this.withWriteLock(async () => {
+      // Remove conversation files the snapshot replaces or drops (uploaded images are left alone)
+      const snapshotMembers = new Map(snapshot.conversations.map((c) => [c.id, c.memberId]));
+      for (const entry of Array.from(this.conversationIndex.values())) {
+        if (snapshotMembers.get(entry.id) !== entry.memberId) {
+          await fs.rm(this.getConversationFilePath(entry.memberId, entry.id), { force: true });
+        }
+      }
+
+      this.users = new Map(snapshot.users.map((u) => [u.id, u]));
+      this.supporters = new Map(snapshot.supporters.map((s) => [s.id, s]));
+      this.invitations = new Map(snapshot.invitations.map((i) => [i.id, i]));
+      this.circles = new Map(snapshot.circles.map((c) => [c.id, c]));
+      this.journeys = new Map(snapshot.journeys.map((j) => [j.id, j]));
+      this.reports = new Map(snapshot.reports.map((r) => [r.id, r]));
+      this.readMarkers = new Map(
+        snapshot.readMarkers.map((m) => [readMarkerKey(m.userId, m.conversationId), m])
+      );
+      this.conversationIndex = new Map(
+        snapshot.conversations.map((c) => [
+          c.id,
+          { id: c.id, memberId: c.memberId, title: c.title, createdAt: c.createdAt },
+        ])
+      );
+      this.currentConversationId =
+        snapshot.conversations.reduce(
+          (max, c) => Math.max(max, c.id),
+          snapshot.lastConversationId
+        ) + 1;
+      this.currentSupporterId = snapshot.supporters.reduce((max, s) => Math.max(max, s.id), 0) + 1;
+      this.currentInvitationId =
+        snapshot.invitations.reduce((max, i) => Math.max(max, i.id), 0) + 1;
+      this.currentCircleId = snapshot.circles.reduce((max, c) => Math.max(max, c.id), 0) + 1;
+      this.currentReportId = snapshot.reports.reduce((max, r) => Math.max(max, r.id), 0) + 1;
+
+      for (const conversation of snapshot.conversations) {
+        await this.writeConversationFile(conversation);
+      }
+      await this.persistUsers();
+      await this.persistSupporters();
+      await this.persistInvitations();
+      await this.persistCircles();
+      await this.persistJourneys();
+      await this.persistReports();
+      await this.persistReadMarkers();
+      await this.persistConversationIndex();
+      await this.persistConversationMeta();
+    });
+  }
+}
+
+/**
+ * Ordered schema migrations for SqliteStorage, tracked with PRAGMA user_version
+ * Rows keep indexed lookup columns alongside the full record as JSON so the
+ * shared schema types round-trip without a column per field
+ */
+const SQLITE_MIGRATIONS: string[] = [
+  `
+  CREATE TABLE users (
+    id TEXT PRIMARY KEY,
+    email TEXT NOT NULL UNIQUE,
+    record TEXT NOT NULL
+  );
+
+  CREATE TABLE supporters (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    member_id TEXT NOT NULL,
+    supporter_id TEXT NOT NULL,
+    status TEXT NOT NULL,
+    record TEXT NOT NULL,
+    UNIQUE (member_id, supporter_id)
+  );
+  CREATE INDEX idx_supporters_supporter ON supporters (supporter_id, status);
+
+  CREATE TABLE conversations (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    member_id TEXT NOT NULL,
+    title TEXT NOT NULL,
+    created_at TEXT NOT NULL,
+    record TEXT NOT NULL
+  );
+  CREATE INDEX idx_conversations_member ON conversations (member_id);
+  `,
+  `
+  UPDATE users SET record = json_set(record, '$.emailVerified', json('true'))
+  WHERE json_extract(record, '$.emailVerified') IS NULL;
+  `,
+  `
+  CREATE TABLE invitations (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    member_id TEXT NOT NULL,
+    email TEXT NOT NULL,
+    record TEXT NOT NULL
+  );
+  CREATE INDEX idx_invitations_member ON invitations (member_id);
+  `,
+  `
+  CREATE TABLE circles (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    member_id TEXT NOT NULL,
+    record TEXT NOT NULL
+  );
+  CREATE INDEX idx_circles_member ON circles (member_id);
+  `,
+  `
+  UPDATE supporters SET record = json_set(record, '$.role', 'commenter')
+  WHERE json_extract(record, '$.role') IS NULL;
+  `,
+  `
+  UPDATE supporters
+  SET record = json_set(
+    record,
+    '$.expiresAt',
+    strftime('%Y-%m-%dT%H:%M:%fZ', json_extract(record, '$.createdAt'), '+14 days')
+  )
+  WHERE status = 'pending' AND json_extract(record, '$.expiresAt') IS NULL;
+  `,
+  `
+  UPDATE users SET record = json_set(record, '$.blockedUserIds', json('[]'))
+  WHERE json_extract(record, '$.blockedUserIds') IS NULL;
+
+  CREATE TABLE reports (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    status TEXT NOT NULL,
+    record TEXT NOT NULL
+  );
+  CREATE INDEX idx_reports_status ON reports (status);
+  `,
+  `
+  CREATE TABLE journeys (
+    id TEXT PRIMARY KEY,
+    record TEXT NOT NULL
+  );
+  `,
+  `
+  CREATE TABLE read_markers (
+    user_id TEXT NOT NULL,
+    conversation_id INTEGER NOT NULL,
+    record TEXT NOT NULL,
+    PRIMARY KEY (conversation_id, user_id)
+  );
+
+  INSERT INTO read_markers (user_id, conversation_id, record)
+  SELECT users.id, CAST(marker.key AS INTEGER), json_object(
+    'userId', users.id,
+    'conversationId', CAST(marker.key AS INTEGER),
+    'readAt', marker.value
+  )
+  FROM users, json_each(users.record, '$.lastReadAt') AS marker;
+
+  UPDATE users SET record = json_remove(record, '$.lastReadAt');
+  `,
+];
+
+interface RecordRow {
+  record: string;
+}
+
+/**
+ * SqliteStorage keeps conversations in plaintext, so it must not take data that
+ * DATA_ENCRYPTION_KEY says should be encrypted at rest
+ */
+export function assertSqliteUnencrypted(env: NodeJS.ProcessEnv = process.env) {
+  if (env.DATA_ENCRYPTION_KEY) {
+    throw new EncryptionError(
+      "The SQLite driver does not encrypt conversations; unset DATA_ENCRYPTION_KEY or use file storage"
+    );
+  }
+}
+
+/**
+ * Embedded SQLite storage (STORAGE_DRIVER=sqlite)
+ * Indexed lookups and real transactions without running an external database
+ */
+export class SqliteStorage implements IStorage {
+  private db: Database.Database;
+  private dataDir: string;
+
+  // Demo account IDs (deterministic for easy lookup)
+  static DEMO_MEMBER_ID = DEMO_MEMBER_ID;
+  static DEMO_SUPPORTER_ID = DEMO_SUPPORTER_ID;
+
+  /**
+   * @param options.readOnly Open an existing, up-to-date database without migrating or seeding it
+   * @param options.dataDir Where uploaded images are kept (default DATA_DIR)
+   */
+  constructor(
+    filename: string = path.join(resolveDataDir(), "supportspark.db"),
+    options: { readOnly?: boolean; dataDir?: string } = {}
+  ) {
+    this.dataDir = options.dataDir ?? resolveDataDir();
+    if (options.readOnly) {
+      // Read a copy, so not even SQLite's -wal and -shm files are created. The copy cannot see
+      // writes still in the write-ahead log, so refuse while another connection has some
+      const wal = statSync(`${filename}-wal`, { throwIfNoEntry: false });
+      if (wal && wal.size > 0) throw new Error(`${filename} is in use; stop the server first`);
+      const copy = readFileSync(filename);
+      // Header bytes 18-19 mark WAL mode, which an in-memory database cannot open
+      copy[18] = copy[19] = 1;
+      this.db = new Database(copy, { readonly: true });
+      const version = this.db.pragma("user_version", { simple: true }) as number;
+      if (version !== SQLITE_MIGRATIONS.length) {
+        this.db.close();
+        throw new Error(
+          `${filename} is at schema version ${version}, expected ${SQLITE_MIGRATIONS.length}; ` +
+            "open it once without readOnly to migrate it"
+        );
+      }
+      return;
+    }
+
+    if (filename !== ":memory:") {
+      mkdirSync(path.dirname(filename), { recursive: true });
+    }
+    this.db = new Database(filename);
+    this.db.pragma("journal_mode = WAL");
+    this.migrate();
+    this.ensureDemoData();
+  }
+
+  private migrate() {
+    const version = this.db.pragma("user_version", { simple: true }) as number;
+    const pending = SQLITE_MIGRATIONS.slice(version);
+    if (pending.length === 0) return;
+
+    this.db.transaction(() => {
+      for (const sql of pending) {
+        this.db.exec(sql);
+      }
+      this.db.pragma(`user_version = ${SQLITE_MIGRATIONS.length}`);
+    })();
+  }
+
+  private ensureDemoData() {
+    this.db.transaction(() => {
+      for (const demoUser of buildDemoUsers()) {
+        this.db
+          .prepare("INSERT OR IGNORE INTO users (id, email, record) VALUES (?, ?, ?)")
+          .run(demoUser.id, demoUser.email, JSON.stringify(demoUser));
+      }
+
+      const hasDemoRelation = this.db
+        .prepare("SELECT 1 FROM supporters WHERE member_id = ? AND supporter_id = ?")
+        .get(DEMO_MEMBER_ID, DEMO_SUPPORTER_ID);
+      if (!hasDemoRelation) {
+        this.insertSupporter({
+          memberId: DEMO_MEMBER_ID,
+          supporterId: DEMO_SUPPORTER_ID,
+          status: "accepted",
+          role: "commenter",
+          createdAt: new Date().toISOString(),
+        });
+      }
+
+      const hasDemoConversations = this.db
+        .prepare("SELECT 1 FROM conversations WHERE member_id = ? LIMIT 1")
+        .get(DEMO_MEMBER_ID);
+      if (!hasDemoConversations) {
+        for (const demo of buildDemoConversations()) {
+          this.insertConversation(demo);
+        }
+      }
+    })();
+  }
+
+  private insertConversation(conversation: Omit<Conversation, "id">): Conversation {
+    const { lastInsertRowid } = this.db
+      .prepare(
+        `INSERT INTO conversations (member_id, title, created_at, record)
+         VALUES (?, ?, ?, '{}')`
+      )
+      .run(conversation.memberId, conversation.title, conversation.createdAt);
+    const saved: Conversation = { id: Number(lastInsertRowid), ...conversation };
+    this.db
+      .prepare("UPDATE conversations SET record = ? WHERE id = ?")
+      .run(JSON.stringify(saved), saved.id);
+    return saved;
+  }
+
+  private insertSupporter(supporter: Omit<Supporter, "id">): Supporter {
+    const { lastInsertRowid } = this.db
+      .prepare(
+        `INSERT INTO supporters (member_id, supporter_id, status, record)
+         VALUES (?, ?, ?, '{}')`
+      )
+      .run(supporter.memberId, supporter.supporterId, supporter.status);
+    const saved: Supporter = { id: Number(lastInsertRowid), ...supporter };
+    this.db
+      .prepare("UPDATE supporters SET record = ? WHERE id = ?")
+      .run(JSON.stringify(saved), saved.id);
+    return saved;
+  }
+
+  private selectRecord<T>(sql: string, ...params: unknown[]): T | undefined {
+    const row = this.db.prepare(sql).get(...params) as RecordRow | undefined;
+    return row ? JSON.parse(row.record) : undefined;
+  }
+
+  private selectRecords<T>(sql: string, ...params: unknown[]): T[] {
+    const rows = this.db.prepare(sql).all(...params) as RecordRow[];
+    return rows.map((row) => JSON.parse(row.record));
+  }
+
+  // === User Operations ===
+
+  async getUser(id: string): Promise<User | undefined> {
+    return this.selectRecord<User>("SELECT record FROM users WHERE id = ?", id);
+  }
+
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    return this.selectRecord<User>("SELECT record FROM users WHERE email = ?", email);
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const user: User = {
+      ...insertUser,
+      id: randomUUID(),
+      passwordVersion: "bcrypt-10", // Set password version for new users
+      emailVerified: false, // Until the emailed verification link is followed
+      blockedUserIds: [],
+      createdAt: new Date().toISOString(),
+      updatedAt: new Date().toISOString(),
+    };
+    this.db
+      .prepare("INSERT INTO users (id, email, record) VALUES (?, ?, ?)")
+      .run(user.id, user.email, JSON.stringify(user));
+    return user;
+  }
+
+  async updateUser(id: string, updates: Partial<Omit<User, "id">>): Promise<User> {
+    return this.db.transaction(() => {
+      const existing = this.selectRecord<User>("SELECT record FROM users WHERE id = ?", id);
+      if (!existing) throw new Error("User not found");
+
+      const user: User = { ...existing, ...updates, id, updatedAt: new Date().toISOString() };
+      this.db
+        .prepare("UPDATE users SET email = ?, record = ? WHERE id = ?")
+        .run(user.email, JSON.stringify(user), id);
+      return user;
+    })();
+  }
+
+  // === Conversation Operations ===
+
+  async getConversationsForUser(userId: string): Promise<Conversation[]> {
+    // Own and shared journeys' conversations plus those of members this user is an accepted
+    // supporter of
+    return this.selectRecords<Conversation>(
+      `SELECT record FROM conversations
+       WHERE member_id = ?
+          OR member_id IN (
+            SELECT member_id FROM supporters WHERE supporter_id = ? AND status = 'accepted'
+          )
+          OR member_id IN (
+            SELECT journeys.id FROM journeys, json_each(journeys.record, '$.memberIds')
+            WHERE json_each.value = ?
+          )
+       ORDER BY id`,
+      userId,
+      userId,
+      userId
+    );
+  }
+
+  async getConversation(id: number): Promise<Conversation | undefined> {
+    return this.selectRecord<Conversation>("SELECT record FROM conversations WHERE id = ?", id);
+  }
+
+  async createConversation(
+    memberId: string,
+    title: string,
+    initialMessage: Message,
+    audience?: Audience
+  ): Promise<Conversation> {
+    return this.db.transaction(() =>
+      this.insertConversation({
+        memberId,
+        title,
+        data: {
+          messages: [initialMessage],
+        },
+        createdAt: new Date().toISOString(),
+        version: 1,
+        ...(audience && { audience }),
+      })
+    )();
+  }
+
+  async updateConversation(
+    id: number,
+    conversation: Conversation,
+    expectedVersion?: number
+  ): Promise<Conversation> {
+    return this.db
+      .transaction(() => {
+        const stored = this.selectRecord<Conversation>(
+          "SELECT record FROM conversations WHERE id = ?",
+          id
+        );
+        const next = { ...conversation, version: stored ? stored.version : conversation.version };
+        advanceVersion(next, expectedVersion);
+
+        this.db
+          .prepare("UPDATE conversations SET title = ?, record = ? WHERE id = ?")
+          .run(next.title, JSON.stringify(next), id);
+        return next;
+      })
+      .immediate();
+  }
+
+  async deleteConversation(id: number, expectedVersion?: number): Promise<void> {
+    this.db
+      .transaction(() => {
+        const stored = this.selectRecord<Conversation>(
+          "SELECT record FROM conversations WHERE id = ?",
+          id
+        );
+        if (!stored) throw new Error("Conversation not found");
+        advanceVersion(stored, expectedVersion);
+
+        this.db.prepare("DELETE FROM conversations WHERE id = ?").run(id);
+        this.db.prepare("DELETE FROM read_markers WHERE conversation_id = ?").run(id);
+      })
+      .immediate();
+    await fs.rm(conversationUploadDir(this.dataDir, id), { recursive: true, force: true });
+  }
+
+  getImageDir(conversationId: number): string {
+    return path.join(conversationUploadDir(this.dataDir, conversationId), "images");
+  }
+
+  getImageEncryption(): DataEncryption | undefined {
+    return undefined; // The driver refuses to start with DATA_ENCRYPTION_KEY set
+  }
+
+  async appendMessage(
+    conversationId: number,
+    parentMessageId: string | undefined,
+    message: Message,
+    expectedVersion?: number
+  ): Promise<Conversation | undefined> {
+    // IMMEDIATE takes the write lock up front so other connections cannot interleave
+    return this.db
+      .transaction(() => {
+        const conversation = this.selectRecord<Conversation>(
+          "SELECT record FROM conversations WHERE id = ?",
+          conversationId
+        );
+        if (!conversation) return undefined;
+        advanceVersion(conversation, expectedVersion);
+        if (!insertMessage(conversation.data.messages, parentMessageId, message)) return undefined;
+
+        this.db
+          .prepare("UPDATE conversations SET record = ? WHERE id = ?")
+          .run(JSON.stringify(conversation), conversationId);
+        return conversation;
+      })
+      .immediate();
+  }
+
+  async editMessage(
+    conversationId: number,
+    messageId: string,
+    content: string,
+    expectedVersion?: number
+  ): Promise<Conversation | undefined> {
+    return this.changeMessages(conversationId, expectedVersion, (messages) =>
+      reviseMessage(messages, messageId, content)
+    );
+  }
+
+  async deleteMessage(
+    conversationId: number,
+    messageId: string,
+    expectedVersion?: number
+  ): Promise<Conversation | undefined> {
+    return this.changeMessages(conversationId, expectedVersion, (messages) =>
+      removeMessage(messages, messageId)
+    );
+  }
+
+  async setReaction(
+    conversationId: number,
+    messageId: string,
+    reaction: MessageReaction,
+    reacted: boolean
+  ): Promise<Conversation | undefined> {
+    return this.changeMessages(conversationId, undefined, (messages) =>
+      applyReaction(messages, messageId, reaction, reacted)
+    );
+  }
+
+  // Read, change and write back a conversation in one IMMEDIATE transaction
+  private changeMessages(
+    conversationId: number,
+    expectedVersion: number | undefined,
+    change: (messages: Message[]) => boolean
+  ): Conversation | undefined {
+    return this.db
+      .transaction(() => {
+        const conversation = this.selectRecord<Conversation>(
+          "SELECT record FROM conversations WHERE id = ?",
+          conversationId
+        );
+        if (!conversation) return undefined;
+        advanceVersion(conversation, expectedVersion);
+        if (!change(conversation.data.messages)) return undefined;
+
+        this.db
+          .prepare("UPDATE conversations SET record = ? WHERE id = ?")
+          .run(JSON.stringify(conversation), conversationId);
+        return conversation;
+      })
+      .immediate();
+  }
+
+  // === Supporter Operations ===
+
+  async getSupportersForMember(memberId: string): Promise<Supporter[]> {
+    return this.selectRecords<Supporter>(
+      "SELECT record FROM supporters WHERE member_id = ? ORDER BY id",
+      memberId
+    );
+  }
+
+  async getSupportingMembers(supporterId: string): Promise<Supporter[]> {
+    return this.selectRecords<Supporter>(
+      "SELECT record FROM supporters WHERE supporter_id = ? ORDER BY id",
+      supporterId
+    );
+  }
+
+  async createSupporter(
+    memberId: string,
+    supporterId: string,
+    expiresAt: string,
+    message?: string
+  ): Promise<Supporter> {
+    return this.db.transaction(() =>
+      this.insertSupporter({
+        memberId,
+        supporterId,
+        status: "pending",
+        role: "commenter",
+        ...(message && { message }),
+        createdAt: new Date().toISOString(),
+        expiresAt,
+      })
+    )();
+  }
+
+  async updateSupporterStatus(
+    id: number,
+    status: "accepted" | "rejected" | "expired"
+  ): Promise<Supporter> {
+    return this.db.transaction(() => {
+      const existing = this.selectRecord<Supporter>(
+        "SELECT record FROM supporters WHERE id = ?",
+        id
+      );
+      if (!existing) throw new Error("Supporter record not found");
+
+      const supporter: Supporter = { ...existing, status };
+      this.db
+        .prepare("UPDATE supporters SET status = ?, record = ? WHERE id = ?")
+        .run(status, JSON.stringify(supporter), id);
+      return supporter;
+    })();
+  }
+
+  async updateSupporterRole(id: number, role: SupporterRole): Promise<Supporter> {
+    return this.db.transaction(() => {
+      const existing = this.selectRecord<Supporter>(
+        "SELECT record FROM supporters WHERE id = ?",
+        id
+      );
+      if (!existing) throw new Error("Supporter record not found");
+
+      const supporter: Supporter = { ...existing, role };
+      this.db
+        .prepare("UPDATE supporters SET record = ? WHERE id = ?")
+        .run(JSON.stringify(supporter), id);
+      return supporter;
+    })();
+  }
+
+  async renewSupporterInvitation(id: number, expiresAt: string): Promise<Supporter> {
+    return this.db.transaction(() => {
+      const existing = this.selectRecord<Supporter>(
+        "SELECT record FROM supporters WHERE id = ?",
+        id
+      );
+      if (!existing) throw new Error("Supporter record not found");
+
+      const supporter: Supporter = { ...existing, status: "pending", expiresAt };
+      this.db
+        .prepare("UPDATE supporters SET status = ?, record = ? WHERE id = ?")
+        .run(supporter.status, JSON.stringify(supporter), id);
+      return supporter;
+    })();
+  }
+
+  async removeSupporter(id: number): Promise<void> {
+    const { changes } = this.db.prepare("DELETE FROM supporters WHERE id = ?").run(id);
+    if (changes === 0) throw new Error("Supporter record not found");
+  }
+
+  async getSupporterRecord(memberId: string, supporterId: string): Promise<Supporter | undefined> {
+    return this.selectRecord<Supporter>(
+      "SELECT record FROM supporters WHERE member_id = ? AND supporter_id = ?",
+      memberId,
+      supporterId
+    );
+  }
+
+  // === Invitation Operations ===
+
+  async getInvitation(id: number): Promise<Invitation | undefined> {
+    return this.selectRecord<Invitation>("SELECT record FROM invitations WHERE id = ?", id);
+  }
+
+  async getInvitationsForMember(memberId: string): Promise<Invitation[]> {
+    return this.selectRecords<Invitation>(
+      "SELECT record FROM invitations WHERE member_id = ? ORDER BY id",
+      memberId
+    );
+  }
+
+  async createInvitation(
+    memberId: string,
+    email: string,
+    expiresAt: string,
+    message?: string
+  ): Promise<Invitation> {
+    return this.db.transaction(() => {
+      const { lastInsertRowid } = this.db
+        .prepare("INSERT INTO invitations (member_id, email, record) VALUES (?, ?, '{}')")
+        .run(memberId, email);
+      const invitation: Invitation = {
+        id: Number(lastInsertRowid),
+        memberId,
+        email,
+        ...(message && { message }),
+        createdAt: new Date().toISOString(),
+        expiresAt,
+      };
+      this.db
+        .prepare("UPDATE invitations SET record = ? WHERE id = ?")
+        .run(JSON.stringify(invitation), invitation.id);
+      return invitation;
+    })();
+  }
+
+  async deleteInvitation(id: number): Promise<void> {
+    this.db.prepare("DELETE FROM invitations WHERE id = ?").run(id);
+  }
+
+  // === Circle Operations ===
+
+  async getCircle(id: number): Promise<Circle | undefined> {
+    return this.selectRecord<Circle>("SELECT record FROM circles WHERE id = ?", id);
+  }
+
+  async getCirclesForMember(memberId: string): Promise<Circle[]> {
+    return this.selectRecords<Circle>(
+      "SELECT record FROM circles WHERE member_id = ? ORDER BY id",
+      memberId
+    );
+  }
+
+  async createCircle(memberId: string, name: string, supporterIds: string[]): Promise<Circle> {
+    return this.db.transaction(() => {
+      const { lastInsertRowid } = this.db
+        .prepare("INSERT INTO circles (member_id, record) VALUES (?, '{}')")
+        .run(memberId);
+      const circle: Circle = {
+        id: Number(lastInsertRowid),
+        memberId,
+        name,
+        supporterIds,
+        createdAt: new Date().toISOString(),
+      };
+      this.db
+        .prepare("UPDATE circles SET record = ? WHERE id = ?")
+        .run(JSON.stringify(circle), circle.id);
+      return circle;
+    })();
+  }
+
+  async updateCircle(
+    id: number,
+    updates: Partial<Pick<Circle, "name" | "supporterIds">>
+  ): Promise<Circle> {
+    return this.db.transaction(() => {
+      const existing = this.selectRecord<Circle>("SELECT record FROM circles WHERE id = ?", id);
+      if (!existing) throw new Error("Circle not found");
+
+      const circle: Circle = { ...existing, ...updates };
+      this.db.prepare("UPDATE circles SET record = ? WHERE id = ?").run(JSON.stringify(circle), id);
+      return circle;
+    })();
+  }
+
+  async deleteCircle(id: number): Promise<void> {
+    const { changes } = this.db.prepare("DELETE FROM circles WHERE id = ?").run(id);
+    if (changes === 0) throw new Error("Circle not found");
+  }
+
+  // === Journey Operations ===
+
+  async getJourney(id: string): Promise<Journey | undefined> {
+    return this.selectRecord<Journey>("SELECT record FROM journeys WHERE id = ?", id);
+  }
+
+  async getJourneysForUser(userId: string): Promise<Journey[]> {
+    return this.selectRecords<Journey>(
+      `SELECT journeys.record FROM journeys, json_each(journeys.record, '$.memberIds')
+       WHERE json_each.value = ?
+       ORDER BY json_extract(journeys.record, '$.createdAt')`,
+      userId
+    );
+  }
+
+  async createJourney(title: string, memberIds: string[]): Promise<Journey> {
+    const journey: Journey = {
+      id: randomUUID(),
+      title,
+      memberIds,
+      createdAt: new Date().toISOString(),
+    };
+    this.db
+      .prepare("INSERT INTO journeys (id, record) VALUES (?, ?)")
+      .run(journey.id, JSON.stringify(journey));
+    return journey;
+  }
+
+  async updateJourney(
+    id: string,
+    updates: Partial<Pick<Journey, "title" | "memberIds">>
+  ): Promise<Journey> {
+    return this.db.transaction(() => {
+      const existing = this.selectRecord<Journey>("SELECT record FROM journeys WHERE id = ?", id);
+      if (!existing) throw new Error("Journey not found");
+
+      const journey: Journey = { ...existing, ...updates };
+      this.db
+        .prepare("UPDATE journeys SET record = ? WHERE id = ?")
+        .run(JSON.stringify(journey), id);
+      return journey;
+    })();
+  }
+
+  // === Report Operations ===
+
+  async createReport(
+    report: Omit<Report, "id" | "status" | "createdAt" | "resolvedAt">
+  ): Promise<Report> {
+    return this.db.transaction(() => {
+      const { lastInsertRowid } = this.db
+        .prepare("INSERT INTO reports (status, record) VALUES ('open', '{}')")
+        .run();
+      const created: Report = {
+        ...report,
+        id: Number(lastInsertRowid),
+        status: "open",
+        createdAt: new Date().toISOString(),
+      };
+      this.db
+        .prepare("UPDATE reports SET record = ? WHERE id = ?")
+        .run(JSON.stringify(created), created.id);
+      return created;
+    })();
+  }
+
+  async getReports(status?: Report["status"]): Promise<Report[]> {
+    return status
+      ? this.selectRecords<Report>(
+          "SELECT record FROM reports WHERE status = ? ORDER BY id",
+          status
+        )
+      : this.selectRecords<Report>("SELECT record FROM reports ORDER BY id");
+  }
+
+  async resolveReport(id: number): Promise<Report> {
+    return this.db.transaction(() => {
+      const existing = this.selectRecord<Report>("SELECT record FROM reports WHERE id = ?", id);
+      if (!existing) throw new Error("Report not found");
+
+      const report: Report = {
+        ...existing,
+        status: "resolved",
+        resolvedAt: new Date().toISOString(),
+      };
+      this.db
+        .prepare("UPDATE reports SET status = ?, record = ? WHERE id = ?")
+        .run(report.status, JSON.stringify(report), id);
+      return report;
+    })();
+  }
+
+  // === Read Marker Operations ===
+
+  async markConversationRead(userId: string, conversationId: number): Promise<ReadMarker> {
+    return this.db
+      .transaction(() => {
+        if (!this.db.prepare("SELECT 1 FROM users WHERE id = ?").get(userId)) {
+          throw new Error("User not found");
+        }
+
+        const marker: ReadMarker = { userId, conversationId, readAt: new Date().toISOString() };
+        this.db
+          .prepare(
+            `INSERT INTO read_markers (user_id, conversation_id, record) VALUES (?, ?, ?)
+             ON CONFLICT (conversation_id, user_id) DO UPDATE SET record = excluded.record`
+          )
+          .run(userId, conversationId, JSON.stringify(marker));
+        return marker;
+      })
+      .immediate();
+  }
+
+  async getReadMarkers(conversationId: number): Promise<ReadMarker[]> {
+    return this.selectRecords<ReadMarker>(
+      "SELECT record FROM read_markers WHERE conversation_id = ? ORDER BY rowid",
+      conversationId
+    );
+  }
+
+  // === Bulk Operations ===
+
+  async exportSnapshot(): Promise<StorageSnapshot> {
+    const sequence = this.db
+      .prepare("SELECT seq FROM sqlite_sequence WHERE name = 'conversations'")
+      .get() as { seq: number } | undefined;
+
+    return {
+      users: this.selectRecords<User>("SELECT record FROM users ORDER BY rowid"),
+      supporters: this.selectRecords<Supporter>("SELECT record FROM supporters ORDER BY id"),
+      invitations: this.selectRecords<Invitation>("SELECT record FROM invitations ORDER BY id"),
+      circles: this.selectRecords<Circle>("SELECT record FROM circles ORDER BY id"),
+      journeys: this.selectRecords<Journey>("SELECT record FROM journeys ORDER BY rowid"),
+      reports: this.selectRecords<Report>("SELECT record FROM reports ORDER BY id"),
+      readMarkers: this.selectRecords<ReadMarker>("SELECT record FROM read_markers ORDER BY rowid"),
+      conversations: this.selectRecords<Conversation>(
+        "SELECT record FROM conversations ORDER BY id"
+      ),
+      lastConversationId: sequence?.seq ?? 0,
+    };
+  }
+
+  async importSnapshot(snapshot: StorageSnapshot): Promise<void> {
+    this.db.transaction(() => {
+      this.db.exec(
+        `DELETE FROM users; DELETE FROM supporters; DELETE FROM invitations; DELETE FROM circles;
+         DELETE FROM journeys; DELETE FROM reports; DELETE FROM read_markers;
+         DELETE FROM conversations;`
+      );
+
+      const insertUser = this.db.prepare("INSERT INTO users (id, email, record) VALUES (?, ?, ?)");
+      for (const user of snapshot.users) {
+        insertUser.run(user.id, user.email, JSON.stringify(user));
+      }
+
+      const insertSupporter = this.db.prepare(
+        `INSERT INTO supporters (id, member_id, supporter_id, status, record)
+         VALUES (?, ?, ?, ?, ?)`
+      );
+      for (const supporter of snapshot.supporters) {
+        insertSupporter.run(
+          supporter.id,
+          supporter.memberId,
+          supporter.supporterId,
+          supporter.status,
+          JSON.stringify(supporter)
+        );
+      }
+
+      const insertInvitation = this.db.prepare(
+        "INSERT INTO invitations (id, member_id, email, record) VALUES (?, ?, ?, ?)"
+      );
+      for (const invitation of snapshot.invitations) {
+        insertInvitation.run(
+          invitation.id,
+          invitation.memberId,
+          invitation.email,
+          JSON.stringify(invitation)
+        );
+      }
+
+      const insertCircle = this.db.prepare(
+        "INSERT INTO circles (id, member_id, record) VALUES (?, ?, ?)"
+      );
+      for (const circle of snapshot.circles) {
+        insertCircle.run(circle.id, circle.memberId, JSON.stringify(circle));
+      }
+
+      const insertJourney = this.db.prepare("INSERT INTO journeys (id, record) VALUES (?, ?)");
+      for (const journey of snapshot.journeys) {
+        insertJourney.run(journey.id, JSON.stringify(journey));
+      }
+
+      const insertReport = this.db.prepare(
+        "INSERT INTO reports (id, status, record) VALUES (?, ?, ?)"
+      );
+      for (const report of snapshot.reports) {
+        insertReport.run(report.id, report.status, JSON.stringify(report));
+      }
+
+      const insertReadMarker = this.db.prepare(
+        "INSERT INTO read_markers (user_id, conversation_id, record) VALUES (?, ?, ?)"
+      );
+      for (const marker of snapshot.readMarkers) {
+        insertReadMarker.run(marker.userId, marker.conversationId, JSON.stringify(marker));
+      }
+
+      const insertConversation = this.db.prepare(
+        `INSERT INTO conversations (id, member_id, title, created_at, record)
+         VALUES (?, ?, ?, ?, ?)`
+      );
+      for (const conversation of snapshot.conversations) {
+        insertConversation.run(
+          conversation.id,
+          conversation.memberId,
+          conversation.title,
+          conversation.createdAt,
+          JSON.stringify(conversation)
+        );
+      }
+
+      // Carry the conversation ID counter over so deleted IDs are never reused
+      const lastConversationId = snapshot.conversations.reduce(
+        (max, c) => Math.max(max, c.id),
+        snapshot.lastConversationId
+      );
+      this.db.prepare("DELETE FROM sqlite_sequence WHERE name = 'conversations'").run();
+      this.db
+        .prepare("INSERT INTO sqlite_sequence (name, seq) VALUES ('conversations', ?)")
+        .run(lastConversationId);
+    })();
+  }
+
+  close() {
+    this.db.close();
+  }
+}
+
+/**
+ * Process-local storage with nothing written to disk (STORAGE_DRIVER=memory)
+ * Gives each test its own fresh state; records are copied in and out so callers cannot
+ * change stored data without going through the interface
+ */
+export class InMemoryStorage implements IStorage {
+  private users: Map<string, User> = new Map();
+  private conversations: Map<number, Conversation> = new Map();
+  private supporters: Map<number, Supporter> = new Map();
+  private invitations: Map<number, Invitation> = new Map();
+  private circles: Map<number, Circle> = new Map();
+  private journeys: Map<string, Journey> = new Map();
+  private reports: Map<number, Report> = new Map();
+  private readMarkers: Map<string, ReadMarker> = new Map();
+  private currentConversationId = 1;
+  private currentSupporterId = 1;
+  private currentInvitationId = 1;
+  private currentCircleId = 1;
+  private currentReportId = 1;
+
+  // Demo account IDs (deterministic for easy lookup)
+  static DEMO_MEMBER_ID = DEMO_MEMBER_ID;
+  static DEMO_SUPPORTER_ID = DEMO_SUPPORTER_ID;
+
+  // Uploaded images are still files, encrypted like FileStorage's; only the records live in memory
+  private dataDir: string;
+  private encryption: DataEncryption | undefined;
+
+  constructor(options: { seedDemoData?: boolean; dataDir?: string } = {}) {
+    this.dataDir = options.dataDir ?? resolveDataDir();
+    this.encryption = DataEncryption.fromEnv(this.dataDir);
+    if (options.seedDemoData ?? true) {
+      this.ensureDemoData();
+    }
+  }
+
+  private ensureDemoData() {
+    for (const demoUser of buildDemoUsers()) {
+      this.users.set(demoUser.id, demoUser);
+    }
+    this.insertSupporter({
+      memberId: DEMO_MEMBER_ID,
+      supporterId: DEMO_SUPPORTER_ID,
+      status: "accepted",
+      role: "commenter",
+      createdAt: new Date().toISOString(),
+    });
+    for (const demo of buildDemoConversations()) {
+      this.insertConversation(demo);
+    }
+  }
+
+  private insertConversation(conversation: Omit<Conversation, "id">): Conversation {
+    const stored: Conversation = {
+      id: this.currentConversationId++,
+      ...structuredClone(conversation),
+    };
+    this.conversations.set(stored.id, stored);
+    return structuredClone(stored);
+  }
+
+  private insertSupporter(supporter: Omit<Supporter, "id">): Supporter {
+    const stored: Supporter = { id: this.currentSupporterId++, ...supporter };
+    this.supporters.set(stored.id, stored);
+    return { ...stored };
+  }
+
+  // === User Operations ===
+
+  async getUser(id: string): Promise<User | undefined> {
+    const user = this.users.get(id);
+    return user && structuredClone(user);
+  }
+
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    const user = Array.from(this.users.values()).find((u) => u.email === email);
+    return user && structuredClone(user);
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const user: User = {
+      ...insertUser,
+      id: randomUUID(),
+      passwordVersion: "bcrypt-10", // Set password version for new users
+      emailVerified: false, // Until the emailed verification link is followed
+      blockedUserIds: [],
+      createdAt: new Date().toISOString(),
+      updatedAt: new Date().toISOString(),
+    };
+    this.users.set(user.id, user);
+    return structuredClone(user);
+  }
+
+  async updateUser(id: string, updates: Partial<Omit<User, "id">>): Promise<User> {
+    const existing = this.users.get(id);
+    if (!existing) throw new Error("User not found");
+
+    const user: User = structuredClone({
+      ...existing,
+      ...updates,
+      id,
+      updatedAt: new Date().toISOString(),
+    });
+    this.users.set(id, user);
+    return structuredClone(user);
+  }
+
+  // === Conversation Operations ===
+
+  async getConversationsForUser(userId: string): Promise<Conversation[]> {
+    // Own and shared journeys' conversations plus those of members this user is an accepted
+    // supporter of
+    const memberIds = new Set(
+      Array.from(this.supporters.values())
+        .filter((s) => s.supporterId === userId && s.status === "accepted")
+        .map((s) => s.memberId)
+    );
+    memberIds.add(userId);
+    for (const journey of Array.from(this.journeys.values())) {
+      if (journey.memberIds.includes(userId)) memberIds.add(journey.id);
+    }
+
+    return Array.from(this.conversations.values())
+      .filter((c) => memberIds.has(c.memberId))
+      .map((c) => structuredClone(c));
+  }
+
+  async getConversation(id: number): Promise<Conversation | undefined> {
+    const conversation = this.conversations.get(id);
+    return conversation && structuredClone(conversation);
+  }
+
+  async createConversation(
+    memberId: string,
+    title: string,
+    initialMessage: Message,
+    audience?: Audience
+  ): Promise<Conversation> {
+    return this.insertConversation({
+      memberId,
+      title,
+      data: {
+        messages: [initialMessage],
+      },
+      createdAt: new Date().toISOString(),
+      version: 1,
+      ...(audience && { audience }),
+    });
+  }
+
+  async updateConversation(
+    id: number,
+    conversation: Conversation,
+    expectedVersion?: number
+  ): Promise<Conversation> {
+    const stored = this.conversations.get(id);
+    const next = structuredClone({
+      ...conversation,
+      version: stored ? stored.version : conversation.version,
+    });
+    advanceVersion(next, expectedVersion);
+    this.conversations.set(id, next);
+    return structuredClone(next);
+  }
+
+  async deleteConversation(id: number, expectedVersion?: number): Promise<void> {
+    const stored = this.conversations.get(id);
+    if (!stored) throw new Error("Conversation not found");
+    advanceVersion(structuredClone(stored), expectedVersion);
+    this.conversations.delete(id);
+    for (const marker of Array.from(this.readMarkers.values())) {
+      if (marker.conversationId === id) this.readMarkers.delete(readMarkerKey(marker.userId, id));
+    }
+    await fs.rm(conversationUploadDir(this.dataDir, id), { recursive: true, force: true });
+  }
+
+  getImageDir(conversationId: number): string {
+    return path.join(conversationUploadDir(this.dataDir, conversationId), "images");
+  }
+
+  getImageEncryption(): DataEncryption | undefined {
+    return this.encryption;
+  }
+
+  async appendMessage(
+    conversationId: number,
+    parentMessageId: string | undefined,
+    message: Message,
+    expectedVersion?: number
+  ): Promise<Conversation | undefined> {
+    // Runs synchronously, so no other write can interleave
+    const stored = this.conversations.get(conversationId);
+    if (!stored) return undefined;
+
+    const conversation = structuredClone(stored);
+    advanceVersion(conversation, expectedVersion);
+    if (!insertMessage(conversation.data.messages, parentMessageId, structuredClone(message))) {
+      return undefined;
+    }
+
+    this.conversations.set(conversationId, conversation);
+    return structuredClone(conversation);
+  }
+
+  async editMessage(
+    conversationId: number,
+    messageId: string,
+    content: string,
+    expectedVersion?: number
+  ): Promise<Conversation | undefined> {
+    return this.changeMessages(conversationId, expectedVersion, (messages) =>
+      reviseMessage(messages, messageId, content)
+    );
+  }
+
+  async deleteMessage(
+    conversationId: number,
+    messageId: string,
+    expectedVersion?: number
+  ): Promise<Conversation | undefined> {
+    return this.changeMessages(conversationId, expectedVersion, (messages) =>
+      removeMessage(messages, messageId)
+    );
+  }
+
+  async setReaction(
+    conversationId: number,
+    messageId: string,
+    reaction: MessageReaction,
+    reacted: boolean
+  ): Promise<Conversation | undefined> {
+    return this.changeMessages(conversationId, undefined, (messages) =>
+      applyReaction(messages, messageId, reaction, reacted)
+    );
+  }
+
+  // Runs synchronously like appendMessage, so no other write can interleave
+  private changeMessages(
+    conversationId: number,
+    expectedVersion: number | undefined,
+    change: (messages: Message[]) => boolean
+  ): Conversation | undefined {
+    const stored = this.conversations.get(conversationId);
+    if (!stored) return undefined;
+
+    const conversation = structuredClone(stored);
+    advanceVersion(conversation, expectedVersion);
+    if (!change(conversation.data.messages)) return undefined;
+
+    this.conversations.set(conversationId, conversation);
+    return structuredClone(conversation);
+  }
+
+  // === Supporter Operations ===
+
+  async getSupportersForMember(memberId: string): Promise<Supporter[]> {
+    return Array.from(this.supporters.values())
+      .filter((s) => s.memberId === memberId)
+      .map((s) => ({ ...s }));
+  }
+
+  async getSupportingMembers(supporterId: string): Promise<Supporter[]> {
+    return Array.from(this.supporters.values())
+      .filter((s) => s.supporterId === supporterId)
+      .map((s) => ({ ...s }));
+  }
+
+  async createSupporter(
+    memberId: string,
+    supporterId: string,
+    expiresAt: string,
+    message?: string
+  ): Promise<Supporter> {
+    return this.insertSupporter({
+      memberId,
+      supporterId,
+      status: "pending",
+      role: "commenter",
+      ...(message && { message }),
+      createdAt: new Date().toISOString(),
+      expiresAt,
+    });
+  }
+
+  async updateSupporterStatus(
+    id: number,
+    status: "accepted" | "rejected" | "expired"
+  ): Promise<Supporter> {
+    const supporter = this.supporters.get(id);
+    if (!supporter) throw new Error("Supporter record not found");
+
+    supporter.status = status;
+    return { ...supporter };
+  }
+
+  async updateSupporterRole(id: number, role: SupporterRole): Promise<Supporter> {
+    const supporter = this.supporters.get(id);
+    if (!supporter) throw new Error("Supporter record not found");
+
+    supporter.role = role;
+    return { ...supporter };
+  }
+
+  async renewSupporterInvitation(id: number, expiresAt: string): Promise<Supporter> {
+    const supporter = this.supporters.get(id);
+    if (!supporter) throw new Error("Supporter record not found");
+
+    supporter.status = "pending";
+    supporter.expiresAt = expiresAt;
+    return { ...supporter };
+  }
+
+  async removeSupporter(id: number): Promise<void> {
+    if (!this.supporters.delete(id)) throw new Error("Supporter record not found");
+  }
+
+  async getSupporterRecord(memberId: string, supporterId: string): Promise<Supporter | undefined> {
+    const supporter = Array.from(this.supporters.values()).find(
+      (s) => s.memberId === memberId && s.supporterId === supporterId
+    );
+    return supporter && { ...supporter };
+  }
+
+  // === Invitation Operations ===
+
+  async getInvitation(id: number): Promise<Invitation | undefined> {
+    const invitation = this.invitations.get(id);
+    return invitation && { ...invitation };
+  }
+
+  async getInvitationsForMember(memberId: string): Promise<Invitation[]> {
+    return Array.from(this.invitations.values())
+      .filter((i) => i.memberId === memberId)
+      .map((i) => ({ ...i }));
+  }
+
+  async createInvitation(
+    memberId: string,
+    email: string,
+    expiresAt: string,
+    message?: string
+  ): Promise<Invitation> {
+    const invitation: Invitation = {
+      id: this.currentInvitationId++,
+      memberId,
+      email,
+      ...(message && { message }),
+      createdAt: new Date().toISOString(),
+      expiresAt,
+    };
+    this.invitations.set(invitation.id, invitation);
+    return { ...invitation };
+  }
+
+  async deleteInvitation(id: number): Promise<void> {
+    this.invitations.delete(id);
+  }
+
+  // === Circle Operations ===
+
+  async getCircle(id: number): Promise<Circle | undefined> {
+    const circle = this.circles.get(id);
+    return circle && structuredClone(circle);
+  }
+
+  async getCirclesForMember(memberId: string): Promise<Circle[]> {
+    return Array.from(this.circles.values())
+      .filter((c) => c.memberId === memberId)
+      .map((c) => structuredClone(c));
+  }
+
+  async createCircle(memberId: string, name: string, supporterIds: string[]): Promise<Circle> {
+    const circle: Circle = {
+      id: this.currentCircleId++,
+      memberId,
+      name,
+      supporterIds: [...supporterIds],
+      createdAt: new Date().toISOString(),
+    };
+    this.circles.set(circle.id, circle);
+    return structuredClone(circle);
+  }
+
+  async updateCircle(
+    id: number,
+    updates: Partial<Pick<Circle, "name" | "supporterIds">>
+  ): Promise<Circle> {
+    const existing = this.circles.get(id);
+    if (!existing) throw new Error("Circle not found");
+
+    const circle: Circle = structuredClone({ ...existing, ...updates });
+    this.circles.set(id, circle);
+    return structuredClone(circle);
+  }
+
+  async deleteCircle(id: number): Promise<void> {
+    if (!this.circles.delete(id)) throw new Error("Circle not found");
+  }
+
+  // === Journey Operations ===
+
+  async getJourney(id: string): Promise<Journey | undefined> {
+    const journey = this.journeys.get(id);
+    return journey && structuredClone(journey);
+  }
+
+  async getJourneysForUser(userId: string): Promise<Journey[]> {
+    return Array.from(this.journeys.values())
+      .filter((j) => j.memberIds.includes(userId))
+      .map((j) => structuredClone(j));
+  }
+
+  async createJourney(title: string, memberIds: string[]): Promise<Journey> {
+    const journey: Journey = {
+      id: randomUUID(),
+      title,
+      memberIds: [...memberIds],
+      createdAt: new Date().toISOString(),
+    };
+    this.journeys.set(journey.id, journey);
+    return structuredClone(journey);
+  }
+
+  async updateJourney(
+    id: string,
+    updates: Partial<Pick<Journey, "title" | "memberIds">>
+  ): Promise<Journey> {
+    const existing = this.journeys.get(id);
+    if (!existing) throw new Error("Journey not found");
+
+    const journey: Journey = structuredClone({ ...existing, ...updates });
+    this.journeys.set(id, journey);
+    return structuredClone(journey);
+  }
+
+  // === Report Operations ===
+
+  async createReport(
+    report: Omit<Report, "id" | "status" | "createdAt" | "resolvedAt">
+  ): Promise<Report> {
+    const created: Report = {
+      ...report,
+      id: this.currentReportId++,
+      status: "open",
+      createdAt: new Date().toISOString(),
+    };
+    this.reports.set(created.id, created);
+    return { ...created };
+  }
+
+  async getReports(status?: Report["status"]): Promise<Report[]> {
+    return Array.from(this.reports.values())
+      .filter((r) => !status || r.status === status)
+      .map((r) => ({ ...r }));
+  }
+
+  async resolveReport(id: number): Promise<Report> {
+    const existing = this.reports.get(id);
+    if (!existing) throw new Error("Report not found");
+
+    const report: Report = {
+      ...existing,
+      status: "resolved",
+      resolvedAt: new Date().toISOString(),
+    };
+    this.reports.set(id, report);
+    return { ...report };
+  }
+
+  // === Read Marker Operations ===
+
+  async markConversationRead(userId: string, conversationId: number): Promise<ReadMarker> {
+    if (!this.users.has(userId)) throw new Error("User not found");
+
+    const marker: ReadMarker = { userId, conversationId, readAt: new Date().toISOString() };
+    this.readMarkers.set(readMarkerKey(userId, conversationId), marker);
+    return { ...marker };
+  }
+
+  async getReadMarkers(conversationId: number): Promise<ReadMarker[]> {
+    return Array.from(this.readMarkers.values())
+      .filter((m) => m.conversationId === conversationId)
+      .map((m) => ({ ...m }));
+  }
+
+  // === Bulk Operations ===
+
+  async exportSnapshot(): Promise<StorageSnapshot> {
+    return structuredClone({
+      users: Array.from(this.users.values()),
+      supporters: Array.from(this.supporters.values()),
+      invitations: Array.from(this.invitations.values()),
+      circles: Array.from(this.circles.values()),
+      journeys: Array.from(this.journeys.values()),
+      reports: Array.from(this.reports.values()),
+      readMarkers: Array.from(this.readMarkers.values()),
+      conversations: Array.from(this.conversations.values()),
+      lastConversationId: this.currentConversationId - 1,
+    });
+  }
+
+  async importSnapshot(snapshot: StorageSnapshot): Promise<void> {
+    const copy = structuredClone(snapshot);
+    this.users = new Map(copy.users.map((u) => [u.id, u]));
+    this.supporters = new Map(copy.supporters.map((s) => [s.id, s]));
+    this.invitations = new Map(copy.invitations.map((i) => [i.id, i]));
+    this.circles = new Map(copy.circles.map((c) => [c.id, c]));
+    this.journeys = new Map(copy.journeys.map((j) => [j.id, j]));
+    this.reports = new Map(copy.reports.map((r) => [r.id, r]));
+    this.readMarkers = new Map(
+      copy.readMarkers.map((m) => [readMarkerKey(m.userId, m.conversationId), m])
+    );
+    this.conversations = new Map(copy.conversations.map((c) => [c.id, c]));
+    this.currentConversationId =
+      Math.max(copy.lastConversationId, ...copy.conversations.map((c) => c.id)) + 1;
+    this.currentSupporterId = Math.max(0, ...copy.supporters.map((s) => s.id)) + 1;
+    this.currentInvitationId = Math.max(0, ...copy.invitations.map((i) => i.id)) + 1;
+    this.currentCircleId = Math.max(0, ...copy.circles.map((c) => c.id)) + 1;
+    this.currentReportId = Math.max(0, ...copy.reports.map((r) => r.id)) + 1;
+  }
+}
+
+/**
+ * Select the storage backend from STORAGE_DRIVER ("file" by default, "sqlite" or "memory")
+ */
+export function createStorage(driver = process.env.STORAGE_DRIVER): IStorage {
+  switch (driver || "file") {
+    case "file":
+      return new FileStorage();
+    case "sqlite":
+      assertSqliteUnencrypted();
+      return new SqliteStorage(process.env.SQLITE_PATH || undefined);
+    case "memory":
+      return new InMemoryStorage();
+    default:
+      throw new Error(`Unknown STORAGE_DRIVER "${driver}" (expected "file", "sqlite" or "memory")`);
+  }
+}
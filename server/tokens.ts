@@ -0,0 +1,82 @@
+import { createHash, createHmac, randomBytes, timingSafeEqual } from "crypto";
+
+/**
+ * Secrets sent by email
+ * Single-use tokens (password reset and email verification links) are random and only their
+ * SHA-256 is stored, so a leaked data file cannot be used to take over an account. Tokens are
+ * 256-bit values, so an unsalted hash is enough. Signed tokens (invitation links) carry their
+ * own payload and are checked with an HMAC instead.
+ */
+
+/** Hash of an emailed token and when it stops being accepted, as stored on the user */
+export interface PendingToken {
+  tokenHash: string;
+  expiresAt: string; // ISO String
+}
+
+export function createToken(): { token: string; tokenHash: string } {
+  const token = randomBytes(32).toString("base64url");
+  return { token, tokenHash: hashToken(token) };
+}
+
+export function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+export function tokenMatches(token: string, tokenHash: string): boolean {
+  const actual = Buffer.from(hashToken(token), "hex");
+  const expected = Buffer.from(tokenHash, "hex");
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+/**
+ * Token for a link sent to one user: "<userId>.<secret>"
+ * Carrying the user ID means the secret is checked against a single stored hash
+ */
+export function createUserToken(
+  userId: string,
+  ttlMs: number
+): { token: string; pending: PendingToken } {
+  const { token, tokenHash } = createToken();
+  return {
+    token: `${userId}.${token}`,
+    pending: { tokenHash, expiresAt: new Date(Date.now() + ttlMs).toISOString() },
+  };
+}
+
+/** Split a user token into its parts; undefined when it is malformed */
+export function parseUserToken(token: string): { userId: string; secret: string } | undefined {
+  const separator = token.indexOf(".");
+  if (separator <= 0 || separator === token.length - 1) return undefined;
+  return { userId: token.slice(0, separator), secret: token.slice(separator + 1) };
+}
+
+/** Whether secret matches a pending token that has not expired */
+export function pendingTokenMatches(secret: string, pending: PendingToken | undefined): boolean {
+  return (
+    !!pending &&
+    new Date(pending.expiresAt).getTime() >= Date.now() &&
+    tokenMatches(secret, pending.tokenHash)
+  );
+}
+
+function signature(payload: string, key: string): Buffer {
+  return createHmac("sha256", key).update(payload).digest();
+}
+
+/** "<payload>.<signature>"; the payload must not contain secrets, as it is only encoded */
+export function signToken(payload: string, key: string): string {
+  const encoded = Buffer.from(payload).toString("base64url");
+  return `${encoded}.${signature(encoded, key).toString("base64url")}`;
+}
+
+/** The payload of a token signed with key; undefined when malformed or the signature is wrong */
+export function verifySignedToken(token: string, key: string): string | undefined {
+  const [encoded, sig, ...rest] = token.split(".");
+  if (!encoded || !sig || rest.length > 0) return undefined;
+
+  const actual = Buffer.from(sig, "base64url");
+  const expected = signature(encoded, key);
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) return undefined;
+  return Buffer.from(encoded, "base64url").toString();
+}
@@ -2,6 +2,16 @@ import { z } from "zod";
 import {
   conversationSchema,
   supporterSchema,
+  supporterRoleSchema,
+  invitationSchema,
+  bulkInviteResultSchema,
+  circleSchema,
+  audienceSchema,
+  insertCircleSchema,
+  insertUserSchema,
+  journeySchema,
+  insertJourneySchema,
+  reportSchema,
   type Conversation,
   type Supporter,
 } from "./schema";
@@ -23,43 +33,154 @@ export const errorSchemas = {
   forbidden: z.object({
     message: z.string(),
   }),
+  preconditionFailed: z.object({
+    message: z.string(),
+  }),
+  preconditionRequired: z.object({
+    message: z.string(),
+  }),
 };
 
 // ============================================
 // RESPONSE SCHEMAS
 // ============================================
 
+// A conversation as read by one user, with that user's read state added; never stored
+export const conversationWithReadStateSchema = conversationSchema.extend({
+  unreadCount: z.number().int(), // Messages from others since lastReadAt
+  lastReadAt: z.string().optional(), // When the user last opened it; missing on a first visit
+  seenBy: z.number().int().optional(), // Supporters who have opened it; only sent to the member
+});
+
+export type ConversationWithReadState = z.infer<typeof conversationWithReadStateSchema>;
+
 // ============================================
 // API CONTRACT
 // ============================================
 export const api = {
+  password: {
+    forgot: {
+      method: "POST" as const,
+      path: "/api/password/forgot",
+      input: z.object({
+        email: z.string().email(),
+      }),
+      // Same response whether or not the email is registered
+      responses: {
+        200: z.object({ message: z.string() }),
+        400: errorSchemas.validation,
+      },
+    },
+    reset: {
+      method: "POST" as const,
+      path: "/api/password/reset",
+      input: z.object({
+        token: z.string(),
+        password: insertUserSchema.shape.password,
+      }),
+      responses: {
+        200: z.object({ message: z.string() }),
+        400: errorSchemas.validation, // Invalid, expired or already used token
+      },
+    },
+  },
+  emailVerification: {
+    verify: {
+      method: "POST" as const,
+      path: "/api/email/verify",
+      input: z.object({
+        token: z.string(),
+      }),
+      responses: {
+        200: z.object({ message: z.string() }),
+        400: errorSchemas.validation, // Invalid, expired or already used token
+      },
+    },
+    // Replace the pending token with a new one and email it to the logged-in user
+    resend: {
+      method: "POST" as const,
+      path: "/api/email/verify/resend",
+      responses: {
+        200: z.object({ message: z.string() }),
+        400: errorSchemas.validation, // Already verified
+      },
+    },
+  },
   conversations: {
+    // Archived updates are left out unless ?includeArchived=true
     list: {
       method: "GET" as const,
       path: "/api/conversations",
       responses: {
-        200: z.array(conversationSchema),
+        200: z.array(conversationWithReadStateSchema),
       },
     },
     get: {
       method: "GET" as const,
       path: "/api/conversations/:id",
       responses: {
-        200: z.custom<Conversation>(),
+        200: z.custom<ConversationWithReadState>(),
         404: errorSchemas.notFound,
         403: errorSchemas.forbidden,
       },
     },
+    // Move the user's read marker to now. Gets report the marker as it was, so clients fetch the
+    // conversation first to see what is new, then mark it read
+    markRead: {
+      method: "POST" as const,
+      path: "/api/conversations/:id/read",
+      responses: {
+        200: z.object({ lastReadAt: z.string() }),
+        403: errorSchemas.forbidden,
+        404: errorSchemas.notFound,
+      },
+    },
     create: {
       method: "POST" as const,
       path: "/api/conversations",
       input: z.object({
         title: z.string(),
         initialMessage: z.string(),
+        audience: audienceSchema.optional(), // Omit to share with every accepted supporter
+        // Set by caregivers posting for the member they support, or by co-members posting to a
+        // shared journey (its ID)
+        memberId: z.string().optional(),
       }),
       responses: {
         201: z.custom<Conversation>(),
         400: errorSchemas.validation,
+        403: errorSchemas.forbidden,
+      },
+    },
+    // Rename or (un)archive an update; only the member or a co-member may
+    update: {
+      method: "PATCH" as const,
+      path: "/api/conversations/:id",
+      input: z.object({
+        title: z.string().trim().min(1, "Title is required").optional(),
+        archived: z.boolean().optional(),
+      }),
+      // Requires If-Match with the conversation's current ETag
+      responses: {
+        200: z.custom<Conversation>(),
+        400: errorSchemas.validation,
+        403: errorSchemas.forbidden,
+        404: errorSchemas.notFound,
+        412: errorSchemas.preconditionFailed,
+        428: errorSchemas.preconditionRequired,
+      },
+    },
+    // Delete an update for good, with its replies and uploaded images
+    delete: {
+      method: "DELETE" as const,
+      path: "/api/conversations/:id",
+      // Requires If-Match with the conversation's current ETag
+      responses: {
+        200: z.object({ message: z.string() }),
+        403: errorSchemas.forbidden,
+        404: errorSchemas.notFound,
+        412: errorSchemas.preconditionFailed,
+        428: errorSchemas.preconditionRequired,
       },
     },
     addMessage: {
@@ -70,12 +191,98 @@ export const api = {
         parentMessageId: z.string().optional(),
         images: z.array(z.string()).optional(),
       }),
+      // Requires If-Match with the conversation's current ETag
       responses: {
         200: z.custom<Conversation>(), // Returns updated conversation
+        403: errorSchemas.forbidden, // Not in the audience, or a viewer
+        404: errorSchemas.notFound,
+        412: errorSchemas.preconditionFailed,
+        428: errorSchemas.preconditionRequired,
+      },
+    },
+    // Only the author may edit; the previous content is kept in the message's editHistory
+    editMessage: {
+      method: "PATCH" as const,
+      path: "/api/conversations/:id/messages/:messageId",
+      input: z.object({
+        content: z.string(),
+      }),
+      // Requires If-Match with the conversation's current ETag
+      responses: {
+        200: z.custom<Conversation>(),
+        400: errorSchemas.validation,
+        403: errorSchemas.forbidden,
+        404: errorSchemas.notFound,
+        412: errorSchemas.preconditionFailed,
+        428: errorSchemas.preconditionRequired,
+      },
+    },
+    // The author or the member may delete; a message with replies is left as a tombstone
+    deleteMessage: {
+      method: "DELETE" as const,
+      path: "/api/conversations/:id/messages/:messageId",
+      // Requires If-Match with the conversation's current ETag
+      responses: {
+        200: z.custom<Conversation>(),
+        400: errorSchemas.validation,
+        403: errorSchemas.forbidden,
+        404: errorSchemas.notFound,
+        412: errorSchemas.preconditionFailed,
+        428: errorSchemas.preconditionRequired,
+      },
+    },
+    // React to a message with one of reactionKindSchema; repeating it changes nothing, so no
+    // If-Match is needed
+    addReaction: {
+      method: "PUT" as const,
+      path: "/api/conversations/:id/messages/:messageId/reactions/:kind",
+      responses: {
+        200: z.custom<Conversation>(),
+        400: errorSchemas.validation,
+        403: errorSchemas.forbidden,
+        404: errorSchemas.notFound,
+      },
+    },
+    removeReaction: {
+      method: "DELETE" as const,
+      path: "/api/conversations/:id/messages/:messageId/reactions/:kind",
+      responses: {
+        200: z.custom<Conversation>(),
+        400: errorSchemas.validation,
+        403: errorSchemas.forbidden,
+        404: errorSchemas.notFound,
+      },
+    },
+  },
+  invitations: {
+    get: {
+      method: "GET" as const,
+      path: "/api/invitations/:token",
+      responses: {
+        200: z.object({
+          email: z.string(),
+          memberName: z.string(),
+          message: z.string().optional(),
+        }),
+        404: errorSchemas.notFound,
+      },
+    },
+    // For users already logged in when they open the link; login and register take inviteToken
+    accept: {
+      method: "POST" as const,
+      path: "/api/invitations/accept",
+      input: z.object({
+        token: z.string(),
+      }),
+      responses: {
+        200: z.object({ message: z.string() }),
+        400: errorSchemas.validation,
         404: errorSchemas.notFound,
       },
     },
   },
+  // Supporter routes manage the logged-in member's own supporters, or with ?journeyId= (or
+  // journeyId in the body) those of a shared journey they are a co-member of
   supporters: {
     list: {
       method: "GET" as const,
@@ -98,11 +305,36 @@ export const api = {
       path: "/api/supporters/invite",
       input: z.object({
         email: z.string().email(),
+        message: z.string().trim().max(500).optional(), // Personal note shown to the invitee
+        journeyId: z.string().optional(),
       }),
+      // 201 when the email belongs to a verified account; otherwise a signup link is emailed
       responses: {
         201: z.custom<Supporter>(),
+        202: invitationSchema,
+        400: errorSchemas.validation,
+      },
+    },
+    // content is pasted text or the text of a CSV or vCard file
+    bulkInvite: {
+      method: "POST" as const,
+      path: "/api/supporters/invite/bulk",
+      input: z.object({
+        content: z.string().max(500_000),
+        message: z.string().trim().max(500).optional(),
+        preview: z.boolean().optional(), // Report what would happen without inviting anyone
+        journeyId: z.string().optional(),
+      }),
+      responses: {
+        200: z.object({ results: z.array(bulkInviteResultSchema) }),
         400: errorSchemas.validation,
-        404: errorSchemas.notFound,
+      },
+    },
+    invitations: {
+      method: "GET" as const,
+      path: "/api/supporters/invitations",
+      responses: {
+        200: z.array(invitationSchema),
       },
     },
     updateStatus: {
@@ -116,9 +348,206 @@ export const api = {
         404: errorSchemas.notFound,
       },
     },
+    // Only the member sets what a supporter may do
+    updateRole: {
+      method: "PATCH" as const,
+      path: "/api/supporters/:id/role",
+      input: z.object({
+        role: supporterRoleSchema,
+      }),
+      responses: {
+        200: z.custom<Supporter>(),
+        404: errorSchemas.notFound,
+      },
+    },
+    // The member renews a pending or expired invitation and the invitee is emailed a reminder
+    resend: {
+      method: "POST" as const,
+      path: "/api/supporters/:id/resend",
+      responses: {
+        200: z.custom<Supporter>(),
+        400: errorSchemas.validation,
+        404: errorSchemas.notFound,
+      },
+    },
+    // The member withdraws a pending or expired invitation
+    cancel: {
+      method: "DELETE" as const,
+      path: "/api/supporters/:id/invitation",
+      responses: {
+        200: z.object({ message: z.string() }),
+        400: errorSchemas.validation,
+        404: errorSchemas.notFound,
+      },
+    },
+    // The member revokes a supporter, or the supporter leaves the member's circle
+    remove: {
+      method: "DELETE" as const,
+      path: "/api/supporters/:id",
+      responses: {
+        200: z.object({ message: z.string() }),
+        404: errorSchemas.notFound,
+      },
+    },
+  },
+  // Journeys the logged-in user shares with other co-members
+  journeys: {
+    list: {
+      method: "GET" as const,
+      path: "/api/journeys",
+      responses: {
+        200: z.array(
+          journeySchema.extend({
+            members: z.array(z.object({ id: z.string(), name: z.string() })),
+          })
+        ),
+      },
+    },
+    // The creator is the first co-member
+    create: {
+      method: "POST" as const,
+      path: "/api/journeys",
+      input: insertJourneySchema,
+      responses: {
+        201: journeySchema,
+        400: errorSchemas.validation,
+      },
+    },
+    update: {
+      method: "PATCH" as const,
+      path: "/api/journeys/:id",
+      input: insertJourneySchema,
+      responses: {
+        200: journeySchema,
+        400: errorSchemas.validation,
+        404: errorSchemas.notFound,
+      },
+    },
+    // Any co-member can add someone with a verified account
+    addMember: {
+      method: "POST" as const,
+      path: "/api/journeys/:id/members",
+      input: z.object({
+        email: z.string().email(),
+      }),
+      responses: {
+        200: journeySchema,
+        400: errorSchemas.validation,
+        404: errorSchemas.notFound,
+      },
+    },
+    // Any co-member can remove another or leave; the last one cannot
+    removeMember: {
+      method: "DELETE" as const,
+      path: "/api/journeys/:id/members/:userId",
+      responses: {
+        200: z.object({ message: z.string() }),
+        400: errorSchemas.validation,
+        404: errorSchemas.notFound,
+      },
+    },
+  },
+  // People the logged-in user has blocked (ids are user ids)
+  blocks: {
+    list: {
+      method: "GET" as const,
+      path: "/api/blocks",
+      responses: {
+        200: z.array(z.object({ userId: z.string(), name: z.string() })),
+      },
+    },
+    // Also ends any supporter relationship between the two, in either direction
+    create: {
+      method: "POST" as const,
+      path: "/api/blocks",
+      input: z.object({
+        userId: z.string(),
+      }),
+      responses: {
+        201: z.object({ message: z.string() }),
+        400: errorSchemas.validation,
+        404: errorSchemas.notFound,
+      },
+    },
+    delete: {
+      method: "DELETE" as const,
+      path: "/api/blocks/:userId",
+      responses: {
+        200: z.object({ message: z.string() }),
+        404: errorSchemas.notFound,
+      },
+    },
+  },
+  // Abuse reports, reviewed by an admin with `npm run reports`
+  reports: {
+    // Name either a message (with its conversation) or a user
+    create: {
+      method: "POST" as const,
+      path: "/api/reports",
+      input: z.object({
+        reason: z.string().trim().min(1).max(1000),
+        userId: z.string().optional(),
+        conversationId: z.number().optional(),
+        messageId: z.string().optional(),
+      }),
+      responses: {
+        201: reportSchema,
+        400: errorSchemas.validation,
+        403: errorSchemas.forbidden,
+        404: errorSchemas.notFound,
+      },
+    },
+  },
+  // Named groups of the logged-in member's supporters, used as update audiences; like supporters,
+  // a shared journey's circles are listed with ?journeyId= and created with journeyId
+  circles: {
+    list: {
+      method: "GET" as const,
+      path: "/api/circles",
+      responses: {
+        200: z.array(circleSchema),
+      },
+    },
+    create: {
+      method: "POST" as const,
+      path: "/api/circles",
+      input: insertCircleSchema.extend({ journeyId: z.string().optional() }),
+      responses: {
+        201: circleSchema,
+        400: errorSchemas.validation,
+      },
+    },
+    update: {
+      method: "PATCH" as const,
+      path: "/api/circles/:id",
+      input: insertCircleSchema.partial(),
+      responses: {
+        200: circleSchema,
+        400: errorSchemas.validation,
+        404: errorSchemas.notFound,
+      },
+    },
+    delete: {
+      method: "DELETE" as const,
+      path: "/api/circles/:id",
+      responses: {
+        200: z.object({ message: z.string() }),
+        404: errorSchemas.notFound,
+      },
+    },
   },
 };
 
+// Conversation revisions travel as ETag / If-Match headers, e.g. "3"
+export function versionToETag(version: number | undefined): string {
+  return `"${version ?? 0}"`;
+}
+
+export function parseETag(header: string | undefined): number | undefined {
+  const match = header?.trim().match(/^(?:W\/)?"(\d+)"$/);
+  return match ? Number(match[1]) : undefined;
+}
+
 export function buildUrl(path: string, params?: Record<string, string | number>): string {
   let url = path;
   if (params) {
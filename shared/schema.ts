@@ -1,6 +1,12 @@
 import { z } from "zod";
 
 // === USER SCHEMA ===
+// Emailed single-use token awaiting use: hash only (the token itself is never stored)
+const pendingTokenSchema = z.object({
+  tokenHash: z.string(),
+  expiresAt: z.string(), // ISO String
+});
+
 export const insertUserSchema = z.object({
   email: z.string().email(),
   password: z.string().min(8).max(72), // bcrypt max 72 bytes, min 8 for security
@@ -16,6 +22,11 @@ export const userSchema = z.object({
   firstName: z.string().optional(),
   lastName: z.string().optional(),
   profileImageUrl: z.string().optional(),
+  emailVerified: z.boolean(),
+  emailVerification: pendingTokenSchema.optional(),
+  passwordReset: pendingTokenSchema.optional(),
+  // Users who can no longer invite this user, be invited by them, or reply to their messages
+  blockedUserIds: z.array(z.string()),
   createdAt: z.string().optional(), // ISO String
   updatedAt: z.string().optional(), // ISO String
 });
@@ -25,6 +36,13 @@ export type InsertUser = z.infer<typeof insertUserSchema>;
 
 // === CONVERSATION SCHEMA ===
 // Threaded conversation structure
+export type MessageEdit = { content: string; editedAt: string };
+
+// Quick responses a supporter can leave on a message instead of writing a reply
+export const reactionKindSchema = z.enum(["heart", "hug", "prayer", "strength", "celebrate"]);
+export type ReactionKind = z.infer<typeof reactionKindSchema>;
+export type MessageReaction = { kind: ReactionKind; userId: string; userName: string };
+
 export type Message = {
   id: string;
   authorId: string;
@@ -32,9 +50,25 @@ export type Message = {
   content: string;
   timestamp: string;
   images?: string[];
+  editedAt?: string;
+  editHistory?: MessageEdit[];
+  deleted?: boolean;
+  reactions?: MessageReaction[];
   replies?: Message[];
 };
 
+// A version of a message's content that was later edited; editedAt is when it was replaced
+export const messageEditSchema = z.object({
+  content: z.string(),
+  editedAt: z.string(),
+});
+
+export const messageReactionSchema = z.object({
+  kind: reactionKindSchema,
+  userId: z.string(),
+  userName: z.string(),
+});
+
 export const messageSchema: z.ZodType<Message> = z.object({
   id: z.string(),
   authorId: z.string(),
@@ -42,35 +76,57 @@ export const messageSchema: z.ZodType<Message> = z.object({
   content: z.string(),
   timestamp: z.string(),
   images: z.array(z.string()).optional(),
+  editedAt: z.string().optional(), // ISO String of the latest edit
+  editHistory: z.array(messageEditSchema).optional(), // Earlier versions, oldest first
+  // A deleted message that still has replies stays as a tombstone without content or images
+  deleted: z.boolean().optional(),
+  reactions: z.array(messageReactionSchema).optional(), // At most one of each kind per user
   replies: z.lazy(() => z.array(messageSchema)).optional(), // Recursive for replies
 });
 
+// Who besides the member may see a conversation; missing means every accepted supporter
+export const audienceSchema = z.object({
+  circleIds: z.array(z.number()),
+  supporterIds: z.array(z.string()), // User IDs of individual supporters
+});
+
 export const conversationSchema = z.object({
   id: z.number(), // Keeping number to match previous routes structure
-  memberId: z.string(), // Links to User.id (person seeking support)
+  memberId: z.string(), // User.id of the person seeking support, or a shared Journey.id
   title: z.string(),
   data: z.object({
     messages: z.array(messageSchema),
   }),
   createdAt: z.string(),
   memberName: z.string().optional(),
+  version: z.number().int().optional(), // Bumped on every write; missing on older files (= 0)
+  audience: audienceSchema.optional(),
+  archived: z.boolean().optional(), // Left off the dashboard unless asked for
 });
 
 export const insertConversationSchema = z.object({
   title: z.string(),
   initialMessage: z.string(),
+  audience: audienceSchema.optional(),
 });
 
+export type Audience = z.infer<typeof audienceSchema>;
 export type Conversation = z.infer<typeof conversationSchema>;
 export type InsertConversation = z.infer<typeof insertConversationSchema>;
 
 // === SUPPORTER SCHEMA ===
+// What an accepted supporter may do: read updates, also reply, or also post for the member
+export const supporterRoleSchema = z.enum(["viewer", "commenter", "caregiver"]);
+
 export const supporterSchema = z.object({
   id: z.number(),
-  memberId: z.string(),
+  memberId: z.string(), // The member's User.id, or a shared Journey.id
   supporterId: z.string(),
-  status: z.enum(["pending", "accepted", "rejected"]),
+  status: z.enum(["pending", "accepted", "rejected", "expired"]),
+  role: supporterRoleSchema,
+  message: z.string().optional(), // Personal note from the member sent with the invitation
   createdAt: z.string(),
+  expiresAt: z.string().optional(), // ISO String; set while the invitation is outstanding
 });
 
 export const insertSupporterSchema = z.object({
@@ -78,8 +134,93 @@ export const insertSupporterSchema = z.object({
 });
 
 export type Supporter = z.infer<typeof supporterSchema>;
+export type SupporterRole = z.infer<typeof supporterRoleSchema>;
 export type InsertSupporter = z.infer<typeof insertSupporterSchema>; // Helper for types, though invite uses email
 
+// === INVITATION SCHEMA ===
+// Emailed to someone without a verified account; the signup link makes them a pending supporter
+export const invitationSchema = z.object({
+  id: z.number(),
+  memberId: z.string(),
+  email: z.string().email(),
+  message: z.string().optional(), // Carried over to the supporter record when accepted
+  createdAt: z.string(),
+  expiresAt: z.string(), // ISO String
+});
+
+export type Invitation = z.infer<typeof invitationSchema>;
+
+// Outcome of inviting one contact from a bulk list; when previewing, "invited" means "would be"
+export const bulkInviteResultSchema = z.object({
+  label: z.string(), // The address, or the text of a row no address could be read from
+  email: z.string().optional(),
+  status: z.enum(["invited", "already_connected", "self", "blocked", "invalid"]),
+});
+
+export type BulkInviteResult = z.infer<typeof bulkInviteResultSchema>;
+
+// === CIRCLE SCHEMA ===
+// Named group of a member's supporters, e.g. "Family", that updates can be shared with
+export const circleSchema = z.object({
+  id: z.number(),
+  memberId: z.string(),
+  name: z.string(),
+  supporterIds: z.array(z.string()), // User IDs of the member's supporters
+  createdAt: z.string(),
+});
+
+export const insertCircleSchema = z.object({
+  name: z.string().trim().min(1).max(50),
+  supporterIds: z.array(z.string()),
+});
+
+export type Circle = z.infer<typeof circleSchema>;
+export type InsertCircle = z.infer<typeof insertCircleSchema>;
+
+// === JOURNEY SCHEMA ===
+// One journey shared by several members, e.g. two parents posting about their child. Its ID
+// stands in for a member's user ID as the memberId of conversations, supporters, invitations and
+// circles, so every co-member can post and manage the supporters of the whole journey
+export const journeySchema = z.object({
+  id: z.string(),
+  title: z.string(),
+  memberIds: z.array(z.string()), // User IDs of the co-members
+  createdAt: z.string(),
+});
+
+export const insertJourneySchema = z.object({
+  title: z.string().trim().min(1).max(100),
+});
+
+export type Journey = z.infer<typeof journeySchema>;
+export type InsertJourney = z.infer<typeof insertJourneySchema>;
+
+// === REPORT SCHEMA ===
+// A user or one of their messages flagged for admin review (npm run reports)
+export const reportSchema = z.object({
+  id: z.number(),
+  reporterId: z.string(),
+  reportedUserId: z.string(),
+  conversationId: z.number().optional(), // Both set when a message was reported
+  messageId: z.string().optional(),
+  reason: z.string(),
+  status: z.enum(["open", "resolved"]),
+  createdAt: z.string(),
+  resolvedAt: z.string().optional(),
+});
+
+export type Report = z.infer<typeof reportSchema>;
+
+// === READ MARKER SCHEMA ===
+// When a user last opened a conversation, for unread counts and read receipts; one per pair
+export const readMarkerSchema = z.object({
+  userId: z.string(),
+  conversationId: z.number(),
+  readAt: z.string(), // ISO String
+});
+
+export type ReadMarker = z.infer<typeof readMarkerSchema>;
+
 // === API REQUEST/RESPONSE TYPES ===
 export type CreateConversationRequest = InsertConversation;
 export type AddMessageRequest = { content: string; parentMessageId?: string; images?: string[] };
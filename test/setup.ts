@@ -2,6 +2,19 @@ import "@testing-library/jest-dom";
 import { beforeAll, afterAll, afterEach } from "vitest";
 import { cleanup } from "@testing-library/react";
 
+// Keep emails sent by routes registered without an explicit mailer out of ./outbox
+process.env.MAIL_TRANSPORT ??= "memory";
+
+// jsdom has no IntersectionObserver; framer-motion's whileInView needs one to mount
+globalThis.IntersectionObserver ??= class {
+  observe() {}
+  unobserve() {}
+  disconnect() {}
+  takeRecords() {
+    return [];
+  }
+} as unknown as typeof IntersectionObserver;
+
 beforeAll(() => {
   // Setup before all tests
 });